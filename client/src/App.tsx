@@ -1,42 +1,67 @@
-import { Switch, Route, useLocation } from "wouter";
+import { Switch, Route, Link, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/lib/theme-provider";
 import { ThemeToggle } from "@/components/theme-toggle";
+import { NotificationsMenu } from "@/components/notifications-menu";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/app-sidebar";
 import { AuthProvider, useAuth } from "@/lib/auth";
+import { useLiveUpdates } from "@/hooks/use-live-updates";
 import { Button } from "@/components/ui/button";
 import { LogOut } from "lucide-react";
+import { Permission } from "@shared/schema";
 
 import Dashboard from "@/pages/dashboard";
 import RegisterIncident from "@/pages/register-incident";
 import Cameras from "@/pages/cameras";
+import BusHealth from "@/pages/bus-health";
 import Equipment from "@/pages/equipment";
+import MyWork from "@/pages/my-work";
+import WorkOrders from "@/pages/work-orders";
+import Inventory from "@/pages/inventory";
+import Parts from "@/pages/parts";
 import WeeklyReport from "@/pages/weekly-report";
 import MonthlyReport from "@/pages/monthly-report";
+import RepairTimes from "@/pages/repair-times";
+import CustomReport from "@/pages/custom-report";
 import Login from "@/pages/login";
+import Kiosk from "@/pages/kiosk";
+import ChangePassword from "@/pages/change-password";
 import Users from "@/pages/users";
+import Sessions from "@/pages/sessions";
+import Jobs from "@/pages/jobs";
 import Buses from "@/pages/buses";
 import SettingsPage from "@/pages/settings";
+import Profile from "@/pages/profile";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const { isAdmin } = useAuth();
+  const { can } = useAuth();
 
   return (
     <Switch>
       <Route path="/" component={Dashboard} />
-      <Route path="/register" component={RegisterIncident} />
+      {can(Permission.INCIDENTS_CREATE) && <Route path="/register" component={RegisterIncident} />}
       <Route path="/cameras" component={Cameras} />
+      <Route path="/cameras/:busId" component={BusHealth} />
       <Route path="/equipment" component={Equipment} />
+      {can(Permission.INCIDENTS_UPDATE) && <Route path="/my-work" component={MyWork} />}
+      <Route path="/work-orders" component={WorkOrders} />
+      {can(Permission.INVENTORY_VIEW) && <Route path="/inventory" component={Inventory} />}
+      {can(Permission.INVENTORY_VIEW) && <Route path="/parts" component={Parts} />}
       <Route path="/reports/weekly" component={WeeklyReport} />
       <Route path="/reports/monthly" component={MonthlyReport} />
+      <Route path="/reports/custom" component={CustomReport} />
+      <Route path="/reports/repair-times" component={RepairTimes} />
       <Route path="/buses" component={Buses} />
-      {isAdmin && <Route path="/users" component={Users} />}
-      {isAdmin && <Route path="/settings" component={SettingsPage} />}
+      {can(Permission.USERS_MANAGE) && <Route path="/users" component={Users} />}
+      {can(Permission.USERS_MANAGE) && <Route path="/sessions" component={Sessions} />}
+      {can(Permission.USERS_MANAGE) && <Route path="/jobs" component={Jobs} />}
+      {can(Permission.EMAIL_MANAGE) && <Route path="/settings" component={SettingsPage} />}
+      <Route path="/profile" component={Profile} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -45,6 +70,7 @@ function Router() {
 function AuthenticatedApp() {
   const { user, logout, isLoading } = useAuth();
   const [, setLocation] = useLocation();
+  useLiveUpdates();
 
   const style = {
     "--sidebar-width": "16rem",
@@ -72,9 +98,14 @@ function AuthenticatedApp() {
           <header className="flex h-14 items-center justify-between gap-4 border-b px-4 bg-background sticky top-0 z-50">
             <SidebarTrigger data-testid="button-sidebar-toggle" />
             <div className="flex items-center gap-4">
-              <span className="text-sm text-muted-foreground hidden sm:inline">
+              <Link
+                href="/profile"
+                className="text-sm text-muted-foreground hover:text-foreground hidden sm:inline"
+                data-testid="link-profile"
+              >
                 {user?.name}
-              </span>
+              </Link>
+              <NotificationsMenu />
               <ThemeToggle />
               <Button
                 size="icon"
@@ -96,9 +127,14 @@ function AuthenticatedApp() {
 }
 
 function AppContent() {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
   const [location] = useLocation();
 
+  // Wall displays authenticate with a kiosk token instead of a login
+  if (location === "/kiosk") {
+    return <Kiosk />;
+  }
+
   if (isLoading) {
     return (
       <div className="flex items-center justify-center h-screen">
@@ -111,6 +147,10 @@ function AppContent() {
     return <Login />;
   }
 
+  if (user?.mustChangePassword === "true") {
+    return <ChangePassword />;
+  }
+
   return <AuthenticatedApp />;
 }
 
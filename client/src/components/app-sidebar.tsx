@@ -4,12 +4,20 @@ import {
   FileText,
   Camera,
   ClipboardList,
+  ClipboardCheck,
   Calendar,
   CalendarDays,
   Bus,
   Users,
   FolderOpen,
   Settings,
+  Briefcase,
+  Package,
+  Boxes,
+  KeyRound,
+  Timer,
+  Wrench,
+  CalendarRange,
 } from "lucide-react";
 import {
   Sidebar,
@@ -24,8 +32,16 @@ import {
   SidebarFooter,
 } from "@/components/ui/sidebar";
 import { useAuth } from "@/lib/auth";
+import { Permission, type PermissionKey } from "@shared/schema";
 
-const menuItems = [
+interface NavItem {
+  title: string;
+  url: string;
+  icon: React.ElementType;
+  permission?: PermissionKey;
+}
+
+const menuItems: NavItem[] = [
   {
     title: "Dashboard",
     url: "/",
@@ -35,6 +51,18 @@ const menuItems = [
     title: "Registrar Incidencia",
     url: "/register",
     icon: FileText,
+    permission: Permission.INCIDENTS_CREATE,
+  },
+  {
+    title: "Mis Trabajos",
+    url: "/my-work",
+    icon: Briefcase,
+    permission: Permission.INCIDENTS_UPDATE,
+  },
+  {
+    title: "Órdenes de Trabajo",
+    url: "/work-orders",
+    icon: ClipboardCheck,
   },
   {
     title: "Estado de Cámaras",
@@ -46,6 +74,18 @@ const menuItems = [
     url: "/equipment",
     icon: ClipboardList,
   },
+  {
+    title: "Inventario",
+    url: "/inventory",
+    icon: Package,
+    permission: Permission.INVENTORY_VIEW,
+  },
+  {
+    title: "Repuestos",
+    url: "/parts",
+    icon: Boxes,
+    permission: Permission.INVENTORY_VIEW,
+  },
   {
     title: "Gestión de Buses",
     url: "/buses",
@@ -53,7 +93,7 @@ const menuItems = [
   },
 ];
 
-const reportItems = [
+const reportItems: NavItem[] = [
   {
     title: "Reporte Semanal",
     url: "/reports/weekly",
@@ -64,11 +104,22 @@ const reportItems = [
     url: "/reports/monthly",
     icon: CalendarDays,
   },
+  {
+    title: "Reporte por Período",
+    url: "/reports/custom",
+    icon: CalendarRange,
+  },
+  {
+    title: "Tiempos de Reparación",
+    url: "/reports/repair-times",
+    icon: Wrench,
+  },
 ];
 
 export function AppSidebar() {
   const [location] = useLocation();
-  const { isAdmin } = useAuth();
+  const { can } = useAuth();
+  const visibleMenuItems = menuItems.filter((item) => !item.permission || can(item.permission));
 
   return (
     <Sidebar>
@@ -88,7 +139,7 @@ export function AppSidebar() {
           <SidebarGroupLabel>Principal</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
+              {visibleMenuItems.map((item) => (
                 <SidebarMenuItem key={item.title}>
                   <SidebarMenuButton
                     asChild
@@ -126,35 +177,67 @@ export function AppSidebar() {
             </SidebarMenu>
           </SidebarGroupContent>
         </SidebarGroup>
-        {isAdmin && (
+        {(can(Permission.USERS_MANAGE) || can(Permission.EMAIL_MANAGE)) && (
           <SidebarGroup>
             <SidebarGroupLabel>Administracion</SidebarGroupLabel>
             <SidebarGroupContent>
               <SidebarMenu>
-                <SidebarMenuItem>
-                  <SidebarMenuButton
-                    asChild
-                    isActive={location === "/users"}
-                    data-testid="link-users"
-                  >
-                    <Link href="/users">
-                      <Users className="h-4 w-4" />
-                      <span>Usuarios</span>
-                    </Link>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
-                <SidebarMenuItem>
-                  <SidebarMenuButton
-                    asChild
-                    isActive={location === "/settings"}
-                    data-testid="link-settings"
-                  >
-                    <Link href="/settings">
-                      <Settings className="h-4 w-4" />
-                      <span>Configuración</span>
-                    </Link>
-                  </SidebarMenuButton>
-                </SidebarMenuItem>
+                {can(Permission.USERS_MANAGE) && (
+                  <SidebarMenuItem>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={location === "/users"}
+                      data-testid="link-users"
+                    >
+                      <Link href="/users">
+                        <Users className="h-4 w-4" />
+                        <span>Usuarios</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                )}
+                {can(Permission.USERS_MANAGE) && (
+                  <SidebarMenuItem>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={location === "/sessions"}
+                      data-testid="link-sessions"
+                    >
+                      <Link href="/sessions">
+                        <KeyRound className="h-4 w-4" />
+                        <span>Sesiones</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                )}
+                {can(Permission.USERS_MANAGE) && (
+                  <SidebarMenuItem>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={location === "/jobs"}
+                      data-testid="link-jobs"
+                    >
+                      <Link href="/jobs">
+                        <Timer className="h-4 w-4" />
+                        <span>Tareas</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                )}
+                {can(Permission.EMAIL_MANAGE) && (
+                  <SidebarMenuItem>
+                    <SidebarMenuButton
+                      asChild
+                      isActive={location === "/settings"}
+                      data-testid="link-settings"
+                    >
+                      <Link href="/settings">
+                        <Settings className="h-4 w-4" />
+                        <span>Configuración</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                )}
               </SidebarMenu>
             </SidebarGroupContent>
           </SidebarGroup>
@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Camera, Video, Users, ArrowRight } from "lucide-react";
-import { CameraChannelLabels } from "@shared/schema";
+import { Camera, Video, Users, ArrowRight, Repeat } from "lucide-react";
+import { CameraChannelLabels, RecurringFailureReasonLabels } from "@shared/schema";
+import type { RecurringFailure } from "@shared/schema";
 import {
   Tooltip,
   TooltipContent,
@@ -15,6 +16,8 @@ interface CameraStatus {
 interface CameraGridProps {
   busNumber: string;
   cameras: CameraStatus[];
+  // Flags for this bus; camera channels among them are highlighted
+  recurringFailures?: RecurringFailure[];
 }
 
 const cameraIcons: Record<string, React.ElementType> = {
@@ -30,7 +33,7 @@ const statusLabels: Record<string, string> = {
   faulty: "Dañada - Requiere reparación o reemplazo",
 };
 
-export function CameraGrid({ busNumber, cameras }: CameraGridProps) {
+export function CameraGrid({ busNumber, cameras, recurringFailures = [] }: CameraGridProps) {
   const getStatusColor = (status: string) => {
     switch (status) {
       case "operational":
@@ -66,6 +69,7 @@ export function CameraGrid({ busNumber, cameras }: CameraGridProps) {
         <div className="grid grid-cols-2 gap-3">
           {cameras.map((camera) => {
             const Icon = cameraIcons[camera.channel] || Camera;
+            const recurring = recurringFailures.find((f) => f.equipmentType === "camera" && f.cameraChannel === camera.channel);
             return (
               <div
                 key={camera.channel}
@@ -90,6 +94,23 @@ export function CameraGrid({ busNumber, cameras }: CameraGridProps) {
                     {CameraChannelLabels[camera.channel]}
                   </p>
                 </div>
+                {recurring && (
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <Repeat
+                        className="h-4 w-4 text-orange-500 cursor-help shrink-0"
+                        data-testid={`recurring-failure-${busNumber}-${camera.channel}`}
+                      />
+                    </TooltipTrigger>
+                    <TooltipContent>
+                      <p className="font-medium">Falla recurrente</p>
+                      <p className="text-xs text-muted-foreground">
+                        {recurring.reasons.map((r) => RecurringFailureReasonLabels[r] || r).join(" · ")}
+                        {` · ${recurring.incidentCount} incidencia(s)`}
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                )}
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <div className={`h-3 w-3 rounded-full cursor-help ${getStatusColor(camera.status)}`} />
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import {
+  format,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  subWeeks,
+  subMonths,
+  subDays,
+} from "date-fns";
+import { es } from "date-fns/locale";
+import type { DateRange } from "react-day-picker";
+import { CalendarRange } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+export interface DateRangeValue {
+  from: Date;
+  to: Date;
+}
+
+const weekOptions = { weekStartsOn: 1 } as const;
+
+export const dateRangePresets: Array<{ label: string; range: () => DateRangeValue }> = [
+  { label: "Esta semana", range: () => ({ from: startOfWeek(new Date(), weekOptions), to: endOfWeek(new Date(), weekOptions) }) },
+  {
+    label: "Semana pasada",
+    range: () => {
+      const lastWeek = subWeeks(new Date(), 1);
+      return { from: startOfWeek(lastWeek, weekOptions), to: endOfWeek(lastWeek, weekOptions) };
+    },
+  },
+  { label: "Este mes", range: () => ({ from: startOfMonth(new Date()), to: endOfMonth(new Date()) }) },
+  {
+    label: "Mes pasado",
+    range: () => {
+      const lastMonth = subMonths(new Date(), 1);
+      return { from: startOfMonth(lastMonth), to: endOfMonth(lastMonth) };
+    },
+  },
+  { label: "Últimos 30 días", range: () => ({ from: subDays(new Date(), 29), to: new Date() }) },
+  { label: "Últimos 90 días", range: () => ({ from: subDays(new Date(), 89), to: new Date() }) },
+];
+
+export function DateRangePicker({ value, onChange }: { value: DateRangeValue; onChange: (range: DateRangeValue) => void }) {
+  const [open, setOpen] = useState(false);
+  // Range being picked, started fresh on each open; only complete ranges
+  // are passed to onChange
+  const [draft, setDraft] = useState<DateRange | undefined>();
+
+  const select = (range: DateRangeValue) => {
+    onChange(range);
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (next) setDraft(undefined);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start font-normal min-w-64" data-testid="button-date-range">
+          <CalendarRange className="h-4 w-4 mr-2" />
+          {format(value.from, "d MMM yyyy", { locale: es })} – {format(value.to, "d MMM yyyy", { locale: es })}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <div className="flex flex-col sm:flex-row">
+          <div className="flex sm:flex-col gap-1 p-3 border-b sm:border-b-0 sm:border-r flex-wrap">
+            {dateRangePresets.map((preset) => (
+              <Button
+                key={preset.label}
+                variant="ghost"
+                size="sm"
+                className="justify-start"
+                onClick={() => select(preset.range())}
+              >
+                {preset.label}
+              </Button>
+            ))}
+          </div>
+          <Calendar
+            mode="range"
+            locale={es}
+            weekStartsOn={1}
+            numberOfMonths={2}
+            defaultMonth={value.from}
+            selected={draft}
+            onSelect={(range) => {
+              setDraft(range);
+              if (range?.from && range.to) {
+                select({ from: range.from, to: range.to });
+              }
+            }}
+            disabled={{ after: new Date() }}
+          />
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,337 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { FileText, Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { DocumentScopeLabels } from "@shared/schema";
+import type { DocumentType } from "@shared/schema";
+
+const emptyForm = {
+  key: "",
+  label: "",
+  scope: "bus",
+  required: false,
+  expires: false,
+  alertOffsets: "",
+  sortOrder: "0",
+};
+
+// "30, 15, 5, 0" -> [30, 15, 5, 0]; duplicates and non-numbers are dropped.
+function parseOffsets(value: string): number[] {
+  const offsets = value
+    .split(",")
+    .map((v) => parseInt(v.trim()))
+    .filter((n) => !isNaN(n) && n >= 0);
+  return Array.from(new Set(offsets)).sort((a, b) => b - a);
+}
+
+function slugify(label: string) {
+  return label
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+export function DocumentTypesCard() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingType, setEditingType] = useState<DocumentType | null>(null);
+  const [deletingType, setDeletingType] = useState<DocumentType | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: docTypes, isLoading } = useQuery<DocumentType[]>({
+    queryKey: ["/api/document-types"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/document-types"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/documents/expiring"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const body = {
+        label: data.label,
+        scope: data.scope,
+        required: data.required ? "true" : "false",
+        expires: data.expires ? "true" : "false",
+        alertOffsets: data.expires ? parseOffsets(data.alertOffsets) : [],
+        sortOrder: parseInt(data.sortOrder) || 0,
+      };
+      const response = editingType
+        ? await apiRequest("PATCH", `/api/document-types/${editingType.id}`, body)
+        : await apiRequest("POST", "/api/document-types", { ...body, key: data.key });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: editingType ? "Tipo de documento actualizado" : "Tipo de documento creado" });
+      invalidate();
+      closeDialog();
+    },
+    onError: (err: any) => {
+      const msg = err?.message?.includes("409") ? "Ya existe un tipo con esa clave." : "No se pudo guardar el tipo de documento.";
+      toast({ title: "Error", description: msg, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/document-types/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Tipo de documento eliminado" });
+      invalidate();
+      setDeletingType(null);
+    },
+    onError: (err: any) => {
+      const msg = err?.message?.includes("409")
+        ? "Hay documentos cargados con este tipo."
+        : "No se pudo eliminar el tipo de documento.";
+      toast({ title: "Error", description: msg, variant: "destructive" });
+      setDeletingType(null);
+    },
+  });
+
+  const openCreate = () => {
+    setEditingType(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (docType: DocumentType) => {
+    setEditingType(docType);
+    setFormData({
+      key: docType.key,
+      label: docType.label,
+      scope: docType.scope,
+      required: docType.required === "true",
+      expires: docType.expires === "true",
+      alertOffsets: docType.alertOffsets.join(", "),
+      sortOrder: String(docType.sortOrder),
+    });
+    setDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingType(null);
+    setFormData(emptyForm);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-base flex items-center gap-2">
+              <FileText className="h-4 w-4" />
+              Tipos de Documento
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Documentos por bus y por conductor, y con cuántos días de anticipación se alerta su vencimiento
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" className="gap-1" onClick={openCreate} data-testid="button-add-document-type">
+            <Plus className="h-3.5 w-3.5" />
+            Nuevo
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto mb-2" />
+            <p className="text-sm">Cargando tipos de documento...</p>
+          </div>
+        ) : !docTypes || docTypes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No hay tipos de documento configurados</p>
+        ) : (
+          <div className="space-y-2">
+            {docTypes.map((docType) => (
+              <div
+                key={docType.id}
+                className="flex items-center justify-between px-4 py-3 rounded-lg border"
+                data-testid={`row-document-type-${docType.key}`}
+              >
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <p className="font-medium text-sm">{docType.label}</p>
+                    <Badge variant="secondary" className="text-[10px]">{DocumentScopeLabels[docType.scope] || docType.scope}</Badge>
+                    {docType.required === "true" && (
+                      <Badge variant="outline" className="text-[10px]">Obligatorio</Badge>
+                    )}
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {docType.expires !== "true"
+                      ? "Sin vencimiento"
+                      : docType.alertOffsets.length === 0
+                        ? "Vence · sin alertas"
+                        : `Alertas: ${docType.alertOffsets.map((d) => (d === 0 ? "al vencer" : `${d}d`)).join(", ")}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEdit(docType)} title="Editar">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => setDeletingType(docType)}
+                    title="Eliminar"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingType ? "Editar Tipo de Documento" : "Nuevo Tipo de Documento"}</DialogTitle>
+            <DialogDescription>
+              Las alertas se envían a los destinatarios activos cuando faltan los días indicados para el vencimiento.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="doc-type-label">Nombre</Label>
+              <Input
+                id="doc-type-label"
+                value={formData.label}
+                onChange={(e) => setFormData({
+                  ...formData,
+                  label: e.target.value,
+                  key: editingType ? formData.key : slugify(e.target.value),
+                })}
+                data-testid="input-document-type-label"
+              />
+              <p className="text-xs text-muted-foreground">Clave: {formData.key || "—"}</p>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Aplica a</Label>
+                <Select value={formData.scope} onValueChange={(value) => setFormData({ ...formData, scope: value })}>
+                  <SelectTrigger data-testid="select-document-type-scope">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(DocumentScopeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="doc-type-order">Orden</Label>
+                <Input
+                  id="doc-type-order"
+                  type="number"
+                  value={formData.sortOrder}
+                  onChange={(e) => setFormData({ ...formData, sortOrder: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="doc-type-required">Obligatorio</Label>
+              <Switch
+                id="doc-type-required"
+                checked={formData.required}
+                onCheckedChange={(checked) => setFormData({ ...formData, required: checked })}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="doc-type-expires">Tiene vencimiento</Label>
+              <Switch
+                id="doc-type-expires"
+                checked={formData.expires}
+                onCheckedChange={(checked) => setFormData({ ...formData, expires: checked })}
+              />
+            </div>
+            {formData.expires && (
+              <div className="space-y-2">
+                <Label htmlFor="doc-type-offsets">Días de aviso</Label>
+                <Input
+                  id="doc-type-offsets"
+                  placeholder="30, 15, 5, 0"
+                  value={formData.alertOffsets}
+                  onChange={(e) => setFormData({ ...formData, alertOffsets: e.target.value })}
+                  data-testid="input-document-type-offsets"
+                />
+                <p className="text-xs text-muted-foreground">Separados por coma. 0 avisa el día del vencimiento.</p>
+              </div>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate(formData)}
+              disabled={!formData.label || !formData.key || saveMutation.isPending}
+              data-testid="button-save-document-type"
+            >
+              {saveMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingType} onOpenChange={(open) => !open && setDeletingType(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>¿Eliminar tipo de documento?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deletingType?.label} dejará de aparecer en la ficha de los buses. Solo se puede eliminar si no tiene documentos cargados.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => deletingType && deleteMutation.mutate(deletingType.id)}
+            >
+              Eliminar
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,79 @@
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { HardDrive, Radio, Database, Cable } from "lucide-react";
+import { EquipmentTypeLabels } from "@shared/schema";
+
+interface EquipmentHealthItem {
+  equipmentType: string;
+  status: string;
+  updatedAt: string | null;
+}
+
+interface EquipmentHealthProps {
+  busNumber: string;
+  equipment: EquipmentHealthItem[];
+}
+
+const equipmentIcons: Record<string, React.ElementType> = {
+  dvr: HardDrive,
+  gps: Radio,
+  hard_drive: Database,
+  cable: Cable,
+};
+
+const statusLabels: Record<string, string> = {
+  operational: "Operativo",
+  misaligned: "Requiere revisión",
+  faulty: "Dañado",
+};
+
+const statusColors: Record<string, string> = {
+  operational: "bg-green-500",
+  misaligned: "bg-amber-500",
+  faulty: "bg-red-500",
+};
+
+const statusBgColors: Record<string, string> = {
+  operational: "bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800",
+  misaligned: "bg-amber-50 dark:bg-amber-900/20 border-amber-200 dark:border-amber-800",
+  faulty: "bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800",
+};
+
+export function EquipmentHealth({ busNumber, equipment }: EquipmentHealthProps) {
+  return (
+    <Card data-testid={`card-equipment-health-${busNumber}`}>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base font-medium">Equipos del Bus {busNumber}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-3">
+          {equipment.map((item) => {
+            const Icon = equipmentIcons[item.equipmentType] || HardDrive;
+            return (
+              <div
+                key={item.equipmentType}
+                className={`flex items-center gap-3 p-3 rounded-md border ${statusBgColors[item.status] || "bg-gray-50 dark:bg-gray-900/20 border-gray-200 dark:border-gray-800"}`}
+                data-testid={`equipment-status-${busNumber}-${item.equipmentType}`}
+              >
+                <div className="flex items-center justify-center h-8 w-8 rounded-md bg-background">
+                  <Icon className="h-4 w-4 text-muted-foreground" />
+                </div>
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">
+                    {EquipmentTypeLabels[item.equipmentType] || item.equipmentType}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {statusLabels[item.status] || item.status}
+                    {item.updatedAt && ` · ${formatDistanceToNow(new Date(item.updatedAt), { addSuffix: true, locale: es })}`}
+                  </p>
+                </div>
+                <div className={`h-3 w-3 rounded-full ${statusColors[item.status] || "bg-gray-500"}`} />
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,195 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Camera, ImagePlus, Play, Trash2, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AttachmentStageLabels, EvidenceMimeTypes, Permission } from "@shared/schema";
+import type { IncidentAttachment } from "@shared/schema";
+
+export const EVIDENCE_ACCEPT = EvidenceMimeTypes.join(",");
+
+/** Uploads photos/clips to an incident; throws with the server's message on failure. */
+export async function uploadAttachments(incidentId: string, stage: string, files: File[]) {
+  const formData = new FormData();
+  formData.append("stage", stage);
+  files.forEach((file) => formData.append("files", file));
+  const res = await fetch(`/api/incidents/${incidentId}/attachments`, {
+    method: "POST", body: formData, credentials: "include",
+  });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || "No se pudieron subir los archivos.");
+  }
+  return res.json() as Promise<IncidentAttachment[]>;
+}
+
+/**
+ * Hidden file inputs behind "take photo" and "choose files" buttons. The
+ * capture input opens the rear camera on phones; desktops fall back to a
+ * file picker.
+ */
+export function EvidencePicker({ onFiles, disabled }: { onFiles: (files: File[]) => void; disabled?: boolean }) {
+  const captureRef = useRef<HTMLInputElement>(null);
+  const pickRef = useRef<HTMLInputElement>(null);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (files.length > 0) onFiles(files);
+    e.target.value = "";
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      <input ref={captureRef} type="file" accept={EVIDENCE_ACCEPT} capture="environment" className="hidden" onChange={handleChange} />
+      <input ref={pickRef} type="file" accept={EVIDENCE_ACCEPT} multiple className="hidden" onChange={handleChange} />
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => captureRef.current?.click()}
+        disabled={disabled}
+        data-testid="button-capture-evidence"
+      >
+        <Camera className="h-4 w-4 mr-2" />
+        Tomar foto o video
+      </Button>
+      <Button
+        type="button"
+        size="sm"
+        variant="outline"
+        onClick={() => pickRef.current?.click()}
+        disabled={disabled}
+        data-testid="button-pick-evidence"
+      >
+        <ImagePlus className="h-4 w-4 mr-2" />
+        Elegir archivos
+      </Button>
+    </div>
+  );
+}
+
+/**
+ * Evidence gallery for an incident, grouped by before/after. New uploads
+ * are tagged with the selected stage, `defaultStage` at first.
+ */
+export function IncidentAttachments({ incidentId, defaultStage }: { incidentId: string; defaultStage: string }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [stage, setStage] = useState(defaultStage);
+
+  const { data: attachments, isLoading } = useQuery<IncidentAttachment[]>({
+    queryKey: ["/api/incidents", incidentId, "attachments"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/incidents", incidentId, "attachments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/incidents", incidentId, "history"] });
+  };
+
+  const uploadMutation = useMutation({
+    mutationFn: (files: File[]) => uploadAttachments(incidentId, stage, files),
+    onSuccess: (created) => {
+      toast({ title: created.length > 1 ? "Archivos agregados" : "Archivo agregado" });
+      invalidate();
+    },
+    onError: (err: Error) => {
+      toast({ title: "Error", description: err.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/incidents/${incidentId}/attachments/${id}`),
+    onSuccess: () => {
+      toast({ title: "Archivo eliminado" });
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo eliminar el archivo.", variant: "destructive" });
+    },
+  });
+
+  const stages = Object.keys(AttachmentStageLabels)
+    .map((key) => ({ key, items: (attachments || []).filter((a) => a.stage === key) }))
+    .filter((group) => group.items.length > 0);
+
+  return (
+    <div className="space-y-3" data-testid="incident-attachments">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Cargando evidencia...</p>
+      ) : stages.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Sin fotos ni videos</p>
+      ) : (
+        stages.map((group) => (
+          <div key={group.key} className="space-y-1">
+            <p className="text-xs font-medium text-muted-foreground">{AttachmentStageLabels[group.key]}</p>
+            <div className="grid grid-cols-4 gap-2">
+              {group.items.map((attachment) => {
+                const base = `/api/incidents/${incidentId}/attachments/${attachment.id}`;
+                const isVideo = attachment.mimeType.startsWith("video/");
+                return (
+                  <div key={attachment.id} className="relative group aspect-square" data-testid={`attachment-${attachment.id}`}>
+                    <a
+                      href={`${base}/file`}
+                      target="_blank"
+                      rel="noreferrer"
+                      title={attachment.fileName}
+                      className="block h-full w-full overflow-hidden rounded-md border bg-muted"
+                    >
+                      {attachment.thumbnailPath ? (
+                        <img src={`${base}/thumbnail`} alt={attachment.fileName} loading="lazy" className="h-full w-full object-cover" />
+                      ) : (
+                        <span className="flex h-full w-full items-center justify-center p-1 text-center text-[10px] text-muted-foreground break-all">
+                          {attachment.fileName}
+                        </span>
+                      )}
+                      {isVideo && (
+                        <span className="absolute inset-0 flex items-center justify-center">
+                          <Play className="h-6 w-6 text-white drop-shadow" />
+                        </span>
+                      )}
+                    </a>
+                    {can(Permission.ATTACHMENTS_DELETE) && (
+                      <Button
+                        size="icon"
+                        variant="destructive"
+                        className="absolute top-1 right-1 h-6 w-6 opacity-0 group-hover:opacity-100"
+                        onClick={() => deleteMutation.mutate(attachment.id)}
+                        disabled={deleteMutation.isPending}
+                        title="Eliminar"
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))
+      )}
+      {can(Permission.ATTACHMENTS_UPLOAD) && (
+        <div className="flex flex-wrap items-center gap-2">
+          <div className="flex rounded-md border p-0.5">
+            {Object.entries(AttachmentStageLabels).map(([key, label]) => (
+              <Button
+                key={key}
+                type="button"
+                size="sm"
+                variant={stage === key ? "secondary" : "ghost"}
+                className="h-7 px-2"
+                onClick={() => setStage(key)}
+                data-testid={`button-attachment-stage-${key}`}
+              >
+                {label}
+              </Button>
+            ))}
+          </div>
+          <EvidencePicker onFiles={(files) => uploadMutation.mutate(files)} disabled={uploadMutation.isPending} />
+          {uploadMutation.isPending && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Lock, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Permission } from "@shared/schema";
+import type { IncidentComment } from "@shared/schema";
+
+interface MentionableUser {
+  id: string;
+  name: string;
+  username: string;
+}
+
+// "@partial" being typed right before the caret, if any
+const mentionQuery = (text: string, caret: number) => text.slice(0, caret).match(/(?:^|\s)@([\w.-]*)$/)?.[1];
+
+function CommentBody({ body }: { body: string }) {
+  return (
+    <p className="text-sm whitespace-pre-wrap break-words">
+      {body.split(/(@[\w.-]+)/g).map((part, index) =>
+        part.startsWith("@")
+          ? <span key={index} className="font-medium text-primary">{part}</span>
+          : part
+      )}
+    </p>
+  );
+}
+
+/**
+ * Chronological comment thread of an incident with a composer that
+ * autocompletes @mentions. Internal notes can only be written (and are only
+ * returned to) users who can update incidents.
+ */
+export function IncidentComments({ incidentId }: { incidentId: string }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [body, setBody] = useState("");
+  const [internal, setInternal] = useState(false);
+  const [mention, setMention] = useState<string | undefined>();
+
+  const { data: comments, isLoading } = useQuery<IncidentComment[]>({
+    queryKey: ["/api/incidents", incidentId, "comments"],
+  });
+
+  const { data: users } = useQuery<MentionableUser[]>({
+    queryKey: ["/api/users/mentionable"],
+    enabled: can(Permission.INCIDENTS_COMMENT),
+  });
+
+  const addComment = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/incidents/${incidentId}/comments`, { body, internal });
+      return res.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      setMention(undefined);
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents", incidentId, "comments"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo guardar el comentario.", variant: "destructive" });
+    },
+  });
+
+  const suggestions = mention === undefined
+    ? []
+    : (users || [])
+      .filter((u) => u.username.toLowerCase().startsWith(mention.toLowerCase()) || u.name.toLowerCase().includes(mention.toLowerCase()))
+      .slice(0, 5);
+
+  const updateBody = (value: string, caret: number) => {
+    setBody(value);
+    setMention(mentionQuery(value, caret));
+  };
+
+  const insertMention = (user: MentionableUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? body.length;
+    const before = body.slice(0, caret).replace(/@([\w.-]*)$/, `@${user.username} `);
+    setBody(before + body.slice(caret));
+    setMention(undefined);
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  return (
+    <div className="space-y-3" data-testid="incident-comments">
+      {isLoading ? (
+        <p className="text-sm text-muted-foreground">Cargando comentarios...</p>
+      ) : !comments || comments.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Sin comentarios</p>
+      ) : (
+        <ol className="space-y-2 max-h-64 overflow-y-auto pr-1">
+          {comments.map((comment) => (
+            <li
+              key={comment.id}
+              className={`rounded-md border px-3 py-2 ${comment.internal === "true" ? "bg-amber-50 border-amber-200 dark:bg-amber-900/20 dark:border-amber-800" : ""}`}
+              data-testid={`comment-${comment.id}`}
+            >
+              <div className="flex flex-wrap items-center gap-2 mb-1">
+                <span className="text-sm font-medium">{comment.authorName}</span>
+                <span className="text-xs text-muted-foreground">
+                  {comment.createdAt ? format(new Date(comment.createdAt), "dd MMM yyyy HH:mm", { locale: es }) : "-"}
+                </span>
+                {comment.internal === "true" && (
+                  <Badge variant="outline" className="text-[10px] gap-1">
+                    <Lock className="h-3 w-3" />
+                    Interna
+                  </Badge>
+                )}
+              </div>
+              <CommentBody body={comment.body} />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {can(Permission.INCIDENTS_COMMENT) && (
+        <div className="space-y-2">
+          <div className="relative">
+            <Textarea
+              ref={textareaRef}
+              value={body}
+              onChange={(e) => updateBody(e.target.value, e.target.selectionStart)}
+              onKeyDown={(e) => {
+                if (e.key === "Escape" && mention !== undefined) {
+                  e.stopPropagation();
+                  setMention(undefined);
+                }
+              }}
+              placeholder="Escriba un comentario... use @usuario para mencionar"
+              className="resize-none"
+              rows={2}
+              data-testid="textarea-comment"
+            />
+            {suggestions.length > 0 && (
+              <div className="absolute left-0 right-0 top-full z-10 mt-1 rounded-md border bg-popover shadow-md">
+                {suggestions.map((user) => (
+                  <button
+                    key={user.id}
+                    type="button"
+                    className="flex w-full items-center justify-between px-3 py-1.5 text-sm hover:bg-accent"
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      insertMention(user);
+                    }}
+                  >
+                    <span>{user.name}</span>
+                    <span className="text-xs text-muted-foreground">@{user.username}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            {can(Permission.INCIDENTS_VIEW_INTERNAL) ? (
+              <div className="flex items-center gap-2">
+                <Switch id="comment-internal" checked={internal} onCheckedChange={setInternal} data-testid="switch-comment-internal" />
+                <Label htmlFor="comment-internal" className="text-sm font-normal">Nota interna del taller</Label>
+              </div>
+            ) : <span />}
+            <Button
+              size="sm"
+              onClick={() => addComment.mutate()}
+              disabled={!body.trim() || addComment.isPending}
+              data-testid="button-add-comment"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {addComment.isPending ? "Enviando..." : "Comentar"}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@ import { formatDistanceToNow } from "date-fns";
 import { es } from "date-fns/locale";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { StatusBadge, EquipmentTypeBadge } from "@/components/status-badge";
+import { StatusBadge, EquipmentTypeBadge, PriorityBadge, DueLabel } from "@/components/status-badge";
 import { CameraChannelLabels, type Incident } from "@shared/schema";
 import { Bus } from "lucide-react";
 
@@ -61,6 +61,7 @@ export function IncidentList({
                       </span>
                     )}
                     <EquipmentTypeBadge type={incident.equipmentType} size="sm" />
+                    <PriorityBadge priority={incident.priority} size="sm" />
                     {incident.cameraChannel && (
                       <span className="text-xs text-muted-foreground">
                         {incident.cameraChannel.toUpperCase()} - {CameraChannelLabels[incident.cameraChannel]}
@@ -87,6 +88,7 @@ export function IncidentList({
                         <span>{incident.reporter}</span>
                       </>
                     )}
+                    <DueLabel incident={incident} />
                   </div>
                 </div>
                 <StatusBadge status={incident.status} size="sm" />
@@ -0,0 +1,82 @@
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { PlusCircle, ArrowRightLeft, MessageSquare, UserCog, Camera, Paperclip, Flag, Siren, ClipboardCheck, RotateCcw } from "lucide-react";
+import { StatusBadge, PriorityBadge } from "@/components/status-badge";
+import { AttachmentStageLabels } from "@shared/schema";
+import type { IncidentEvent } from "@shared/schema";
+
+interface IncidentTimelineProps {
+  events: IncidentEvent[];
+}
+
+const eventConfig: Record<string, { label: string; icon: React.ElementType; className: string }> = {
+  created: { label: "Incidencia registrada", icon: PlusCircle, className: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-400" },
+  status_change: { label: "Cambio de estado", icon: ArrowRightLeft, className: "bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400" },
+  note: { label: "Nota agregada", icon: MessageSquare, className: "bg-slate-100 text-slate-700 dark:bg-slate-900/30 dark:text-slate-400" },
+  reassignment: { label: "Reasignación", icon: UserCog, className: "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-400" },
+  equipment_status: { label: "Estado del equipo", icon: Camera, className: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-400" },
+  attachment: { label: "Evidencia agregada", icon: Paperclip, className: "bg-cyan-100 text-cyan-700 dark:bg-cyan-900/30 dark:text-cyan-400" },
+  priority_change: { label: "Cambio de prioridad", icon: Flag, className: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-400" },
+  escalation: { label: "Escalada por vencimiento", icon: Siren, className: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-400" },
+  reopened: { label: "Incidencia reabierta", icon: RotateCcw, className: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-400" },
+  work_order: { label: "Orden de trabajo", icon: ClipboardCheck, className: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-400" },
+};
+
+export function IncidentTimeline({ events }: IncidentTimelineProps) {
+  if (events.length === 0) {
+    return <p className="text-sm text-muted-foreground">Sin historial registrado</p>;
+  }
+
+  return (
+    <ol className="relative border-l pl-5 space-y-4" data-testid="incident-timeline">
+      {events.map((event) => {
+        const config = eventConfig[event.eventType] || eventConfig.note;
+        const Icon = config.icon;
+        return (
+          <li key={event.id} className="relative" data-testid={`timeline-event-${event.id}`}>
+            <span className={`absolute -left-[31px] flex h-5 w-5 items-center justify-center rounded-full ${config.className}`}>
+              <Icon className="h-3 w-3" />
+            </span>
+            <div className="flex flex-wrap items-center gap-2">
+              <p className="text-sm font-medium">{config.label}</p>
+              {event.eventType === "reassignment" ? (
+                <span className="text-xs text-muted-foreground">
+                  {event.fromValue || "Sin asignar"} → {event.toValue || "Sin asignar"}
+                </span>
+              ) : event.eventType === "priority_change" ? (
+                <>
+                  {event.fromValue && <PriorityBadge priority={event.fromValue} size="sm" />}
+                  <span className="text-xs text-muted-foreground">→</span>
+                  {event.toValue && <PriorityBadge priority={event.toValue} size="sm" />}
+                </>
+              ) : event.eventType === "work_order" ? (
+                <span className="text-xs text-muted-foreground">
+                  {event.toValue ? `Agregada a ${event.toValue}` : `Quitada de ${event.fromValue}`}
+                </span>
+              ) : event.eventType === "attachment" ? (
+                <span className="text-xs text-muted-foreground">
+                  {AttachmentStageLabels[event.toValue || ""] || event.toValue}
+                </span>
+              ) : (
+                <>
+                  {event.fromValue && <StatusBadge status={event.fromValue} size="sm" />}
+                  {event.fromValue && event.toValue && <span className="text-xs text-muted-foreground">→</span>}
+                  {event.toValue && <StatusBadge status={event.toValue} size="sm" />}
+                </>
+              )}
+            </div>
+            {event.notes && (
+              <p className="text-sm text-muted-foreground mt-1">{event.notes}</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-1">
+              {event.createdAt
+                ? format(new Date(event.createdAt), "dd MMM yyyy HH:mm", { locale: es })
+                : "-"}
+              {event.userName && ` • ${event.userName}`}
+            </p>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
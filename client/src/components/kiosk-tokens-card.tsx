@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Monitor, Plus, Trash2, Copy, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { KioskToken } from "@shared/schema";
+
+export function KioskTokensCard() {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  // Board address for the token just created; the token is not shown again
+  const [kioskUrl, setKioskUrl] = useState<string | null>(null);
+
+  const { data: tokens, isLoading } = useQuery<KioskToken[]>({
+    queryKey: ["/api/kiosk-tokens"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (tokenName: string) => {
+      const res = await apiRequest("POST", "/api/kiosk-tokens", { name: tokenName });
+      return res.json() as Promise<KioskToken & { token: string }>;
+    },
+    onSuccess: (created) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/kiosk-tokens"] });
+      setKioskUrl(`${window.location.origin}/kiosk#token=${encodeURIComponent(created.token)}`);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo crear el acceso de pantalla.", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest("DELETE", `/api/kiosk-tokens/${id}`),
+    onSuccess: () => {
+      toast({ title: "Acceso revocado", description: "La pantalla dejará de actualizarse." });
+      queryClient.invalidateQueries({ queryKey: ["/api/kiosk-tokens"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo revocar el acceso.", variant: "destructive" });
+    },
+  });
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setName("");
+    setKioskUrl(null);
+  };
+
+  const copyUrl = async () => {
+    if (!kioskUrl) return;
+    try {
+      await navigator.clipboard.writeText(kioskUrl);
+      toast({ title: "Enlace copiado" });
+    } catch {
+      toast({ title: "Error", description: "No se pudo copiar el enlace.", variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Monitor className="h-4 w-4" />
+              Pantallas de Monitoreo
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Acceso de solo lectura al tablero de cámaras, sin iniciar sesión
+            </CardDescription>
+          </div>
+          <Button size="sm" variant="outline" className="gap-1" onClick={() => setDialogOpen(true)} data-testid="button-add-kiosk-token">
+            <Plus className="h-3.5 w-3.5" />
+            Nueva
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          </div>
+        ) : !tokens || tokens.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No hay pantallas configuradas</p>
+        ) : (
+          <div className="space-y-2">
+            {tokens.map((token) => (
+              <div
+                key={token.id}
+                className="flex items-center justify-between px-4 py-3 rounded-lg border"
+                data-testid={`row-kiosk-token-${token.id}`}
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-sm">{token.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {token.lastUsedAt
+                      ? `Última conexión ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true, locale: es })}`
+                      : "Nunca conectada"}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                  onClick={() => deleteMutation.mutate(token.id)}
+                  disabled={deleteMutation.isPending}
+                  title="Revocar"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Nueva Pantalla de Monitoreo</DialogTitle>
+            <DialogDescription>
+              {kioskUrl
+                ? "Abra este enlace en la pantalla. Guárdelo ahora: no se podrá volver a mostrar."
+                : "Se generará un enlace de solo lectura al estado de cámaras y al resumen del panel."}
+            </DialogDescription>
+          </DialogHeader>
+          {kioskUrl ? (
+            <div className="flex items-center gap-2">
+              <Input value={kioskUrl} readOnly className="font-mono text-xs" data-testid="input-kiosk-url" />
+              <Button size="icon" variant="outline" onClick={copyUrl} title="Copiar">
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <Label htmlFor="kiosk-token-name">Nombre</Label>
+              <Input
+                id="kiosk-token-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Sala de monitoreo"
+                data-testid="input-kiosk-token-name"
+              />
+            </div>
+          )}
+          <DialogFooter>
+            {kioskUrl ? (
+              <Button onClick={closeDialog}>Listo</Button>
+            ) : (
+              <>
+                <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+                <Button
+                  onClick={() => createMutation.mutate(name.trim())}
+                  disabled={!name.trim() || createMutation.isPending}
+                  data-testid="button-create-kiosk-token"
+                >
+                  {createMutation.isPending ? "Creando..." : "Crear"}
+                </Button>
+              </>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { History, RotateCw } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { NotificationKindLabels } from "@shared/schema";
+import type { NotificationLogEntry } from "@shared/schema";
+
+function describeThreshold(entry: NotificationLogEntry) {
+  if (entry.threshold === null) return "-";
+  return entry.threshold === 0 ? "Al vencer" : `${entry.threshold} días antes`;
+}
+
+export function NotificationHistoryCard() {
+  const { toast } = useToast();
+
+  const { data: entries, isLoading } = useQuery<NotificationLogEntry[]>({
+    queryKey: ["/api/notifications"],
+  });
+
+  const resendMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/notifications/${id}/resend`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({ title: "Email reenviado", description: data.message });
+      queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    },
+    onError: (err: any) => {
+      const msg = err?.message?.includes("409")
+        ? "El documento ya no está por vencer."
+        : "No se pudo reenviar. Verifica la configuración SMTP.";
+      toast({ title: "Error", description: msg, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Historial de Envíos
+        </CardTitle>
+        <CardDescription className="mt-1">Alertas de vencimiento enviadas por destinatario</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <TableSkeleton rows={4} />
+        ) : !entries || entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Aún no se han enviado alertas</p>
+        ) : (
+          <div className="overflow-x-auto max-h-96">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Fecha</TableHead>
+                  <TableHead>Documento</TableHead>
+                  <TableHead>Aviso</TableHead>
+                  <TableHead>Destinatario</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id} data-testid={`row-notification-${entry.id}`}>
+                    <TableCell className="text-xs text-muted-foreground whitespace-nowrap">
+                      {entry.sentAt ? format(new Date(entry.sentAt), "dd MMM yyyy HH:mm", { locale: es }) : "-"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {entry.documentId ? (
+                        <span><strong>Bus {entry.busNumber}</strong> — {entry.docLabel}</span>
+                      ) : (
+                        <span className="text-muted-foreground">Todos los documentos por vencer</span>
+                      )}
+                      {entry.kind !== "threshold" && (
+                        <Badge variant="outline" className="ml-2 text-[10px]">{NotificationKindLabels[entry.kind] || entry.kind}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs">{describeThreshold(entry)}</TableCell>
+                    <TableCell className="text-xs truncate max-w-[180px]">{entry.recipient}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-7 w-7"
+                        disabled={resendMutation.isPending}
+                        onClick={() => resendMutation.mutate(entry.id)}
+                        title="Reenviar"
+                      >
+                        <RotateCw className="h-3.5 w-3.5" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,95 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { UserNotification } from "@shared/schema";
+
+export function NotificationsMenu() {
+  const [, setLocation] = useLocation();
+
+  const { data: notifications } = useQuery<UserNotification[]>({
+    queryKey: ["/api/user-notifications"],
+  });
+
+  const markRead = useMutation({
+    mutationFn: async (ids?: string[]) => apiRequest("POST", "/api/user-notifications/read", { ids }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user-notifications"] });
+    },
+  });
+
+  const unread = notifications?.filter((n) => !n.readAt).length || 0;
+
+  const open = (notification: UserNotification) => {
+    if (!notification.readAt) markRead.mutate([notification.id]);
+    if (notification.incidentId) setLocation(`/equipment?incident=${notification.incidentId}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button size="icon" variant="ghost" className="relative" data-testid="button-notifications">
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <DropdownMenuLabel className="flex items-center justify-between">
+          Notificaciones
+          {unread > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => markRead.mutate(undefined)}
+              data-testid="button-mark-all-read"
+            >
+              Marcar todas como leídas
+            </Button>
+          )}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {!notifications || notifications.length === 0 ? (
+          <p className="px-2 py-6 text-center text-sm text-muted-foreground">Sin notificaciones</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <DropdownMenuItem
+                key={notification.id}
+                className="flex flex-col items-start gap-0.5 cursor-pointer"
+                onSelect={() => open(notification)}
+                data-testid={`notification-${notification.id}`}
+              >
+                <div className="flex w-full items-center gap-2">
+                  {!notification.readAt && <span className="h-2 w-2 shrink-0 rounded-full bg-primary" />}
+                  <span className="text-sm font-medium">{notification.actorName || "Sistema"}</span>
+                  <span className="ml-auto text-xs text-muted-foreground">
+                    {notification.createdAt
+                      ? formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true, locale: es })
+                      : ""}
+                  </span>
+                </div>
+                <p className="text-xs text-muted-foreground line-clamp-2">{notification.message}</p>
+              </DropdownMenuItem>
+            ))}
+          </div>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,130 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Flag, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PriorityBadge } from "@/components/status-badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  EquipmentTypeLabels,
+  IncidentPriority,
+  IncidentPriorityLabels,
+  IncidentTypeLabels,
+  PriorityDueHours,
+} from "@shared/schema";
+import type { PriorityMatrixEntry } from "@shared/schema";
+
+/**
+ * Equipment × incident type grid with the priority new incidents get by
+ * default. Changes apply to incidents registered afterwards.
+ */
+export function PriorityMatrixCard() {
+  const { toast } = useToast();
+
+  const { data: matrix, isLoading } = useQuery<PriorityMatrixEntry[]>({
+    queryKey: ["/api/priority-matrix"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (entry: Omit<PriorityMatrixEntry, "id">) => {
+      const res = await apiRequest("PUT", "/api/priority-matrix", entry);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Prioridad actualizada" });
+      queryClient.invalidateQueries({ queryKey: ["/api/priority-matrix"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo actualizar la prioridad.", variant: "destructive" });
+    },
+  });
+
+  const priorityOf = (equipmentType: string, incidentType: string) =>
+    matrix?.find((e) => e.equipmentType === equipmentType && e.incidentType === incidentType)?.priority
+      ?? IncidentPriority.MEDIUM;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Flag className="h-4 w-4" />
+          Matriz de Prioridades
+        </CardTitle>
+        <CardDescription className="mt-1">
+          Prioridad inicial de cada incidencia según equipo y tipo de falla. La prioridad fija la fecha límite de resolución.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Equipo</TableHead>
+                  {Object.entries(IncidentTypeLabels).map(([incidentType, label]) => (
+                    <TableHead key={incidentType}>{label}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {Object.entries(EquipmentTypeLabels).map(([equipmentType, label]) => (
+                  <TableRow key={equipmentType}>
+                    <TableCell className="font-medium">{label}</TableCell>
+                    {Object.keys(IncidentTypeLabels).map((incidentType) => (
+                      <TableCell key={incidentType} className="py-1.5">
+                        <Select
+                          value={priorityOf(equipmentType, incidentType)}
+                          onValueChange={(priority) =>
+                            saveMutation.mutate({ equipmentType, incidentType, priority })
+                          }
+                          disabled={saveMutation.isPending}
+                        >
+                          <SelectTrigger className="h-8 w-28" data-testid={`select-priority-${equipmentType}-${incidentType}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(IncidentPriorityLabels).map(([value, priorityLabel]) => (
+                              <SelectItem key={value} value={value}>{priorityLabel}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {Object.keys(IncidentPriorityLabels).map((priority) => (
+            <span key={priority} className="flex items-center gap-1.5">
+              <PriorityBadge priority={priority} size="sm" />
+              {PriorityDueHours[priority] < 48
+                ? `${PriorityDueHours[priority]} h`
+                : `${PriorityDueHours[priority] / 24} días`}
+            </span>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,74 @@
+import { Link } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Repeat } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CameraChannelLabels, EquipmentTypeLabels, RecurringFailureReasonLabels } from "@shared/schema";
+import type { RecurringFailure } from "@shared/schema";
+
+export function recurringFailureEquipment(failure: RecurringFailure) {
+  const equipment = EquipmentTypeLabels[failure.equipmentType] || failure.equipmentType;
+  return failure.cameraChannel
+    ? `${equipment} ${CameraChannelLabels[failure.cameraChannel] || failure.cameraChannel}`
+    : equipment;
+}
+
+export function RecurringFailuresCard({
+  failures,
+  description = "Equipos que vuelven a fallar: conviene revisarlos a fondo en lugar de repetir reparaciones rápidas",
+}: {
+  failures: RecurringFailure[];
+  description?: string;
+}) {
+  return (
+    <Card data-testid="card-recurring-failures">
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Repeat className="h-4 w-4 text-orange-500" />
+          Fallas Recurrentes
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {failures.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No se detectaron fallas recurrentes</p>
+        ) : (
+          <div className="space-y-2">
+            {failures.map((failure) => (
+              <Link
+                key={`${failure.busId}-${failure.equipmentType}-${failure.cameraChannel ?? ""}`}
+                href={`/cameras/${failure.busId}`}
+                className="block"
+              >
+                <div
+                  className="flex items-center justify-between gap-3 p-3 rounded-md border border-orange-200 bg-orange-50 dark:bg-orange-900/20 dark:border-orange-800 hover-elevate cursor-pointer"
+                  data-testid={`recurring-failure-${failure.busNumber}-${failure.equipmentType}-${failure.cameraChannel ?? "bus"}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium">
+                      Bus {failure.busNumber} · {recurringFailureEquipment(failure)}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {failure.incidentCount} incidencia(s)
+                      {failure.reopenCount > 0 && ` · ${failure.reopenCount} reapertura(s)`}
+                      {" · última "}
+                      {formatDistanceToNow(new Date(failure.lastReportedAt), { addSuffix: true, locale: es })}
+                    </p>
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-1 shrink-0">
+                    {failure.reasons.map((reason) => (
+                      <Badge key={reason} variant="outline" className="text-[10px] text-orange-700 border-orange-300 dark:text-orange-400">
+                        {RecurringFailureReasonLabels[reason] || reason}
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,282 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Target, Plus, Pencil, Trash2, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { EquipmentTypeLabels, IncidentTypeLabels, Permission } from "@shared/schema";
+import type { RepairAnalytics, SlaTarget } from "@shared/schema";
+
+// Select value standing for a null column (matches any value)
+const ANY = "any";
+
+const emptyForm = { equipmentType: ANY, incidentType: ANY, targetHours: "48" };
+
+export function formatHours(hours: number | null) {
+  if (hours === null) return "-";
+  if (hours < 48) return `${hours.toFixed(1)} h`;
+  return `${(hours / 24).toFixed(1)} d`;
+}
+
+function targetScope(target: SlaTarget) {
+  const equipment = target.equipmentType ? EquipmentTypeLabels[target.equipmentType] || target.equipmentType : "Cualquier equipo";
+  const incident = target.incidentType ? IncidentTypeLabels[target.incidentType] || target.incidentType : "cualquier falla";
+  return `${equipment} · ${incident}`;
+}
+
+export function SlaTargetsCard({ stats }: { stats?: RepairAnalytics["sla"] }) {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const canManage = can(Permission.SLA_MANAGE);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingTarget, setEditingTarget] = useState<SlaTarget | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: targets, isLoading } = useQuery<SlaTarget[]>({
+    queryKey: ["/api/sla-targets"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/sla-targets"] });
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/analytics/repair-times"),
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const targetHours = parseInt(data.targetHours);
+      const response = editingTarget
+        ? await apiRequest("PATCH", `/api/sla-targets/${editingTarget.id}`, { targetHours })
+        : await apiRequest("POST", "/api/sla-targets", {
+          equipmentType: data.equipmentType === ANY ? null : data.equipmentType,
+          incidentType: data.incidentType === ANY ? null : data.incidentType,
+          targetHours,
+        });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: editingTarget ? "Objetivo actualizado" : "Objetivo creado" });
+      invalidate();
+      closeDialog();
+    },
+    onError: (err: any) => {
+      const msg = err?.message?.includes("409")
+        ? "Ya existe un objetivo para ese equipo y tipo de incidencia."
+        : "No se pudo guardar el objetivo.";
+      toast({ title: "Error", description: msg, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/sla-targets/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Objetivo eliminado" });
+      invalidate();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo eliminar el objetivo.", variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingTarget(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (target: SlaTarget) => {
+    setEditingTarget(target);
+    setFormData({
+      equipmentType: target.equipmentType ?? ANY,
+      incidentType: target.incidentType ?? ANY,
+      targetHours: String(target.targetHours),
+    });
+    setDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingTarget(null);
+    setFormData(emptyForm);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="text-lg flex items-center gap-2">
+              <Target className="h-4 w-4" />
+              Objetivos SLA
+            </CardTitle>
+            <CardDescription className="mt-1">
+              Plazo máximo de resolución. Cada incidencia usa el objetivo más específico que le aplique.
+            </CardDescription>
+          </div>
+          {canManage && (
+            <Button size="sm" variant="outline" className="gap-1" onClick={openCreate} data-testid="button-add-sla-target">
+              <Plus className="h-3.5 w-3.5" />
+              Nuevo
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mx-auto" />
+          </div>
+        ) : !targets || targets.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No hay objetivos SLA configurados</p>
+        ) : (
+          <div className="space-y-2">
+            {targets.map((target) => {
+              const stat = stats?.find((s) => s.target.id === target.id);
+              const compliance = stat && stat.incidents > 0
+                ? Math.round(((stat.incidents - stat.breaches - stat.openBreaches) / stat.incidents) * 100)
+                : null;
+              return (
+                <div
+                  key={target.id}
+                  className="flex items-center justify-between px-4 py-3 rounded-lg border"
+                  data-testid={`row-sla-target-${target.id}`}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <p className="font-medium text-sm">{targetScope(target)}</p>
+                      <Badge variant="secondary" className="text-[10px]">{formatHours(target.targetHours)}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {!stat || stat.incidents === 0
+                        ? "Sin incidencias en el período"
+                        : `${stat.incidents} incidencias · ${compliance}% en plazo`}
+                      {stat && stat.breaches > 0 && (
+                        <span className="text-destructive"> · {stat.breaches} fuera de plazo</span>
+                      )}
+                      {stat && stat.openBreaches > 0 && (
+                        <span className="text-destructive"> · {stat.openBreaches} abiertas vencidas</span>
+                      )}
+                    </p>
+                  </div>
+                  {canManage && (
+                    <div className="flex items-center gap-1 shrink-0">
+                      <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => openEdit(target)} title="Editar">
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => deleteMutation.mutate(target.id)}
+                        disabled={deleteMutation.isPending}
+                        title="Eliminar"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTarget ? "Editar Objetivo SLA" : "Nuevo Objetivo SLA"}</DialogTitle>
+            <DialogDescription>
+              Las incidencias resueltas después del plazo, o abiertas por más tiempo, cuentan como incumplimientos.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Equipo</Label>
+                <Select
+                  value={formData.equipmentType}
+                  onValueChange={(value) => setFormData({ ...formData, equipmentType: value })}
+                  disabled={!!editingTarget}
+                >
+                  <SelectTrigger data-testid="select-sla-equipment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Cualquiera</SelectItem>
+                    {Object.entries(EquipmentTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Tipo de incidencia</Label>
+                <Select
+                  value={formData.incidentType}
+                  onValueChange={(value) => setFormData({ ...formData, incidentType: value })}
+                  disabled={!!editingTarget}
+                >
+                  <SelectTrigger data-testid="select-sla-incident-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>Cualquiera</SelectItem>
+                    {Object.entries(IncidentTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sla-target-hours">Plazo (horas)</Label>
+              <Input
+                id="sla-target-hours"
+                type="number"
+                min={1}
+                value={formData.targetHours}
+                onChange={(e) => setFormData({ ...formData, targetHours: e.target.value })}
+                data-testid="input-sla-target-hours"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate(formData)}
+              disabled={!(parseInt(formData.targetHours) > 0) || saveMutation.isPending}
+              data-testid="button-save-sla-target"
+            >
+              {saveMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,4 +1,8 @@
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { AlarmClock } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { isIncidentOverdue, type Incident } from "@shared/schema";
 
 interface StatusBadgeProps {
   status: string;
@@ -26,6 +30,12 @@ export function StatusBadge({ status, size = "default" }: StatusBadgeProps) {
           variant: "secondary" as const,
           className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
         };
+      case "completed":
+        return {
+          label: "Completada",
+          variant: "secondary" as const,
+          className: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+        };
       case "operational":
         return {
           label: "Operativo",
@@ -135,3 +145,54 @@ export function IncidentTypeBadge({ type, size = "default" }: IncidentTypeBadgeP
     </Badge>
   );
 }
+
+interface PriorityBadgeProps {
+  priority: string;
+  size?: "default" | "sm";
+}
+
+export function PriorityBadge({ priority, size = "default" }: PriorityBadgeProps) {
+  const getPriorityConfig = (priority: string) => {
+    switch (priority) {
+      case "critical":
+        return { label: "Crítica", className: "bg-red-600 text-white dark:bg-red-700" };
+      case "high":
+        return { label: "Alta", className: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400" };
+      case "medium":
+        return { label: "Media", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400" };
+      case "low":
+        return { label: "Baja", className: "bg-slate-100 text-slate-700 dark:bg-slate-900/30 dark:text-slate-400" };
+      default:
+        return { label: priority, className: "" };
+    }
+  };
+
+  const config = getPriorityConfig(priority);
+
+  return (
+    <Badge
+      variant="secondary"
+      className={`${config.className} ${size === "sm" ? "text-xs px-2 py-0.5" : ""}`}
+      data-testid={`badge-priority-${priority}`}
+    >
+      {config.label}
+    </Badge>
+  );
+}
+
+// Time left to the due date of an open incident, in red once it has passed
+export function DueLabel({ incident }: { incident: Pick<Incident, "status" | "dueAt"> }) {
+  if (!incident.dueAt || incident.status === "resolved") return null;
+  const overdue = isIncidentOverdue(incident);
+  const distance = formatDistanceToNow(new Date(incident.dueAt), { locale: es });
+
+  return (
+    <span
+      className={`inline-flex items-center gap-1 text-xs ${overdue ? "font-medium text-red-600 dark:text-red-400" : "text-muted-foreground"}`}
+      data-testid={overdue ? "label-overdue" : "label-due"}
+    >
+      <AlarmClock className="h-3 w-3" />
+      {overdue ? `Vencida hace ${distance}` : `Vence en ${distance}`}
+    </span>
+  );
+}
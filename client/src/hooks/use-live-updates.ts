@@ -0,0 +1,51 @@
+import { useEffect } from "react";
+import { queryClient } from "@/lib/queryClient";
+import type { ChangeEvent, ChangeEventTypeKey } from "@shared/schema";
+
+// Queries affected by each kind of change, matched against the request path
+// (query keys joined the same way the default queryFn builds the URL)
+const busHealth = /^\/api\/buses\/[^/]+\/health/;
+const affectedQueries: Record<ChangeEventTypeKey, (path: string) => boolean> = {
+  incident: (path) =>
+    /^\/api\/(dashboard|camera-status|incidents|work-orders|recurring-failures|reports|analytics|parts)/.test(path) ||
+    busHealth.test(path),
+  equipment: (path) =>
+    /^\/api\/(dashboard|camera-status|equipment-status|devices)/.test(path) || busHealth.test(path),
+  bus: (path) => /^\/api\/(buses|drivers|dashboard|camera-status)/.test(path),
+  document: (path) => /^\/api\/(documents|buses\/[^/]+\/documents)/.test(path),
+  work_order: (path) => path.startsWith("/api/work-orders"),
+  notification: (path) => path.startsWith("/api/user-notifications"),
+};
+
+function invalidate(matches: (path: string) => boolean) {
+  queryClient.invalidateQueries({
+    predicate: (query) => matches(query.queryKey.join("/")),
+  });
+}
+
+/**
+ * Keeps cached queries fresh while the app is open: refetches whatever a
+ * change published by the server affects. After a dropped connection the
+ * browser reconnects on its own and everything is refetched, since events
+ * may have been missed in between.
+ */
+export function useLiveUpdates() {
+  useEffect(() => {
+    const source = new EventSource("/api/events", { withCredentials: true });
+    let connected = false;
+
+    source.addEventListener("open", () => {
+      if (connected) {
+        invalidate((path) => Object.values(affectedQueries).some((matches) => matches(path)));
+      }
+      connected = true;
+    });
+    source.addEventListener("change", (message) => {
+      const event = JSON.parse((message as MessageEvent).data) as ChangeEvent;
+      const matches = affectedQueries[event.type];
+      if (matches) invalidate(matches);
+    });
+
+    return () => source.close();
+  }, []);
+}
@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect, type ReactNode } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "./queryClient";
+import { hasPermission, type PermissionKey, type UpdateProfileData } from "@shared/schema";
 
 interface User {
   id: string;
@@ -8,6 +9,7 @@ interface User {
   name: string;
   role: "admin" | "technician";
   active: string;
+  mustChangePassword: string;
 }
 
 interface AuthContextType {
@@ -15,8 +17,10 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   isAdmin: boolean;
+  can: (permission: PermissionKey) => boolean;
   login: (username: string, password: string) => Promise<void>;
   logout: () => Promise<void>;
+  updateProfile: (data: UpdateProfileData) => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -46,7 +50,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
   const loginMutation = useMutation({
     mutationFn: async ({ username, password }: { username: string; password: string }) => {
-      const response = await apiRequest("POST", "/api/auth/login", { username, password });
+      // Plain fetch so lockout and credential errors reach the user without the status prefix
+      const response = await fetch("/api/auth/login", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+        credentials: "include",
+      });
       if (!response.ok) {
         const error = await response.json();
         throw new Error(error.error || "Error al iniciar sesión");
@@ -68,6 +78,28 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  const updateProfileMutation = useMutation({
+    mutationFn: async (data: UpdateProfileData) => {
+      const response = await fetch("/api/auth/me", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const error = await response.json();
+        // Validation failures arrive as a list of zod issues
+        const message = Array.isArray(error.error) ? error.error[0]?.message : error.error;
+        throw new Error(message || "Error al actualizar perfil");
+      }
+      return response.json();
+    },
+    onSuccess: (updatedUser: User) => {
+      queryClient.setQueryData(["/api/auth/me"], updatedUser);
+      queryClient.invalidateQueries();
+    },
+  });
+
   const login = async (username: string, password: string) => {
     await loginMutation.mutateAsync({ username, password });
   };
@@ -76,6 +108,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     await logoutMutation.mutateAsync();
   };
 
+  const updateProfile = async (data: UpdateProfileData) => {
+    await updateProfileMutation.mutateAsync(data);
+  };
+
   return (
     <AuthContext.Provider
       value={{
@@ -83,8 +119,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         isAuthenticated: !!user,
         isAdmin: user?.role === "admin",
+        can: (permission: PermissionKey) => hasPermission(user?.role, permission),
         login,
         logout,
+        updateProfile,
       }}
     >
       {children}
@@ -0,0 +1,89 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { ArrowLeft, Bus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { CameraGrid } from "@/components/camera-grid";
+import { EquipmentHealth } from "@/components/equipment-health";
+import { IncidentList } from "@/components/incident-list";
+import { CameraGridSkeleton, IncidentListSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { RecurringFailuresCard } from "@/components/recurring-failures-card";
+import type { Incident, RecurringFailure } from "@shared/schema";
+
+interface BusHealthData {
+  busId: string;
+  busNumber: string;
+  plate: string | null;
+  cameras: Array<{ channel: string; status: "operational" | "misaligned" | "faulty"; updatedAt: string | null }>;
+  equipment: Array<{ equipmentType: string; status: string; updatedAt: string | null }>;
+}
+
+export default function BusHealth() {
+  const { busId } = useParams<{ busId: string }>();
+
+  const { data: health, isLoading, isError } = useQuery<BusHealthData>({
+    queryKey: ["/api/buses", busId, "health"],
+  });
+
+  const { data: incidents, isLoading: incidentsLoading } = useQuery<Incident[]>({
+    queryKey: [`/api/incidents?busId=${busId}&limit=10`],
+  });
+
+  const { data: recurringFailures } = useQuery<RecurringFailure[]>({
+    queryKey: [`/api/recurring-failures?busId=${busId}`],
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center gap-3">
+        <Button size="icon" variant="ghost" asChild data-testid="button-back-cameras">
+          <Link href="/cameras">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">
+            {health ? `Estado del Bus ${health.busNumber}` : "Estado del Bus"}
+          </h1>
+          <p className="text-muted-foreground">
+            {health?.plate ? `Placa ${health.plate} · ` : ""}Cámaras, DVR, GPS, disco y cableado
+          </p>
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <CameraGridSkeleton />
+          <CameraGridSkeleton />
+        </div>
+      ) : isError || !health ? (
+        <EmptyState
+          icon={Bus}
+          title="Bus no encontrado"
+          description="No se pudo cargar el estado de este bus"
+          actionLabel="Volver a Cámaras"
+          actionHref="/cameras"
+        />
+      ) : (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <CameraGrid busNumber={health.busNumber} cameras={health.cameras} recurringFailures={recurringFailures} />
+          <EquipmentHealth busNumber={health.busNumber} equipment={health.equipment} />
+        </div>
+      )}
+
+      {recurringFailures && recurringFailures.length > 0 && (
+        <RecurringFailuresCard failures={recurringFailures} />
+      )}
+
+      {incidentsLoading ? (
+        <IncidentListSkeleton />
+      ) : (
+        <IncidentList
+          incidents={incidents || []}
+          title="Últimas Incidencias"
+          showBusNumber={false}
+        />
+      )}
+    </div>
+  );
+}
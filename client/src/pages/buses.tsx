@@ -22,6 +22,7 @@ import {
     Users,
     Search,
     X,
+    type LucideIcon,
 } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -67,6 +68,9 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
+import { Permission } from "@shared/schema";
+import type { DocumentType } from "@shared/schema";
 import { format, differenceInDays, parseISO } from "date-fns";
 import { es } from "date-fns/locale";
 
@@ -107,31 +111,27 @@ interface BusDriverData {
 interface ExpiringDoc {
     busNumber: string;
     docType: string;
+    label: string;
     fileName: string;
     expiresAt: string;
     daysLeft: number;
 }
 
-// Only bus-level doc types (driver docs are handled separately)
-const BUS_DOC_TYPES = [
-    { key: "permiso_circulacion", label: "Permiso de Circulación", icon: FileText, color: "text-blue-500" },
-    { key: "revision_tecnica", label: "Revisión Técnica", icon: Wrench, color: "text-green-500", hasExpiry: true, alertDays: 5 },
-    { key: "chasis", label: "Información de Chasis", icon: Settings, color: "text-purple-500" },
-] as const;
-
-const DRIVER_DOC_TYPES = [
-    { key: "licencia_conducir", label: "Licencia de Conducir", icon: CreditCard, color: "text-amber-500", hasExpiry: true, alertDays: 30 },
-    { key: "cedula_conductor", label: "Cédula del Conductor", icon: IdCard, color: "text-rose-500", hasExpiry: true, alertDays: 30 },
-] as const;
-
-const DOC_TYPE_LABELS: Record<string, string> = {
-    permiso_circulacion: "Permiso de Circulación",
-    revision_tecnica: "Revisión Técnica",
-    chasis: "Información de Chasis",
-    licencia_conducir: "Licencia de Conducir",
-    cedula_conductor: "Cédula del Conductor",
+// Icons for the built-in document types; types added from Settings use the generic one.
+const DOC_TYPE_STYLES: Record<string, { icon: LucideIcon; color: string }> = {
+    permiso_circulacion: { icon: FileText, color: "text-blue-500" },
+    revision_tecnica: { icon: Wrench, color: "text-green-500" },
+    chasis: { icon: Settings, color: "text-purple-500" },
+    licencia_conducir: { icon: CreditCard, color: "text-amber-500" },
+    cedula_conductor: { icon: IdCard, color: "text-rose-500" },
 };
 
+const DEFAULT_DOC_TYPE_STYLE = { icon: FileText, color: "text-slate-500" };
+
+function alertWindow(docType: DocumentType) {
+    return docType.alertOffsets.length > 0 ? Math.max(...docType.alertOffsets) : 0;
+}
+
 function isImageFile(fileName: string) {
     return /\.(jpg|jpeg|png|gif|webp|bmp)$/i.test(fileName);
 }
@@ -173,7 +173,7 @@ function DocRow({ doc, busId, onPreview, onDelete }: {
     doc: BusDocument;
     busId: string;
     onPreview: (doc: BusDocument) => void;
-    onDelete: (doc: BusDocument) => void;
+    onDelete?: (doc: BusDocument) => void;
 }) {
     return (
         <div className="flex items-center justify-between text-xs bg-muted/50 rounded px-2 py-1.5 hover:bg-muted/70 transition-colors">
@@ -197,17 +197,19 @@ function DocRow({ doc, busId, onPreview, onDelete }: {
                         <Download className="h-3 w-3" />
                     </a>
                 </Button>
-                <Button size="icon" variant="ghost" className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => onDelete(doc)} title="Eliminar">
-                    <Trash2 className="h-3 w-3" />
-                </Button>
+                {onDelete && (
+                    <Button size="icon" variant="ghost" className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10" onClick={() => onDelete(doc)} title="Eliminar">
+                        <Trash2 className="h-3 w-3" />
+                    </Button>
+                )}
             </div>
         </div>
     );
 }
 
 // ── Doc Type Section (bus-level) ─────────────────────────────────────────
-function DocTypeSection({ docTypeConfig, typeDocs, busId, isUploading, expiryDate, onExpiryChange, onUploadClick, onPreview, onDelete }: {
-    docTypeConfig: (typeof BUS_DOC_TYPES)[number];
+function DocTypeSection({ docType, typeDocs, busId, isUploading, expiryDate, onExpiryChange, onUploadClick, onPreview, onDelete }: {
+    docType: DocumentType;
     typeDocs: BusDocument[];
     busId: string;
     isUploading: boolean;
@@ -215,19 +217,22 @@ function DocTypeSection({ docTypeConfig, typeDocs, busId, isUploading, expiryDat
     onExpiryChange: (val: string) => void;
     onUploadClick: () => void;
     onPreview: (doc: BusDocument) => void;
-    onDelete: (doc: BusDocument) => void;
+    onDelete?: (doc: BusDocument) => void;
 }) {
-    const { key, label, icon: Icon, color } = docTypeConfig;
-    const hasExpiry = "hasExpiry" in docTypeConfig && docTypeConfig.hasExpiry;
-    const alertDays = "alertDays" in docTypeConfig ? docTypeConfig.alertDays : 0;
+    const { icon: Icon, color } = DOC_TYPE_STYLES[docType.key] ?? DEFAULT_DOC_TYPE_STYLE;
+    const hasExpiry = docType.expires === "true";
+    const alertDays = alertWindow(docType);
 
     return (
         <div className="border rounded-lg p-3 space-y-2">
             <div className="flex items-center justify-between">
                 <div className="flex items-center gap-2">
                     <Icon className={`h-4 w-4 ${color}`} />
-                    <span className="text-sm font-medium">{label}</span>
+                    <span className="text-sm font-medium">{docType.label}</span>
                     <Badge variant="outline" className="text-xs ml-1">{typeDocs.length}</Badge>
+                    {docType.required === "true" && typeDocs.length === 0 && (
+                        <Badge variant="destructive" className="text-[10px] px-1.5 py-0">Falta</Badge>
+                    )}
                 </div>
                 <Button size="sm" variant="outline" className="h-7 text-xs gap-1" disabled={isUploading} onClick={onUploadClick}>
                     {isUploading ? <Loader2 className="h-3 w-3 animate-spin" /> : <Upload className="h-3 w-3" />}
@@ -274,6 +279,8 @@ export default function Buses() {
     const BUSES_PER_PAGE = 25;
     const fileInputRefs = useRef<Record<string, HTMLInputElement | null>>({});
     const { toast } = useToast();
+    const { can } = useAuth();
+    const onDeleteDoc = can(Permission.DOCUMENTS_DELETE) ? setDeletingDoc : undefined;
 
     // ── Queries ──────────────────────────────────────────────────────────
     const { data: buses, isLoading: busesLoading } = useQuery<BusData[]>({
@@ -300,6 +307,12 @@ export default function Buses() {
         enabled: !!selectedBus,
     });
 
+    const { data: docTypes } = useQuery<DocumentType[]>({
+        queryKey: ["/api/document-types"],
+    });
+    const busDocTypes = docTypes?.filter((t) => t.scope === "bus") ?? [];
+    const driverDocTypes = docTypes?.filter((t) => t.scope === "driver") ?? [];
+
     const { data: expiringDocs } = useQuery<ExpiringDoc[]>({
         queryKey: ["/api/documents/expiring"],
         queryFn: async () => {
@@ -472,7 +485,7 @@ export default function Buses() {
                         <ul className="text-sm text-amber-700 dark:text-amber-400 mt-1 space-y-0.5">
                             {expiringDocs!.slice(0, 5).map((doc, i) => (
                                 <li key={i}>
-                                    <strong>Bus {doc.busNumber}</strong> — {DOC_TYPE_LABELS[doc.docType] || doc.docType}:{" "}
+                                    <strong>Bus {doc.busNumber}</strong> — {doc.label}:{" "}
                                     {doc.daysLeft <= 0 ? (
                                         <span className="text-red-600 font-semibold">Vencido hace {Math.abs(doc.daysLeft)} días</span>
                                     ) : (
@@ -572,8 +585,8 @@ export default function Buses() {
                         ) : (
                             <div className="space-y-3">
                                 {/* Bus-level documents */}
-                                {BUS_DOC_TYPES.map((docTypeConfig) => {
-                                    const { key } = docTypeConfig;
+                                {busDocTypes.map((docType) => {
+                                    const { key } = docType;
                                     const typeDocs = busDocsForType(key);
                                     const isUploading = uploadingDocType === key && uploadMutation.isPending;
                                     const refKey = `bus_${key}`;
@@ -587,7 +600,7 @@ export default function Buses() {
                                                 onChange={(e) => handleFileChange(key, e)}
                                             />
                                             <DocTypeSection
-                                                docTypeConfig={docTypeConfig}
+                                                docType={docType}
                                                 typeDocs={typeDocs}
                                                 busId={selectedBus.id}
                                                 isUploading={isUploading}
@@ -595,7 +608,7 @@ export default function Buses() {
                                                 onExpiryChange={(val) => setExpiryDates(prev => ({ ...prev, [key]: val }))}
                                                 onUploadClick={() => fileInputRefs.current[refKey]?.click()}
                                                 onPreview={setPreviewDoc}
-                                                onDelete={setDeletingDoc}
+                                                onDelete={onDeleteDoc}
                                             />
                                         </div>
                                     );
@@ -636,23 +649,28 @@ export default function Buses() {
                                                                 {bd.role === "titular" ? "Titular" : "Relevo"}
                                                             </Badge>
                                                         </div>
-                                                        <Button
-                                                            size="icon"
-                                                            variant="ghost"
-                                                            className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
-                                                            onClick={(e) => {
-                                                                e.stopPropagation();
-                                                                removeDriverMutation.mutate({ busId: selectedBus.id, driverId: bd.driverId });
-                                                            }}
-                                                            title="Desasignar conductor"
-                                                        >
-                                                            <X className="h-3 w-3" />
-                                                        </Button>
+                                                        {can(Permission.DRIVERS_REMOVE) && (
+                                                            <Button
+                                                                size="icon"
+                                                                variant="ghost"
+                                                                className="h-6 w-6 text-destructive hover:text-destructive hover:bg-destructive/10"
+                                                                onClick={(e) => {
+                                                                    e.stopPropagation();
+                                                                    removeDriverMutation.mutate({ busId: selectedBus.id, driverId: bd.driverId });
+                                                                }}
+                                                                title="Desasignar conductor"
+                                                            >
+                                                                <X className="h-3 w-3" />
+                                                            </Button>
+                                                        )}
                                                     </CollapsibleTrigger>
                                                     <CollapsibleContent>
                                                         <div className="px-3 pb-3 space-y-2 border-t pt-2">
                                                             <p className="text-[11px] text-muted-foreground">RUT: {bd.driver.rut}</p>
-                                                            {DRIVER_DOC_TYPES.map(({ key, label, icon: Icon, color, alertDays }) => {
+                                                            {driverDocTypes.map((docType) => {
+                                                                const { key, label } = docType;
+                                                                const { icon: Icon, color } = DOC_TYPE_STYLES[key] ?? DEFAULT_DOC_TYPE_STYLE;
+                                                                const hasExpiry = docType.expires === "true";
                                                                 const dDocs = driverDocsForType(bd.driverId, key);
                                                                 const refKey = `driver_${key}_${bd.driverId}`;
                                                                 const expiryKey = `${key}_${bd.driverId}`;
@@ -665,6 +683,9 @@ export default function Buses() {
                                                                                 <Icon className={`h-3.5 w-3.5 ${color}`} />
                                                                                 <span className="text-xs font-medium">{label}</span>
                                                                                 <Badge variant="outline" className="text-[10px]">{dDocs.length}</Badge>
+                                                                                {docType.required === "true" && dDocs.length === 0 && (
+                                                                                    <Badge variant="destructive" className="text-[10px] px-1.5 py-0">Falta</Badge>
+                                                                                )}
                                                                             </div>
                                                                             <Button size="sm" variant="ghost" className="h-6 text-[10px] gap-0.5 px-1.5" disabled={isUp}
                                                                                 onClick={() => fileInputRefs.current[refKey]?.click()}>
@@ -679,18 +700,20 @@ export default function Buses() {
                                                                                 onChange={(e) => handleFileChange(key, e, bd.driverId)}
                                                                             />
                                                                         </div>
-                                                                        <div className="flex items-center gap-2 text-[11px]">
-                                                                            <CalendarClock className="h-3 w-3 text-muted-foreground" />
-                                                                            <span className="text-muted-foreground">Vencimiento:</span>
-                                                                            <input type="date" className="border rounded px-1.5 py-0 text-[11px] bg-background"
-                                                                                value={expiryDates[expiryKey] || ""}
-                                                                                onChange={(e) => setExpiryDates(prev => ({ ...prev, [expiryKey]: e.target.value }))} />
-                                                                        </div>
+                                                                        {hasExpiry && (
+                                                                            <div className="flex items-center gap-2 text-[11px]">
+                                                                                <CalendarClock className="h-3 w-3 text-muted-foreground" />
+                                                                                <span className="text-muted-foreground">Vencimiento:</span>
+                                                                                <input type="date" className="border rounded px-1.5 py-0 text-[11px] bg-background"
+                                                                                    value={expiryDates[expiryKey] || ""}
+                                                                                    onChange={(e) => setExpiryDates(prev => ({ ...prev, [expiryKey]: e.target.value }))} />
+                                                                            </div>
+                                                                        )}
                                                                         {dDocs.map((doc) => (
                                                                             <div key={doc.id} className="flex items-center gap-1.5">
-                                                                                {getExpiryBadge(doc.expiresAt, alertDays)}
+                                                                                {hasExpiry && getExpiryBadge(doc.expiresAt, alertWindow(docType))}
                                                                                 <div className="flex-1 min-w-0">
-                                                                                    <DocRow doc={doc} busId={selectedBus.id} onPreview={setPreviewDoc} onDelete={setDeletingDoc} />
+                                                                                    <DocRow doc={doc} busId={selectedBus.id} onPreview={setPreviewDoc} onDelete={onDeleteDoc} />
                                                                                 </div>
                                                                             </div>
                                                                         ))}
@@ -1,7 +1,8 @@
 import { useState, useMemo } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Camera, CheckCircle, AlertTriangle, XCircle, Search, Pencil, Trash2 } from "lucide-react";
-import { CameraChannelLabels } from "@shared/schema";
+import { Link } from "wouter";
+import { CameraChannelLabels, EquipmentTypeLabels, Permission } from "@shared/schema";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -47,6 +48,7 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/lib/auth";
 
 
 interface CameraStatusData {
@@ -54,6 +56,7 @@ interface CameraStatusData {
   busNumber: string;
   plate?: string;
   cameras: Array<{ channel: string; status: "operational" | "misaligned" | "faulty" }>;
+  equipment: Array<{ equipmentType: string; status: string }>;
 }
 
 const statusLabels: Record<string, string> = {
@@ -62,6 +65,12 @@ const statusLabels: Record<string, string> = {
   faulty: "Dañada",
 };
 
+const equipmentStatusLabels: Record<string, string> = {
+  operational: "Operativo",
+  misaligned: "Requiere revisión",
+  faulty: "Dañado",
+};
+
 const statusColors: Record<string, string> = {
   operational: "bg-green-500",
   misaligned: "bg-amber-500",
@@ -78,6 +87,7 @@ export default function Cameras() {
   const [editPlate, setEditPlate] = useState("");
   const [deletingBus, setDeletingBus] = useState<{ id: string; busNumber: string } | null>(null);
   const { toast } = useToast();
+  const { can } = useAuth();
 
   const { data: cameraStatuses, isLoading } = useQuery<CameraStatusData[]>({
     queryKey: ["/api/camera-status"],
@@ -310,16 +320,22 @@ export default function Cameras() {
                     <TableHead className="text-center">CH2</TableHead>
                     <TableHead className="text-center">CH3</TableHead>
                     <TableHead className="text-center">CH4</TableHead>
+                    <TableHead className="text-center">Equipos</TableHead>
                     <TableHead className="text-center">Estado</TableHead>
                     <TableHead className="w-20"></TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
                   {paginatedData.map((bus) => {
-                    const issueCount = bus.cameras.filter((c) => c.status !== "operational").length;
+                    const issueCount = bus.cameras.filter((c) => c.status !== "operational").length +
+                      bus.equipment.filter((e) => e.status !== "operational").length;
                     return (
                       <TableRow key={bus.busId} data-testid={`row-bus-${bus.busNumber}`}>
-                        <TableCell className="font-medium">{bus.busNumber}</TableCell>
+                        <TableCell className="font-medium">
+                          <Link href={`/cameras/${bus.busId}`} className="hover:underline" data-testid={`link-bus-health-${bus.busNumber}`}>
+                            {bus.busNumber}
+                          </Link>
+                        </TableCell>
                         <TableCell className="text-muted-foreground">{bus.plate || "-"}</TableCell>
                         {bus.cameras.map((camera) => (
                           <TableCell key={camera.channel} className="text-center">
@@ -328,6 +344,24 @@ export default function Cameras() {
                             </div>
                           </TableCell>
                         ))}
+                        <TableCell className="text-center">
+                          <div className="flex justify-center gap-1.5">
+                            {bus.equipment.map((item) => (
+                              <Tooltip key={item.equipmentType}>
+                                <TooltipTrigger asChild>
+                                  <div
+                                    className={`h-3 w-3 rounded-sm cursor-help ${statusColors[item.status] || "bg-gray-500"}`}
+                                    data-testid={`equipment-dot-${bus.busNumber}-${item.equipmentType}`}
+                                  />
+                                </TooltipTrigger>
+                                <TooltipContent>
+                                  <p className="font-medium">{EquipmentTypeLabels[item.equipmentType]}</p>
+                                  <p className="text-xs text-muted-foreground">{equipmentStatusLabels[item.status] || item.status}</p>
+                                </TooltipContent>
+                              </Tooltip>
+                            ))}
+                          </div>
+                        </TableCell>
                         <TableCell className="text-center">
                           {issueCount === 0 ? (
                             <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800">
@@ -341,23 +375,27 @@ export default function Cameras() {
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center gap-1">
-                            <Button
-                              size="icon"
-                              variant="ghost"
-                              onClick={() => handleEditPlate(bus)}
-                              data-testid={`button-edit-plate-${bus.busNumber}`}
-                            >
-                              <Pencil className="h-4 w-4" />
-                            </Button>
-                            <Button
-                              size="icon"
-                              variant="ghost"
-                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                              onClick={() => setDeletingBus({ id: bus.busId, busNumber: bus.busNumber })}
-                              data-testid={`button-delete-bus-${bus.busNumber}`}
-                            >
-                              <Trash2 className="h-4 w-4" />
-                            </Button>
+                            {can(Permission.BUSES_EDIT) && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => handleEditPlate(bus)}
+                                data-testid={`button-edit-plate-${bus.busNumber}`}
+                              >
+                                <Pencil className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {can(Permission.BUSES_DELETE) && (
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                onClick={() => setDeletingBus({ id: bus.busId, busNumber: bus.busNumber })}
+                                data-testid={`button-delete-bus-${bus.busNumber}`}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
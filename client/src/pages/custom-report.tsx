@@ -0,0 +1,297 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfWeek, endOfWeek } from "date-fns";
+import { es } from "date-fns/locale";
+import { FileText, CheckCircle, AlertTriangle, Bus, CalendarRange, Target } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { MetricCard } from "@/components/metric-card";
+import { MetricCardSkeleton, ChartSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { DateRangePicker, type DateRangeValue } from "@/components/date-range-picker";
+import { EquipmentTypeLabels, IncidentTypeLabels } from "@shared/schema";
+import type { Bus as BusType, RangeReport, ReportGroupByKey } from "@shared/schema";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Cell,
+  Legend,
+} from "recharts";
+
+const groupByOptions: Array<{ value: ReportGroupByKey; label: string }> = [
+  { value: "day", label: "Por día" },
+  { value: "week", label: "Por semana" },
+  { value: "month", label: "Por mes" },
+];
+
+const periodFormats: Record<ReportGroupByKey, string> = {
+  day: "dd/MM",
+  week: "'Sem' II",
+  month: "MMM yyyy",
+};
+
+const colors = ["#8b5cf6", "#6366f1", "#06b6d4", "#64748b", "#f97316"];
+const incidentColors = ["#f59e0b", "#f97316", "#ef4444", "#3b82f6"];
+
+export default function CustomReport() {
+  const [range, setRange] = useState<DateRangeValue>({
+    from: startOfWeek(new Date(), { weekStartsOn: 1 }),
+    to: endOfWeek(new Date(), { weekStartsOn: 1 }),
+  });
+  const [groupBy, setGroupBy] = useState<ReportGroupByKey>("day");
+  const [busId, setBusId] = useState("all");
+  const [equipmentType, setEquipmentType] = useState("all");
+
+  const { data: buses } = useQuery<BusType[]>({
+    queryKey: ["/api/buses"],
+  });
+
+  const params = new URLSearchParams({
+    from: format(range.from, "yyyy-MM-dd"),
+    to: format(range.to, "yyyy-MM-dd"),
+    groupBy,
+  });
+  if (busId !== "all") params.set("busId", busId);
+  if (equipmentType !== "all") params.set("equipmentType", equipmentType);
+
+  const { data: report, isLoading, error } = useQuery<RangeReport>({
+    queryKey: [`/api/reports?${params.toString()}`],
+  });
+
+  const seriesData = (report?.series || []).map((point) => ({
+    name: format(new Date(point.periodStart), periodFormats[report!.groupBy], { locale: es }),
+    count: point.count,
+    resolved: point.resolved,
+  }));
+
+  const equipmentData = Object.entries(report?.incidentsByEquipment || {}).map(([key, value]) => ({
+    name: EquipmentTypeLabels[key] || key,
+    value,
+  }));
+
+  const incidentTypeData = Object.entries(report?.incidentsByType || {}).map(([key, value]) => ({
+    name: IncidentTypeLabels[key] || key,
+    value,
+  }));
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">Reporte por Período</h1>
+          <p className="text-muted-foreground">Incidencias en cualquier rango de fechas</p>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <DateRangePicker value={range} onChange={setRange} />
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as ReportGroupByKey)}>
+            <SelectTrigger className="w-36" data-testid="select-group-by">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {groupByOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={equipmentType} onValueChange={setEquipmentType}>
+            <SelectTrigger className="w-36" data-testid="select-equipment-filter">
+              <SelectValue placeholder="Equipo" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todo equipo</SelectItem>
+              {Object.entries(EquipmentTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={busId} onValueChange={setBusId}>
+            <SelectTrigger className="w-36" data-testid="select-bus-filter">
+              <SelectValue placeholder="Bus" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos los buses</SelectItem>
+              {buses?.map((bus) => (
+                <SelectItem key={bus.id} value={bus.id}>Bus {bus.busNumber}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+        {isLoading ? (
+          <>
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+          </>
+        ) : (
+          <>
+            <MetricCard
+              title="Total Incidencias"
+              value={report?.totalIncidents || 0}
+              subtitle="En el período"
+              icon={FileText}
+            />
+            <MetricCard
+              title="Resueltas"
+              value={report?.resolvedIncidents || 0}
+              subtitle={`${report?.totalIncidents ? Math.round((report.resolvedIncidents / report.totalIncidents) * 100) : 0}% del total`}
+              icon={CheckCircle}
+            />
+            <MetricCard
+              title="Pendientes"
+              value={(report?.totalIncidents || 0) - (report?.resolvedIncidents || 0)}
+              subtitle="Por resolver"
+              icon={AlertTriangle}
+            />
+            <MetricCard
+              title="Primer Intento"
+              value={report?.firstTimeFixRate != null ? `${report.firstTimeFixRate}%` : "-"}
+              subtitle="Reparadas sin reabrir"
+              icon={Target}
+            />
+            <MetricCard
+              title="Buses Afectados"
+              value={report?.mostAffectedBuses?.length || 0}
+              subtitle="Con incidencias"
+              icon={Bus}
+            />
+          </>
+        )}
+      </div>
+
+      {error ? (
+        <Card>
+          <CardContent className="py-8">
+            <EmptyState
+              icon={AlertTriangle}
+              title="No se pudo generar el reporte"
+              description="Revise el rango de fechas: para agrupar por día no puede superar un año"
+            />
+          </CardContent>
+        </Card>
+      ) : !isLoading && report?.totalIncidents === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <EmptyState
+              icon={CalendarRange}
+              title="Sin incidencias en el período"
+              description="No se registraron incidencias con los filtros seleccionados"
+            />
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <ChartSkeleton />
+          <ChartSkeleton />
+        </div>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Evolución</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={seriesData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="name" />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="count" fill="hsl(var(--primary))" radius={[4, 4, 0, 0]} name="Incidencias" />
+                  <Bar dataKey="resolved" fill="#22c55e" radius={[4, 4, 0, 0]} name="Resueltas" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Incidencias por Equipo</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={equipmentData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="name" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip />
+                    <Bar dataKey="value" radius={[4, 4, 0, 0]} name="Incidencias">
+                      {equipmentData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={colors[index % colors.length]} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Incidencias por Tipo</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={incidentTypeData} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                    <XAxis type="number" allowDecimals={false} />
+                    <YAxis dataKey="name" type="category" width={90} />
+                    <Tooltip />
+                    <Bar dataKey="value" radius={[0, 4, 4, 0]} name="Incidencias">
+                      {incidentTypeData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={incidentColors[index % incidentColors.length]} />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          {report && report.mostAffectedBuses.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Buses Más Afectados</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                  {report.mostAffectedBuses.map((bus, index) => (
+                    <div
+                      key={bus.busNumber}
+                      className="flex items-center justify-between p-3 rounded-md bg-muted/50"
+                      data-testid={`bus-affected-${bus.busNumber}`}
+                    >
+                      <div className="flex items-center gap-3">
+                        <span className="flex h-8 w-8 items-center justify-center rounded-full bg-primary/10 text-primary text-sm font-medium">
+                          {index + 1}
+                        </span>
+                        <span className="font-medium">Bus {bus.busNumber}</span>
+                      </div>
+                      <span className="text-sm text-muted-foreground">{bus.count} incidencias</span>
+                    </div>
+                  ))}
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
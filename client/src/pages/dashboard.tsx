@@ -1,6 +1,6 @@
 import { useState, useMemo } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { Bus, AlertTriangle, CheckCircle, Clock, Camera, HardDrive, Radio, Cable, Search } from "lucide-react";
+import { Bus, AlertTriangle, CheckCircle, Clock, Camera, HardDrive, Radio, Cable, Search, UserCog, AlarmClock } from "lucide-react";
 import { MetricCard } from "@/components/metric-card";
 import { IncidentList } from "@/components/incident-list";
 import { MetricCardSkeleton, IncidentListSkeleton } from "@/components/loading-skeleton";
@@ -22,8 +22,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Skeleton } from "@/components/ui/skeleton";
-import { CameraChannelLabels } from "@shared/schema";
-import type { DashboardStats, Incident, Bus as BusType } from "@shared/schema";
+import { PriorityBadge } from "@/components/status-badge";
+import { CameraChannelLabels, IncidentPriorityLabels } from "@shared/schema";
+import { RecurringFailuresCard } from "@/components/recurring-failures-card";
+import type { DashboardStats, Incident, Bus as BusType, RecurringFailure } from "@shared/schema";
 
 const CAMERAS_PER_PAGE = 10;
 
@@ -50,6 +52,10 @@ export default function Dashboard() {
     queryKey: ["/api/incidents?limit=5"],
   });
 
+  const { data: overdueIncidents } = useQuery<Incident[]>({
+    queryKey: ["/api/incidents?overdue=true&sort=priority&limit=5"],
+  });
+
   const { data: buses } = useQuery<BusType[]>({
     queryKey: ["/api/buses"],
   });
@@ -58,6 +64,15 @@ export default function Dashboard() {
     queryKey: ["/api/camera-status"],
   });
 
+  const { data: recurringFailures } = useQuery<RecurringFailure[]>({
+    queryKey: ["/api/recurring-failures"],
+  });
+
+  // "busId:channel" of camera channels flagged as recurring failures
+  const recurringChannels = new Set(
+    recurringFailures?.filter((f) => f.cameraChannel).map((f) => `${f.busId}:${f.cameraChannel}`) || []
+  );
+
   const busMap = new Map(buses?.map((b) => [b.id, b.busNumber]) || []);
 
   const filteredCameras = useMemo(() => {
@@ -81,13 +96,14 @@ export default function Dashboard() {
         <p className="text-muted-foreground">Resumen general del estado de la flota</p>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-5">
         {statsLoading ? (
           <>
             <MetricCardSkeleton />
             <MetricCardSkeleton />
             <MetricCardSkeleton />
             <MetricCardSkeleton />
+            <MetricCardSkeleton />
           </>
         ) : (
           <>
@@ -115,12 +131,25 @@ export default function Dashboard() {
               subtitle="En espera de piezas"
               icon={Clock}
             />
+            <MetricCard
+              title="Incidencias Vencidas"
+              value={stats?.overdueIncidents || 0}
+              subtitle="Fuera de su fecha límite"
+              icon={AlarmClock}
+            />
           </>
         )}
       </div>
 
       <div className="grid gap-6 lg:grid-cols-3">
-        <div className="lg:col-span-2">
+        <div className="lg:col-span-2 space-y-6">
+          {overdueIncidents && overdueIncidents.length > 0 && (
+            <IncidentList
+              incidents={overdueIncidents}
+              title="Vencidas Más Urgentes"
+              buses={busMap}
+            />
+          )}
           {incidentsLoading ? (
             <IncidentListSkeleton />
           ) : (
@@ -131,7 +160,7 @@ export default function Dashboard() {
             />
           )}
         </div>
-        <div>
+        <div className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Incidencias por Tipo</CardTitle>
@@ -189,9 +218,68 @@ export default function Dashboard() {
               )}
             </CardContent>
           </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Abiertas por Prioridad</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {statsLoading ? (
+                <div className="space-y-3">
+                  {[1, 2, 3, 4].map((i) => (
+                    <div key={i} className="h-4 bg-muted animate-pulse rounded" />
+                  ))}
+                </div>
+              ) : (
+                Object.keys(IncidentPriorityLabels).map((priority) => (
+                  <div key={priority} className="flex items-center gap-3" data-testid={`priority-load-${priority}`}>
+                    <div className="flex-1">
+                      <PriorityBadge priority={priority} size="sm" />
+                    </div>
+                    <span className="text-sm font-semibold">{stats?.openIncidentsByPriority?.[priority] || 0}</span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Abiertas por Técnico</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {statsLoading ? (
+                <div className="space-y-3">
+                  {[1, 2, 3].map((i) => (
+                    <div key={i} className="h-4 bg-muted animate-pulse rounded" />
+                  ))}
+                </div>
+              ) : !stats?.openIncidentsByTechnician?.length ? (
+                <p className="text-sm text-muted-foreground">No hay incidencias abiertas</p>
+              ) : (
+                stats.openIncidentsByTechnician.map((row) => (
+                  <div
+                    key={row.userId ?? "unassigned"}
+                    className="flex items-center gap-3"
+                    data-testid={`technician-load-${row.userId ?? "unassigned"}`}
+                  >
+                    <div className="h-8 w-8 rounded-full bg-primary/10 text-primary flex items-center justify-center">
+                      <UserCog className="h-4 w-4" />
+                    </div>
+                    <p className={`flex-1 text-sm font-medium ${row.userId ? "" : "text-muted-foreground"}`}>
+                      {row.name}
+                    </p>
+                    <span className="text-sm font-semibold">{row.count}</span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
         </div>
       </div>
 
+      {recurringFailures && recurringFailures.length > 0 && (
+        <RecurringFailuresCard failures={recurringFailures} />
+      )}
+
       <Card>
         <CardHeader className="pb-3">
           <div className="flex flex-wrap items-center justify-between gap-3">
@@ -238,21 +326,28 @@ export default function Dashboard() {
                     return (
                       <TableRow key={bus.busId}>
                         <TableCell className="font-medium">{bus.busNumber}</TableCell>
-                        {bus.cameras.map((cam) => (
-                          <TableCell key={cam.channel} className="text-center">
-                            <div className="flex justify-center">
-                              <Tooltip>
-                                <TooltipTrigger asChild>
-                                  <div className={`h-3.5 w-3.5 rounded-full cursor-help ${camStatusColors[cam.status] || "bg-gray-500"}`} />
-                                </TooltipTrigger>
-                                <TooltipContent>
-                                  <p className="font-medium">{CameraChannelLabels[cam.channel]}</p>
-                                  <p className="text-xs text-muted-foreground">{camStatusLabels[cam.status]}</p>
-                                </TooltipContent>
-                              </Tooltip>
-                            </div>
-                          </TableCell>
-                        ))}
+                        {bus.cameras.map((cam) => {
+                          const recurring = recurringChannels.has(`${bus.busId}:${cam.channel}`);
+                          return (
+                            <TableCell key={cam.channel} className="text-center">
+                              <div className="flex justify-center">
+                                <Tooltip>
+                                  <TooltipTrigger asChild>
+                                    <div
+                                      className={`h-3.5 w-3.5 rounded-full cursor-help ${camStatusColors[cam.status] || "bg-gray-500"} ${recurring ? "ring-2 ring-orange-400 ring-offset-1 ring-offset-background" : ""}`}
+                                      data-testid={recurring ? `recurring-channel-${bus.busNumber}-${cam.channel}` : undefined}
+                                    />
+                                  </TooltipTrigger>
+                                  <TooltipContent>
+                                    <p className="font-medium">{CameraChannelLabels[cam.channel]}</p>
+                                    <p className="text-xs text-muted-foreground">{camStatusLabels[cam.status]}</p>
+                                    {recurring && <p className="text-xs text-orange-500">Falla recurrente</p>}
+                                  </TooltipContent>
+                                </Tooltip>
+                              </div>
+                            </TableCell>
+                          );
+                        })}
                         <TableCell className="text-center">
                           {issues === 0 ? (
                             <Badge variant="outline" className="bg-green-50 text-green-700 border-green-200 dark:bg-green-900/20 dark:text-green-400 dark:border-green-800 text-xs">
@@ -1,13 +1,16 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import { useLocation, useSearch } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
-import { Search, Filter, ClipboardList, CheckCircle } from "lucide-react";
+import { Search, Filter, ClipboardList, CheckCircle, Plus, X, ArrowUpDown, RotateCcw } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import {
   Select,
   SelectContent,
@@ -30,33 +33,107 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { StatusBadge, EquipmentTypeBadge, IncidentTypeBadge } from "@/components/status-badge";
+import { StatusBadge, EquipmentTypeBadge, IncidentTypeBadge, PriorityBadge, DueLabel } from "@/components/status-badge";
 import { TableSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
-import type { Incident, Bus } from "@shared/schema";
-import { CameraChannelLabels } from "@shared/schema";
+import { IncidentTimeline } from "@/components/incident-timeline";
+import { IncidentAttachments } from "@/components/incident-attachments";
+import { IncidentComments } from "@/components/incident-comments";
+import type { Incident, IncidentEvent, Bus, Device, DeviceSwapData, SparePart, PartUsage } from "@shared/schema";
+import {
+  CameraChannelLabels,
+  DeviceLocationLabels,
+  IncidentPriority,
+  IncidentPriorityLabels,
+  Permission,
+  isIncidentOverdue,
+} from "@shared/schema";
+
+const priorityRank = Object.values(IncidentPriority) as string[];
+const dueTime = (incident: Incident) => incident.dueAt ? new Date(incident.dueAt).getTime() : Infinity;
+const reportedTime = (incident: Incident) => incident.reportedAt ? new Date(incident.reportedAt).getTime() : 0;
+
+// Open incidents before resolved ones in the priority and due date orders
+const incidentOrders: Record<string, (a: Incident, b: Incident) => number> = {
+  recent: (a, b) => reportedTime(b) - reportedTime(a),
+  priority: (a, b) =>
+    Number(a.status === "resolved") - Number(b.status === "resolved") ||
+    priorityRank.indexOf(a.priority) - priorityRank.indexOf(b.priority) ||
+    dueTime(a) - dueTime(b),
+  due: (a, b) =>
+    Number(a.status === "resolved") - Number(b.status === "resolved") ||
+    dueTime(a) - dueTime(b),
+};
 
 export default function Equipment() {
   const { toast } = useToast();
+  const { can } = useAuth();
   const [search, setSearch] = useState("");
   const [equipmentFilter, setEquipmentFilter] = useState<string>("all");
   const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [priorityFilter, setPriorityFilter] = useState<string>("all");
+  const [sortBy, setSortBy] = useState<string>("recent");
   const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
   const [resolutionNotes, setResolutionNotes] = useState("");
+  const [outgoingDeviceId, setOutgoingDeviceId] = useState("none");
+  const [incomingDeviceId, setIncomingDeviceId] = useState("none");
+  const [outgoingLocation, setOutgoingLocation] = useState<"workshop" | "warehouse">("workshop");
+  const [usedParts, setUsedParts] = useState<PartUsage>([]);
+  const [partToAdd, setPartToAdd] = useState("");
+  const [partQuantity, setPartQuantity] = useState("1");
+  const [reopeningIncident, setReopeningIncident] = useState<Incident | null>(null);
+  const [reopenReason, setReopenReason] = useState("");
 
   const { data: incidents, isLoading: incidentsLoading } = useQuery<Incident[]>({
     queryKey: ["/api/incidents"],
   });
 
+  // ?incident=<id> (e.g. from a mention notification) opens that incident
+  const [, setLocation] = useLocation();
+  const linkedIncidentId = new URLSearchParams(useSearch()).get("incident");
+  useEffect(() => {
+    const linked = linkedIncidentId && incidents?.find((i) => i.id === linkedIncidentId);
+    if (linked) setSelectedIncident(linked);
+  }, [linkedIncidentId, incidents]);
+
   const { data: buses } = useQuery<Bus[]>({
     queryKey: ["/api/buses"],
   });
 
+  const { data: technicians } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ["/api/technicians"],
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<IncidentEvent[]>({
+    queryKey: ["/api/incidents", selectedIncident?.id, "history"],
+    enabled: !!selectedIncident,
+  });
+
+  const isReplacement = selectedIncident?.incidentType === "replacement" && can(Permission.INVENTORY_VIEW);
+
+  const { data: typeDevices } = useQuery<Device[]>({
+    queryKey: [`/api/devices?equipmentType=${selectedIncident?.equipmentType}`],
+    enabled: isReplacement,
+  });
+
+  const installedDevices = typeDevices?.filter((d) =>
+    d.busId === selectedIncident?.busId &&
+    (!selectedIncident?.cameraChannel || !d.cameraChannel || d.cameraChannel === selectedIncident.cameraChannel)
+  ) || [];
+  const spareDevices = typeDevices?.filter((d) => d.location !== "bus") || [];
+
+  const { data: spareParts } = useQuery<SparePart[]>({
+    queryKey: ["/api/parts"],
+    enabled: !!selectedIncident && can(Permission.INVENTORY_VIEW),
+  });
+
   const busMap = new Map(buses?.map((b) => [b.id, b.busNumber]) || []);
+  const partMap = new Map(spareParts?.map((p) => [p.id, p]) || []);
+  const technicianMap = new Map(technicians?.map((t) => [t.id, t.name]) || []);
 
   const updateIncident = useMutation({
-    mutationFn: async ({ id, status, resolutionNotes }: { id: string; status: string; resolutionNotes?: string }) => {
-      return apiRequest("PATCH", `/api/incidents/${id}`, { status, resolutionNotes });
+    mutationFn: async ({ id, status, resolutionNotes, swap, parts }: { id: string; status: string; resolutionNotes?: string; swap?: DeviceSwapData; parts?: PartUsage }) => {
+      return apiRequest("PATCH", `/api/incidents/${id}`, { status, resolutionNotes, swap, parts });
     },
     onSuccess: () => {
       toast({
@@ -64,10 +141,12 @@ export default function Equipment() {
         description: "El estado se ha actualizado correctamente.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents/mine"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/camera-status"] });
-      setSelectedIncident(null);
-      setResolutionNotes("");
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      closeResolveDialog();
     },
     onError: () => {
       toast({
@@ -78,21 +157,130 @@ export default function Equipment() {
     },
   });
 
+  const assignIncident = useMutation({
+    mutationFn: async ({ id, assignedTo }: { id: string; assignedTo: string | null }) => {
+      const response = await apiRequest("PATCH", `/api/incidents/${id}/assignment`, { assignedTo });
+      return response.json() as Promise<Incident>;
+    },
+    onSuccess: (incident) => {
+      toast({
+        title: "Incidencia asignada",
+        description: incident.assignedTo
+          ? `Asignada a ${technicianMap.get(incident.assignedTo) || "técnico"}.`
+          : "La incidencia quedó sin asignar.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents/mine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      setSelectedIncident(incident);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo asignar la incidencia.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const changePriority = useMutation({
+    mutationFn: async ({ id, priority }: { id: string; priority: string }) => {
+      const response = await apiRequest("PATCH", `/api/incidents/${id}`, { priority });
+      return response.json() as Promise<Incident>;
+    },
+    onSuccess: (incident) => {
+      toast({
+        title: "Prioridad actualizada",
+        description: `Prioridad ${IncidentPriorityLabels[incident.priority]?.toLowerCase() || incident.priority}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents/mine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      setSelectedIncident(incident);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo cambiar la prioridad.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reopenIncident = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      return apiRequest("POST", `/api/incidents/${id}/reopen`, { reason });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Incidencia reabierta",
+        description: "La incidencia volvió a pendiente y el equipo quedó marcado con falla.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents/mine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/camera-status"] });
+      setReopeningIncident(null);
+      setReopenReason("");
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo reabrir la incidencia.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const filteredIncidents = incidents?.filter((incident) => {
     const busNumber = busMap.get(incident.busId) || "";
     const matchesSearch = busNumber.toLowerCase().includes(search.toLowerCase()) ||
       incident.description?.toLowerCase().includes(search.toLowerCase());
     const matchesEquipment = equipmentFilter === "all" || incident.equipmentType === equipmentFilter;
-    const matchesStatus = statusFilter === "all" || incident.status === statusFilter;
-    return matchesSearch && matchesEquipment && matchesStatus;
-  }) || [];
+    const matchesStatus = statusFilter === "all" ||
+      (statusFilter === "overdue" ? isIncidentOverdue(incident) : incident.status === statusFilter);
+    const matchesPriority = priorityFilter === "all" || incident.priority === priorityFilter;
+    return matchesSearch && matchesEquipment && matchesStatus && matchesPriority;
+  }).sort(incidentOrders[sortBy]) || [];
+
+  const closeResolveDialog = () => {
+    if (linkedIncidentId) setLocation("/equipment", { replace: true });
+    setSelectedIncident(null);
+    setResolutionNotes("");
+    setOutgoingDeviceId("none");
+    setIncomingDeviceId("none");
+    setOutgoingLocation("workshop");
+    setUsedParts([]);
+    setPartToAdd("");
+    setPartQuantity("1");
+  };
+
+  const addUsedPart = () => {
+    const quantity = parseInt(partQuantity);
+    if (!partToAdd || !quantity || quantity < 1) return;
+    const existing = usedParts.find((p) => p.partId === partToAdd);
+    setUsedParts(existing
+      ? usedParts.map((p) => p.partId === partToAdd ? { ...p, quantity: p.quantity + quantity } : p)
+      : [...usedParts, { partId: partToAdd, quantity }]);
+    setPartToAdd("");
+    setPartQuantity("1");
+  };
 
   const handleResolve = () => {
     if (selectedIncident) {
+      const hasSwap = isReplacement && (outgoingDeviceId !== "none" || incomingDeviceId !== "none");
       updateIncident.mutate({
         id: selectedIncident.id,
         status: "resolved",
         resolutionNotes,
+        swap: hasSwap
+          ? {
+              outgoingDeviceId: outgoingDeviceId !== "none" ? outgoingDeviceId : undefined,
+              incomingDeviceId: incomingDeviceId !== "none" ? incomingDeviceId : undefined,
+              outgoingLocation,
+            }
+          : undefined,
+        parts: usedParts.length > 0 ? usedParts : undefined,
       });
     }
   };
@@ -143,6 +331,29 @@ export default function Equipment() {
                 <SelectItem value="pending">Pendiente</SelectItem>
                 <SelectItem value="in_progress">En Progreso</SelectItem>
                 <SelectItem value="resolved">Resuelto</SelectItem>
+                <SelectItem value="overdue">Vencidas</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={priorityFilter} onValueChange={setPriorityFilter}>
+              <SelectTrigger className="w-full sm:w-40" data-testid="select-priority-filter">
+                <SelectValue placeholder="Prioridad" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Toda prioridad</SelectItem>
+                {Object.entries(IncidentPriorityLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sortBy} onValueChange={setSortBy}>
+              <SelectTrigger className="w-full sm:w-44" data-testid="select-sort">
+                <ArrowUpDown className="h-4 w-4 mr-2" />
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="recent">Más recientes</SelectItem>
+                <SelectItem value="priority">Prioridad</SelectItem>
+                <SelectItem value="due">Fecha límite</SelectItem>
               </SelectContent>
             </Select>
           </div>
@@ -160,7 +371,7 @@ export default function Equipment() {
             <EmptyState
               icon={ClipboardList}
               title="Sin incidencias"
-              description={search || equipmentFilter !== "all" || statusFilter !== "all"
+              description={search || equipmentFilter !== "all" || statusFilter !== "all" || priorityFilter !== "all"
                 ? "No se encontraron incidencias con los filtros aplicados"
                 : "No hay incidencias registradas"}
               actionLabel="Registrar Incidencia"
@@ -172,11 +383,14 @@ export default function Equipment() {
                 <TableHeader>
                   <TableRow>
                     <TableHead>Bus</TableHead>
+                    <TableHead>Prioridad</TableHead>
                     <TableHead>Equipo</TableHead>
                     <TableHead>Tipo</TableHead>
                     <TableHead>Canal</TableHead>
                     <TableHead>Estado</TableHead>
+                    <TableHead>Asignado a</TableHead>
                     <TableHead>Fecha</TableHead>
+                    <TableHead>Plazo</TableHead>
                     <TableHead className="text-right">Acciones</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -186,6 +400,9 @@ export default function Equipment() {
                       <TableCell className="font-medium">
                         Bus {busMap.get(incident.busId) || incident.busId}
                       </TableCell>
+                      <TableCell>
+                        <PriorityBadge priority={incident.priority} size="sm" />
+                      </TableCell>
                       <TableCell>
                         <EquipmentTypeBadge type={incident.equipmentType} size="sm" />
                       </TableCell>
@@ -202,15 +419,33 @@ export default function Equipment() {
                         )}
                       </TableCell>
                       <TableCell>
-                        <StatusBadge status={incident.status} size="sm" />
+                        <div className="flex items-center gap-1">
+                          <StatusBadge status={incident.status} size="sm" />
+                          {incident.reopenCount > 0 && (
+                            <Badge variant="outline" className="text-[10px] gap-1" title="Veces reabierta">
+                              <RotateCcw className="h-3 w-3" />
+                              {incident.reopenCount}
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {incident.assignedTo ? (
+                          technicianMap.get(incident.assignedTo) || "-"
+                        ) : (
+                          <span className="text-muted-foreground">Sin asignar</span>
+                        )}
                       </TableCell>
                       <TableCell className="text-sm text-muted-foreground">
                         {incident.reportedAt
                           ? format(new Date(incident.reportedAt), "dd MMM yyyy", { locale: es })
                           : "-"}
                       </TableCell>
+                      <TableCell>
+                        <DueLabel incident={incident} />
+                      </TableCell>
                       <TableCell className="text-right">
-                        {incident.status !== "resolved" && (
+                        {incident.status !== "resolved" && can(Permission.INCIDENTS_UPDATE) && (
                           <Button
                             size="sm"
                             variant="ghost"
@@ -221,6 +456,17 @@ export default function Equipment() {
                             Resolver
                           </Button>
                         )}
+                        {incident.status === "resolved" && can(Permission.INCIDENTS_UPDATE) && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            onClick={() => setReopeningIncident(incident)}
+                            data-testid={`button-reopen-${incident.id}`}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Reabrir
+                          </Button>
+                        )}
                       </TableCell>
                     </TableRow>
                   ))}
@@ -231,8 +477,8 @@ export default function Equipment() {
         </CardContent>
       </Card>
 
-      <Dialog open={!!selectedIncident} onOpenChange={() => setSelectedIncident(null)}>
-        <DialogContent>
+      <Dialog open={!!selectedIncident} onOpenChange={closeResolveDialog}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Resolver Incidencia</DialogTitle>
           </DialogHeader>
@@ -242,16 +488,185 @@ export default function Equipment() {
                 <p className="text-sm text-muted-foreground">Bus</p>
                 <p className="font-medium">Bus {busMap.get(selectedIncident.busId)}</p>
               </div>
-              <div className="flex gap-2">
+              <div className="flex flex-wrap items-center gap-2">
                 <EquipmentTypeBadge type={selectedIncident.equipmentType} />
                 <IncidentTypeBadge type={selectedIncident.incidentType} />
+                <DueLabel incident={selectedIncident} />
               </div>
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Prioridad</p>
+                <Select
+                  value={selectedIncident.priority}
+                  onValueChange={(value) => changePriority.mutate({ id: selectedIncident.id, priority: value })}
+                  disabled={changePriority.isPending}
+                >
+                  <SelectTrigger data-testid="select-priority">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(IncidentPriorityLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {can(Permission.INCIDENTS_ASSIGN) && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Técnico asignado</p>
+                  <Select
+                    value={selectedIncident.assignedTo || "none"}
+                    onValueChange={(value) =>
+                      assignIncident.mutate({
+                        id: selectedIncident.id,
+                        assignedTo: value === "none" ? null : value,
+                      })
+                    }
+                    disabled={assignIncident.isPending}
+                  >
+                    <SelectTrigger data-testid="select-assignee">
+                      <SelectValue placeholder="Sin asignar" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sin asignar</SelectItem>
+                      {technicians?.map((t) => (
+                        <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               {selectedIncident.description && (
                 <div className="space-y-2">
                   <p className="text-sm text-muted-foreground">Descripción</p>
                   <p className="text-sm">{selectedIncident.description}</p>
                 </div>
               )}
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Evidencia</p>
+                <IncidentAttachments
+                  incidentId={selectedIncident.id}
+                  defaultStage={selectedIncident.status === "pending" ? "before" : "after"}
+                />
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Comentarios</p>
+                <IncidentComments incidentId={selectedIncident.id} />
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Historial</p>
+                <div className="max-h-56 overflow-y-auto pr-1">
+                  {historyLoading ? (
+                    <p className="text-sm text-muted-foreground">Cargando historial...</p>
+                  ) : (
+                    <IncidentTimeline events={history || []} />
+                  )}
+                </div>
+              </div>
+              {isReplacement && (
+                <div className="space-y-3 rounded-md border p-3">
+                  <p className="text-sm font-medium">Reemplazo de equipo</p>
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">Equipo retirado</p>
+                    <Select value={outgoingDeviceId} onValueChange={setOutgoingDeviceId}>
+                      <SelectTrigger data-testid="select-outgoing-device">
+                        <SelectValue placeholder="No registrado" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No registrado</SelectItem>
+                        {installedDevices.map((d) => (
+                          <SelectItem key={d.id} value={d.id}>{d.serial} · {d.model}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {outgoingDeviceId !== "none" && (
+                    <div className="space-y-2">
+                      <p className="text-sm text-muted-foreground">Destino del equipo retirado</p>
+                      <Select value={outgoingLocation} onValueChange={(v) => setOutgoingLocation(v as "workshop" | "warehouse")}>
+                        <SelectTrigger data-testid="select-outgoing-location">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="workshop">Taller</SelectItem>
+                          <SelectItem value="warehouse">Bodega</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <p className="text-sm text-muted-foreground">Equipo instalado</p>
+                    <Select value={incomingDeviceId} onValueChange={setIncomingDeviceId}>
+                      <SelectTrigger data-testid="select-incoming-device">
+                        <SelectValue placeholder="No registrado" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No registrado</SelectItem>
+                        {spareDevices.map((d) => (
+                          <SelectItem key={d.id} value={d.id}>
+                            {d.serial} · {d.model} ({DeviceLocationLabels[d.location] || d.location})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+              )}
+              {can(Permission.INVENTORY_VIEW) && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Repuestos utilizados</p>
+                  {usedParts.map((line) => {
+                    const part = partMap.get(line.partId);
+                    return (
+                      <div key={line.partId} className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm">
+                        <span>{part?.name || line.partId}</span>
+                        <div className="flex items-center gap-2">
+                          <span className="text-muted-foreground">{line.quantity} {part?.unit}</span>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => setUsedParts(usedParts.filter((p) => p.partId !== line.partId))}
+                            data-testid={`button-remove-part-${line.partId}`}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                  <div className="flex gap-2">
+                    <Select value={partToAdd} onValueChange={setPartToAdd}>
+                      <SelectTrigger className="flex-1" data-testid="select-used-part">
+                        <SelectValue placeholder="Seleccione repuesto" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {spareParts?.map((p) => (
+                          <SelectItem key={p.id} value={p.id} disabled={p.stock === 0}>
+                            {p.name} ({p.stock} {p.unit})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={partQuantity}
+                      onChange={(e) => setPartQuantity(e.target.value)}
+                      className="w-20"
+                      data-testid="input-used-part-quantity"
+                    />
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={addUsedPart}
+                      disabled={!partToAdd}
+                      data-testid="button-add-used-part"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Notas de Resolución</label>
                 <Textarea
@@ -274,6 +689,55 @@ export default function Equipment() {
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog
+        open={!!reopeningIncident}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReopeningIncident(null);
+            setReopenReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reabrir Incidencia</DialogTitle>
+          </DialogHeader>
+          {reopeningIncident && (
+            <div className="space-y-4 pt-4">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-medium">Bus {busMap.get(reopeningIncident.busId)}</span>
+                <EquipmentTypeBadge type={reopeningIncident.equipmentType} />
+                <IncidentTypeBadge type={reopeningIncident.incidentType} />
+              </div>
+              {reopeningIncident.resolutionNotes && (
+                <div className="space-y-2">
+                  <p className="text-sm text-muted-foreground">Resolución anterior</p>
+                  <p className="text-sm">{reopeningIncident.resolutionNotes}</p>
+                </div>
+              )}
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Motivo de la reapertura</label>
+                <Textarea
+                  value={reopenReason}
+                  onChange={(e) => setReopenReason(e.target.value)}
+                  placeholder="Describa por qué la falla persiste o volvió a aparecer..."
+                  className="resize-none"
+                  data-testid="textarea-reopen-reason"
+                />
+              </div>
+              <Button
+                onClick={() => reopenIncident.mutate({ id: reopeningIncident.id, reason: reopenReason })}
+                disabled={!reopenReason.trim() || reopenIncident.isPending}
+                className="w-full"
+                data-testid="button-confirm-reopen"
+              >
+                {reopenIncident.isPending ? "Guardando..." : "Reabrir Incidencia"}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -0,0 +1,414 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { Package, Plus, History, Search, Filter } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EquipmentTypeBadge } from "@/components/status-badge";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { CameraChannelLabels, DeviceLocationLabels, Permission } from "@shared/schema";
+import type { Bus, Device, DeviceMovement } from "@shared/schema";
+
+const emptyForm = {
+  serial: "",
+  model: "",
+  equipmentType: "camera",
+  location: "warehouse",
+  busId: "",
+  cameraChannel: "",
+  purchaseDate: "",
+  warrantyEnd: "",
+  notes: "",
+};
+
+function formatDate(value: string | Date | null) {
+  return value ? format(new Date(value), "dd MMM yyyy", { locale: es }) : "-";
+}
+
+export default function Inventory() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [search, setSearch] = useState("");
+  const [typeFilter, setTypeFilter] = useState("all");
+  const [locationFilter, setLocationFilter] = useState("all");
+  const [createDialogOpen, setCreateDialogOpen] = useState(false);
+  const [historyDevice, setHistoryDevice] = useState<Device | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: devices, isLoading } = useQuery<Device[]>({
+    queryKey: ["/api/devices"],
+  });
+
+  const { data: buses } = useQuery<Bus[]>({
+    queryKey: ["/api/buses"],
+  });
+
+  const { data: movements, isLoading: movementsLoading } = useQuery<Array<DeviceMovement & { busNumber: string }>>({
+    queryKey: ["/api/devices", historyDevice?.id, "history"],
+    enabled: !!historyDevice,
+  });
+
+  const busMap = new Map(buses?.map((b) => [b.id, b.busNumber]) || []);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const response = await apiRequest("POST", "/api/devices", {
+        serial: data.serial,
+        model: data.model,
+        equipmentType: data.equipmentType,
+        location: data.location,
+        busId: data.location === "bus" ? data.busId || null : null,
+        cameraChannel: data.location === "bus" && data.equipmentType === "camera" ? data.cameraChannel || null : null,
+        purchaseDate: data.purchaseDate || null,
+        warrantyEnd: data.warrantyEnd || null,
+        notes: data.notes || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Equipo registrado", description: "El equipo se agregó al inventario." });
+      queryClient.invalidateQueries({ queryKey: ["/api/devices"] });
+      setCreateDialogOpen(false);
+      setFormData(emptyForm);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo registrar. Puede que la serie ya exista.", variant: "destructive" });
+    },
+  });
+
+  const filteredDevices = devices?.filter((device) => {
+    const term = search.toLowerCase();
+    const matchesSearch = device.serial.toLowerCase().includes(term) ||
+      device.model.toLowerCase().includes(term) ||
+      (device.busId && (busMap.get(device.busId) || "").toLowerCase().includes(term));
+    const matchesType = typeFilter === "all" || device.equipmentType === typeFilter;
+    const matchesLocation = locationFilter === "all" || device.location === locationFilter;
+    return matchesSearch && matchesType && matchesLocation;
+  }) || [];
+
+  const renderLocation = (device: Device) => {
+    if (device.location === "bus" && device.busId) {
+      return (
+        <span className="text-sm">
+          Bus {busMap.get(device.busId) || device.busId}
+          {device.cameraChannel && ` · ${device.cameraChannel.toUpperCase()} - ${CameraChannelLabels[device.cameraChannel]}`}
+        </span>
+      );
+    }
+    return <Badge variant="outline">{DeviceLocationLabels[device.location] || device.location}</Badge>;
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">Inventario de Equipos</h1>
+          <p className="text-muted-foreground">Cámaras, DVR, GPS y discos por número de serie</p>
+        </div>
+        {can(Permission.INVENTORY_MANAGE) && (
+          <Button onClick={() => setCreateDialogOpen(true)} data-testid="button-add-device">
+            <Plus className="h-4 w-4 mr-2" />
+            Registrar Equipo
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Filtros</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por serie, modelo o bus..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+                data-testid="input-search-device"
+              />
+            </div>
+            <Select value={typeFilter} onValueChange={setTypeFilter}>
+              <SelectTrigger className="w-full sm:w-40" data-testid="select-device-type-filter">
+                <Filter className="h-4 w-4 mr-2" />
+                <SelectValue placeholder="Equipo" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos</SelectItem>
+                <SelectItem value="camera">Cámara</SelectItem>
+                <SelectItem value="dvr">DVR</SelectItem>
+                <SelectItem value="gps">GPS</SelectItem>
+                <SelectItem value="hard_drive">Disco Duro</SelectItem>
+                <SelectItem value="cable">Cable</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={locationFilter} onValueChange={setLocationFilter}>
+              <SelectTrigger className="w-full sm:w-40" data-testid="select-device-location-filter">
+                <SelectValue placeholder="Ubicación" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todas</SelectItem>
+                <SelectItem value="bus">En bus</SelectItem>
+                <SelectItem value="workshop">Taller</SelectItem>
+                <SelectItem value="warehouse">Bodega</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Equipos ({filteredDevices.length})</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <TableSkeleton rows={5} />
+          ) : filteredDevices.length === 0 ? (
+            <EmptyState
+              icon={Package}
+              title="Sin equipos"
+              description={search || typeFilter !== "all" || locationFilter !== "all"
+                ? "No se encontraron equipos con los filtros aplicados"
+                : "No hay equipos registrados en el inventario"}
+            />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Serie</TableHead>
+                    <TableHead>Modelo</TableHead>
+                    <TableHead>Equipo</TableHead>
+                    <TableHead>Ubicación</TableHead>
+                    <TableHead>Compra</TableHead>
+                    <TableHead>Garantía</TableHead>
+                    <TableHead className="text-right">Historial</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredDevices.map((device) => {
+                    const warrantyExpired = device.warrantyEnd && new Date(device.warrantyEnd) < new Date();
+                    return (
+                      <TableRow key={device.id} data-testid={`row-device-${device.id}`}>
+                        <TableCell className="font-mono text-sm">{device.serial}</TableCell>
+                        <TableCell>{device.model}</TableCell>
+                        <TableCell>
+                          <EquipmentTypeBadge type={device.equipmentType} size="sm" />
+                        </TableCell>
+                        <TableCell>{renderLocation(device)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{formatDate(device.purchaseDate)}</TableCell>
+                        <TableCell className={`text-sm ${warrantyExpired ? "text-destructive" : "text-muted-foreground"}`}>
+                          {formatDate(device.warrantyEnd)}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setHistoryDevice(device)}
+                            data-testid={`button-device-history-${device.id}`}
+                          >
+                            <History className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Registrar Equipo</DialogTitle>
+            <DialogDescription>Agregue una unidad al inventario con su número de serie.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="device-serial">N° de Serie</Label>
+                <Input
+                  id="device-serial"
+                  value={formData.serial}
+                  onChange={(e) => setFormData({ ...formData, serial: e.target.value })}
+                  data-testid="input-device-serial"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="device-model">Modelo</Label>
+                <Input
+                  id="device-model"
+                  value={formData.model}
+                  onChange={(e) => setFormData({ ...formData, model: e.target.value })}
+                  data-testid="input-device-model"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Tipo de Equipo</Label>
+                <Select value={formData.equipmentType} onValueChange={(v) => setFormData({ ...formData, equipmentType: v })}>
+                  <SelectTrigger data-testid="select-device-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="camera">Cámara</SelectItem>
+                    <SelectItem value="dvr">DVR</SelectItem>
+                    <SelectItem value="gps">GPS</SelectItem>
+                    <SelectItem value="hard_drive">Disco Duro</SelectItem>
+                    <SelectItem value="cable">Cable</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Ubicación</Label>
+                <Select value={formData.location} onValueChange={(v) => setFormData({ ...formData, location: v })}>
+                  <SelectTrigger data-testid="select-device-location">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="warehouse">Bodega</SelectItem>
+                    <SelectItem value="workshop">Taller</SelectItem>
+                    <SelectItem value="bus">Instalado en bus</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            {formData.location === "bus" && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Bus</Label>
+                  <Select value={formData.busId} onValueChange={(v) => setFormData({ ...formData, busId: v })}>
+                    <SelectTrigger data-testid="select-device-bus">
+                      <SelectValue placeholder="Seleccione bus" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {buses?.map((bus) => (
+                        <SelectItem key={bus.id} value={bus.id}>Bus {bus.busNumber}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {formData.equipmentType === "camera" && (
+                  <div className="space-y-2">
+                    <Label>Canal</Label>
+                    <Select value={formData.cameraChannel} onValueChange={(v) => setFormData({ ...formData, cameraChannel: v })}>
+                      <SelectTrigger data-testid="select-device-channel">
+                        <SelectValue placeholder="Seleccione canal" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(CameraChannelLabels).map(([channel, label]) => (
+                          <SelectItem key={channel} value={channel}>{channel.toUpperCase()} - {label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="device-purchase">Fecha de Compra</Label>
+                <Input
+                  id="device-purchase"
+                  type="date"
+                  value={formData.purchaseDate}
+                  onChange={(e) => setFormData({ ...formData, purchaseDate: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="device-warranty">Fin de Garantía</Label>
+                <Input
+                  id="device-warranty"
+                  type="date"
+                  value={formData.warrantyEnd}
+                  onChange={(e) => setFormData({ ...formData, warrantyEnd: e.target.value })}
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateDialogOpen(false)}>Cancelar</Button>
+            <Button
+              onClick={() => createMutation.mutate(formData)}
+              disabled={!formData.serial || !formData.model || (formData.location === "bus" && !formData.busId) || createMutation.isPending}
+              data-testid="button-save-device"
+            >
+              {createMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!historyDevice} onOpenChange={(open) => !open && setHistoryDevice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Historial · {historyDevice?.serial}</DialogTitle>
+            <DialogDescription>{historyDevice?.model}</DialogDescription>
+          </DialogHeader>
+          {movementsLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando historial...</p>
+          ) : !movements || movements.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Este equipo no registra instalaciones</p>
+          ) : (
+            <div className="space-y-2 max-h-80 overflow-y-auto">
+              {movements.map((m) => (
+                <div key={m.id} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                  <div>
+                    <p className="font-medium">
+                      {m.action === "install" ? "Instalado en" : "Retirado de"} Bus {m.busNumber}
+                      {m.cameraChannel && ` · ${m.cameraChannel.toUpperCase()}`}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {m.createdAt ? format(new Date(m.createdAt), "dd MMM yyyy HH:mm", { locale: es }) : "-"}
+                      {m.userName && ` • ${m.userName}`}
+                    </p>
+                  </div>
+                  <Badge variant={m.action === "install" ? "secondary" : "outline"}>
+                    {m.action === "install" ? "Instalación" : "Retiro"}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Timer, Play, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { JobRun, ScheduledJobInfo } from "@shared/schema";
+
+const runStatusLabels: Record<string, string> = {
+  running: "En curso",
+  success: "Correcta",
+  failed: "Fallida",
+  skipped: "Omitida",
+};
+
+const runStatusVariants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "default",
+  success: "secondary",
+  failed: "destructive",
+  skipped: "outline",
+};
+
+function formatDuration(ms: number | null) {
+  if (ms === null) return "-";
+  if (ms < 1000) return `${ms} ms`;
+  return `${(ms / 1000).toFixed(1)} s`;
+}
+
+function RunStatusBadge({ run }: { run: JobRun }) {
+  return (
+    <Badge variant={runStatusVariants[run.status] || "outline"} title={run.error || undefined}>
+      {runStatusLabels[run.status] || run.status}
+    </Badge>
+  );
+}
+
+export default function Jobs() {
+  const { toast } = useToast();
+
+  const { data: jobs, isLoading } = useQuery<ScheduledJobInfo[]>({
+    queryKey: ["/api/jobs"],
+  });
+
+  const { data: runs, isLoading: runsLoading } = useQuery<JobRun[]>({
+    queryKey: ["/api/jobs/runs"],
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (name: string) => {
+      const res = await apiRequest("POST", `/api/jobs/${name}/run`);
+      return res.json() as Promise<JobRun>;
+    },
+    onSuccess: (run) => {
+      if (run.status === "success") {
+        toast({ title: "Tarea ejecutada", description: `Terminó en ${formatDuration(run.durationMs)}.` });
+      } else if (run.status === "skipped") {
+        toast({ title: "Tarea omitida", description: "La tarea ya se está ejecutando." });
+      } else {
+        toast({ title: "La tarea falló", description: run.error || undefined, variant: "destructive" });
+      }
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs/runs"] });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo ejecutar la tarea.", variant: "destructive" });
+    },
+  });
+
+  const jobLabels: Record<string, string> = {};
+  jobs?.forEach((job) => { jobLabels[job.name] = job.label; });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold" data-testid="text-page-title">Tareas Programadas</h1>
+        <p className="text-muted-foreground">Alertas y reportes automáticos, con su historial de ejecución</p>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="pt-6">
+            <TableSkeleton rows={3} />
+          </CardContent>
+        </Card>
+      ) : !jobs || jobs.length === 0 ? (
+        <EmptyState icon={Timer} title="Sin tareas" description="No hay tareas programadas registradas" />
+      ) : (
+        <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+          {jobs.map((job) => {
+            const isRunning = job.running || (runMutation.isPending && runMutation.variables === job.name);
+            return (
+              <Card key={job.name} data-testid={`card-job-${job.name}`}>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">{job.label}</CardTitle>
+                  <CardDescription>{job.description}</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3 text-sm">
+                  <div className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">Programación</span>
+                    <span className="font-mono text-xs" title={job.timezone}>{job.schedule}</span>
+                  </div>
+                  <div className="flex justify-between gap-2">
+                    <span className="text-muted-foreground">Próxima</span>
+                    <span>{job.nextRun ? format(new Date(job.nextRun), "EEE dd MMM HH:mm", { locale: es }) : "-"}</span>
+                  </div>
+                  <div className="flex justify-between items-center gap-2">
+                    <span className="text-muted-foreground">Última</span>
+                    {job.lastRun ? (
+                      <span className="flex items-center gap-2">
+                        {job.lastRun.startedAt && formatDistanceToNow(new Date(job.lastRun.startedAt), { addSuffix: true, locale: es })}
+                        <RunStatusBadge run={job.lastRun} />
+                      </span>
+                    ) : (
+                      <span>Nunca</span>
+                    )}
+                  </div>
+                  {job.lastRun?.status === "failed" && job.lastRun.error && (
+                    <p className="text-xs text-destructive">{job.lastRun.error}</p>
+                  )}
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    className="w-full"
+                    disabled={isRunning}
+                    onClick={() => runMutation.mutate(job.name)}
+                    data-testid={`button-run-job-${job.name}`}
+                  >
+                    {isRunning ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                    Ejecutar ahora
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Historial</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runsLoading ? (
+            <TableSkeleton rows={5} />
+          ) : !runs || runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Aún no se han ejecutado tareas</p>
+          ) : (
+            <div className="overflow-x-auto max-h-96">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Inicio</TableHead>
+                    <TableHead>Tarea</TableHead>
+                    <TableHead>Origen</TableHead>
+                    <TableHead>Duración</TableHead>
+                    <TableHead>Resultado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {runs.map((run) => (
+                    <TableRow key={run.id} data-testid={`row-job-run-${run.id}`}>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {run.startedAt ? format(new Date(run.startedAt), "dd MMM yyyy HH:mm:ss", { locale: es }) : "-"}
+                      </TableCell>
+                      <TableCell className="font-medium">{jobLabels[run.job] || run.job}</TableCell>
+                      <TableCell className="text-sm">
+                        {run.trigger === "manual" ? `Manual${run.userName ? ` (${run.userName})` : ""}` : "Programada"}
+                      </TableCell>
+                      <TableCell className="text-sm">{formatDuration(run.durationMs)}</TableCell>
+                      <TableCell>
+                        <RunStatusBadge run={run} />
+                        {run.error && <p className="text-xs text-destructive mt-1">{run.error}</p>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
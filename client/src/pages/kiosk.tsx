@@ -0,0 +1,231 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Maximize, Minimize, WifiOff, MonitorX } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { EmptyState } from "@/components/empty-state";
+import { CameraChannelLabels, EquipmentTypeLabels } from "@shared/schema";
+import type { BusCameraStatus, DashboardStats } from "@shared/schema";
+
+// Board settings, overridable from the kiosk URL (?interval=20&perPage=16)
+const REFRESH_MS = 30 * 1000;
+const DEFAULT_ROTATE_SECONDS = 15;
+const DEFAULT_PER_PAGE = 12;
+
+const statusColors: Record<string, string> = {
+  operational: "bg-green-600 text-white",
+  misaligned: "bg-amber-500 text-black",
+  faulty: "bg-red-600 text-white",
+};
+
+const statusLabels: Record<string, string> = {
+  operational: "OK",
+  misaligned: "Desalineada",
+  faulty: "Dañada",
+};
+
+const statusSeverity: Record<string, number> = { operational: 0, misaligned: 1, faulty: 2 };
+
+const busSeverity = (bus: BusCameraStatus) =>
+  [...bus.cameras, ...bus.equipment].reduce((total, item) => total + (statusSeverity[item.status] ?? 0), 0);
+
+const TOKEN_STORAGE_KEY = "kiosk-token";
+
+// Board links carry the token in the URL fragment, which browsers never send
+// to the server, so it stays out of proxy and access logs. Links created
+// before used ?token=, which does reach those logs: revoke and reissue them.
+// Either way the token moves to localStorage and leaves the address bar, so
+// the screen keeps working across reloads.
+function takeKioskToken(): string | null {
+  const params = new URLSearchParams(window.location.search);
+  const fromUrl = new URLSearchParams(window.location.hash.slice(1)).get("token") || params.get("token");
+  if (!fromUrl) return localStorage.getItem(TOKEN_STORAGE_KEY);
+
+  localStorage.setItem(TOKEN_STORAGE_KEY, fromUrl);
+  params.delete("token");
+  const query = params.toString();
+  window.history.replaceState(null, "", `${window.location.pathname}${query ? `?${query}` : ""}`);
+  return fromUrl;
+}
+
+function positiveParam(params: URLSearchParams, name: string, fallback: number) {
+  const value = parseInt(params.get(name) || "");
+  return value > 0 ? value : fallback;
+}
+
+function BusTile({ bus }: { bus: BusCameraStatus }) {
+  const failingEquipment = bus.equipment.filter((e) => e.status !== "operational");
+  return (
+    <div className="rounded-lg border bg-card p-3 flex flex-col gap-2" data-testid={`kiosk-bus-${bus.busNumber}`}>
+      <div className="flex items-baseline justify-between gap-2">
+        <span className="text-2xl font-bold">Bus {bus.busNumber}</span>
+        <span className="text-xs text-muted-foreground truncate">
+          {bus.updatedAt ? formatDistanceToNow(new Date(bus.updatedAt), { addSuffix: true, locale: es }) : "Sin cambios"}
+        </span>
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {bus.cameras.map((camera) => (
+          <div
+            key={camera.channel}
+            className={`rounded-md px-2 py-3 text-center ${statusColors[camera.status] || "bg-gray-500 text-white"}`}
+          >
+            <p className="text-sm font-semibold">{CameraChannelLabels[camera.channel] || camera.channel}</p>
+            <p className="text-xs opacity-90">{statusLabels[camera.status] || camera.status}</p>
+          </div>
+        ))}
+      </div>
+      {failingEquipment.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {failingEquipment.map((e) => (
+            <span key={e.equipmentType} className={`rounded px-2 py-0.5 text-xs font-medium ${statusColors[e.status] || ""}`}>
+              {EquipmentTypeLabels[e.equipmentType] || e.equipmentType}: {statusLabels[e.status] || e.status}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Read-only camera status board for control-room screens. Authenticates
+ * with the kiosk token from the link (see takeKioskToken), polls the board
+ * data, keeps buses with failures pinned on top and rotates through the rest.
+ */
+export default function Kiosk() {
+  const [token] = useState(takeKioskToken);
+  const params = new URLSearchParams(window.location.search);
+  const rotateSeconds = positiveParam(params, "interval", DEFAULT_ROTATE_SECONDS);
+  const perPage = positiveParam(params, "perPage", DEFAULT_PER_PAGE);
+
+  const [page, setPage] = useState(0);
+  const [now, setNow] = useState(new Date());
+  const [fullscreen, setFullscreen] = useState(!!document.fullscreenElement);
+
+  const kioskQueryFn = async ({ queryKey }: { queryKey: readonly unknown[] }) => {
+    const res = await fetch(queryKey[0] as string, { headers: { Authorization: `Bearer ${token}` } });
+    if (!res.ok) throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+    return res.json();
+  };
+
+  const { data: buses, error, dataUpdatedAt } = useQuery<BusCameraStatus[]>({
+    queryKey: ["/api/camera-status"],
+    queryFn: kioskQueryFn,
+    enabled: !!token,
+    refetchInterval: REFRESH_MS,
+  });
+
+  const { data: stats } = useQuery<DashboardStats>({
+    queryKey: ["/api/dashboard"],
+    queryFn: kioskQueryFn,
+    enabled: !!token,
+    refetchInterval: REFRESH_MS,
+  });
+
+  const pinned = (buses || []).filter((bus) => busSeverity(bus) > 0).sort((a, b) => busSeverity(b) - busSeverity(a));
+  const rotating = (buses || []).filter((bus) => busSeverity(bus) === 0);
+  const pageCount = Math.max(1, Math.ceil(rotating.length / perPage));
+  const currentPage = page % pageCount;
+
+  useEffect(() => {
+    const timer = setInterval(() => setPage((p) => p + 1), rotateSeconds * 1000);
+    return () => clearInterval(timer);
+  }, [rotateSeconds]);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    const onChange = () => setFullscreen(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", onChange);
+    return () => document.removeEventListener("fullscreenchange", onChange);
+  }, []);
+
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen();
+    } else {
+      document.documentElement.requestFullscreen().catch(() => {});
+    }
+  };
+
+  if (!token || (error && error.message.startsWith("401"))) {
+    return (
+      <div className="flex items-center justify-center h-screen p-6">
+        <EmptyState
+          icon={MonitorX}
+          title="Acceso de pantalla no válido"
+          description="Solicite a un administrador un nuevo enlace de pantalla de monitoreo"
+        />
+      </div>
+    );
+  }
+
+  const metrics = [
+    { label: "Buses", value: stats?.totalBuses },
+    { label: "Incidencias activas", value: stats?.activeIncidents },
+    { label: "Reparaciones pendientes", value: stats?.pendingRepairs },
+    { label: "Resueltas esta semana", value: stats?.resolvedThisWeek },
+  ];
+
+  return (
+    <div className="min-h-screen bg-background p-4 space-y-4" data-testid="kiosk-board">
+      <header className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Estado de Cámaras</h1>
+          <p className="text-muted-foreground">
+            {dataUpdatedAt ? `Actualizado ${format(new Date(dataUpdatedAt), "HH:mm:ss")}` : "Cargando..."}
+          </p>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          {metrics.map((metric) => (
+            <div key={metric.label} className="rounded-lg border bg-card px-4 py-2 text-center min-w-32">
+              <p className="text-3xl font-bold">{metric.value ?? "-"}</p>
+              <p className="text-xs text-muted-foreground">{metric.label}</p>
+            </div>
+          ))}
+          <div className="text-right px-2">
+            <p className="text-3xl font-bold tabular-nums">{format(now, "HH:mm")}</p>
+            <p className="text-xs text-muted-foreground capitalize">{format(now, "EEEE d MMM", { locale: es })}</p>
+          </div>
+          <Button size="icon" variant="ghost" onClick={toggleFullscreen} title="Pantalla completa" data-testid="button-fullscreen">
+            {fullscreen ? <Minimize className="h-5 w-5" /> : <Maximize className="h-5 w-5" />}
+          </Button>
+        </div>
+      </header>
+
+      {error && (
+        <div className="flex items-center gap-2 rounded-md bg-destructive px-4 py-2 text-destructive-foreground">
+          <WifiOff className="h-4 w-4" />
+          Sin conexión con el servidor: se muestran los últimos datos recibidos
+        </div>
+      )}
+
+      {pinned.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-xl font-semibold text-red-600">Con fallas ({pinned.length})</h2>
+          <div className="grid gap-3 grid-cols-2 md:grid-cols-4 xl:grid-cols-6">
+            {pinned.map((bus) => <BusTile key={bus.busId} bus={bus} />)}
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-semibold text-green-600">Operativos ({rotating.length})</h2>
+          {pageCount > 1 && (
+            <span className="text-sm text-muted-foreground">Página {currentPage + 1} de {pageCount}</span>
+          )}
+        </div>
+        <div className="grid gap-3 grid-cols-2 md:grid-cols-4 xl:grid-cols-6">
+          {rotating.slice(currentPage * perPage, (currentPage + 1) * perPage).map((bus) => (
+            <BusTile key={bus.busId} bus={bus} />
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
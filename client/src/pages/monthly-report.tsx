@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { format, startOfMonth, subMonths, addMonths } from "date-fns";
 import { es } from "date-fns/locale";
-import { ChevronLeft, ChevronRight, FileText, TrendingUp, AlertTriangle, CheckCircle, Bus, Calendar } from "lucide-react";
+import { ChevronLeft, ChevronRight, FileText, TrendingUp, AlertTriangle, CheckCircle, Bus, Calendar, Download, Target } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MetricCard } from "@/components/metric-card";
@@ -66,6 +66,18 @@ export default function MonthlyReport() {
           <p className="text-muted-foreground">Resumen de incidencias del mes</p>
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild data-testid="button-export-xlsx">
+            <a href={`/api/reports/monthly/export?month=${monthParam}&format=xlsx`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Excel
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild data-testid="button-export-csv">
+            <a href={`/api/reports/monthly/export?month=${monthParam}&format=csv`} download>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </a>
+          </Button>
           <Button variant="outline" size="icon" onClick={goToPrevMonth} data-testid="button-prev-month">
             <ChevronLeft className="h-4 w-4" />
           </Button>
@@ -84,13 +96,14 @@ export default function MonthlyReport() {
         </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         {isLoading ? (
           <>
             <MetricCardSkeleton />
             <MetricCardSkeleton />
             <MetricCardSkeleton />
             <MetricCardSkeleton />
+            <MetricCardSkeleton />
           </>
         ) : (
           <>
@@ -112,6 +125,12 @@ export default function MonthlyReport() {
               subtitle="Por resolver"
               icon={AlertTriangle}
             />
+            <MetricCard
+              title="Primer Intento"
+              value={report?.firstTimeFixRate != null ? `${report.firstTimeFixRate}%` : "-"}
+              subtitle="Reparadas sin reabrir"
+              icon={Target}
+            />
             <MetricCard
               title="Buses Afectados"
               value={report?.mostAffectedBuses?.length || 0}
@@ -0,0 +1,172 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { Briefcase, Play, CheckCircle } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { StatusBadge, EquipmentTypeBadge, IncidentTypeBadge, PriorityBadge, DueLabel } from "@/components/status-badge";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import type { Incident, Bus } from "@shared/schema";
+import { CameraChannelLabels } from "@shared/schema";
+
+export default function MyWork() {
+  const { toast } = useToast();
+
+  const { data: incidents, isLoading } = useQuery<Incident[]>({
+    queryKey: ["/api/incidents/mine"],
+  });
+
+  const { data: buses } = useQuery<Bus[]>({
+    queryKey: ["/api/buses"],
+  });
+
+  const busMap = new Map(buses?.map((b) => [b.id, b.busNumber]) || []);
+
+  const updateStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: string }) => {
+      return apiRequest("PATCH", `/api/incidents/${id}`, { status });
+    },
+    onSuccess: () => {
+      toast({
+        title: "Incidencia actualizada",
+        description: "El estado se ha actualizado correctamente.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/incidents/mine"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/camera-status"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "No se pudo actualizar la incidencia.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pendingCount = incidents?.filter((i) => i.status === "pending").length ?? 0;
+  const inProgressCount = incidents?.filter((i) => i.status === "in_progress").length ?? 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold" data-testid="text-page-title">Mis Trabajos</h1>
+        <p className="text-muted-foreground">
+          Incidencias asignadas a usted, de la más urgente a la menos urgente
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">
+            Pendientes ({pendingCount}) · En Progreso ({inProgressCount})
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <TableSkeleton rows={5} />
+          ) : !incidents || incidents.length === 0 ? (
+            <EmptyState
+              icon={Briefcase}
+              title="Sin trabajos asignados"
+              description="No tiene incidencias pendientes ni en progreso"
+            />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bus</TableHead>
+                    <TableHead>Prioridad</TableHead>
+                    <TableHead>Equipo</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Canal</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead>Antigüedad</TableHead>
+                    <TableHead>Plazo</TableHead>
+                    <TableHead className="text-right">Acciones</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {incidents.map((incident) => (
+                    <TableRow key={incident.id} data-testid={`row-my-work-${incident.id}`}>
+                      <TableCell className="font-medium">
+                        Bus {busMap.get(incident.busId) || incident.busId}
+                      </TableCell>
+                      <TableCell>
+                        <PriorityBadge priority={incident.priority} size="sm" />
+                      </TableCell>
+                      <TableCell>
+                        <EquipmentTypeBadge type={incident.equipmentType} size="sm" />
+                      </TableCell>
+                      <TableCell>
+                        <IncidentTypeBadge type={incident.incidentType} size="sm" />
+                      </TableCell>
+                      <TableCell>
+                        {incident.cameraChannel ? (
+                          <span className="text-sm">
+                            {incident.cameraChannel.toUpperCase()} - {CameraChannelLabels[incident.cameraChannel]}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <StatusBadge status={incident.status} size="sm" />
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {incident.reportedAt
+                          ? formatDistanceToNow(new Date(incident.reportedAt), { addSuffix: true, locale: es })
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <DueLabel incident={incident} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {incident.status === "pending" ? (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={updateStatus.isPending}
+                            onClick={() => updateStatus.mutate({ id: incident.id, status: "in_progress" })}
+                            data-testid={`button-start-${incident.id}`}
+                          >
+                            <Play className="h-4 w-4 mr-1" />
+                            Iniciar
+                          </Button>
+                        ) : (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={updateStatus.isPending}
+                            onClick={() => updateStatus.mutate({ id: incident.id, status: "resolved" })}
+                            data-testid={`button-resolve-${incident.id}`}
+                          >
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Resolver
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Boxes, Plus, Pencil, AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Permission } from "@shared/schema";
+import type { SparePart } from "@shared/schema";
+
+const emptyForm = { name: "", unit: "unidad", stock: "0", minStock: "0" };
+
+export default function Parts() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPart, setEditingPart] = useState<SparePart | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+
+  const { data: parts, isLoading } = useQuery<SparePart[]>({
+    queryKey: ["/api/parts"],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: typeof formData) => {
+      const body = {
+        name: data.name,
+        unit: data.unit,
+        stock: parseInt(data.stock) || 0,
+        minStock: parseInt(data.minStock) || 0,
+      };
+      const response = editingPart
+        ? await apiRequest("PATCH", `/api/parts/${editingPart.id}`, body)
+        : await apiRequest("POST", "/api/parts", body);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: editingPart ? "Repuesto actualizado" : "Repuesto creado",
+        description: "El catálogo de repuestos se ha actualizado.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      closeDialog();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo guardar el repuesto.", variant: "destructive" });
+    },
+  });
+
+  const openCreate = () => {
+    setEditingPart(null);
+    setFormData(emptyForm);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (part: SparePart) => {
+    setEditingPart(part);
+    setFormData({
+      name: part.name,
+      unit: part.unit,
+      stock: String(part.stock),
+      minStock: String(part.minStock),
+    });
+    setDialogOpen(true);
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setEditingPart(null);
+    setFormData(emptyForm);
+  };
+
+  const lowStockCount = parts?.filter((p) => p.stock <= p.minStock).length ?? 0;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">Repuestos</h1>
+          <p className="text-muted-foreground">Stock del taller: cámaras, conectores y cables</p>
+        </div>
+        {can(Permission.INVENTORY_MANAGE) && (
+          <Button onClick={openCreate} data-testid="button-add-part">
+            <Plus className="h-4 w-4 mr-2" />
+            Nuevo Repuesto
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            Catálogo ({parts?.length ?? 0})
+            {lowStockCount > 0 && (
+              <Badge variant="destructive" data-testid="badge-low-stock-count">
+                <AlertTriangle className="h-3 w-3 mr-1" />
+                {lowStockCount} bajo el mínimo
+              </Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <TableSkeleton rows={5} />
+          ) : !parts || parts.length === 0 ? (
+            <EmptyState
+              icon={Boxes}
+              title="Sin repuestos"
+              description="No hay repuestos registrados en el catálogo"
+            />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Repuesto</TableHead>
+                    <TableHead>Stock</TableHead>
+                    <TableHead>Mínimo</TableHead>
+                    {can(Permission.INVENTORY_MANAGE) && <TableHead className="text-right">Acciones</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {parts.map((part) => {
+                    const isLow = part.stock <= part.minStock;
+                    return (
+                      <TableRow key={part.id} data-testid={`row-part-${part.id}`}>
+                        <TableCell className="font-medium">{part.name}</TableCell>
+                        <TableCell>
+                          <span className={isLow ? "text-destructive font-semibold" : ""}>
+                            {part.stock} {part.unit}
+                          </span>
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">{part.minStock} {part.unit}</TableCell>
+                        {can(Permission.INVENTORY_MANAGE) && (
+                          <TableCell className="text-right">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => openEdit(part)}
+                              data-testid={`button-edit-part-${part.id}`}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingPart ? "Editar Repuesto" : "Nuevo Repuesto"}</DialogTitle>
+            <DialogDescription>
+              Se enviará una alerta por email cuando el stock llegue al mínimo.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="part-name">Nombre</Label>
+                <Input
+                  id="part-name"
+                  value={formData.name}
+                  onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                  data-testid="input-part-name"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="part-unit">Unidad</Label>
+                <Input
+                  id="part-unit"
+                  value={formData.unit}
+                  onChange={(e) => setFormData({ ...formData, unit: e.target.value })}
+                  data-testid="input-part-unit"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="part-stock">Stock</Label>
+                <Input
+                  id="part-stock"
+                  type="number"
+                  min={0}
+                  value={formData.stock}
+                  onChange={(e) => setFormData({ ...formData, stock: e.target.value })}
+                  data-testid="input-part-stock"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="part-min-stock">Stock Mínimo</Label>
+                <Input
+                  id="part-min-stock"
+                  type="number"
+                  min={0}
+                  value={formData.minStock}
+                  onChange={(e) => setFormData({ ...formData, minStock: e.target.value })}
+                  data-testid="input-part-min-stock"
+                />
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeDialog}>Cancelar</Button>
+            <Button
+              onClick={() => saveMutation.mutate(formData)}
+              disabled={!formData.name || !formData.unit || saveMutation.isPending}
+              data-testid="button-save-part"
+            >
+              {saveMutation.isPending ? "Guardando..." : "Guardar"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
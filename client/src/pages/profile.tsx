@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { UserCircle, KeyRound } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { PasswordPolicyHint } from "@shared/schema";
+
+const roleLabels: Record<string, string> = {
+  admin: "Administrador",
+  technician: "Técnico",
+};
+
+export default function Profile() {
+  const { user, updateProfile } = useAuth();
+  const { toast } = useToast();
+  const [name, setName] = useState(user?.name || "");
+  const [savingName, setSavingName] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [savingPassword, setSavingPassword] = useState(false);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Error",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleNameSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSavingName(true);
+    try {
+      await updateProfile({ name });
+      toast({ title: "Perfil actualizado", description: "Su nombre se ha actualizado." });
+    } catch (error) {
+      showError(error, "Error al actualizar perfil");
+    } finally {
+      setSavingName(false);
+    }
+  };
+
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newPassword !== confirmPassword) {
+      toast({ title: "Error", description: "Las contraseñas no coinciden", variant: "destructive" });
+      return;
+    }
+
+    setSavingPassword(true);
+    try {
+      await updateProfile({ currentPassword, newPassword });
+      setCurrentPassword("");
+      setNewPassword("");
+      setConfirmPassword("");
+      toast({
+        title: "Contraseña actualizada",
+        description: "Se cerró la sesión en sus otros dispositivos.",
+      });
+    } catch (error) {
+      showError(error, "Error al cambiar contraseña");
+    } finally {
+      setSavingPassword(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6 max-w-2xl">
+      <div>
+        <h1 className="text-2xl font-semibold" data-testid="text-page-title">Mi Perfil</h1>
+        <p className="text-muted-foreground">Actualice su nombre y contraseña</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <UserCircle className="h-5 w-5" />
+            Datos de la cuenta
+          </CardTitle>
+          <CardDescription className="flex items-center gap-2">
+            Usuario @{user?.username}
+            {user && <Badge variant="secondary">{roleLabels[user.role] || user.role}</Badge>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleNameSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-name">Nombre</Label>
+              <Input
+                id="profile-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                required
+                data-testid="input-profile-name"
+              />
+            </div>
+            <Button
+              type="submit"
+              disabled={savingName || !name.trim() || name === user?.name}
+              data-testid="button-save-profile"
+            >
+              {savingName ? "Guardando..." : "Guardar"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Cambiar contraseña
+          </CardTitle>
+          <CardDescription>{PasswordPolicyHint}</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handlePasswordSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="profile-current-password">Contraseña actual</Label>
+              <Input
+                id="profile-current-password"
+                type="password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+                data-testid="input-profile-current-password"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="profile-new-password">Nueva contraseña</Label>
+                <Input
+                  id="profile-new-password"
+                  type="password"
+                  value={newPassword}
+                  onChange={(e) => setNewPassword(e.target.value)}
+                  required
+                  data-testid="input-profile-new-password"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="profile-confirm-password">Confirmar nueva contraseña</Label>
+                <Input
+                  id="profile-confirm-password"
+                  type="password"
+                  value={confirmPassword}
+                  onChange={(e) => setConfirmPassword(e.target.value)}
+                  required
+                  data-testid="input-profile-confirm-password"
+                />
+              </div>
+            </div>
+            <Button type="submit" disabled={savingPassword} data-testid="button-save-password">
+              {savingPassword ? "Guardando..." : "Cambiar contraseña"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
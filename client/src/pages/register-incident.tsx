@@ -36,8 +36,17 @@ import {
 } from "@/components/ui/dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { incidentFormSchema, type IncidentFormData, type Bus, CameraChannelLabels } from "@shared/schema";
+import {
+  incidentFormSchema,
+  type IncidentFormData,
+  type Bus,
+  type PriorityMatrixEntry,
+  CameraChannelLabels,
+  IncidentPriorityLabels,
+  PriorityDueHours,
+} from "@shared/schema";
 import { FormSkeleton } from "@/components/loading-skeleton";
+import { EvidencePicker, uploadAttachments } from "@/components/incident-attachments";
 import * as XLSX from "xlsx";
 
 const equipmentTypes = [
@@ -81,6 +90,8 @@ export default function RegisterIncident() {
   const [newBusNumber, setNewBusNumber] = useState("");
   const [newBusPlate, setNewBusPlate] = useState("");
   const [busSearchTerm, setBusSearchTerm] = useState("");
+  // Photos/clips of the failure, uploaded to every incident created
+  const [evidence, setEvidence] = useState<File[]>([]);
 
   // Excel import state
   const [excelPreview, setExcelPreview] = useState<BusPreviewRow[]>([]);
@@ -106,25 +117,54 @@ export default function RegisterIncident() {
   });
 
   const selectedEquipmentType = form.watch("equipmentType");
+  const selectedIncidentType = form.watch("incidentType");
+
+  const { data: priorityMatrix } = useQuery<PriorityMatrixEntry[]>({
+    queryKey: ["/api/priority-matrix"],
+  });
+
+  // What the server assigns when no priority is chosen
+  const defaultPriority = priorityMatrix?.find((entry) =>
+    entry.equipmentType === selectedEquipmentType && entry.incidentType === selectedIncidentType
+  )?.priority ?? "medium";
 
   const createIncident = useMutation({
     mutationFn: async (data: IncidentFormData) => {
       const response = await apiRequest("POST", "/api/incidents", data);
       const result = await response.json();
-      return result;
+      const created: Array<{ id: string }> = Array.isArray(result) ? result : [result];
+      // The incidents exist even if the evidence fails to upload
+      let uploadError: string | null = null;
+      if (evidence.length > 0) {
+        try {
+          for (const incident of created) {
+            await uploadAttachments(incident.id, "before", evidence);
+          }
+        } catch (err) {
+          uploadError = (err as Error).message;
+        }
+      }
+      return { count: created.length, uploadError };
     },
-    onSuccess: (result) => {
-      const count = Array.isArray(result) ? result.length : 1;
+    onSuccess: ({ count, uploadError }) => {
       toast({
         title: count > 1 ? "Incidencias registradas" : "Incidencia registrada",
         description: count > 1
           ? `Se han registrado ${count} incidencias correctamente.`
           : "La incidencia se ha registrado correctamente.",
       });
+      if (uploadError) {
+        toast({
+          title: "Evidencia no guardada",
+          description: `${uploadError} Puede agregarla desde el seguimiento de equipos.`,
+          variant: "destructive",
+        });
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
       queryClient.invalidateQueries({ queryKey: ["/api/camera-status"] });
       form.reset();
+      setEvidence([]);
       setLocation("/");
     },
     onError: () => {
@@ -684,6 +724,40 @@ export default function RegisterIncident() {
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="priority"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Prioridad</FormLabel>
+                    <Select
+                      onValueChange={(value) => field.onChange(value === "auto" ? undefined : value)}
+                      value={field.value ?? "auto"}
+                    >
+                      <FormControl>
+                        <SelectTrigger data-testid="select-priority">
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="auto">
+                          Automática ({IncidentPriorityLabels[defaultPriority]})
+                        </SelectItem>
+                        {Object.entries(IncidentPriorityLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      Plazo de resolución: {PriorityDueHours[field.value ?? defaultPriority]} horas
+                    </p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="description"
@@ -703,6 +777,27 @@ export default function RegisterIncident() {
                 )}
               />
 
+              <div className="space-y-2">
+                <p className="text-sm font-medium">Fotos o Videos (Opcional)</p>
+                <EvidencePicker onFiles={(files) => setEvidence([...evidence, ...files])} />
+                {evidence.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                    {evidence.map((file, index) => (
+                      <Badge key={`${file.name}-${index}`} variant="secondary" className="gap-1">
+                        {file.name}
+                        <button
+                          type="button"
+                          onClick={() => setEvidence(evidence.filter((_, i) => i !== index))}
+                          aria-label="Quitar archivo"
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <FormField
                 control={form.control}
                 name="reporter"
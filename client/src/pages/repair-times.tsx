@@ -0,0 +1,303 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format, subDays } from "date-fns";
+import { Clock, Wrench, CheckCircle, AlertTriangle, Hourglass, Target } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { MetricCard } from "@/components/metric-card";
+import { MetricCardSkeleton, ChartSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { SlaTargetsCard, formatHours } from "@/components/sla-targets-card";
+import type { RepairAnalytics, RepairMetricsGroup } from "@shared/schema";
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  LineChart,
+  Line,
+  Legend,
+} from "recharts";
+
+const rangeOptions = [
+  { value: "30", label: "Últimos 30 días" },
+  { value: "90", label: "Últimos 90 días" },
+  { value: "180", label: "Últimos 6 meses" },
+  { value: "365", label: "Último año" },
+];
+
+const breakdowns: Array<{ key: keyof Pick<RepairAnalytics, "byEquipment" | "byIncidentType" | "byChannel" | "byBus" | "byTechnician">; label: string; column: string }> = [
+  { key: "byEquipment", label: "Equipo", column: "Equipo" },
+  { key: "byIncidentType", label: "Tipo", column: "Tipo de incidencia" },
+  { key: "byChannel", label: "Canal", column: "Canal" },
+  { key: "byBus", label: "Bus", column: "N° Bus" },
+  { key: "byTechnician", label: "Técnico", column: "Técnico" },
+];
+
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${rate}%`);
+
+const toChartHours = (hours: number | null) => (hours === null ? null : Math.round(hours * 10) / 10);
+
+function BreakdownTable({ rows, column }: { rows: RepairMetricsGroup[]; column: string }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">Sin datos</p>;
+  }
+  return (
+    <div className="overflow-x-auto max-h-96">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>{column}</TableHead>
+            <TableHead className="text-right">Incidencias</TableHead>
+            <TableHead className="text-right">Resueltas</TableHead>
+            <TableHead className="text-right">MTTR</TableHead>
+            <TableHead className="text-right">Primera acción</TableHead>
+            <TableHead className="text-right">Primer intento</TableHead>
+            <TableHead className="text-right">Fuera de SLA</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key || "none"}>
+              <TableCell className="font-medium">{row.label}</TableCell>
+              <TableCell className="text-right">{row.incidents}</TableCell>
+              <TableCell className="text-right">{row.resolved}</TableCell>
+              <TableCell className="text-right">{formatHours(row.mttrHours)}</TableCell>
+              <TableCell className="text-right">{formatHours(row.firstActionHours)}</TableCell>
+              <TableCell className="text-right">{formatRate(row.firstTimeFixRate)}</TableCell>
+              <TableCell className={`text-right ${row.slaBreaches > 0 ? "text-destructive font-medium" : ""}`}>
+                {row.slaBreaches}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function RepairTimes() {
+  const [rangeDays, setRangeDays] = useState("90");
+
+  const today = new Date();
+  const from = format(subDays(today, parseInt(rangeDays) - 1), "yyyy-MM-dd");
+  const to = format(today, "yyyy-MM-dd");
+
+  const { data: analytics, isLoading } = useQuery<RepairAnalytics>({
+    queryKey: [`/api/analytics/repair-times?from=${from}&to=${to}`],
+  });
+
+  const overall = analytics?.overall;
+  const compliance = overall && overall.incidents > 0
+    ? Math.round(((overall.incidents - overall.slaBreaches) / overall.incidents) * 100)
+    : null;
+
+  const trendData = (analytics?.trend || []).map((point) => ({
+    week: format(new Date(point.weekStart), "dd/MM"),
+    mttr: toChartHours(point.mttrHours),
+    firstAction: toChartHours(point.firstActionHours),
+    breaches: point.slaBreaches,
+  }));
+
+  const equipmentData = (analytics?.byEquipment || []).map((group) => ({
+    name: group.label,
+    mttr: toChartHours(group.mttrHours),
+    firstAction: toChartHours(group.firstActionHours),
+  }));
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">Tiempos de Reparación</h1>
+          <p className="text-muted-foreground">Tiempo medio de reparación (MTTR), primera acción y cumplimiento de SLA</p>
+        </div>
+        <Select value={rangeDays} onValueChange={setRangeDays}>
+          <SelectTrigger className="w-full sm:w-48" data-testid="select-range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {rangeOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+        {isLoading ? (
+          <>
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+            <MetricCardSkeleton />
+          </>
+        ) : (
+          <>
+            <MetricCard
+              title="MTTR"
+              value={formatHours(overall?.mttrHours ?? null)}
+              subtitle="Del reporte a la resolución"
+              icon={Wrench}
+            />
+            <MetricCard
+              title="Primera Acción"
+              value={formatHours(overall?.firstActionHours ?? null)}
+              subtitle="Del reporte al primer movimiento"
+              icon={Hourglass}
+            />
+            <MetricCard
+              title="Resueltas"
+              value={`${overall?.resolved || 0} / ${overall?.incidents || 0}`}
+              subtitle="Incidencias del período"
+              icon={CheckCircle}
+            />
+            <MetricCard
+              title="Primer Intento"
+              value={formatRate(overall?.firstTimeFixRate ?? null)}
+              subtitle="Reparadas sin reabrir"
+              icon={Target}
+            />
+            <MetricCard
+              title="Fuera de SLA"
+              value={overall?.slaBreaches || 0}
+              subtitle={compliance === null ? "Sin incidencias" : `${compliance}% en plazo`}
+              icon={AlertTriangle}
+            />
+          </>
+        )}
+      </div>
+
+      {!isLoading && overall?.incidents === 0 ? (
+        <Card>
+          <CardContent className="py-8">
+            <EmptyState
+              icon={Clock}
+              title="Sin incidencias en el período"
+              description="No se registraron incidencias en el rango seleccionado"
+            />
+          </CardContent>
+        </Card>
+      ) : isLoading ? (
+        <div className="grid gap-6 lg:grid-cols-2">
+          <ChartSkeleton />
+          <ChartSkeleton />
+        </div>
+      ) : (
+        <>
+          <div className="grid gap-6 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Tendencia Semanal (horas)</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={250}>
+                  <LineChart data={trendData}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="week" />
+                    <YAxis />
+                    <Tooltip labelFormatter={(value) => `Semana del ${value}`} />
+                    <Legend />
+                    <Line
+                      type="monotone"
+                      dataKey="mttr"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={2}
+                      connectNulls
+                      name="MTTR"
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="firstAction"
+                      stroke="#f59e0b"
+                      strokeWidth={2}
+                      connectNulls
+                      name="Primera acción"
+                    />
+                  </LineChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Incumplimientos SLA por Semana</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ResponsiveContainer width="100%" height={250}>
+                  <BarChart data={trendData}>
+                    <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                    <XAxis dataKey="week" />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip labelFormatter={(value) => `Semana del ${value}`} />
+                    <Bar dataKey="breaches" fill="#ef4444" radius={[4, 4, 0, 0]} name="Fuera de SLA" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Tiempos por Equipo (horas)</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={250}>
+                <BarChart data={equipmentData}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Legend />
+                  <Bar dataKey="mttr" fill="#6366f1" radius={[4, 4, 0, 0]} name="MTTR" />
+                  <Bar dataKey="firstAction" fill="#06b6d4" radius={[4, 4, 0, 0]} name="Primera acción" />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Desglose</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Tabs defaultValue="byEquipment">
+                <TabsList>
+                  {breakdowns.map((b) => (
+                    <TabsTrigger key={b.key} value={b.key} data-testid={`tab-${b.key}`}>{b.label}</TabsTrigger>
+                  ))}
+                </TabsList>
+                {breakdowns.map((b) => (
+                  <TabsContent key={b.key} value={b.key}>
+                    <BreakdownTable rows={analytics?.[b.key] || []} column={b.column} />
+                  </TabsContent>
+                ))}
+              </Tabs>
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <SlaTargetsCard stats={analytics?.sla} />
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, formatDistanceToNow } from "date-fns";
+import { es } from "date-fns/locale";
+import { KeyRound, LogOut } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import { KioskTokensCard } from "@/components/kiosk-tokens-card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { ActiveSession, LoginAttempt } from "@shared/schema";
+
+const attemptReasonLabels: Record<string, string> = {
+  invalid_credentials: "Credenciales inválidas",
+  inactive: "Cuenta desactivada",
+  locked: "Bloqueado",
+};
+
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Desconocido";
+  if (/android/i.test(userAgent)) return "Android";
+  if (/iphone|ipad/i.test(userAgent)) return "iOS";
+  if (/windows/i.test(userAgent)) return "Windows";
+  if (/mac os/i.test(userAgent)) return "macOS";
+  if (/linux/i.test(userAgent)) return "Linux";
+  return "Otro";
+}
+
+export default function Sessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const { data: attempts, isLoading: attemptsLoading } = useQuery<LoginAttempt[]>({
+    queryKey: ["/api/login-attempts"],
+  });
+
+  const onRevoked = (description: string) => {
+    toast({ title: "Sesión revocada", description });
+    queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+  };
+
+  const onRevokeError = () => {
+    toast({ title: "Error", description: "No se pudo revocar la sesión.", variant: "destructive" });
+  };
+
+  const revokeSession = useMutation({
+    mutationFn: async (sid: string) => apiRequest("DELETE", `/api/sessions/${encodeURIComponent(sid)}`),
+    onSuccess: () => onRevoked("El usuario deberá iniciar sesión nuevamente en ese dispositivo."),
+    onError: onRevokeError,
+  });
+
+  const revokeUserSessions = useMutation({
+    mutationFn: async (userId: string) => apiRequest("DELETE", `/api/users/${userId}/sessions`),
+    onSuccess: () => onRevoked("Se cerraron todas las sesiones del usuario."),
+    onError: onRevokeError,
+  });
+
+  const byUser = new Map<string, ActiveSession[]>();
+  sessions?.forEach((s) => {
+    byUser.set(s.userId, [...(byUser.get(s.userId) || []), s]);
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-2xl font-semibold" data-testid="text-page-title">Sesiones Activas</h1>
+        <p className="text-muted-foreground">Dispositivos con sesión iniciada por usuario e intentos de acceso recientes</p>
+      </div>
+
+      {isLoading ? (
+        <Card>
+          <CardContent className="pt-6">
+            <TableSkeleton rows={5} />
+          </CardContent>
+        </Card>
+      ) : byUser.size === 0 ? (
+        <EmptyState
+          icon={KeyRound}
+          title="Sin sesiones activas"
+          description="No hay usuarios con sesión iniciada"
+        />
+      ) : (
+        Array.from(byUser.entries()).map(([userId, userSessions]) => {
+          const ownSessions = userSessions.some((s) => s.current);
+          return (
+            <Card key={userId} data-testid={`card-sessions-${userId}`}>
+              <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+                <CardTitle className="text-lg">
+                  {userSessions[0].userName}
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">
+                    @{userSessions[0].username} · {userSessions.length} sesión(es)
+                  </span>
+                </CardTitle>
+                {!ownSessions && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={revokeUserSessions.isPending}
+                    onClick={() => revokeUserSessions.mutate(userId)}
+                    data-testid={`button-revoke-all-${userId}`}
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Cerrar todas
+                  </Button>
+                )}
+              </CardHeader>
+              <CardContent>
+                <div className="overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Dispositivo</TableHead>
+                        <TableHead>IP</TableHead>
+                        <TableHead>Inicio</TableHead>
+                        <TableHead>Expira</TableHead>
+                        <TableHead className="text-right">Acciones</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {userSessions.map((s) => (
+                        <TableRow key={s.sid}>
+                          <TableCell title={s.userAgent || undefined}>
+                            {describeDevice(s.userAgent)}
+                            {s.current && <Badge variant="secondary" className="ml-2">Esta sesión</Badge>}
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{s.ip || "-"}</TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {s.loginAt ? format(new Date(s.loginAt), "dd MMM yyyy HH:mm", { locale: es }) : "-"}
+                          </TableCell>
+                          <TableCell className="text-sm text-muted-foreground">
+                            {formatDistanceToNow(new Date(s.expire), { addSuffix: true, locale: es })}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {!s.current && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={revokeSession.isPending}
+                                onClick={() => revokeSession.mutate(s.sid)}
+                              >
+                                Revocar
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Intentos de Inicio de Sesión</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {attemptsLoading ? (
+            <TableSkeleton rows={5} />
+          ) : !attempts || attempts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Sin intentos registrados</p>
+          ) : (
+            <div className="overflow-x-auto max-h-96">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Usuario</TableHead>
+                    <TableHead>IP</TableHead>
+                    <TableHead>Resultado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {attempts.map((a) => (
+                    <TableRow key={a.id} data-testid={`row-login-attempt-${a.id}`}>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {a.createdAt ? format(new Date(a.createdAt), "dd MMM yyyy HH:mm:ss", { locale: es }) : "-"}
+                      </TableCell>
+                      <TableCell className="font-medium">{a.username}</TableCell>
+                      <TableCell className="font-mono text-sm">{a.ip || "-"}</TableCell>
+                      <TableCell>
+                        {a.success === "true" ? (
+                          <Badge variant="secondary">Exitoso</Badge>
+                        ) : (
+                          <Badge variant={a.reason === "locked" ? "destructive" : "outline"}>
+                            {attemptReasonLabels[a.reason || ""] || "Fallido"}
+                          </Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <KioskTokensCard />
+    </div>
+  );
+}
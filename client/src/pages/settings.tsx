@@ -26,22 +26,43 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import { DocumentTypesCard } from "@/components/document-types-card";
+import { NotificationHistoryCard } from "@/components/notification-history-card";
+import { PriorityMatrixCard } from "@/components/priority-matrix-card";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Permission } from "@shared/schema";
 
 interface EmailRecipient {
     id: string;
     email: string;
     name: string;
     active: string;
+    documentAlerts: string;
+    weeklyDigest: string;
+    weeklyReport: string;
+    monthlyReport: string;
+    overdueEscalations: string;
     createdAt: string;
 }
 
+type Subscription = "documentAlerts" | "weeklyDigest" | "weeklyReport" | "monthlyReport" | "overdueEscalations";
+
+const subscriptionLabels: Record<Subscription, string> = {
+    documentAlerts: "Alertas de vencimiento",
+    weeklyDigest: "Resumen semanal",
+    weeklyReport: "Reporte semanal",
+    monthlyReport: "Reporte mensual",
+    overdueEscalations: "Incidencias vencidas",
+};
+
 export default function SettingsPage() {
     const [newEmail, setNewEmail] = useState("");
     const [newName, setNewName] = useState("");
     const [deletingId, setDeletingId] = useState<string | null>(null);
     const { toast } = useToast();
+    const { can } = useAuth();
 
     const { data: recipients, isLoading } = useQuery<EmailRecipient[]>({
         queryKey: ["/api/email-recipients"],
@@ -92,6 +113,21 @@ export default function SettingsPage() {
         },
     });
 
+    const subscriptionMutation = useMutation({
+        mutationFn: async ({ recipient, key }: { recipient: EmailRecipient; key: Subscription }) => {
+            const value = recipient[key] === "true" ? "false" : "true";
+            const res = await apiRequest("PATCH", `/api/email-recipients/${recipient.id}/subscriptions`, { [key]: value });
+            return res.json();
+        },
+        onSuccess: (data, { key }) => {
+            toast({ title: `${subscriptionLabels[key]} ${data[key] === "true" ? "activado" : "desactivado"}` });
+            queryClient.invalidateQueries({ queryKey: ["/api/email-recipients"] });
+        },
+        onError: () => {
+            toast({ title: "Error", variant: "destructive" });
+        },
+    });
+
     const testEmailMutation = useMutation({
         mutationFn: async () => {
             const res = await apiRequest("POST", "/api/email-test");
@@ -116,7 +152,7 @@ export default function SettingsPage() {
                     <Settings className="h-6 w-6" />
                     Configuración
                 </h1>
-                <p className="text-muted-foreground">Administra las notificaciones por correo para documentos por vencer</p>
+                <p className="text-muted-foreground">Administra las notificaciones por correo y los tipos de documento con vencimiento</p>
             </div>
 
             {/* Recipients Card */}
@@ -218,6 +254,20 @@ export default function SettingsPage() {
                                                 )}
                                             </div>
                                             <p className="text-xs text-muted-foreground truncate">{recipient.email}</p>
+                                            <div className="flex flex-wrap gap-1 mt-1.5">
+                                                {(Object.keys(subscriptionLabels) as Subscription[]).map((key) => (
+                                                    <Badge
+                                                        key={key}
+                                                        variant={recipient[key] === "true" ? "secondary" : "outline"}
+                                                        className={`text-[10px] cursor-pointer ${recipient[key] === "true" ? "" : "text-muted-foreground line-through"}`}
+                                                        onClick={() => subscriptionMutation.mutate({ recipient, key })}
+                                                        title={recipient[key] === "true" ? "Clic para desactivar" : "Clic para activar"}
+                                                        data-testid={`badge-subscription-${key}-${recipient.id}`}
+                                                    >
+                                                        {subscriptionLabels[key]}
+                                                    </Badge>
+                                                ))}
+                                            </div>
                                         </div>
                                     </div>
                                     <div className="flex items-center gap-1 shrink-0">
@@ -255,14 +305,23 @@ export default function SettingsPage() {
                         <div className="text-blue-800 dark:text-blue-300">
                             <p className="font-medium">¿Cómo funciona?</p>
                             <p className="text-xs mt-1">
-                                El sistema verifica cada 24 horas si hay documentos por vencer. Si hay documentos que necesitan atención,
-                                se envía un correo a todos los destinatarios <strong>activos</strong> con el N° de bus, tipo de documento y fecha de vencimiento.
+                                Cada día a las 08:00 el sistema verifica si hay documentos por vencer. Cada documento se notifica una sola vez al alcanzar
+                                cada uno de los días de aviso de su tipo, a los destinatarios <strong>activos</strong> suscritos a las alertas. Quienes tengan el resumen semanal
+                                reciben además, cada lunes, la lista completa de documentos por vencer o vencidos. Los reportes semanal y mensual de
+                                incidencias se envían con un PDF adjunto los lunes y el primer día de cada mes. Las incidencias que superan su fecha
+                                límite se escalan, una sola vez, a los administradores con correo registrado y a quienes tengan activado el aviso de incidencias vencidas.
                             </p>
                         </div>
                     </div>
                 </CardContent>
             </Card>
 
+            <NotificationHistoryCard />
+
+            {can(Permission.DOCUMENT_TYPES_MANAGE) && <DocumentTypesCard />}
+
+            {can(Permission.PRIORITY_MANAGE) && <PriorityMatrixCard />}
+
             {/* Delete confirmation */}
             <AlertDialog open={!!deletingId} onOpenChange={(open) => !open && setDeletingId(null)}>
                 <AlertDialogContent>
@@ -43,11 +43,13 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { Plus, Pencil, Trash2, Users, Shield, Wrench } from "lucide-react";
+import { PasswordPolicyHint } from "@shared/schema";
 
 interface UserData {
   id: string;
   username: string;
   name: string;
+  email: string | null;
   role: "admin" | "technician";
   active: string;
 }
@@ -63,6 +65,7 @@ export default function UsersPage() {
     username: "",
     password: "",
     name: "",
+    email: "",
     role: "technician" as "admin" | "technician",
   });
 
@@ -130,7 +133,7 @@ export default function UsersPage() {
   });
 
   const resetForm = () => {
-    setFormData({ username: "", password: "", name: "", role: "technician" });
+    setFormData({ username: "", password: "", name: "", email: "", role: "technician" });
   };
 
   const handleCreate = () => {
@@ -141,6 +144,7 @@ export default function UsersPage() {
     if (!editingUser) return;
     const updates: Partial<UserData & { password?: string }> = {
       name: formData.name,
+      email: formData.email,
       role: formData.role,
     };
     if (formData.password) {
@@ -161,6 +165,7 @@ export default function UsersPage() {
       username: user.username,
       password: "",
       name: user.name,
+      email: user.email ?? "",
       role: user.role,
     });
     setEditingUser(user);
@@ -240,7 +245,10 @@ export default function UsersPage() {
                 {users?.map((user) => (
                   <TableRow key={user.id} data-testid={`row-user-${user.username}`}>
                     <TableCell className="font-medium">{user.username}</TableCell>
-                    <TableCell>{user.name}</TableCell>
+                    <TableCell>
+                      <div>{user.name}</div>
+                      {user.email && <div className="text-xs text-muted-foreground">{user.email}</div>}
+                    </TableCell>
                     <TableCell>
                       <Badge variant={user.role === "admin" ? "default" : "secondary"}>
                         {user.role === "admin" ? "Administrador" : "Tecnico"}
@@ -315,6 +323,17 @@ export default function UsersPage() {
                 data-testid="input-create-name"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="create-email">Correo (opcional)</Label>
+              <Input
+                id="create-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                placeholder="nombre@empresa.com"
+                data-testid="input-create-email"
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="create-password">Contrasena</Label>
               <Input
@@ -322,7 +341,7 @@ export default function UsersPage() {
                 type="password"
                 value={formData.password}
                 onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                placeholder="Minimo 4 caracteres"
+                placeholder={PasswordPolicyHint}
                 data-testid="input-create-password"
               />
             </div>
@@ -375,6 +394,17 @@ export default function UsersPage() {
                 data-testid="input-edit-name"
               />
             </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-email">Correo (opcional)</Label>
+              <Input
+                id="edit-email"
+                type="email"
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                placeholder="nombre@empresa.com"
+                data-testid="input-edit-email"
+              />
+            </div>
             <div className="space-y-2">
               <Label htmlFor="edit-password">Nueva Contrasena (dejar vacio para mantener)</Label>
               <Input
@@ -382,7 +412,7 @@ export default function UsersPage() {
                 type="password"
                 value={formData.password}
                 onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                placeholder="Minimo 4 caracteres"
+                placeholder={PasswordPolicyHint}
                 data-testid="input-edit-password"
               />
             </div>
@@ -2,13 +2,14 @@ import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { format, startOfWeek, endOfWeek, subWeeks, addWeeks } from "date-fns";
 import { es } from "date-fns/locale";
-import { ChevronLeft, ChevronRight, FileText, TrendingUp, AlertTriangle, CheckCircle, Bus } from "lucide-react";
+import { ChevronLeft, ChevronRight, FileText, TrendingUp, AlertTriangle, CheckCircle, Bus, Download, Target } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { MetricCard } from "@/components/metric-card";
 import { EquipmentTypeBadge, IncidentTypeBadge } from "@/components/status-badge";
 import { MetricCardSkeleton, ChartSkeleton } from "@/components/loading-skeleton";
 import { EmptyState } from "@/components/empty-state";
+import { RecurringFailuresCard } from "@/components/recurring-failures-card";
 import type { WeeklyReport as WeeklyReportType } from "@shared/schema";
 import {
   BarChart,
@@ -26,7 +27,7 @@ export default function WeeklyReport() {
   
   const weekStart = startOfWeek(currentDate, { weekStartsOn: 1 });
   const weekEnd = endOfWeek(currentDate, { weekStartsOn: 1 });
-  const weekParam = format(weekStart, "yyyy-'W'ww");
+  const weekParam = format(weekStart, "RRRR-'W'II");
 
   const { data: report, isLoading } = useQuery<WeeklyReportType>({
     queryKey: [`/api/reports/weekly?week=${weekParam}`],
@@ -34,7 +35,7 @@ export default function WeeklyReport() {
 
   const goToPrevWeek = () => setCurrentDate(subWeeks(currentDate, 1));
   const goToNextWeek = () => setCurrentDate(addWeeks(currentDate, 1));
-  const isCurrentWeek = format(new Date(), "yyyy-'W'ww") === weekParam;
+  const isCurrentWeek = format(new Date(), "RRRR-'W'II") === weekParam;
 
   const equipmentData = report?.incidentsByEquipment
     ? Object.entries(report.incidentsByEquipment).map(([key, value]) => ({
@@ -63,6 +64,18 @@ export default function WeeklyReport() {
           <p className="text-muted-foreground">Resumen de incidencias de la semana</p>
         </div>
         <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" asChild data-testid="button-export-xlsx">
+            <a href={`/api/reports/weekly/export?week=${weekParam}&format=xlsx`} download>
+              <Download className="h-4 w-4 mr-2" />
+              Excel
+            </a>
+          </Button>
+          <Button variant="outline" size="sm" asChild data-testid="button-export-csv">
+            <a href={`/api/reports/weekly/export?week=${weekParam}&format=csv`} download>
+              <Download className="h-4 w-4 mr-2" />
+              CSV
+            </a>
+          </Button>
           <Button variant="outline" size="icon" onClick={goToPrevWeek} data-testid="button-prev-week">
             <ChevronLeft className="h-4 w-4" />
           </Button>
@@ -81,13 +94,14 @@ export default function WeeklyReport() {
         </div>
       </div>
 
-      <div className="grid gap-4 md:grid-cols-4">
+      <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
         {isLoading ? (
           <>
             <MetricCardSkeleton />
             <MetricCardSkeleton />
             <MetricCardSkeleton />
             <MetricCardSkeleton />
+            <MetricCardSkeleton />
           </>
         ) : (
           <>
@@ -109,6 +123,12 @@ export default function WeeklyReport() {
               subtitle="Por resolver"
               icon={AlertTriangle}
             />
+            <MetricCard
+              title="Primer Intento"
+              value={report?.firstTimeFixRate != null ? `${report.firstTimeFixRate}%` : "-"}
+              subtitle="Reparadas sin reabrir"
+              icon={Target}
+            />
             <MetricCard
               title="Buses Afectados"
               value={report?.mostAffectedBuses?.length || 0}
@@ -222,6 +242,13 @@ export default function WeeklyReport() {
           </CardContent>
         </Card>
       )}
+
+      {!isLoading && report && (
+        <RecurringFailuresCard
+          failures={report.recurringFailures}
+          description="Equipos con fallas repetidas o reabiertas al cierre de la semana"
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,725 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import { ClipboardCheck, Plus, X, Play, CheckCircle, Printer, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/lib/auth";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { StatusBadge, EquipmentTypeBadge, IncidentTypeBadge, PriorityBadge } from "@/components/status-badge";
+import { TableSkeleton } from "@/components/loading-skeleton";
+import { EmptyState } from "@/components/empty-state";
+import type { Bus, Incident, SparePart, PartUsage, WorkOrderSummary, WorkOrderDetail } from "@shared/schema";
+import {
+  CameraChannelLabels,
+  EquipmentTypeLabels,
+  IncidentTypeLabels,
+  OpenIncidentStatuses,
+  Permission,
+  WorkOrderStatus,
+  workOrderNumber,
+} from "@shared/schema";
+
+const emptyForm = { busId: "", incidentIds: [] as string[], assignedTo: "none", scheduledFor: "", instructions: "" };
+
+// Value of a datetime-local input
+const toLocalInput = (date: Date | string | null) => date ? format(new Date(date), "yyyy-MM-dd'T'HH:mm") : "";
+
+const formatLabour = (minutes: number) => `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+
+const invalidateWorkOrderQueries = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/work-orders"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/incidents"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/incidents/mine"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/dashboard"] });
+};
+
+function IncidentSummary({ incident }: { incident: Incident }) {
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <PriorityBadge priority={incident.priority} size="sm" />
+      <EquipmentTypeBadge type={incident.equipmentType} size="sm" />
+      <IncidentTypeBadge type={incident.incidentType} size="sm" />
+      {incident.cameraChannel && (
+        <span className="text-xs text-muted-foreground">
+          {incident.cameraChannel.toUpperCase()} - {CameraChannelLabels[incident.cameraChannel]}
+        </span>
+      )}
+    </div>
+  );
+}
+
+export default function WorkOrders() {
+  const { toast } = useToast();
+  const { can } = useAuth();
+  const [statusFilter, setStatusFilter] = useState("open");
+  const [createOpen, setCreateOpen] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [incidentToAdd, setIncidentToAdd] = useState("");
+  const [labourMinutes, setLabourMinutes] = useState("");
+  const [resolutionNotes, setResolutionNotes] = useState("");
+  const [usedParts, setUsedParts] = useState<PartUsage>([]);
+  const [partToAdd, setPartToAdd] = useState("");
+  const [partQuantity, setPartQuantity] = useState("1");
+
+  const { data: orders, isLoading } = useQuery<WorkOrderSummary[]>({
+    queryKey: ["/api/work-orders"],
+  });
+
+  const { data: buses } = useQuery<Bus[]>({
+    queryKey: ["/api/buses"],
+  });
+
+  const { data: technicians } = useQuery<Array<{ id: string; name: string }>>({
+    queryKey: ["/api/technicians"],
+  });
+
+  const { data: incidents } = useQuery<Incident[]>({
+    queryKey: ["/api/incidents"],
+  });
+
+  const { data: order } = useQuery<WorkOrderDetail>({
+    queryKey: ["/api/work-orders", selectedId],
+    enabled: !!selectedId,
+  });
+
+  const { data: spareParts } = useQuery<SparePart[]>({
+    queryKey: ["/api/parts"],
+    enabled: !!selectedId && can(Permission.INVENTORY_VIEW),
+  });
+
+  const partMap = new Map(spareParts?.map((p) => [p.id, p]) || []);
+
+  // Open incidents of a bus that are not already in an open work order
+  const openOrderIds = new Set(orders?.filter((o) => o.status !== WorkOrderStatus.COMPLETED).map((o) => o.id) || []);
+  const availableIncidents = (busId: string) => incidents?.filter((i) =>
+    i.busId === busId &&
+    OpenIncidentStatuses.includes(i.status) &&
+    (!i.workOrderId || !openOrderIds.has(i.workOrderId))
+  ) || [];
+
+  const filteredOrders = orders?.filter((o) =>
+    statusFilter === "all" ||
+    (statusFilter === "open" ? o.status !== WorkOrderStatus.COMPLETED : o.status === statusFilter)
+  ) || [];
+
+  const createOrder = useMutation({
+    mutationFn: async (data: typeof form) => {
+      const response = await apiRequest("POST", "/api/work-orders", {
+        busId: data.busId,
+        incidentIds: data.incidentIds,
+        assignedTo: data.assignedTo === "none" ? undefined : data.assignedTo,
+        scheduledFor: data.scheduledFor ? new Date(data.scheduledFor).toISOString() : undefined,
+        instructions: data.instructions || undefined,
+      });
+      return response.json() as Promise<WorkOrderSummary>;
+    },
+    onSuccess: (created) => {
+      toast({ title: "Orden de trabajo creada", description: `Se creó la orden ${workOrderNumber(created.number)}.` });
+      invalidateWorkOrderQueries();
+      setCreateOpen(false);
+      setForm(emptyForm);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo crear la orden de trabajo.", variant: "destructive" });
+    },
+  });
+
+  const updateOrder = useMutation({
+    mutationFn: async (updates: { status?: string; assignedTo?: string | null; scheduledFor?: string | null }) => {
+      return apiRequest("PATCH", `/api/work-orders/${selectedId}`, updates);
+    },
+    onSuccess: () => {
+      toast({ title: "Orden de trabajo actualizada" });
+      invalidateWorkOrderQueries();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo actualizar la orden de trabajo.", variant: "destructive" });
+    },
+  });
+
+  const addIncident = useMutation({
+    mutationFn: async (incidentId: string) => {
+      return apiRequest("POST", `/api/work-orders/${selectedId}/incidents`, { incidentIds: [incidentId] });
+    },
+    onSuccess: () => {
+      setIncidentToAdd("");
+      invalidateWorkOrderQueries();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo agregar la incidencia.", variant: "destructive" });
+    },
+  });
+
+  const removeIncident = useMutation({
+    mutationFn: async (incidentId: string) => {
+      return apiRequest("DELETE", `/api/work-orders/${selectedId}/incidents/${incidentId}`);
+    },
+    onSuccess: () => invalidateWorkOrderQueries(),
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo quitar la incidencia.", variant: "destructive" });
+    },
+  });
+
+  const completeOrder = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/work-orders/${selectedId}/complete`, {
+        labourMinutes: parseInt(labourMinutes) || 0,
+        resolutionNotes: resolutionNotes || undefined,
+        parts: usedParts.length > 0 ? usedParts : undefined,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Orden completada", description: "Las incidencias de la orden quedaron resueltas." });
+      invalidateWorkOrderQueries();
+      queryClient.invalidateQueries({ queryKey: ["/api/camera-status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/parts"] });
+      resetCompletion();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo completar la orden de trabajo.", variant: "destructive" });
+    },
+  });
+
+  const deleteOrder = useMutation({
+    mutationFn: async () => apiRequest("DELETE", `/api/work-orders/${selectedId}`),
+    onSuccess: () => {
+      toast({ title: "Orden de trabajo eliminada" });
+      invalidateWorkOrderQueries();
+      closeDetail();
+    },
+    onError: () => {
+      toast({ title: "Error", description: "No se pudo eliminar la orden de trabajo.", variant: "destructive" });
+    },
+  });
+
+  const resetCompletion = () => {
+    setLabourMinutes("");
+    setResolutionNotes("");
+    setUsedParts([]);
+    setPartToAdd("");
+    setPartQuantity("1");
+  };
+
+  const closeDetail = () => {
+    setSelectedId(null);
+    setIncidentToAdd("");
+    resetCompletion();
+  };
+
+  const addUsedPart = () => {
+    const quantity = parseInt(partQuantity);
+    if (!partToAdd || !quantity || quantity < 1) return;
+    const existing = usedParts.find((p) => p.partId === partToAdd);
+    setUsedParts(existing
+      ? usedParts.map((p) => p.partId === partToAdd ? { ...p, quantity: p.quantity + quantity } : p)
+      : [...usedParts, { partId: partToAdd, quantity }]);
+    setPartToAdd("");
+    setPartQuantity("1");
+  };
+
+  const toggleFormIncident = (incidentId: string, checked: boolean) => {
+    setForm({
+      ...form,
+      incidentIds: checked
+        ? [...form.incidentIds, incidentId]
+        : form.incidentIds.filter((id) => id !== incidentId),
+    });
+  };
+
+  const isCompleted = order?.status === WorkOrderStatus.COMPLETED;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-semibold" data-testid="text-page-title">Órdenes de Trabajo</h1>
+          <p className="text-muted-foreground">
+            Agrupe las incidencias de un bus en un solo trabajo de taller
+          </p>
+        </div>
+        {can(Permission.INCIDENTS_UPDATE) && (
+          <Button onClick={() => setCreateOpen(true)} data-testid="button-create-work-order">
+            <Plus className="h-4 w-4 mr-2" />
+            Nueva Orden
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+          <CardTitle className="text-lg">Órdenes ({filteredOrders.length})</CardTitle>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-44" data-testid="select-work-order-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Abiertas</SelectItem>
+              <SelectItem value="pending">Pendientes</SelectItem>
+              <SelectItem value="in_progress">En Progreso</SelectItem>
+              <SelectItem value="completed">Completadas</SelectItem>
+              <SelectItem value="all">Todas</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <TableSkeleton rows={5} />
+          ) : filteredOrders.length === 0 ? (
+            <EmptyState
+              icon={ClipboardCheck}
+              title="Sin órdenes de trabajo"
+              description="No hay órdenes de trabajo con el filtro seleccionado"
+            />
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Orden</TableHead>
+                    <TableHead>Bus</TableHead>
+                    <TableHead>Estado</TableHead>
+                    <TableHead>Técnico</TableHead>
+                    <TableHead>Programada</TableHead>
+                    <TableHead>Incidencias</TableHead>
+                    <TableHead>Mano de obra</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredOrders.map((o) => (
+                    <TableRow
+                      key={o.id}
+                      className="cursor-pointer"
+                      onClick={() => setSelectedId(o.id)}
+                      data-testid={`row-work-order-${o.id}`}
+                    >
+                      <TableCell className="font-medium">{workOrderNumber(o.number)}</TableCell>
+                      <TableCell>Bus {o.busNumber}</TableCell>
+                      <TableCell>
+                        <StatusBadge status={o.status} size="sm" />
+                      </TableCell>
+                      <TableCell>
+                        {o.assigneeName || <span className="text-muted-foreground">Sin asignar</span>}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {o.scheduledFor ? format(new Date(o.scheduledFor), "dd MMM yyyy HH:mm", { locale: es }) : "-"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {o.status === WorkOrderStatus.COMPLETED
+                          ? o.incidentCount
+                          : `${o.openIncidentCount} abiertas de ${o.incidentCount}`}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {o.labourMinutes !== null ? formatLabour(o.labourMinutes) : "-"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={createOpen} onOpenChange={(open) => { setCreateOpen(open); if (!open) setForm(emptyForm); }}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Nueva Orden de Trabajo</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label>Bus</Label>
+              <Select value={form.busId} onValueChange={(busId) => setForm({ ...form, busId, incidentIds: [] })}>
+                <SelectTrigger data-testid="select-work-order-bus">
+                  <SelectValue placeholder="Seleccione un bus" />
+                </SelectTrigger>
+                <SelectContent>
+                  {buses?.map((b) => (
+                    <SelectItem key={b.id} value={b.id}>Bus {b.busNumber}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.busId && (
+              <div className="space-y-2">
+                <Label>Incidencias</Label>
+                {availableIncidents(form.busId).length === 0 ? (
+                  <p className="text-sm text-muted-foreground">El bus no tiene incidencias abiertas fuera de otra orden</p>
+                ) : (
+                  <div className="space-y-2 max-h-56 overflow-y-auto pr-1">
+                    {availableIncidents(form.busId).map((incident) => (
+                      <label
+                        key={incident.id}
+                        className="flex items-start gap-3 rounded-md border px-3 py-2 cursor-pointer"
+                      >
+                        <Checkbox
+                          checked={form.incidentIds.includes(incident.id)}
+                          onCheckedChange={(checked) => toggleFormIncident(incident.id, checked === true)}
+                          className="mt-0.5"
+                          data-testid={`checkbox-incident-${incident.id}`}
+                        />
+                        <div className="space-y-1">
+                          <IncidentSummary incident={incident} />
+                          {incident.description && (
+                            <p className="text-xs text-muted-foreground line-clamp-2">{incident.description}</p>
+                          )}
+                        </div>
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+            {can(Permission.INCIDENTS_ASSIGN) && (
+              <div className="space-y-2">
+                <Label>Técnico</Label>
+                <Select value={form.assignedTo} onValueChange={(assignedTo) => setForm({ ...form, assignedTo })}>
+                  <SelectTrigger data-testid="select-work-order-assignee">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Sin asignar</SelectItem>
+                    {technicians?.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>Programada para</Label>
+              <Input
+                type="datetime-local"
+                value={form.scheduledFor}
+                onChange={(e) => setForm({ ...form, scheduledFor: e.target.value })}
+                data-testid="input-work-order-scheduled"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Instrucciones</Label>
+              <Textarea
+                value={form.instructions}
+                onChange={(e) => setForm({ ...form, instructions: e.target.value })}
+                placeholder="Indicaciones para el taller..."
+                className="resize-none"
+                data-testid="textarea-work-order-instructions"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              onClick={() => createOrder.mutate(form)}
+              disabled={!form.busId || form.incidentIds.length === 0 || createOrder.isPending}
+              data-testid="button-confirm-create-work-order"
+            >
+              {createOrder.isPending ? "Creando..." : "Crear Orden"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!selectedId} onOpenChange={(open) => { if (!open) closeDetail(); }}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-3">
+              {order ? `Orden ${workOrderNumber(order.number)}` : "Orden de Trabajo"}
+              {order && <StatusBadge status={order.status} size="sm" />}
+            </DialogTitle>
+          </DialogHeader>
+          {order && (
+            <div className="space-y-4 pt-2">
+              <div className="space-y-1">
+                <p className="text-sm text-muted-foreground">Bus</p>
+                <p className="font-medium">Bus {order.busNumber}{order.plate ? ` · ${order.plate}` : ""}</p>
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Técnico</p>
+                {can(Permission.INCIDENTS_ASSIGN) && !isCompleted ? (
+                  <Select
+                    value={order.assignedTo || "none"}
+                    onValueChange={(value) => updateOrder.mutate({ assignedTo: value === "none" ? null : value })}
+                    disabled={updateOrder.isPending}
+                  >
+                    <SelectTrigger data-testid="select-detail-assignee">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Sin asignar</SelectItem>
+                      {technicians?.map((t) => (
+                        <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <p className="text-sm">{order.assigneeName || "Sin asignar"}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Programada para</p>
+                {can(Permission.INCIDENTS_UPDATE) && !isCompleted ? (
+                  <Input
+                    type="datetime-local"
+                    defaultValue={toLocalInput(order.scheduledFor)}
+                    key={`${order.id}-${order.scheduledFor}`}
+                    onBlur={(e) => {
+                      if (e.target.value !== toLocalInput(order.scheduledFor)) {
+                        updateOrder.mutate({ scheduledFor: e.target.value ? new Date(e.target.value).toISOString() : null });
+                      }
+                    }}
+                    data-testid="input-detail-scheduled"
+                  />
+                ) : (
+                  <p className="text-sm">
+                    {order.scheduledFor ? format(new Date(order.scheduledFor), "dd MMM yyyy HH:mm", { locale: es }) : "-"}
+                  </p>
+                )}
+              </div>
+
+              {order.instructions && (
+                <div className="space-y-1">
+                  <p className="text-sm text-muted-foreground">Instrucciones</p>
+                  <p className="text-sm whitespace-pre-wrap">{order.instructions}</p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="text-sm text-muted-foreground">Incidencias ({order.incidents.length})</p>
+                {order.incidents.map((incident) => (
+                  <div
+                    key={incident.id}
+                    className="flex items-start justify-between gap-2 rounded-md border px-3 py-2"
+                    data-testid={`work-order-incident-${incident.id}`}
+                  >
+                    <div className="space-y-1">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <StatusBadge status={incident.status} size="sm" />
+                        <IncidentSummary incident={incident} />
+                      </div>
+                      {incident.description && (
+                        <p className="text-xs text-muted-foreground line-clamp-2">{incident.description}</p>
+                      )}
+                    </div>
+                    {!isCompleted && can(Permission.INCIDENTS_UPDATE) && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-6 w-6 shrink-0"
+                        onClick={() => removeIncident.mutate(incident.id)}
+                        disabled={removeIncident.isPending}
+                        data-testid={`button-remove-incident-${incident.id}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {!isCompleted && can(Permission.INCIDENTS_UPDATE) && availableIncidents(order.busId).length > 0 && (
+                  <div className="flex gap-2">
+                    <Select value={incidentToAdd} onValueChange={setIncidentToAdd}>
+                      <SelectTrigger className="flex-1" data-testid="select-add-incident">
+                        <SelectValue placeholder="Agregar incidencia del bus" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availableIncidents(order.busId).map((i) => (
+                          <SelectItem key={i.id} value={i.id}>
+                            {EquipmentTypeLabels[i.equipmentType] || i.equipmentType} · {IncidentTypeLabels[i.incidentType] || i.incidentType}
+                            {i.reportedAt ? ` (${format(new Date(i.reportedAt), "dd/MM", { locale: es })})` : ""}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      size="icon"
+                      variant="outline"
+                      onClick={() => addIncident.mutate(incidentToAdd)}
+                      disabled={!incidentToAdd || addIncident.isPending}
+                      data-testid="button-add-incident"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {isCompleted ? (
+                <div className="space-y-3 rounded-md border p-3">
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Completada: </span>
+                    {order.completedAt ? format(new Date(order.completedAt), "dd MMM yyyy HH:mm", { locale: es }) : "-"}
+                  </p>
+                  <p className="text-sm">
+                    <span className="text-muted-foreground">Mano de obra: </span>
+                    {order.labourMinutes !== null ? formatLabour(order.labourMinutes) : "-"}
+                  </p>
+                  {order.parts.length > 0 && (
+                    <div className="space-y-1">
+                      <p className="text-sm text-muted-foreground">Repuestos utilizados</p>
+                      {order.parts.map((p) => (
+                        <p key={p.id} className="text-sm">{p.partName}: {p.quantity} {p.unit}</p>
+                      ))}
+                    </div>
+                  )}
+                  {order.resolutionNotes && (
+                    <p className="text-sm whitespace-pre-wrap">{order.resolutionNotes}</p>
+                  )}
+                </div>
+              ) : can(Permission.INCIDENTS_UPDATE) && (
+                <div className="space-y-3 rounded-md border p-3">
+                  <p className="text-sm font-medium">Cierre de la orden</p>
+                  <div className="space-y-2">
+                    <Label>Mano de obra (minutos)</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={labourMinutes}
+                      onChange={(e) => setLabourMinutes(e.target.value)}
+                      data-testid="input-labour-minutes"
+                    />
+                  </div>
+                  {can(Permission.INVENTORY_VIEW) && (
+                    <div className="space-y-2">
+                      <Label>Repuestos utilizados</Label>
+                      {usedParts.map((line) => {
+                        const part = partMap.get(line.partId);
+                        return (
+                          <div key={line.partId} className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm">
+                            <span>{part?.name || line.partId}</span>
+                            <div className="flex items-center gap-2">
+                              <span className="text-muted-foreground">{line.quantity} {part?.unit}</span>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                className="h-6 w-6"
+                                onClick={() => setUsedParts(usedParts.filter((p) => p.partId !== line.partId))}
+                                data-testid={`button-remove-part-${line.partId}`}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                      <div className="flex gap-2">
+                        <Select value={partToAdd} onValueChange={setPartToAdd}>
+                          <SelectTrigger className="flex-1" data-testid="select-used-part">
+                            <SelectValue placeholder="Seleccione repuesto" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {spareParts?.map((p) => (
+                              <SelectItem key={p.id} value={p.id} disabled={p.stock === 0}>
+                                {p.name} ({p.stock} {p.unit})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={partQuantity}
+                          onChange={(e) => setPartQuantity(e.target.value)}
+                          className="w-20"
+                          data-testid="input-used-part-quantity"
+                        />
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          onClick={addUsedPart}
+                          disabled={!partToAdd}
+                          data-testid="button-add-used-part"
+                        >
+                          <Plus className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                  <div className="space-y-2">
+                    <Label>Notas de Resolución</Label>
+                    <Textarea
+                      value={resolutionNotes}
+                      onChange={(e) => setResolutionNotes(e.target.value)}
+                      placeholder="Se copian a cada incidencia resuelta por la orden..."
+                      className="resize-none"
+                      data-testid="textarea-work-order-notes"
+                    />
+                  </div>
+                  <Button
+                    onClick={() => completeOrder.mutate()}
+                    disabled={labourMinutes === "" || completeOrder.isPending}
+                    className="w-full"
+                    data-testid="button-complete-work-order"
+                  >
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    {completeOrder.isPending ? "Guardando..." : "Completar y Resolver Incidencias"}
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button variant="outline" asChild>
+                  <a href={`/api/work-orders/${order.id}/job-sheet`} target="_blank" rel="noreferrer" data-testid="button-print-job-sheet">
+                    <Printer className="h-4 w-4 mr-2" />
+                    Hoja de Trabajo
+                  </a>
+                </Button>
+                {order.status === WorkOrderStatus.PENDING && can(Permission.INCIDENTS_UPDATE) && (
+                  <Button
+                    variant="outline"
+                    onClick={() => updateOrder.mutate({ status: WorkOrderStatus.IN_PROGRESS })}
+                    disabled={updateOrder.isPending}
+                    data-testid="button-start-work-order"
+                  >
+                    <Play className="h-4 w-4 mr-2" />
+                    Iniciar
+                  </Button>
+                )}
+                {!isCompleted && can(Permission.INCIDENTS_ASSIGN) && (
+                  <Button
+                    variant="ghost"
+                    className="text-destructive ml-auto"
+                    onClick={() => deleteOrder.mutate()}
+                    disabled={deleteOrder.isPending}
+                    data-testid="button-delete-work-order"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Eliminar
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,146 @@
+-- Baseline schema. Tables use IF NOT EXISTS and the trailing ALTERs backfill
+-- columns so databases previously provisioned with `db:push` or the old
+-- hand-written bus_documents DDL can adopt migrations without data loss.
+CREATE TABLE IF NOT EXISTS "bus_documents" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bus_id" varchar NOT NULL,
+	"driver_id" varchar,
+	"doc_type" text NOT NULL,
+	"file_name" text NOT NULL,
+	"file_path" text NOT NULL,
+	"uploaded_at" timestamp DEFAULT now(),
+	"expires_at" timestamp,
+	"notes" text
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "bus_drivers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bus_id" varchar NOT NULL,
+	"driver_id" varchar NOT NULL,
+	"role" text DEFAULT 'titular' NOT NULL,
+	"assigned_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "buses" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bus_number" text NOT NULL,
+	"plate" text,
+	CONSTRAINT "buses_bus_number_unique" UNIQUE("bus_number")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "device_movements" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"device_id" varchar NOT NULL,
+	"action" text NOT NULL,
+	"bus_id" varchar NOT NULL,
+	"camera_channel" text,
+	"incident_id" varchar,
+	"user_id" varchar,
+	"user_name" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "devices" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"serial" text NOT NULL,
+	"model" text NOT NULL,
+	"equipment_type" text NOT NULL,
+	"purchase_date" timestamp,
+	"warranty_end" timestamp,
+	"location" text DEFAULT 'warehouse' NOT NULL,
+	"bus_id" varchar,
+	"camera_channel" text,
+	"notes" text,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "devices_serial_unique" UNIQUE("serial")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "drivers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"rut" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "drivers_rut_unique" UNIQUE("rut")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "email_recipients" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" text NOT NULL,
+	"name" text NOT NULL,
+	"active" text DEFAULT 'true' NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "email_recipients_email_unique" UNIQUE("email")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "equipment_status" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bus_id" varchar NOT NULL,
+	"equipment_type" text NOT NULL,
+	"camera_channel" text,
+	"status" text DEFAULT 'operational' NOT NULL,
+	"last_incident_id" varchar,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "incident_events" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"incident_id" varchar NOT NULL,
+	"event_type" text NOT NULL,
+	"from_value" text,
+	"to_value" text,
+	"notes" text,
+	"user_id" varchar,
+	"user_name" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "incidents" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"bus_id" varchar NOT NULL,
+	"equipment_type" text NOT NULL,
+	"incident_type" text NOT NULL,
+	"camera_channel" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"description" text,
+	"resolution_notes" text,
+	"reported_at" timestamp DEFAULT now(),
+	"resolved_at" timestamp,
+	"reporter" text,
+	"assigned_to" varchar
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "part_consumptions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"part_id" varchar NOT NULL,
+	"incident_id" varchar NOT NULL,
+	"quantity" integer NOT NULL,
+	"user_id" varchar,
+	"user_name" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "spare_parts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"unit" text DEFAULT 'unidad' NOT NULL,
+	"stock" integer DEFAULT 0 NOT NULL,
+	"min_stock" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "spare_parts_name_unique" UNIQUE("name")
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	"name" text NOT NULL,
+	"role" text DEFAULT 'technician' NOT NULL,
+	"active" text DEFAULT 'true' NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "bus_documents" ADD COLUMN IF NOT EXISTS "driver_id" varchar;
+--> statement-breakpoint
+ALTER TABLE "bus_documents" ADD COLUMN IF NOT EXISTS "expires_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN IF NOT EXISTS "assigned_to" varchar;
@@ -0,0 +1,12 @@
+CREATE TABLE "login_attempts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"ip" text,
+	"success" text NOT NULL,
+	"reason" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "must_change_password" text DEFAULT 'false' NOT NULL;--> statement-breakpoint
+CREATE INDEX "login_attempts_username_idx" ON "login_attempts" USING btree ("username","created_at");--> statement-breakpoint
+CREATE INDEX "login_attempts_ip_idx" ON "login_attempts" USING btree ("ip","created_at");
\ No newline at end of file
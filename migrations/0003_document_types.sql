@@ -0,0 +1,23 @@
+CREATE TABLE "document_types" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"key" text NOT NULL,
+	"label" text NOT NULL,
+	"scope" text DEFAULT 'bus' NOT NULL,
+	"required" text DEFAULT 'false' NOT NULL,
+	"expires" text DEFAULT 'false' NOT NULL,
+	"alert_offsets" integer[] DEFAULT '{}'::integer[] NOT NULL,
+	"sort_order" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "document_types_key_unique" UNIQUE("key")
+);
+--> statement-breakpoint
+-- Default catalogue, matching the types and alert windows previously hard-coded:
+-- a single window of 5 days for the revisión técnica and 30 for licences and
+-- cédulas; the permiso de circulación had no expiry date and never alerted.
+INSERT INTO "document_types" ("key", "label", "scope", "required", "expires", "alert_offsets", "sort_order") VALUES
+	('permiso_circulacion', 'Permiso de Circulación', 'bus', 'true', 'false', '{}', 1),
+	('revision_tecnica', 'Revisión Técnica', 'bus', 'true', 'true', '{5}', 2),
+	('chasis', 'Información de Chasis', 'bus', 'false', 'false', '{}', 3),
+	('licencia_conducir', 'Licencia de Conducir', 'driver', 'true', 'true', '{30}', 4),
+	('cedula_conductor', 'Cédula del Conductor', 'driver', 'true', 'true', '{30}', 5)
+ON CONFLICT ("key") DO NOTHING;
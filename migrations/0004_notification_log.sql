@@ -0,0 +1,15 @@
+CREATE TABLE "notification_log" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"kind" text DEFAULT 'threshold' NOT NULL,
+	"document_id" varchar,
+	"threshold" integer,
+	"recipient" text NOT NULL,
+	"bus_number" text,
+	"doc_label" text,
+	"days_left" integer,
+	"sent_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "email_recipients" ADD COLUMN "weekly_digest" text DEFAULT 'false' NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "notification_log_threshold_key" ON "notification_log" USING btree ("document_id","threshold","recipient") WHERE kind = 'threshold';--> statement-breakpoint
+CREATE INDEX "notification_log_sent_at_idx" ON "notification_log" USING btree ("sent_at");
\ No newline at end of file
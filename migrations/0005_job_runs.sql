@@ -0,0 +1,13 @@
+CREATE TABLE "job_runs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job" text NOT NULL,
+	"trigger" text DEFAULT 'schedule' NOT NULL,
+	"status" text DEFAULT 'running' NOT NULL,
+	"started_at" timestamp DEFAULT now(),
+	"finished_at" timestamp,
+	"duration_ms" integer,
+	"error" text,
+	"user_name" text
+);
+--> statement-breakpoint
+CREATE INDEX "job_runs_job_idx" ON "job_runs" USING btree ("job","started_at");
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "email_recipients" ADD COLUMN "document_alerts" text DEFAULT 'true' NOT NULL;--> statement-breakpoint
+ALTER TABLE "email_recipients" ADD COLUMN "weekly_report" text DEFAULT 'false' NOT NULL;--> statement-breakpoint
+ALTER TABLE "email_recipients" ADD COLUMN "monthly_report" text DEFAULT 'false' NOT NULL;
\ No newline at end of file
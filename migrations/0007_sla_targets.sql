@@ -0,0 +1,13 @@
+CREATE TABLE "sla_targets" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"equipment_type" text,
+	"incident_type" text,
+	"target_hours" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX "sla_targets_scope_key" ON "sla_targets" USING btree (coalesce("equipment_type", ''),coalesce("incident_type", ''));--> statement-breakpoint
+-- Starting targets: faulty cameras within 48h, anything else within a week.
+INSERT INTO "sla_targets" ("equipment_type", "incident_type", "target_hours") VALUES
+	('camera', 'faulty', 48),
+	(NULL, NULL, 168);
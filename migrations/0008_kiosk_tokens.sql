@@ -0,0 +1,8 @@
+CREATE TABLE "kiosk_tokens" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"token_hash" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"last_used_at" timestamp,
+	CONSTRAINT "kiosk_tokens_token_hash_unique" UNIQUE("token_hash")
+);
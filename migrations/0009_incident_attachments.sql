@@ -0,0 +1,15 @@
+CREATE TABLE "incident_attachments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"incident_id" varchar NOT NULL,
+	"stage" text NOT NULL,
+	"file_name" text NOT NULL,
+	"file_path" text NOT NULL,
+	"mime_type" text NOT NULL,
+	"size" integer NOT NULL,
+	"thumbnail_path" text,
+	"uploaded_by" varchar,
+	"uploaded_by_name" text,
+	"uploaded_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "incident_attachments_incident_idx" ON "incident_attachments" USING btree ("incident_id");
\ No newline at end of file
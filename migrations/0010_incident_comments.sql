@@ -0,0 +1,24 @@
+CREATE TABLE "incident_comments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"incident_id" varchar NOT NULL,
+	"author_id" varchar,
+	"author_name" text NOT NULL,
+	"body" text NOT NULL,
+	"internal" text DEFAULT 'false' NOT NULL,
+	"mentioned_user_ids" text[] DEFAULT '{}' NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "user_notifications" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"kind" text NOT NULL,
+	"incident_id" varchar,
+	"actor_name" text,
+	"message" text NOT NULL,
+	"read_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "incident_comments_incident_idx" ON "incident_comments" USING btree ("incident_id","created_at");--> statement-breakpoint
+CREATE INDEX "user_notifications_user_idx" ON "user_notifications" USING btree ("user_id","created_at");
\ No newline at end of file
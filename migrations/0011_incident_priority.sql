@@ -0,0 +1,51 @@
+CREATE TABLE "priority_matrix" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"equipment_type" text NOT NULL,
+	"incident_type" text NOT NULL,
+	"priority" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "email_recipients" ADD COLUMN "overdue_escalations" text DEFAULT 'true' NOT NULL;--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN "priority" text DEFAULT 'medium' NOT NULL;--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN "due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN "escalated_at" timestamp;--> statement-breakpoint
+CREATE UNIQUE INDEX "priority_matrix_scope_key" ON "priority_matrix" USING btree ("equipment_type","incident_type");--> statement-breakpoint
+-- Starting matrix: recording/storage failures first, passenger-side camera issues last.
+INSERT INTO "priority_matrix" ("equipment_type", "incident_type", "priority") VALUES
+	('dvr', 'faulty', 'critical'),
+	('dvr', 'replacement', 'critical'),
+	('dvr', 'loose_cable', 'high'),
+	('dvr', 'misaligned', 'medium'),
+	('hard_drive', 'faulty', 'critical'),
+	('hard_drive', 'replacement', 'critical'),
+	('hard_drive', 'loose_cable', 'high'),
+	('hard_drive', 'misaligned', 'medium'),
+	('camera', 'faulty', 'high'),
+	('camera', 'replacement', 'high'),
+	('camera', 'loose_cable', 'medium'),
+	('camera', 'misaligned', 'low'),
+	('gps', 'faulty', 'high'),
+	('gps', 'replacement', 'high'),
+	('gps', 'loose_cable', 'medium'),
+	('gps', 'misaligned', 'low'),
+	('cable', 'faulty', 'high'),
+	('cable', 'replacement', 'medium'),
+	('cable', 'loose_cable', 'medium'),
+	('cable', 'misaligned', 'low');
+--> statement-breakpoint
+-- Existing incidents take their priority from the matrix. Those already past
+-- the resulting due date count as escalated, so the first run does not flood
+-- the recipients with old incidents.
+UPDATE "incidents" SET "priority" = "priority_matrix"."priority"
+	FROM "priority_matrix"
+	WHERE "priority_matrix"."equipment_type" = "incidents"."equipment_type"
+	AND "priority_matrix"."incident_type" = "incidents"."incident_type";
+--> statement-breakpoint
+UPDATE "incidents" SET "due_at" = "reported_at" + CASE "priority"
+	WHEN 'critical' THEN interval '4 hours'
+	WHEN 'high' THEN interval '24 hours'
+	WHEN 'medium' THEN interval '72 hours'
+	ELSE interval '168 hours' END
+	WHERE "reported_at" IS NOT NULL;
+--> statement-breakpoint
+UPDATE "incidents" SET "escalated_at" = now() WHERE "due_at" < now();
@@ -0,0 +1,21 @@
+CREATE TABLE "work_orders" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"number" serial NOT NULL,
+	"bus_id" varchar NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"assigned_to" varchar,
+	"scheduled_for" timestamp,
+	"labour_minutes" integer,
+	"instructions" text,
+	"resolution_notes" text,
+	"created_by" varchar,
+	"created_by_name" text,
+	"created_at" timestamp DEFAULT now(),
+	"completed_at" timestamp,
+	CONSTRAINT "work_orders_number_unique" UNIQUE("number")
+);
+--> statement-breakpoint
+ALTER TABLE "part_consumptions" ALTER COLUMN "incident_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "incidents" ADD COLUMN "work_order_id" varchar;--> statement-breakpoint
+ALTER TABLE "part_consumptions" ADD COLUMN "work_order_id" varchar;--> statement-breakpoint
+CREATE INDEX "work_orders_bus_idx" ON "work_orders" USING btree ("bus_id");
\ No newline at end of file
@@ -0,0 +1,8 @@
+ALTER TABLE "incidents" ADD COLUMN "reopen_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "incidents" SET "reopen_count" = "reopens"."count"
+	FROM (
+		SELECT "incident_id", count(*) AS "count" FROM "incident_events"
+		WHERE "event_type" = 'status_change' AND "from_value" = 'resolved'
+		GROUP BY "incident_id"
+	) AS "reopens"
+	WHERE "incidents"."id" = "reopens"."incident_id";
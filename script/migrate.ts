@@ -0,0 +1,35 @@
+import { pool } from "../server/db";
+import { getMigrationStatus, runMigrations } from "../server/migrate";
+import { seedDatabase } from "../server/seed";
+
+async function main() {
+  const command = process.argv[2] || "status";
+
+  switch (command) {
+    case "status": {
+      const migrations = await getMigrationStatus();
+      migrations.forEach(m => {
+        console.log(`${m.applied ? "✅ applied" : "⏳ pending"}  ${m.tag}  (${m.createdAt.toISOString()})`);
+      });
+      const pending = migrations.filter(m => !m.applied).length;
+      console.log(`\n${migrations.length - pending} applied, ${pending} pending`);
+      break;
+    }
+    case "up":
+      await runMigrations();
+      break;
+    case "seed":
+      await seedDatabase();
+      break;
+    default:
+      console.error(`Unknown command "${command}". Use: status | up | seed`);
+      process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((err) => {
+    console.error("❌ Migration command failed:", err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,92 @@
+import { startOfWeek } from "date-fns";
+import { storage } from "./storage";
+import { sendExpirationAlert } from "./email";
+import {
+  NotificationKind,
+  type ExpiringDocument,
+  type InsertNotificationLogEntry,
+  type NotificationLogEntry,
+} from "@shared/schema";
+
+// Weekly digests go out on the first check of each Monday.
+const DIGEST_WEEKDAY = 1;
+
+const thresholdKey = (documentId: string | null, threshold: number | null, recipient: string) =>
+  `${documentId}:${threshold}:${recipient}`;
+
+const logEntry = (doc: ExpiringDocument, recipient: string, kind: string): InsertNotificationLogEntry => ({
+  kind,
+  documentId: doc.id,
+  threshold: doc.threshold,
+  recipient,
+  busNumber: doc.busNumber,
+  docLabel: doc.label,
+  daysLeft: doc.daysLeft,
+});
+
+/**
+ * Emails each active recipient the documents that reached an alert offset
+ * they were not yet notified about, plus the weekly digest for subscribers.
+ * Only successful sends are logged, so a failed run is retried next time
+ * while repeated runs and restarts never send the same alert twice.
+ */
+export async function checkExpiringDocuments(now = new Date()): Promise<void> {
+  const expiring = await storage.getExpiringDocuments();
+  if (expiring.length === 0) {
+    console.log("✅ No hay documentos por vencer.");
+    return;
+  }
+  console.log(`\n🔔 ${expiring.length} documento(s) por vencer o vencidos`);
+
+  const recipients = (await storage.getEmailRecipients())
+    .filter(r => r.active === "true" && (r.documentAlerts === "true" || r.weeklyDigest === "true"));
+  if (recipients.length === 0) {
+    console.log("⚠️ No hay destinatarios activos para alertas de vencimiento.");
+    return;
+  }
+
+  const sent = await storage.getThresholdNotifications(expiring.map(d => d.id));
+  const sentKeys = new Set(sent.map(e => thresholdKey(e.documentId, e.threshold, e.recipient)));
+  const weekStart = startOfWeek(now, { weekStartsOn: 1 });
+
+  for (const { email, documentAlerts, weeklyDigest } of recipients) {
+    const pending = documentAlerts === "true"
+      ? expiring.filter(d => !sentKeys.has(thresholdKey(d.id, d.threshold, email)))
+      : [];
+    if (pending.length > 0 && await sendExpirationAlert(pending, [email])) {
+      await storage.recordNotifications(pending.map(d => logEntry(d, email, NotificationKind.THRESHOLD)));
+    }
+
+    if (weeklyDigest !== "true" || now.getDay() !== DIGEST_WEEKDAY) continue;
+    const lastDigest = await storage.getLastDigestSentAt(email);
+    if (lastDigest && lastDigest >= weekStart) continue;
+    if (await sendExpirationAlert(expiring, [email], true)) {
+      await storage.recordNotifications([{ kind: NotificationKind.DIGEST, recipient: email }]);
+    }
+  }
+}
+
+export type ResendResult = "sent" | "not_expiring" | "failed";
+
+/**
+ * Sends a logged notification again to the same recipient with current data:
+ * the document alone for alerts, the full expiring list for digests.
+ */
+export async function resendNotification(entry: NotificationLogEntry): Promise<ResendResult> {
+  const expiring = await storage.getExpiringDocuments();
+
+  if (!entry.documentId) {
+    if (expiring.length === 0) return "not_expiring";
+    const sent = await sendExpirationAlert(expiring, [entry.recipient], true);
+    if (!sent) return "failed";
+    await storage.recordNotifications([{ kind: NotificationKind.MANUAL, recipient: entry.recipient }]);
+    return "sent";
+  }
+
+  const doc = expiring.find(d => d.id === entry.documentId);
+  if (!doc) return "not_expiring";
+  const sent = await sendExpirationAlert([doc], [entry.recipient]);
+  if (!sent) return "failed";
+  await storage.recordNotifications([logEntry(doc, entry.recipient, NotificationKind.MANUAL)]);
+  return "sent";
+}
@@ -0,0 +1,115 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { EvidenceMimeTypes } from "@shared/schema";
+
+export const ATTACHMENTS_DIR = path.join(process.cwd(), "uploads", "incident-attachments");
+
+const THUMBNAIL_SIZE = 320;
+
+// ffmpeg is an optional dependency, only used for video thumbnails. Install
+// it on the server or point FFMPEG_PATH at the binary; without it videos are
+// still stored, just with no thumbnail.
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+let ffmpegMissing = false;
+
+// Evidence is limited to photos and short clips
+export const MAX_ATTACHMENT_BYTES = 50 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_UPLOAD = 10;
+
+export const isEvidenceMimeType = (mimeType: string) =>
+  (EvidenceMimeTypes as readonly string[]).includes(mimeType);
+
+// Leading bytes of each evidence format. MP4 and QuickTime share the ISO
+// box layout and are told apart by the "ftyp" brand.
+function sniffEvidenceMimeType(head: Buffer): string | null {
+  const ascii = (start: number, end: number) => head.toString("latin1", start, end);
+  if (head[0] === 0xff && head[1] === 0xd8 && head[2] === 0xff) return "image/jpeg";
+  if (head.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) return "image/png";
+  if (ascii(0, 6) === "GIF87a" || ascii(0, 6) === "GIF89a") return "image/gif";
+  if (ascii(0, 4) === "RIFF" && ascii(8, 12) === "WEBP") return "image/webp";
+  if (head.subarray(0, 4).equals(Buffer.from([0x1a, 0x45, 0xdf, 0xa3]))) return "video/webm";
+  if (ascii(4, 8) === "ftyp") return ascii(8, 12) === "qt  " ? "video/quicktime" : "video/mp4";
+  if (["moov", "mdat", "wide", "free"].includes(ascii(4, 8))) return "video/quicktime";
+  return null;
+}
+
+/**
+ * The type an uploaded file really has, from its first bytes, or null when
+ * it is not an accepted evidence format. The type sent with the upload is
+ * only the client's claim.
+ */
+export async function detectEvidenceMimeType(filePath: string): Promise<string | null> {
+  const file = await fs.promises.open(filePath, "r");
+  try {
+    const head = Buffer.alloc(16);
+    const { bytesRead } = await file.read(head, 0, head.length, 0);
+    return sniffEvidenceMimeType(head.subarray(0, bytesRead));
+  } finally {
+    await file.close();
+  }
+}
+
+// Originals and thumbnails, skipping names that are null or already gone
+export function removeAttachmentFiles(...fileNames: Array<string | null>) {
+  fileNames.forEach(fileName => {
+    if (!fileName) return;
+    const filePath = path.join(ATTACHMENTS_DIR, fileName);
+    try {
+      if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
+    } catch (error) {
+      console.error(`❌ Error al eliminar archivo ${fileName}:`, error);
+    }
+  });
+}
+
+// Single frame of a clip as PNG, read from ffmpeg's stdout
+function extractVideoFrame(filePath: string, seconds: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const ffmpeg = spawn(FFMPEG_PATH, [
+      "-ss", String(seconds), "-i", filePath,
+      "-frames:v", "1", "-f", "image2pipe", "-vcodec", "png", "-",
+    ]);
+    const chunks: Buffer[] = [];
+    ffmpeg.stdout.on("data", (chunk: Buffer) => chunks.push(chunk));
+    ffmpeg.on("error", reject);
+    ffmpeg.on("close", (code) => {
+      if (code === 0 && chunks.length > 0) resolve(Buffer.concat(chunks));
+      else reject(new Error(`ffmpeg terminó con código ${code}`));
+    });
+  });
+}
+
+/**
+ * Writes a WebP thumbnail next to an uploaded file and returns its file
+ * name, or null when the file cannot be decoded. Photos are rotated per
+ * their EXIF orientation; videos use a frame one second in (or the first
+ * frame of shorter clips) and get no thumbnail when ffmpeg is missing.
+ */
+export async function createThumbnail(dir: string, fileName: string, mimeType: string): Promise<string | null> {
+  const isVideo = mimeType.startsWith("video/");
+  if (isVideo && ffmpegMissing) return null;
+
+  const source = path.join(dir, fileName);
+  const thumbnailName = `${path.parse(fileName).name}.thumb.webp`;
+  try {
+    const input = isVideo
+      ? await extractVideoFrame(source, 1).catch(() => extractVideoFrame(source, 0))
+      : source;
+    await sharp(input)
+      .rotate()
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: "inside", withoutEnlargement: true })
+      .webp({ quality: 70 })
+      .toFile(path.join(dir, thumbnailName));
+    return thumbnailName;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT" && isVideo) {
+      ffmpegMissing = true;
+      console.warn(`⚠️ ffmpeg no encontrado (${FFMPEG_PATH}). Los videos se guardarán sin miniatura.`);
+      return null;
+    }
+    console.error("❌ Error al generar miniatura:", error);
+    return null;
+  }
+}
@@ -31,7 +31,7 @@ async function diagnose() {
 
         if (!galaxiasUser) {
             console.log("❌ Galaxias user NOT found!");
-            console.log("This means the initialization in storage.ts did not run or failed.\n");
+            console.log("This means the seed step in seed.ts did not run or failed.\n");
         } else {
             console.log("✅ Galaxias user found!");
             console.log(`  ID: ${galaxiasUser.id}`);
@@ -1,25 +1,58 @@
 import nodemailer from "nodemailer";
 import { format } from "date-fns";
 import { es } from "date-fns/locale";
+import {
+  EquipmentTypeLabels,
+  IncidentTypeLabels,
+  CameraChannelLabels,
+  IncidentPriorityLabels,
+  type ExpiringDocument,
+} from "@shared/schema";
+import type { ReportSummary } from "./report-pdf";
 
-interface ExpiringDoc {
+interface LowStockPart {
+  name: string;
+  unit: string;
+  stock: number;
+  minStock: number;
+}
+
+interface StaleIncident {
   busNumber: string;
-  docType: string;
-  fileName: string;
-  expiresAt: Date;
-  daysLeft: number;
-  driverName?: string;
+  equipmentType: string;
+  incidentType: string;
+  cameraChannel: string | null;
+  status: string;
+  reportedAt: Date | null;
+  lastActivityAt: Date;
 }
 
-const DOC_TYPE_LABELS: Record<string, string> = {
-  permiso_circulacion: "Permiso de Circulación",
-  revision_tecnica: "Revisión Técnica",
-  chasis: "Información de Chasis",
-  licencia_conducir: "Licencia de Conducir",
-  cedula_conductor: "Cédula del Conductor",
-};
+interface OverdueIncident {
+  busNumber: string;
+  equipmentType: string;
+  incidentType: string;
+  cameraChannel: string | null;
+  priority: string;
+  dueAt: Date | null;
+  assigneeName: string | null;
+}
 
-export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: string[]): Promise<boolean> {
+function createTransporter(host: string, port: number, user: string, pass: string) {
+  return nodemailer.createTransport({
+    host,
+    port,
+    secure: false, // STARTTLS, not direct SSL
+    requireTLS: true,
+    auth: { user, pass },
+    tls: {
+      minVersion: "TLSv1.2",
+      ciphers: "HIGH",
+    },
+  });
+}
+
+// `digest` sends the weekly summary of everything inside an alert window.
+export async function sendExpirationAlert(docs: ExpiringDocument[], recipients: string[], digest = false): Promise<boolean> {
   const host = process.env.SMTP_HOST;
   const port = parseInt(process.env.SMTP_PORT || "587");
   const user = process.env.SMTP_USER;
@@ -28,9 +61,8 @@ export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: strin
   if (!host || !user || !pass) {
     console.log("⚠️ SMTP no configurado. Documentos por vencer:");
     docs.forEach(d => {
-      const label = DOC_TYPE_LABELS[d.docType] || d.docType;
       const status = d.daysLeft <= 0 ? "⛔ VENCIDO" : `⚠️ ${d.daysLeft} días restantes`;
-      console.log(`   Bus ${d.busNumber} — ${label}: ${d.fileName} — ${status}`);
+      console.log(`   Bus ${d.busNumber} — ${d.label}: ${d.fileName} — ${status}`);
     });
     return false;
   }
@@ -40,17 +72,7 @@ export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: strin
     return false;
   }
 
-  const transporter = nodemailer.createTransport({
-    host,
-    port,
-    secure: false, // STARTTLS, not direct SSL
-    requireTLS: true,
-    auth: { user, pass },
-    tls: {
-      minVersion: "TLSv1.2",
-      ciphers: "HIGH",
-    },
-  });
+  const transporter = createTransporter(host, port, user, pass);
 
   const expired = docs.filter(d => d.daysLeft <= 0);
   const expiring = docs.filter(d => d.daysLeft > 0);
@@ -61,7 +83,7 @@ export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: strin
   let html = `
     <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:700px;margin:0 auto;">
       <div style="background:linear-gradient(135deg,#d32f2f,#ff5722);color:white;padding:20px 24px;border-radius:8px 8px 0 0;">
-        <h2 style="margin:0;">🚨 Alerta de Documentos por Vencer</h2>
+        <h2 style="margin:0;">${digest ? "📋 Resumen Semanal de Documentos" : "🚨 Alerta de Documentos por Vencer"}</h2>
         <p style="margin:4px 0 0;opacity:0.9;font-size:14px;">
           ${format(new Date(), "EEEE dd 'de' MMMM yyyy", { locale: es })} — ${docs.length} documento(s) requieren atención
         </p>
@@ -80,11 +102,10 @@ export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: strin
             <th style="${thStyle}">Estado</th>
           </tr>`;
     expired.forEach(d => {
-      const label = DOC_TYPE_LABELS[d.docType] || d.docType;
       const dateStr = format(new Date(d.expiresAt), "dd/MM/yyyy");
       html += `<tr>
               <td style="${tdStyle}font-weight:600;">Bus ${d.busNumber}</td>
-              <td style="${tdStyle}">${label}</td>
+              <td style="${tdStyle}">${d.label}</td>
               <td style="${tdStyle}">${d.driverName || "—"}</td>
               <td style="${tdStyle}">${dateStr}</td>
               <td style="${tdStyle}color:#d32f2f;font-weight:600;">Vencido hace ${Math.abs(d.daysLeft)} días</td>
@@ -104,12 +125,11 @@ export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: strin
             <th style="${thStyle}">Días Restantes</th>
           </tr>`;
     expiring.forEach(d => {
-      const label = DOC_TYPE_LABELS[d.docType] || d.docType;
       const dateStr = format(new Date(d.expiresAt), "dd/MM/yyyy");
       const urgColor = d.daysLeft <= 5 ? "#d32f2f" : "#ff9800";
       html += `<tr>
               <td style="${tdStyle}font-weight:600;">Bus ${d.busNumber}</td>
-              <td style="${tdStyle}">${label}</td>
+              <td style="${tdStyle}">${d.label}</td>
               <td style="${tdStyle}">${d.driverName || "—"}</td>
               <td style="${tdStyle}">${dateStr}</td>
               <td style="${tdStyle}color:${urgColor};font-weight:600;">${d.daysLeft} días</td>
@@ -129,7 +149,9 @@ export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: strin
     await transporter.sendMail({
       from: `"Alertas Bus Manager" <${user}>`,
       to: recipients.join(", "),
-      subject: `🚨 ${docs.length} documento(s) por vencer o vencidos — Ruta Las Galaxias`,
+      subject: digest
+        ? `📋 Resumen semanal: ${docs.length} documento(s) por vencer o vencidos — Ruta Las Galaxias`
+        : `🚨 ${docs.length} documento(s) por vencer o vencidos — Ruta Las Galaxias`,
       html,
     });
     console.log(`✅ Email de alerta enviado a ${recipients.join(", ")}`);
@@ -139,3 +161,331 @@ export async function sendExpirationAlert(docs: ExpiringDoc[], recipients: strin
     return false;
   }
 }
+
+export async function sendLowStockAlert(parts: LowStockPart[], recipients: string[]): Promise<boolean> {
+  const host = process.env.SMTP_HOST;
+  const port = parseInt(process.env.SMTP_PORT || "587");
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS;
+
+  if (!host || !user || !pass) {
+    console.log("⚠️ SMTP no configurado. Repuestos con stock bajo:");
+    parts.forEach(p => {
+      console.log(`   ${p.name}: ${p.stock} ${p.unit} (mínimo ${p.minStock})`);
+    });
+    return false;
+  }
+
+  if (recipients.length === 0) {
+    console.log("⚠️ No hay destinatarios activos para alertas de stock.");
+    return false;
+  }
+
+  const transporter = createTransporter(host, port, user, pass);
+
+  const thStyle = `border:1px solid #ddd;padding:10px 14px;text-align:left;font-weight:600;`;
+  const tdStyle = `border:1px solid #ddd;padding:8px 14px;`;
+
+  let html = `
+    <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:700px;margin:0 auto;">
+      <div style="background:linear-gradient(135deg,#ef6c00,#ffa726);color:white;padding:20px 24px;border-radius:8px 8px 0 0;">
+        <h2 style="margin:0;">📦 Alerta de Stock Bajo</h2>
+        <p style="margin:4px 0 0;opacity:0.9;font-size:14px;">
+          ${format(new Date(), "EEEE dd 'de' MMMM yyyy", { locale: es })} — ${parts.length} repuesto(s) bajo el mínimo
+        </p>
+      </div>
+      <div style="background:#fff;padding:20px 24px;border:1px solid #e0e0e0;border-top:none;border-radius:0 0 8px 8px;">
+        <table style="border-collapse:collapse;width:100%;margin-bottom:20px;">
+          <tr style="background:#fff3e0;">
+            <th style="${thStyle}">Repuesto</th>
+            <th style="${thStyle}">Stock Actual</th>
+            <th style="${thStyle}">Stock Mínimo</th>
+          </tr>`;
+  parts.forEach(p => {
+    const stockColor = p.stock === 0 ? "#d32f2f" : "#ff9800";
+    html += `<tr>
+              <td style="${tdStyle}font-weight:600;">${p.name}</td>
+              <td style="${tdStyle}color:${stockColor};font-weight:600;">${p.stock} ${p.unit}</td>
+              <td style="${tdStyle}">${p.minStock} ${p.unit}</td>
+            </tr>`;
+  });
+  html += `</table>
+        <p style="color:#888;font-size:12px;border-top:1px solid #eee;padding-top:12px;margin-bottom:0;">
+          — Sistema de Gestión de Monitoreo, Ruta Las Galaxias S.A.
+        </p>
+      </div>
+    </div>`;
+
+  try {
+    await transporter.sendMail({
+      from: `"Alertas Bus Manager" <${user}>`,
+      to: recipients.join(", "),
+      subject: `📦 ${parts.length} repuesto(s) con stock bajo — Ruta Las Galaxias`,
+      html,
+    });
+    console.log(`✅ Email de stock bajo enviado a ${recipients.join(", ")}`);
+    return true;
+  } catch (err) {
+    console.error("❌ Error enviando email:", err);
+    return false;
+  }
+}
+
+export async function sendReportEmail(summary: ReportSummary, pdf: Buffer, recipients: string[]): Promise<boolean> {
+  const host = process.env.SMTP_HOST;
+  const port = parseInt(process.env.SMTP_PORT || "587");
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS;
+
+  if (!host || !user || !pass) {
+    console.log(`⚠️ SMTP no configurado. ${summary.title} (${summary.period}): ${summary.totalIncidents} incidencia(s), ${summary.resolvedIncidents} resuelta(s)`);
+    return false;
+  }
+
+  if (recipients.length === 0) {
+    console.log(`⚠️ No hay destinatarios suscritos al ${summary.title.toLowerCase()}.`);
+    return false;
+  }
+
+  const transporter = createTransporter(host, port, user, pass);
+
+  const thStyle = `border:1px solid #ddd;padding:10px 14px;text-align:left;font-weight:600;`;
+  const tdStyle = `border:1px solid #ddd;padding:8px 14px;`;
+
+  const breakdown = (title: string, rows: Array<{ label: string; count: number }>) => {
+    if (rows.length === 0) return "";
+    return `<h3 style="margin-top:0;">${title}</h3>
+        <table style="border-collapse:collapse;width:100%;margin-bottom:20px;">
+          ${rows.map(r => `<tr>
+              <td style="${tdStyle}">${r.label}</td>
+              <td style="${tdStyle}font-weight:600;width:80px;">${r.count}</td>
+            </tr>`).join("")}
+        </table>`;
+  };
+
+  let html = `
+    <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:700px;margin:0 auto;">
+      <div style="background:linear-gradient(135deg,#1565c0,#42a5f5);color:white;padding:20px 24px;border-radius:8px 8px 0 0;">
+        <h2 style="margin:0;">📊 ${summary.title}</h2>
+        <p style="margin:4px 0 0;opacity:0.9;font-size:14px;">${summary.period}</p>
+      </div>
+      <div style="background:#fff;padding:20px 24px;border:1px solid #e0e0e0;border-top:none;border-radius:0 0 8px 8px;">
+        <p style="font-size:15px;">
+          <strong>${summary.totalIncidents}</strong> incidencia(s) reportada(s),
+          <strong>${summary.resolvedIncidents}</strong> resuelta(s)${summary.firstTimeFixRate !== null
+            ? `, <strong>${summary.firstTimeFixRate}%</strong> reparada(s) al primer intento`
+            : ""}.
+          El reporte completo con gráficos va adjunto en PDF.
+        </p>`;
+  html += breakdown("Por tipo de incidencia", summary.incidentsByType);
+  html += breakdown("Por equipo", summary.incidentsByEquipment);
+
+  if (summary.mostAffectedBuses.length > 0) {
+    html += `<h3 style="margin-top:0;">Buses más afectados</h3>
+        <table style="border-collapse:collapse;width:100%;margin-bottom:20px;">
+          <tr style="background:#e3f2fd;">
+            <th style="${thStyle}">N° Bus</th>
+            <th style="${thStyle}">Incidencias</th>
+          </tr>`;
+    summary.mostAffectedBuses.forEach(b => {
+      html += `<tr>
+              <td style="${tdStyle}font-weight:600;">Bus ${b.busNumber}</td>
+              <td style="${tdStyle}">${b.count}</td>
+            </tr>`;
+    });
+    html += `</table>`;
+  }
+
+  if (summary.recurringFailures && summary.recurringFailures.length > 0) {
+    html += `<h3 style="margin-top:0;">🔁 Fallas recurrentes</h3>
+        <p style="font-size:13px;color:#555;">Equipos que conviene revisar a fondo en lugar de volver a reparar.</p>
+        <table style="border-collapse:collapse;width:100%;margin-bottom:20px;">
+          <tr style="background:#fff3e0;">
+            <th style="${thStyle}">N° Bus</th>
+            <th style="${thStyle}">Equipo</th>
+            <th style="${thStyle}">Detalle</th>
+          </tr>`;
+    summary.recurringFailures.forEach(f => {
+      html += `<tr>
+              <td style="${tdStyle}font-weight:600;">Bus ${f.busNumber}</td>
+              <td style="${tdStyle}">${f.equipment}</td>
+              <td style="${tdStyle}">${f.detail}</td>
+            </tr>`;
+    });
+    html += `</table>`;
+  }
+
+  html += `
+        <p style="color:#888;font-size:12px;border-top:1px solid #eee;padding-top:12px;margin-bottom:0;">
+          — Sistema de Gestión de Monitoreo, Ruta Las Galaxias S.A.
+        </p>
+      </div>
+    </div>`;
+
+  try {
+    await transporter.sendMail({
+      from: `"Alertas Bus Manager" <${user}>`,
+      to: recipients.join(", "),
+      subject: `📊 ${summary.title} — ${summary.period} — Ruta Las Galaxias`,
+      html,
+      attachments: [{ filename: `${summary.baseFileName}.pdf`, content: pdf, contentType: "application/pdf" }],
+    });
+    console.log(`✅ ${summary.title} enviado a ${recipients.join(", ")}`);
+    return true;
+  } catch (err) {
+    console.error("❌ Error enviando email:", err);
+    return false;
+  }
+}
+
+export async function sendStaleIncidentsAlert(incidents: StaleIncident[], recipients: string[]): Promise<boolean> {
+  const host = process.env.SMTP_HOST;
+  const port = parseInt(process.env.SMTP_PORT || "587");
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS;
+
+  if (!host || !user || !pass) {
+    console.log("⚠️ SMTP no configurado. Incidencias sin movimiento:");
+    incidents.forEach(i => {
+      console.log(`   Bus ${i.busNumber} — ${EquipmentTypeLabels[i.equipmentType] || i.equipmentType}: sin cambios desde ${format(i.lastActivityAt, "dd/MM/yyyy")}`);
+    });
+    return false;
+  }
+
+  if (recipients.length === 0) {
+    console.log("⚠️ No hay destinatarios activos para incidencias sin movimiento.");
+    return false;
+  }
+
+  const transporter = createTransporter(host, port, user, pass);
+
+  const thStyle = `border:1px solid #ddd;padding:10px 14px;text-align:left;font-weight:600;`;
+  const tdStyle = `border:1px solid #ddd;padding:8px 14px;`;
+
+  let html = `
+    <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:700px;margin:0 auto;">
+      <div style="background:linear-gradient(135deg,#6a1b9a,#ab47bc);color:white;padding:20px 24px;border-radius:8px 8px 0 0;">
+        <h2 style="margin:0;">⏳ Incidencias sin Movimiento</h2>
+        <p style="margin:4px 0 0;opacity:0.9;font-size:14px;">
+          ${format(new Date(), "EEEE dd 'de' MMMM yyyy", { locale: es })} — ${incidents.length} incidencia(s) abiertas sin cambios recientes
+        </p>
+      </div>
+      <div style="background:#fff;padding:20px 24px;border:1px solid #e0e0e0;border-top:none;border-radius:0 0 8px 8px;">
+        <table style="border-collapse:collapse;width:100%;margin-bottom:20px;">
+          <tr style="background:#f3e5f5;">
+            <th style="${thStyle}">N° Bus</th>
+            <th style="${thStyle}">Equipo</th>
+            <th style="${thStyle}">Incidencia</th>
+            <th style="${thStyle}">Reportada</th>
+            <th style="${thStyle}">Último Cambio</th>
+          </tr>`;
+  incidents.forEach(i => {
+    const equipment = i.cameraChannel
+      ? `${EquipmentTypeLabels[i.equipmentType] || i.equipmentType} ${CameraChannelLabels[i.cameraChannel] || i.cameraChannel}`
+      : EquipmentTypeLabels[i.equipmentType] || i.equipmentType;
+    html += `<tr>
+              <td style="${tdStyle}font-weight:600;">Bus ${i.busNumber}</td>
+              <td style="${tdStyle}">${equipment}</td>
+              <td style="${tdStyle}">${IncidentTypeLabels[i.incidentType] || i.incidentType}</td>
+              <td style="${tdStyle}">${i.reportedAt ? format(i.reportedAt, "dd/MM/yyyy") : "—"}</td>
+              <td style="${tdStyle}color:#6a1b9a;font-weight:600;">${format(i.lastActivityAt, "dd/MM/yyyy")}</td>
+            </tr>`;
+  });
+  html += `</table>
+        <p style="color:#888;font-size:12px;border-top:1px solid #eee;padding-top:12px;margin-bottom:0;">
+          — Sistema de Gestión de Monitoreo, Ruta Las Galaxias S.A.
+        </p>
+      </div>
+    </div>`;
+
+  try {
+    await transporter.sendMail({
+      from: `"Alertas Bus Manager" <${user}>`,
+      to: recipients.join(", "),
+      subject: `⏳ ${incidents.length} incidencia(s) sin movimiento — Ruta Las Galaxias`,
+      html,
+    });
+    console.log(`✅ Alerta de incidencias sin movimiento enviada a ${recipients.join(", ")}`);
+    return true;
+  } catch (err) {
+    console.error("❌ Error enviando email:", err);
+    return false;
+  }
+}
+
+export async function sendOverdueEscalation(incidents: OverdueIncident[], recipients: string[]): Promise<boolean> {
+  const host = process.env.SMTP_HOST;
+  const port = parseInt(process.env.SMTP_PORT || "587");
+  const user = process.env.SMTP_USER;
+  const pass = process.env.SMTP_PASS;
+
+  if (!host || !user || !pass) {
+    console.log("⚠️ SMTP no configurado. Incidencias vencidas:");
+    incidents.forEach(i => {
+      console.log(`   Bus ${i.busNumber} — ${EquipmentTypeLabels[i.equipmentType] || i.equipmentType} (${IncidentPriorityLabels[i.priority] || i.priority}): vencida desde ${i.dueAt ? format(i.dueAt, "dd/MM/yyyy HH:mm") : "—"}`);
+    });
+    return false;
+  }
+
+  if (recipients.length === 0) {
+    console.log("⚠️ No hay destinatarios activos para escalamiento de incidencias vencidas.");
+    return false;
+  }
+
+  const transporter = createTransporter(host, port, user, pass);
+
+  const thStyle = `border:1px solid #ddd;padding:10px 14px;text-align:left;font-weight:600;`;
+  const tdStyle = `border:1px solid #ddd;padding:8px 14px;`;
+
+  let html = `
+    <div style="font-family:'Segoe UI',Arial,sans-serif;max-width:700px;margin:0 auto;">
+      <div style="background:linear-gradient(135deg,#b71c1c,#e53935);color:white;padding:20px 24px;border-radius:8px 8px 0 0;">
+        <h2 style="margin:0;">🚩 Incidencias Vencidas</h2>
+        <p style="margin:4px 0 0;opacity:0.9;font-size:14px;">
+          ${format(new Date(), "EEEE dd 'de' MMMM yyyy HH:mm", { locale: es })} — ${incidents.length} incidencia(s) superaron su plazo de resolución
+        </p>
+      </div>
+      <div style="background:#fff;padding:20px 24px;border:1px solid #e0e0e0;border-top:none;border-radius:0 0 8px 8px;">
+        <table style="border-collapse:collapse;width:100%;margin-bottom:20px;">
+          <tr style="background:#ffebee;">
+            <th style="${thStyle}">N° Bus</th>
+            <th style="${thStyle}">Equipo</th>
+            <th style="${thStyle}">Incidencia</th>
+            <th style="${thStyle}">Prioridad</th>
+            <th style="${thStyle}">Vencía</th>
+            <th style="${thStyle}">Asignada a</th>
+          </tr>`;
+  incidents.forEach(i => {
+    const equipment = i.cameraChannel
+      ? `${EquipmentTypeLabels[i.equipmentType] || i.equipmentType} ${CameraChannelLabels[i.cameraChannel] || i.cameraChannel}`
+      : EquipmentTypeLabels[i.equipmentType] || i.equipmentType;
+    html += `<tr>
+              <td style="${tdStyle}font-weight:600;">Bus ${i.busNumber}</td>
+              <td style="${tdStyle}">${equipment}</td>
+              <td style="${tdStyle}">${IncidentTypeLabels[i.incidentType] || i.incidentType}</td>
+              <td style="${tdStyle}font-weight:600;">${IncidentPriorityLabels[i.priority] || i.priority}</td>
+              <td style="${tdStyle}color:#b71c1c;font-weight:600;">${i.dueAt ? format(i.dueAt, "dd/MM/yyyy HH:mm") : "—"}</td>
+              <td style="${tdStyle}">${i.assigneeName || "Sin asignar"}</td>
+            </tr>`;
+  });
+  html += `</table>
+        <p style="color:#888;font-size:12px;border-top:1px solid #eee;padding-top:12px;margin-bottom:0;">
+          — Sistema de Gestión de Monitoreo, Ruta Las Galaxias S.A.
+        </p>
+      </div>
+    </div>`;
+
+  try {
+    await transporter.sendMail({
+      from: `"Alertas Bus Manager" <${user}>`,
+      to: recipients.join(", "),
+      subject: `🚩 ${incidents.length} incidencia(s) vencida(s) — Ruta Las Galaxias`,
+      html,
+    });
+    console.log(`✅ Escalamiento de incidencias vencidas enviado a ${recipients.join(", ")}`);
+    return true;
+  } catch (err) {
+    console.error("❌ Error enviando email:", err);
+    return false;
+  }
+}
@@ -0,0 +1,97 @@
+import type { Request, Response } from "express";
+import type { PoolClient } from "pg";
+import { pool } from "./db";
+import type { ChangeEvent } from "@shared/schema";
+
+// Changes go through Postgres NOTIFY so every instance hears them, whichever
+// one handled the request; each instance fans them out to its own streams.
+const CHANNEL = "app_events";
+const HEARTBEAT_MS = 25 * 1000;
+const LISTEN_RETRY_MS = 5 * 1000;
+
+const streams = new Set<Response>();
+let listener: PoolClient | null = null;
+
+function send(res: Response, event: ChangeEvent) {
+  res.write(`event: change\ndata: ${JSON.stringify(event)}\n\n`);
+}
+
+/**
+ * Keeps the response open as an SSE stream until the client disconnects or,
+ * checked on every heartbeat, isAuthorized() turns false: after a logout, a
+ * revoked session or a deactivated user the stream is closed.
+ */
+export function subscribe(req: Request, res: Response, isAuthorized: () => Promise<boolean>) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    // Stop reverse proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.write(`retry: ${LISTEN_RETRY_MS}\n\n`);
+  streams.add(res);
+
+  const close = () => {
+    clearInterval(heartbeat);
+    streams.delete(res);
+  };
+
+  // Comment lines keep idle connections from being closed by proxies
+  const heartbeat = setInterval(async () => {
+    try {
+      if (!(await isAuthorized())) {
+        close();
+        res.end();
+        return;
+      }
+    } catch (error) {
+      console.error("❌ Error al verificar la sesión del stream de eventos:", error);
+    }
+    if (streams.has(res)) res.write(": ping\n\n");
+  }, HEARTBEAT_MS);
+  req.on("close", close);
+}
+
+/** Notifies every connected client; failures are logged, never thrown. */
+export async function publishChange(event: ChangeEvent): Promise<void> {
+  try {
+    await pool.query("SELECT pg_notify($1, $2)", [CHANNEL, JSON.stringify(event)]);
+  } catch (error) {
+    console.error("❌ Error al publicar evento:", error);
+  }
+}
+
+/** Listens for changes published by any instance, reconnecting if the connection drops. */
+export async function startEventListener(): Promise<void> {
+  let client: PoolClient | null = null;
+  try {
+    client = await pool.connect();
+    await client.query(`LISTEN ${CHANNEL}`);
+  } catch (err) {
+    client?.release(true);
+    console.error("❌ Error al escuchar eventos:", err);
+    setTimeout(startEventListener, LISTEN_RETRY_MS);
+    return;
+  }
+
+  client.on("notification", (msg) => {
+    if (msg.channel !== CHANNEL || !msg.payload) return;
+    let event: ChangeEvent;
+    try {
+      event = JSON.parse(msg.payload) as ChangeEvent;
+    } catch (error) {
+      console.error("❌ Evento con contenido no válido:", msg.payload, error);
+      return;
+    }
+    streams.forEach(res => send(res, event));
+  });
+  client.on("error", (err) => {
+    if (listener !== client) return;
+    console.error("❌ Conexión de eventos perdida:", err);
+    listener.release(true);
+    listener = null;
+    setTimeout(startEventListener, LISTEN_RETRY_MS);
+  });
+  listener = client;
+}
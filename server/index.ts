@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
-import MemoryStore from "memorystore";
+import connectPgSimple from "connect-pg-simple";
+import { pool } from "./db";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
@@ -14,7 +15,23 @@ declare module "http" {
   }
 }
 
-const MemoryStoreSession = MemoryStore(session);
+// Behind a reverse proxy req.ip (used for login throttling) must come from X-Forwarded-For
+if (process.env.TRUST_PROXY) {
+  const hops = Number(process.env.TRUST_PROXY);
+  app.set("trust proxy", Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
+const PgSessionStore = connectPgSimple(session);
+
+const sessionSecret = process.env.SESSION_SECRET;
+if (!sessionSecret && process.env.NODE_ENV === "production") {
+  throw new Error("SESSION_SECRET must be set in production.");
+}
+if (!sessionSecret) {
+  console.warn("⚠️ SESSION_SECRET not set. Using an insecure development secret.");
+}
+
+const sessionMaxAgeHours = parseInt(process.env.SESSION_MAX_AGE_HOURS || "24", 10);
 
 const cookieSecure = (process.env.SESSION_COOKIE_SECURE || "")
   .trim()
@@ -24,21 +41,26 @@ console.log("ENV CHECK:", {
   NODE_ENV: process.env.NODE_ENV,
   SESSION_COOKIE_SECURE: process.env.SESSION_COOKIE_SECURE,
   cookieSecure,
+  sessionMaxAgeHours,
 });
 
 app.use(
   session({
-    secret: process.env.SESSION_SECRET || "flota-control-secret-key",
+    secret: sessionSecret || "flota-control-dev-secret",
     resave: false,
     saveUninitialized: false,
     cookie: {
       secure: cookieSecure,
       httpOnly: true,
-      maxAge: 24 * 60 * 60 * 1000,
+      maxAge: sessionMaxAgeHours * 60 * 60 * 1000,
       sameSite: cookieSecure ? "none" : "lax",
     },
-    store: new MemoryStoreSession({
-      checkPeriod: 86400000,
+    // Table is created by migrations, not by the store
+    store: new PgSessionStore({
+      pool,
+      tableName: "session",
+      createTableIfMissing: false,
+      pruneSessionInterval: 15 * 60,
     }),
   })
 );
@@ -64,6 +86,12 @@ export function log(message: string, source = "express") {
   console.log(`${formattedTime} [${source}] ${message}`);
 }
 
+// Response fields never written to the log, e.g. the plain kiosk token that
+// POST /api/kiosk-tokens returns once
+const REDACTED_LOG_FIELDS = new Set(["token"]);
+const redactLogField = (key: string, value: unknown) =>
+  REDACTED_LOG_FIELDS.has(key) ? "[oculto]" : value;
+
 app.use((req, res, next) => {
   const start = Date.now();
   const path = req.path;
@@ -80,7 +108,7 @@ app.use((req, res, next) => {
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
       if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse, redactLogField)}`;
       }
 
       log(logLine);
@@ -91,33 +119,25 @@ app.use((req, res, next) => {
 });
 
 (async () => {
-  // Initialize storage before registering routes
+  // Apply pending migrations, then initialize storage before registering routes
+  const { runMigrations } = await import("./migrate");
+  await runMigrations();
+
   const { storage } = await import("./storage");
   await storage.initialize();
   console.log("✅ Storage initialized successfully");
 
-  // Check for expiring documents on startup and every 24h
-  const { sendExpirationAlert } = await import("./email");
-  const checkExpiring = async () => {
-    try {
-      const expiring = await storage.getExpiringDocuments();
-      if (expiring.length > 0) {
-        console.log(`\n🔔 ${expiring.length} documento(s) por vencer o vencidos:`);
-        const recipients = await storage.getEmailRecipients();
-        const activeEmails = recipients.filter(r => r.active === "true").map(r => r.email);
-        await sendExpirationAlert(expiring, activeEmails);
-      } else {
-        console.log("✅ No hay documentos por vencer.");
-      }
-    } catch (err) {
-      console.error("❌ Error verificando documentos por vencer:", err);
-    }
-  };
-  checkExpiring();
-  setInterval(checkExpiring, 24 * 60 * 60 * 1000); // every 24h
-
   await registerRoutes(httpServer, app);
 
+  // Background jobs (expiration alerts, report emails...) run on one instance only
+  const { scheduler } = await import("./scheduler");
+  const { scheduledJobs } = await import("./jobs");
+  await scheduler.start(scheduledJobs);
+
+  // Live updates: relay change events from every instance to this one's clients
+  const { startEventListener } = await import("./events");
+  await startEventListener();
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
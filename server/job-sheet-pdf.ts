@@ -0,0 +1,151 @@
+import PDFDocument from "pdfkit";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import {
+  CameraChannelLabels,
+  EquipmentTypeLabels,
+  IncidentPriorityLabels,
+  IncidentTypeLabels,
+  WorkOrderStatusLabels,
+  workOrderNumber,
+  type WorkOrderDetail,
+} from "@shared/schema";
+import { BORDER, MARGIN, MUTED, PRIMARY, contentWidth, drawTable, ensureSpace, sectionTitle } from "./report-pdf";
+
+type Doc = PDFKit.PDFDocument;
+
+// Blank rows left for the technician to fill in by hand
+const BLANK_PART_ROWS = 4;
+const BLANK_NOTE_LINES = 4;
+
+const dateTime = (date: Date | null) => date ? format(new Date(date), "dd/MM/yyyy HH:mm") : "—";
+
+function drawFields(doc: Doc, fields: Array<{ label: string; value: string }>) {
+  const columnWidth = contentWidth(doc) / 2;
+  for (let i = 0; i < fields.length; i += 2) {
+    const y = doc.y;
+    fields.slice(i, i + 2).forEach((field, column) => {
+      const x = MARGIN + column * columnWidth;
+      doc.font("Helvetica").fontSize(8).fillColor(MUTED).text(field.label.toUpperCase(), x, y, { width: columnWidth - 10 });
+      doc.font("Helvetica-Bold").fontSize(11).fillColor("#000000").text(field.value, x, y + 11, { width: columnWidth - 10 });
+    });
+    doc.y = y + 32;
+  }
+  doc.x = MARGIN;
+}
+
+function drawWritingLines(doc: Doc, count: number) {
+  for (let i = 0; i < count; i++) {
+    ensureSpace(doc, 24);
+    const y = doc.y + 20;
+    doc.moveTo(MARGIN, y).lineTo(MARGIN + contentWidth(doc), y).lineWidth(0.5).stroke(BORDER);
+    doc.y = y + 4;
+  }
+}
+
+function drawSignatures(doc: Doc) {
+  ensureSpace(doc, 80);
+  doc.moveDown(3);
+  const width = (contentWidth(doc) - 40) / 2;
+  const y = doc.y;
+  ["Firma técnico", "Recibido por"].forEach((label, i) => {
+    const x = MARGIN + i * (width + 40);
+    doc.moveTo(x, y).lineTo(x + width, y).lineWidth(0.5).stroke("#000000");
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(label, x, y + 4, { width, align: "center" });
+  });
+  doc.x = MARGIN;
+  doc.y = y + 24;
+}
+
+/**
+ * Printable job sheet for the workshop: the incidents to fix with a
+ * checkbox each, then parts, labour and notes, filled in from the order
+ * once completed or left blank to be written by hand.
+ */
+export function renderJobSheetPdf(order: WorkOrderDetail): Promise<Buffer> {
+  const reference = workOrderNumber(order.number);
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: MARGIN, info: { Title: `Orden de trabajo ${reference}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    doc.rect(0, 0, doc.page.width, 90).fill(PRIMARY);
+    doc.font("Helvetica-Bold").fontSize(20).fillColor("#ffffff").text(`Orden de Trabajo ${reference}`, MARGIN, 28);
+    doc.font("Helvetica").fontSize(11)
+      .text(`Bus ${order.busNumber}${order.plate ? ` · Patente ${order.plate}` : ""}`, MARGIN, 56);
+    doc.y = 115;
+
+    drawFields(doc, [
+      { label: "Estado", value: WorkOrderStatusLabels[order.status] || order.status },
+      { label: "Técnico", value: order.assigneeName || "Sin asignar" },
+      { label: "Programada para", value: dateTime(order.scheduledFor) },
+      { label: "Creada", value: `${dateTime(order.createdAt)}${order.createdByName ? ` por ${order.createdByName}` : ""}` },
+    ]);
+
+    if (order.instructions) {
+      sectionTitle(doc, "Instrucciones");
+      doc.font("Helvetica").fontSize(10).fillColor("#000000").text(order.instructions, MARGIN, doc.y, { width: contentWidth(doc) });
+    }
+
+    drawTable(
+      doc,
+      "Trabajos",
+      [
+        { header: "Hecho", share: 0.1 },
+        { header: "Equipo", share: 0.27 },
+        { header: "Falla", share: 0.18 },
+        { header: "Prioridad", share: 0.13 },
+        { header: "Descripción", share: 0.32 },
+      ],
+      order.incidents.map(i => [
+        i.status === "resolved" ? "[X]" : "[  ]",
+        i.cameraChannel
+          ? `${EquipmentTypeLabels[i.equipmentType] || i.equipmentType} ${i.cameraChannel.toUpperCase()} ${CameraChannelLabels[i.cameraChannel] || ""}`.trim()
+          : EquipmentTypeLabels[i.equipmentType] || i.equipmentType,
+        IncidentTypeLabels[i.incidentType] || i.incidentType,
+        IncidentPriorityLabels[i.priority] || i.priority,
+        i.description || "",
+      ]),
+      "Sin incidencias en la orden",
+    );
+
+    const completed = !!order.completedAt;
+    drawTable(
+      doc,
+      "Repuestos utilizados",
+      [{ header: "Repuesto", share: 0.7 }, { header: "Cantidad", share: 0.3 }],
+      completed
+        ? order.parts.map(p => [p.partName, `${p.quantity} ${p.unit}`])
+        : Array.from({ length: BLANK_PART_ROWS }, () => ["", ""]),
+      "Sin repuestos",
+    );
+
+    sectionTitle(doc, "Mano de obra");
+    doc.font("Helvetica").fontSize(10).fillColor("#000000").text(
+      order.labourMinutes !== null
+        ? `${Math.floor(order.labourMinutes / 60)} h ${order.labourMinutes % 60} min`
+        : "______ h ______ min",
+      MARGIN,
+    );
+
+    sectionTitle(doc, "Observaciones");
+    if (order.resolutionNotes) {
+      doc.font("Helvetica").fontSize(10).fillColor("#000000").text(order.resolutionNotes, MARGIN, doc.y, { width: contentWidth(doc) });
+    } else {
+      drawWritingLines(doc, BLANK_NOTE_LINES);
+    }
+    if (completed) {
+      doc.moveDown(0.5);
+      doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(`Completada el ${dateTime(order.completedAt)}`, MARGIN);
+    }
+
+    drawSignatures(doc);
+
+    doc.moveDown(2);
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED)
+      .text(`Impreso el ${format(new Date(), "dd/MM/yyyy HH:mm", { locale: es })} — Sistema de Gestión de Monitoreo, Ruta Las Galaxias S.A.`, MARGIN);
+    doc.end();
+  });
+}
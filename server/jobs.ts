@@ -0,0 +1,112 @@
+import { startOfMonth, startOfWeek, subDays, subMonths, subWeeks } from "date-fns";
+import { ChangeEventType, UserRole, type EmailRecipient } from "@shared/schema";
+import { storage } from "./storage";
+import { checkExpiringDocuments } from "./alerts";
+import { sendOverdueEscalation, sendReportEmail, sendStaleIncidentsAlert } from "./email";
+import { publishChange } from "./events";
+import { monthlyReportSummary, renderReportPdf, weeklyReportSummary, type ReportSummary } from "./report-pdf";
+import type { ScheduledJob } from "./scheduler";
+
+// Open incidents untouched for this many days are reported by stale-incidents.
+const STALE_INCIDENT_DAYS = parseInt(process.env.STALE_INCIDENT_DAYS || "3");
+
+const activeRecipientEmails = async (subscribed?: (r: EmailRecipient) => boolean) => {
+  const recipients = await storage.getEmailRecipients();
+  return recipients
+    .filter(r => r.active === "true" && (!subscribed || subscribed(r)))
+    .map(r => r.email);
+};
+
+async function emailReport(summary: ReportSummary, subscribed: (r: EmailRecipient) => boolean) {
+  const recipients = await activeRecipientEmails(subscribed);
+  if (recipients.length === 0) return;
+  const pdf = await renderReportPdf(summary);
+  const sent = await sendReportEmail(summary, pdf, recipients);
+  if (!sent) throw new Error(`No se pudo enviar el ${summary.title.toLowerCase()}`);
+}
+
+async function sendLastWeekReport() {
+  const lastWeek = startOfWeek(subWeeks(new Date(), 1), { weekStartsOn: 1 });
+  const report = await storage.getWeeklyReport(lastWeek);
+  await emailReport(weeklyReportSummary(report), r => r.weeklyReport === "true");
+}
+
+async function sendLastMonthReport() {
+  const lastMonth = startOfMonth(subMonths(new Date(), 1));
+  const report = await storage.getMonthlyReport(lastMonth);
+  await emailReport(monthlyReportSummary(report, lastMonth), r => r.monthlyReport === "true");
+}
+
+async function reportStaleIncidents() {
+  const stale = await storage.getStaleIncidents(subDays(new Date(), STALE_INCIDENT_DAYS));
+  if (stale.length === 0) return;
+  const sent = await sendStaleIncidentsAlert(stale, await activeRecipientEmails());
+  if (!sent) throw new Error("No se pudo enviar el aviso de incidencias sin movimiento");
+}
+
+const activeAdminEmails = async () => {
+  const users = await storage.getActiveUsers();
+  return users
+    .filter(u => u.role === UserRole.ADMIN && !!u.email)
+    .map(u => u.email!);
+};
+
+// Each overdue incident is escalated once, to the active admins plus any
+// recipient subscribed to escalations; changing its priority to a later due
+// date lets it escalate again.
+async function escalateOverdueIncidents() {
+  const overdue = await storage.getUnescalatedOverdueIncidents(new Date());
+  if (overdue.length === 0) return;
+  const recipients = Array.from(new Set([
+    ...await activeAdminEmails(),
+    ...await activeRecipientEmails(r => r.overdueEscalations === "true"),
+  ]));
+  if (recipients.length === 0) {
+    console.warn("⚠️ Hay incidencias vencidas pero ningún administrador activo tiene correo registrado");
+    return;
+  }
+  const sent = await sendOverdueEscalation(overdue, recipients);
+  if (!sent) throw new Error("No se pudo enviar el escalamiento de incidencias vencidas");
+  await storage.markIncidentsEscalated(overdue.map(i => i.id), `Aviso enviado a ${recipients.join(", ")}`);
+  new Set(overdue.map(i => i.busId)).forEach(busId => {
+    void publishChange({ type: ChangeEventType.INCIDENT, busId });
+  });
+}
+
+export const scheduledJobs: ScheduledJob[] = [
+  {
+    name: "expiration-check",
+    label: "Vencimiento de documentos",
+    description: "Envía las alertas de documentos por vencer y el resumen semanal",
+    schedule: "0 8 * * *",
+    run: checkExpiringDocuments,
+  },
+  {
+    name: "weekly-report",
+    label: "Reporte semanal",
+    description: "Envía por correo el reporte de incidencias de la semana anterior, con PDF adjunto",
+    schedule: "0 8 * * 1",
+    run: sendLastWeekReport,
+  },
+  {
+    name: "monthly-report",
+    label: "Reporte mensual",
+    description: "Envía por correo el reporte de incidencias del mes anterior, con PDF adjunto",
+    schedule: "0 8 1 * *",
+    run: sendLastMonthReport,
+  },
+  {
+    name: "stale-incidents",
+    label: "Incidencias sin movimiento",
+    description: `Avisa de incidencias abiertas sin cambios en ${STALE_INCIDENT_DAYS} días`,
+    schedule: "0 9 * * *",
+    run: reportStaleIncidents,
+  },
+  {
+    name: "overdue-escalation",
+    label: "Escalamiento de vencidas",
+    description: "Avisa por correo de las incidencias abiertas que superaron su fecha límite",
+    schedule: "*/15 * * * *",
+    run: escalateOverdueIncidents,
+  },
+];
@@ -0,0 +1,61 @@
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { migrate } from "drizzle-orm/node-postgres/migrator";
+import { db } from "./db";
+
+// Generated by `npm run db:generate` from shared/schema.ts
+const migrationsFolder = path.resolve(process.cwd(), "migrations");
+
+export interface MigrationStatus {
+  tag: string;
+  createdAt: Date;
+  applied: boolean;
+}
+
+interface JournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+function readJournal(): JournalEntry[] {
+  const journalPath = path.join(migrationsFolder, "meta", "_journal.json");
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf-8"));
+  return journal.entries;
+}
+
+/**
+ * Lists every migration in the journal and whether it has been applied.
+ * Mirrors the drizzle migrator: anything at or before the latest recorded
+ * migration counts as applied.
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus[]> {
+  const entries = readJournal();
+
+  const result = await db.execute(sql`SELECT to_regclass('drizzle.__drizzle_migrations') AS table_name`);
+  let lastApplied = 0;
+  if (result.rows[0]?.table_name) {
+    const applied = await db.execute(sql`SELECT MAX(created_at) AS last FROM drizzle.__drizzle_migrations`);
+    lastApplied = Number(applied.rows[0]?.last ?? 0);
+  }
+
+  return entries.map(e => ({
+    tag: e.tag,
+    createdAt: new Date(e.when),
+    applied: e.when <= lastApplied,
+  }));
+}
+
+export async function runMigrations(): Promise<number> {
+  const pending = (await getMigrationStatus()).filter(m => !m.applied);
+  if (pending.length === 0) {
+    console.log("✅ Database schema is up to date.");
+    return 0;
+  }
+
+  console.log(`📝 Applying ${pending.length} migration(s): ${pending.map(m => m.tag).join(", ")}`);
+  await migrate(db, { migrationsFolder });
+  console.log("✅ Migrations applied successfully.");
+  return pending.length;
+}
@@ -0,0 +1,115 @@
+import { subDays } from "date-fns";
+import {
+  RecurringFailureReason,
+  type Incident,
+  type IncidentEvent,
+  type RecurringFailure,
+} from "@shared/schema";
+
+// Incidents on the same equipment within RECURRING_FAILURE_DAYS that flag it.
+export const RECURRING_FAILURE_COUNT = parseInt(process.env.RECURRING_FAILURE_COUNT || "3");
+export const RECURRING_FAILURE_DAYS = parseInt(process.env.RECURRING_FAILURE_DAYS || "30");
+// Failing again this many days after a repair counts as a reopen.
+export const REOPEN_WINDOW_DAYS = parseInt(process.env.REOPEN_WINDOW_DAYS || "7");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Camera incidents are tracked per channel; other equipment per bus
+const equipmentKey = (i: Incident) => `${i.busId}:${i.equipmentType}:${i.cameraChannel ?? ""}`;
+
+const withinReopenWindow = (resolvedAt: Date, failedAt: Date) => {
+  const elapsed = failedAt.getTime() - resolvedAt.getTime();
+  return elapsed >= 0 && elapsed <= REOPEN_WINDOW_DAYS * DAY_MS;
+};
+
+/**
+ * Flags equipment with RECURRING_FAILURE_COUNT or more incidents reported in
+ * the RECURRING_FAILURE_DAYS before `asOf`, or that failed again within
+ * REOPEN_WINDOW_DAYS of a repair: either a new incident on the same
+ * equipment, or a resolved incident set back to pending/in progress.
+ *
+ * `incidents` must reach back REOPEN_WINDOW_DAYS before the window so that
+ * repairs just before it are seen; `reopenEvents` are reopens (status
+ * changes out of resolved) and `resolutionEvents` the status changes into
+ * resolved of the reopened incidents, whose resolvedAt a reopen clears.
+ */
+export function detectRecurringFailures(input: {
+  incidents: Incident[];
+  reopenEvents: IncidentEvent[];
+  resolutionEvents?: IncidentEvent[];
+  busMap: Record<string, string>;
+  asOf: Date;
+}): RecurringFailure[] {
+  const windowStart = subDays(input.asOf, RECURRING_FAILURE_DAYS);
+  const inWindow = (date: Date) => date >= windowStart && date <= input.asOf;
+  const byId = new Map(input.incidents.map(i => [i.id, i]));
+
+  // Latest repair of an incident before `at`
+  const resolvedBefore = (incident: Incident, at: Date) => {
+    const times = (input.resolutionEvents || [])
+      .filter(e => e.incidentId === incident.id && e.createdAt && new Date(e.createdAt) <= at)
+      .map(e => new Date(e.createdAt!).getTime());
+    if (times.length > 0) return new Date(Math.max(...times));
+    return incident.resolvedAt ? new Date(incident.resolvedAt) : null;
+  };
+
+  const groups = new Map<string, Incident[]>();
+  input.incidents
+    .filter(i => i.reportedAt && new Date(i.reportedAt) <= input.asOf)
+    .sort((a, b) => new Date(a.reportedAt!).getTime() - new Date(b.reportedAt!).getTime())
+    .forEach(i => groups.set(equipmentKey(i), [...(groups.get(equipmentKey(i)) || []), i]));
+
+  const reopenedByKey = new Map<string, Set<string>>();
+  const markReopened = (incident: Incident) => {
+    const key = equipmentKey(incident);
+    reopenedByKey.set(key, (reopenedByKey.get(key) || new Set()).add(incident.id));
+  };
+
+  groups.forEach(group => {
+    group.forEach((incident, index) => {
+      if (index === 0 || !inWindow(new Date(incident.reportedAt!))) return;
+      const previous = group[index - 1];
+      if (previous.resolvedAt && withinReopenWindow(new Date(previous.resolvedAt), new Date(incident.reportedAt!))) {
+        markReopened(incident);
+      }
+    });
+  });
+
+  input.reopenEvents.forEach(event => {
+    const incident = byId.get(event.incidentId);
+    if (!incident || !event.createdAt) return;
+    const reopenedAt = new Date(event.createdAt);
+    const resolvedAt = resolvedBefore(incident, reopenedAt);
+    if (resolvedAt && inWindow(reopenedAt) && withinReopenWindow(resolvedAt, reopenedAt)) {
+      markReopened(incident);
+    }
+  });
+
+  const flagged: RecurringFailure[] = [];
+  groups.forEach((group, key) => {
+    const recent = group.filter(i => inWindow(new Date(i.reportedAt!)));
+    const reopened = reopenedByKey.get(key);
+    const reasons: string[] = [];
+    if (recent.length >= RECURRING_FAILURE_COUNT) reasons.push(RecurringFailureReason.REPEATED);
+    if (reopened && reopened.size > 0) reasons.push(RecurringFailureReason.REOPENED);
+    if (reasons.length === 0) return;
+
+    const last = group[group.length - 1];
+    flagged.push({
+      busId: last.busId,
+      busNumber: input.busMap[last.busId] || last.busId,
+      equipmentType: last.equipmentType,
+      cameraChannel: last.cameraChannel,
+      reasons,
+      incidentCount: recent.length,
+      reopenCount: reopened?.size ?? 0,
+      lastReportedAt: new Date(last.reportedAt!).toISOString(),
+      incidentIds: recent.map(i => i.id),
+    });
+  });
+
+  return flagged.sort((a, b) =>
+    (b.incidentCount + b.reopenCount) - (a.incidentCount + a.reopenCount) ||
+    b.lastReportedAt.localeCompare(a.lastReportedAt)
+  );
+}
@@ -0,0 +1,152 @@
+import { eachWeekOfInterval, startOfWeek } from "date-fns";
+import {
+  CameraChannelLabels,
+  EquipmentTypeLabels,
+  IncidentStatus,
+  IncidentTypeLabels,
+  firstTimeFixRate,
+  type Incident,
+  type RepairAnalytics,
+  type RepairMetrics,
+  type RepairMetricsGroup,
+  type SlaTarget,
+} from "@shared/schema";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Incident with the timestamps the metrics are derived from
+interface TimedIncident {
+  incident: Incident;
+  reportedAt: Date;
+  repairHours: number | null;
+  firstActionHours: number | null;
+  target: SlaTarget | null;
+  breached: boolean;
+}
+
+const hoursBetween = (from: Date, to: Date) => (to.getTime() - from.getTime()) / HOUR_MS;
+
+const average = (values: number[]) =>
+  values.length > 0 ? Math.round((values.reduce((a, b) => a + b, 0) / values.length) * 10) / 10 : null;
+
+/**
+ * Most specific target for an incident: equipment and incident type both
+ * matching beats equipment only, which beats incident type only, which
+ * beats the catch-all target.
+ */
+export function findSlaTarget(targets: SlaTarget[], equipmentType: string, incidentType: string): SlaTarget | null {
+  let best: SlaTarget | null = null;
+  let bestScore = -1;
+  for (const target of targets) {
+    if (target.equipmentType && target.equipmentType !== equipmentType) continue;
+    if (target.incidentType && target.incidentType !== incidentType) continue;
+    const score = (target.equipmentType ? 2 : 0) + (target.incidentType ? 1 : 0);
+    if (score > bestScore) {
+      best = target;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+function metrics(items: TimedIncident[]): RepairMetrics {
+  const resolved = items.filter(i => i.repairHours !== null);
+  return {
+    incidents: items.length,
+    resolved: resolved.length,
+    mttrHours: average(resolved.map(i => i.repairHours!)),
+    firstActionHours: average(items.filter(i => i.firstActionHours !== null).map(i => i.firstActionHours!)),
+    slaBreaches: items.filter(i => i.breached).length,
+    firstTimeFixRate: firstTimeFixRate(items.map(i => i.incident)),
+  };
+}
+
+function groupBy(
+  items: TimedIncident[],
+  keyOf: (item: TimedIncident) => string | null,
+  labelOf: (key: string) => string,
+): RepairMetricsGroup[] {
+  const groups = new Map<string, TimedIncident[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    if (key === null) return;
+    groups.set(key, [...(groups.get(key) || []), item]);
+  });
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({ key, label: labelOf(key), ...metrics(group) }))
+    .sort((a, b) => b.incidents - a.incidents);
+}
+
+/**
+ * Repair times for incidents reported in [from, to]. Repair time runs from
+ * report to resolution; first action is the first note, status change or
+ * reassignment (see IncidentActionEventTypes). Open incidents count as
+ * SLA breaches once they have been open longer than their target.
+ */
+export function buildRepairAnalytics(input: {
+  from: Date;
+  to: Date;
+  incidents: Incident[];
+  firstActions: Record<string, Date>;
+  targets: SlaTarget[];
+  busMap: Record<string, string>;
+  userMap: Record<string, string>;
+  now?: Date;
+}): RepairAnalytics {
+  const now = input.now ?? new Date();
+
+  const timed: TimedIncident[] = input.incidents
+    .filter(i => i.reportedAt)
+    .map(incident => {
+      const reportedAt = new Date(incident.reportedAt!);
+      const resolvedAt = incident.status === IncidentStatus.RESOLVED && incident.resolvedAt
+        ? new Date(incident.resolvedAt)
+        : null;
+      const firstAction = input.firstActions[incident.id] ?? resolvedAt;
+      const repairHours = resolvedAt ? hoursBetween(reportedAt, resolvedAt) : null;
+      const target = findSlaTarget(input.targets, incident.equipmentType, incident.incidentType);
+      const elapsed = repairHours ?? hoursBetween(reportedAt, now);
+      return {
+        incident,
+        reportedAt,
+        repairHours,
+        firstActionHours: firstAction ? hoursBetween(reportedAt, firstAction) : null,
+        target,
+        breached: !!target && elapsed > target.targetHours,
+      };
+    });
+
+  const weeks = eachWeekOfInterval({ start: input.from, end: input.to }, { weekStartsOn: 1 });
+  const trend = weeks.map(weekStart => {
+    const week = timed.filter(i => startOfWeek(i.reportedAt, { weekStartsOn: 1 }).getTime() === weekStart.getTime());
+    const { incidents, mttrHours, firstActionHours, slaBreaches } = metrics(week);
+    return { weekStart: weekStart.toISOString(), incidents, mttrHours, firstActionHours, slaBreaches };
+  });
+
+  const sla = input.targets.map(target => {
+    const governed = timed.filter(i => i.target?.id === target.id);
+    return {
+      target,
+      incidents: governed.length,
+      breaches: governed.filter(i => i.breached && i.repairHours !== null).length,
+      openBreaches: governed.filter(i => i.breached && i.repairHours === null).length,
+    };
+  });
+
+  return {
+    from: input.from.toISOString(),
+    to: input.to.toISOString(),
+    overall: metrics(timed),
+    byEquipment: groupBy(timed, i => i.incident.equipmentType, key => EquipmentTypeLabels[key] || key),
+    byIncidentType: groupBy(timed, i => i.incident.incidentType, key => IncidentTypeLabels[key] || key),
+    byChannel: groupBy(timed, i => i.incident.cameraChannel, key => CameraChannelLabels[key] || key),
+    byBus: groupBy(timed, i => i.incident.busId, key => input.busMap[key] || key),
+    byTechnician: groupBy(
+      timed,
+      i => i.incident.assignedTo ?? "",
+      key => (key ? input.userMap[key] || key : "Sin asignar"),
+    ),
+    trend,
+    sla,
+  };
+}
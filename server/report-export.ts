@@ -0,0 +1,133 @@
+import * as XLSX from "xlsx";
+import { format } from "date-fns";
+import {
+  CameraChannelLabels,
+  EquipmentTypeLabels,
+  IncidentTypeLabels,
+  type Incident,
+} from "@shared/schema";
+import type { ReportSummary } from "./report-pdf";
+
+export const ExportFormats = ["xlsx", "csv"] as const;
+export type ExportFormat = typeof ExportFormats[number];
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const statusLabels: Record<string, string> = {
+  pending: "Pendiente",
+  in_progress: "En Progreso",
+  resolved: "Resuelta",
+};
+
+type Row = Array<string | number>;
+
+interface Sheet {
+  name: string;
+  rows: Row[];
+}
+
+const formatTimestamp = (date: Date | null) => (date ? format(date, "yyyy-MM-dd HH:mm") : "");
+
+// Text typed by users (descriptions, notes) in a CSV opened in a spreadsheet
+// would run as a formula when it starts like one; a leading ' keeps it as
+// text. xlsx cells are typed as strings already and need no escaping. A lone
+// "-" is the placeholder for missing values and is left alone.
+const FORMULA_START = /^[=+\-@\t\r]/;
+const neutralizeFormula = (value: string | number) =>
+  typeof value === "string" && value.length > 1 && FORMULA_START.test(value) ? `'${value}` : value;
+
+function summarySheets(summary: ReportSummary): Sheet[] {
+  const pending = summary.totalIncidents - summary.resolvedIncidents;
+  const rate = summary.totalIncidents > 0
+    ? `${Math.round((summary.resolvedIncidents / summary.totalIncidents) * 100)}%`
+    : "-";
+  const sheets: Sheet[] = [
+    {
+      name: "Resumen",
+      rows: [
+        ["Reporte", summary.title],
+        ["Período", summary.period],
+        ["Incidencias", summary.totalIncidents],
+        ["Resueltas", summary.resolvedIncidents],
+        ["Pendientes", pending],
+        ["Tasa de resolución", rate],
+        ["Reparadas al primer intento", summary.firstTimeFixRate !== null ? `${summary.firstTimeFixRate}%` : "-"],
+      ],
+    },
+    { name: "Por tipo", rows: [["Tipo", "Incidencias"], ...summary.incidentsByType.map(r => [r.label, r.count])] },
+    { name: "Por equipo", rows: [["Equipo", "Incidencias"], ...summary.incidentsByEquipment.map(r => [r.label, r.count])] },
+    { name: "Buses más afectados", rows: [["N° Bus", "Incidencias"], ...summary.mostAffectedBuses.map(b => [b.busNumber, b.count])] },
+  ];
+  if (summary.recurringFailures) {
+    sheets.push({
+      name: "Fallas recurrentes",
+      rows: [["N° Bus", "Equipo", "Detalle"], ...summary.recurringFailures.map(f => [f.busNumber, f.equipment, f.detail])],
+    });
+  }
+  if (summary.trend) {
+    sheets.push({ name: "Tendencia semanal", rows: [["Semana", "Incidencias"], ...summary.trend.map(r => [r.label, r.count])] });
+  }
+  return sheets;
+}
+
+function incidentSheet(incidents: Incident[], busMap: Record<string, string>): Sheet {
+  return {
+    name: "Incidencias",
+    rows: [
+      ["N° Bus", "Equipo", "Canal", "Tipo", "Estado", "Descripción", "Reportado por", "Reportada", "Resuelta", "Notas de resolución", "Reaperturas"],
+      ...incidents.map(i => [
+        busMap[i.busId] || i.busId,
+        EquipmentTypeLabels[i.equipmentType] || i.equipmentType,
+        i.cameraChannel ? CameraChannelLabels[i.cameraChannel] || i.cameraChannel : "",
+        IncidentTypeLabels[i.incidentType] || i.incidentType,
+        statusLabels[i.status] || i.status,
+        i.description || "",
+        i.reporter || "",
+        formatTimestamp(i.reportedAt),
+        formatTimestamp(i.resolvedAt),
+        i.resolutionNotes || "",
+        i.reopenCount,
+      ]),
+    ],
+  };
+}
+
+/**
+ * Builds the report download: one sheet per section in xlsx, or the same
+ * sections stacked under their titles in a single CSV. The CSV starts with a
+ * BOM so Excel opens accents correctly.
+ */
+export function buildReportExport(
+  summary: ReportSummary,
+  incidents: Incident[],
+  busMap: Record<string, string>,
+  exportFormat: ExportFormat,
+): ExportFile {
+  const sheets = [...summarySheets(summary), incidentSheet(incidents, busMap)];
+
+  if (exportFormat === "csv") {
+    const sections = sheets.map(sheet => {
+      const rows = sheet.rows.map(row => row.map(neutralizeFormula));
+      return XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet([[sheet.name], ...rows]));
+    });
+    return {
+      fileName: `${summary.baseFileName}.csv`,
+      contentType: "text/csv; charset=utf-8",
+      body: Buffer.from("\uFEFF" + sections.join("\n\n"), "utf-8"),
+    };
+  }
+
+  const workbook = XLSX.utils.book_new();
+  sheets.forEach(sheet => {
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(sheet.rows), sheet.name);
+  });
+  return {
+    fileName: `${summary.baseFileName}.xlsx`,
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    body: XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }),
+  };
+}
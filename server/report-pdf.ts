@@ -0,0 +1,243 @@
+import PDFDocument from "pdfkit";
+import { format } from "date-fns";
+import { es } from "date-fns/locale";
+import {
+  CameraChannelLabels,
+  EquipmentTypeLabels,
+  IncidentTypeLabels,
+  RecurringFailureReasonLabels,
+  type RecurringFailure,
+  type WeeklyReport,
+  type MonthlyReport,
+} from "@shared/schema";
+
+// Period-independent view of a weekly or monthly report, shared by the PDF
+// attachment, the HTML body of the report email and the spreadsheet exports.
+export interface ReportSummary {
+  title: string;
+  period: string;
+  // Download name without extension, e.g. reporte-semanal-2024-05-06
+  baseFileName: string;
+  totalIncidents: number;
+  resolvedIncidents: number;
+  // Percentage, null when nothing was repaired in the period
+  firstTimeFixRate: number | null;
+  incidentsByType: Array<{ label: string; count: number }>;
+  incidentsByEquipment: Array<{ label: string; count: number }>;
+  mostAffectedBuses: Array<{ busNumber: string; count: number }>;
+  trend?: Array<{ label: string; count: number }>;
+  recurringFailures?: Array<{ busNumber: string; equipment: string; detail: string }>;
+}
+
+export const PRIMARY = "#1565c0";
+const BAR = "#42a5f5";
+export const MUTED = "#666666";
+export const BORDER = "#dddddd";
+export const MARGIN = 50;
+
+const labelled = (counts: Record<string, number>, labels: Record<string, string>) =>
+  Object.entries(counts)
+    .map(([key, count]) => ({ label: labels[key] || key, count }))
+    .sort((a, b) => b.count - a.count);
+
+export const recurringFailureRow = (f: RecurringFailure) => ({
+  busNumber: f.busNumber,
+  equipment: f.cameraChannel
+    ? `${EquipmentTypeLabels[f.equipmentType] || f.equipmentType} ${CameraChannelLabels[f.cameraChannel] || f.cameraChannel}`
+    : EquipmentTypeLabels[f.equipmentType] || f.equipmentType,
+  detail: [
+    ...f.reasons.map(r => RecurringFailureReasonLabels[r] || r),
+    `${f.incidentCount} incidencia(s)`,
+    ...(f.reopenCount > 0 ? [`${f.reopenCount} reapertura(s)`] : []),
+  ].join(" · "),
+});
+
+export function weeklyReportSummary(report: WeeklyReport): ReportSummary {
+  const weekStart = new Date(report.weekStart);
+  return {
+    title: "Reporte Semanal de Incidencias",
+    period: `Semana del ${format(weekStart, "dd/MM")} al ${format(new Date(report.weekEnd), "dd/MM/yyyy")}`,
+    baseFileName: `reporte-semanal-${format(weekStart, "yyyy-MM-dd")}`,
+    totalIncidents: report.totalIncidents,
+    resolvedIncidents: report.resolvedIncidents,
+    firstTimeFixRate: report.firstTimeFixRate,
+    incidentsByType: labelled(report.incidentsByType, IncidentTypeLabels),
+    incidentsByEquipment: labelled(report.incidentsByEquipment, EquipmentTypeLabels),
+    mostAffectedBuses: report.mostAffectedBuses,
+    recurringFailures: report.recurringFailures.map(recurringFailureRow),
+  };
+}
+
+export function monthlyReportSummary(report: MonthlyReport, monthStart: Date): ReportSummary {
+  return {
+    title: "Reporte Mensual de Incidencias",
+    period: format(monthStart, "MMMM yyyy", { locale: es }),
+    baseFileName: `reporte-mensual-${format(monthStart, "yyyy-MM")}`,
+    totalIncidents: report.totalIncidents,
+    resolvedIncidents: report.resolvedIncidents,
+    firstTimeFixRate: report.firstTimeFixRate,
+    incidentsByType: labelled(report.incidentsByType, IncidentTypeLabels),
+    incidentsByEquipment: labelled(report.incidentsByEquipment, EquipmentTypeLabels),
+    mostAffectedBuses: report.mostAffectedBuses,
+    trend: report.weeklyTrend.map(w => ({ label: `Sem ${w.week}`, count: w.count })),
+  };
+}
+
+type Doc = PDFKit.PDFDocument;
+
+export const contentWidth = (doc: Doc) => doc.page.width - MARGIN * 2;
+
+export function ensureSpace(doc: Doc, height: number) {
+  if (doc.y + height > doc.page.height - MARGIN) doc.addPage();
+}
+
+export function sectionTitle(doc: Doc, title: string) {
+  ensureSpace(doc, 40);
+  doc.moveDown(0.8);
+  doc.font("Helvetica-Bold").fontSize(13).fillColor(PRIMARY).text(title, MARGIN);
+  doc.moveDown(0.4);
+}
+
+function drawHeader(doc: Doc, summary: ReportSummary) {
+  doc.rect(0, 0, doc.page.width, 90).fill(PRIMARY);
+  doc.font("Helvetica-Bold").fontSize(20).fillColor("#ffffff").text(summary.title, MARGIN, 28);
+  doc.font("Helvetica").fontSize(11).text(summary.period, MARGIN, 56);
+  doc.y = 115;
+}
+
+function drawTotals(doc: Doc, summary: ReportSummary) {
+  const pending = summary.totalIncidents - summary.resolvedIncidents;
+  const rate = summary.totalIncidents > 0
+    ? `${Math.round((summary.resolvedIncidents / summary.totalIncidents) * 100)}%`
+    : "-";
+  const boxes = [
+    { label: "Incidencias", value: String(summary.totalIncidents) },
+    { label: "Resueltas", value: String(summary.resolvedIncidents) },
+    { label: "Pendientes", value: String(pending) },
+    { label: "Tasa de resolución", value: rate },
+    { label: "Reparadas al primer intento", value: summary.firstTimeFixRate !== null ? `${summary.firstTimeFixRate}%` : "-" },
+  ];
+  const gap = 10;
+  const width = (contentWidth(doc) - gap * (boxes.length - 1)) / boxes.length;
+  const top = doc.y;
+  boxes.forEach((box, i) => {
+    const x = MARGIN + i * (width + gap);
+    doc.roundedRect(x, top, width, 56, 4).lineWidth(1).stroke(BORDER);
+    doc.font("Helvetica-Bold").fontSize(18).fillColor("#000000").text(box.value, x, top + 10, { width, align: "center" });
+    doc.font("Helvetica").fontSize(9).fillColor(MUTED).text(box.label, x, top + 34, { width, align: "center" });
+  });
+  doc.x = MARGIN;
+  doc.y = top + 70;
+}
+
+// Horizontal bars, one row per category
+function drawBarChart(doc: Doc, title: string, rows: Array<{ label: string; count: number }>) {
+  sectionTitle(doc, title);
+  if (rows.length === 0) {
+    doc.font("Helvetica").fontSize(10).fillColor(MUTED).text("Sin incidencias en el período", MARGIN);
+    return;
+  }
+  const labelWidth = 130;
+  const barMax = contentWidth(doc) - labelWidth - 40;
+  const max = Math.max(...rows.map(r => r.count));
+  rows.forEach(row => {
+    ensureSpace(doc, 22);
+    const y = doc.y;
+    doc.font("Helvetica").fontSize(10).fillColor("#000000").text(row.label, MARGIN, y + 3, { width: labelWidth - 10 });
+    const barWidth = Math.max(2, (row.count / max) * barMax);
+    doc.rect(MARGIN + labelWidth, y, barWidth, 16).fill(BAR);
+    doc.fillColor("#000000").text(String(row.count), MARGIN + labelWidth + barWidth + 6, y + 3);
+    doc.y = y + 22;
+  });
+}
+
+// Vertical columns, used for the weekly trend of the monthly report
+function drawColumnChart(doc: Doc, title: string, rows: Array<{ label: string; count: number }>) {
+  sectionTitle(doc, title);
+  if (rows.length === 0) {
+    doc.font("Helvetica").fontSize(10).fillColor(MUTED).text("Sin incidencias en el período", MARGIN);
+    return;
+  }
+  const chartHeight = 140;
+  ensureSpace(doc, chartHeight + 40);
+  const top = doc.y;
+  const baseline = top + chartHeight;
+  const max = Math.max(...rows.map(r => r.count), 1);
+  const slot = contentWidth(doc) / rows.length;
+  const columnWidth = Math.min(50, slot * 0.6);
+
+  doc.moveTo(MARGIN, baseline).lineTo(MARGIN + contentWidth(doc), baseline).lineWidth(1).stroke(BORDER);
+  rows.forEach((row, i) => {
+    const height = (row.count / max) * (chartHeight - 20);
+    const x = MARGIN + i * slot + (slot - columnWidth) / 2;
+    doc.rect(x, baseline - height, columnWidth, height).fill(BAR);
+    doc.font("Helvetica").fontSize(9).fillColor("#000000")
+      .text(String(row.count), x, baseline - height - 12, { width: columnWidth, align: "center" });
+    doc.fillColor(MUTED).text(row.label, MARGIN + i * slot, baseline + 4, { width: slot, align: "center" });
+  });
+  doc.x = MARGIN;
+  doc.y = baseline + 24;
+}
+
+// Bordered table; columns take the given share of the page width
+export function drawTable(doc: Doc, title: string, columns: Array<{ header: string; share: number }>, rows: string[][], empty: string) {
+  sectionTitle(doc, title);
+  if (rows.length === 0) {
+    doc.font("Helvetica").fontSize(10).fillColor(MUTED).text(empty, MARGIN);
+    return;
+  }
+  const width = contentWidth(doc);
+  const drawRow = (cells: string[], bold: boolean, fill?: string) => {
+    ensureSpace(doc, 22);
+    const y = doc.y;
+    if (fill) doc.rect(MARGIN, y, width, 22).fill(fill);
+    doc.rect(MARGIN, y, width, 22).lineWidth(0.5).stroke(BORDER);
+    doc.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10).fillColor("#000000");
+    let x = MARGIN;
+    cells.forEach((cell, i) => {
+      const cellWidth = width * columns[i].share;
+      doc.text(cell, x + 8, y + 6, { width: cellWidth - 16, height: 12, ellipsis: true });
+      x += cellWidth;
+    });
+    doc.y = y + 22;
+  };
+  drawRow(columns.map(c => c.header), true, "#e3f2fd");
+  rows.forEach(row => drawRow(row, false));
+}
+
+export function renderReportPdf(summary: ReportSummary): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: "A4", margin: MARGIN, info: { Title: `${summary.title} — ${summary.period}` } });
+    const chunks: Buffer[] = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    drawHeader(doc, summary);
+    drawTotals(doc, summary);
+    if (summary.trend) drawColumnChart(doc, "Tendencia semanal", summary.trend);
+    drawBarChart(doc, "Por tipo de incidencia", summary.incidentsByType);
+    drawBarChart(doc, "Por equipo", summary.incidentsByEquipment);
+    drawTable(
+      doc,
+      "Buses más afectados",
+      [{ header: "N° Bus", share: 0.75 }, { header: "Incidencias", share: 0.25 }],
+      summary.mostAffectedBuses.map(b => [`Bus ${b.busNumber}`, String(b.count)]),
+      "Sin incidencias en el período",
+    );
+    if (summary.recurringFailures) {
+      drawTable(
+        doc,
+        "Fallas recurrentes",
+        [{ header: "N° Bus", share: 0.18 }, { header: "Equipo", share: 0.32 }, { header: "Detalle", share: 0.5 }],
+        summary.recurringFailures.map(f => [`Bus ${f.busNumber}`, f.equipment, f.detail]),
+        "Sin fallas recurrentes",
+      );
+    }
+
+    doc.moveDown(2);
+    doc.font("Helvetica").fontSize(8).fillColor(MUTED)
+      .text(`Generado el ${format(new Date(), "dd/MM/yyyy HH:mm")} — Sistema de Gestión de Monitoreo, Ruta Las Galaxias S.A.`, MARGIN);
+    doc.end();
+  });
+}
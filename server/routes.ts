@@ -1,19 +1,73 @@
 import type { Express, Request, Response, NextFunction } from "express";
+import type { SessionData } from "express-session";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertBusSchema, incidentFormSchema, loginSchema, createUserSchema } from "@shared/schema";
+import { storage, StorageConflictError } from "./storage";
+import { scheduler } from "./scheduler";
+import { subscribe, publishChange } from "./events";
+import {
+  ATTACHMENTS_DIR,
+  createThumbnail,
+  detectEvidenceMimeType,
+  isEvidenceMimeType,
+  removeAttachmentFiles,
+  MAX_ATTACHMENT_BYTES,
+  MAX_ATTACHMENTS_PER_UPLOAD,
+} from "./attachments";
+import { weeklyReportSummary, monthlyReportSummary } from "./report-pdf";
+import { renderJobSheetPdf } from "./job-sheet-pdf";
+import { buildReportExport, ExportFormats, type ExportFormat, type ExportFile } from "./report-export";
+import {
+  insertBusSchema,
+  incidentFormSchema,
+  loginSchema,
+  updateProfileSchema,
+  passwordSchema,
+  LoginFailureReason,
+  createUserSchema,
+  userEmailSchema,
+  insertDeviceSchema,
+  deviceSwapSchema,
+  insertSparePartSchema,
+  insertDocumentTypeSchema,
+  recipientSubscriptionsSchema,
+  insertSlaTargetSchema,
+  priorityMatrixEntrySchema,
+  insertKioskTokenSchema,
+  incidentCommentSchema,
+  reopenIncidentSchema,
+  parseMentions,
+  partUsageSchema,
+  Permission,
+  hasPermission,
+  OpenIncidentStatuses,
+  IncidentPriorityValues,
+  EquipmentType,
+  ReportGroupBy,
+  ChangeEventType,
+  WorkOrderStatus,
+  workOrderNumber,
+  workOrderFormSchema,
+  updateWorkOrderSchema,
+  completeWorkOrderSchema,
+  type PermissionKey,
+  type User,
+} from "@shared/schema";
 import { z } from "zod";
-import { parseISO, startOfWeek } from "date-fns";
+import { format, parse, parseISO, isValid, startOfDay, endOfDay, subDays, startOfWeek, startOfMonth, endOfMonth, differenceInCalendarDays } from "date-fns";
 import bcrypt from "bcryptjs";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import crypto from "crypto";
 
 console.log("SERVER INDEX LOADED ✅");
 
 declare module "express-session" {
   interface SessionData {
     userId?: string;
+    loginAt?: string;
+    userAgent?: string;
+    ip?: string;
   }
 }
 
@@ -21,22 +75,172 @@ interface AuthRequest extends Request {
   session: Request["session"] & { userId?: string };
 }
 
+const getActiveSessionUser = async (req: AuthRequest) => {
+  if (!req.session?.userId) return undefined;
+  const user = await storage.getUser(req.session.userId);
+  if (!user || user.active !== "true") return undefined;
+  return user;
+};
+
+// Whether the session behind a long-lived request (an event stream) still
+// holds: req.session was loaded when the request started, so look the
+// session up again in case it was destroyed or revoked since
+const isSessionActive = async (req: AuthRequest): Promise<boolean> => {
+  const stored = await new Promise<SessionData | null | undefined>((resolve, reject) => {
+    req.sessionStore.get(req.sessionID, (err, session) => err ? reject(err) : resolve(session));
+  });
+  if (!stored?.userId || stored.userId !== req.session.userId) return false;
+  return !!(await getActiveSessionUser(req));
+};
+
 const requireAuth = async (req: AuthRequest, res: Response, next: NextFunction) => {
-  if (!req.session?.userId) {
+  const user = await getActiveSessionUser(req);
+  if (!user) {
     return res.status(401).json({ error: "No autorizado" });
   }
   next();
 };
 
-const requireAdmin = async (req: AuthRequest, res: Response, next: NextFunction) => {
-  if (!req.session?.userId) {
-    return res.status(401).json({ error: "No autorizado" });
+// Rejects with 401 when there is no active session and 403 when the
+// user's role lacks the permission (see RolePermissions in shared/schema)
+// or the user still has to replace a seeded or admin-reset password.
+const requirePermission = (permission: PermissionKey) =>
+  async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const user = await getActiveSessionUser(req);
+    if (!user) {
+      return res.status(401).json({ error: "No autorizado" });
+    }
+    if (user.mustChangePassword === "true") {
+      return res.status(403).json({ error: "Debe cambiar su contraseña" });
+    }
+    if (!hasPermission(user.role, permission)) {
+      return res.status(403).json({ error: "Acceso denegado" });
+    }
+    next();
+  };
+
+const requireAdmin = requirePermission(Permission.USERS_MANAGE);
+
+const hashKioskToken = (token: string) => crypto.createHash("sha256").update(token).digest("hex");
+
+// Wall displays send "Authorization: Bearer <kiosk token>" instead of a
+// session. Kiosk access is read-only and limited to the routes using this;
+// requests without the header need a user with the permission.
+const allowKiosk = (permission: PermissionKey) => {
+  const requireUser = requirePermission(permission);
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const header = req.headers.authorization;
+    if (!header?.startsWith("Bearer ")) {
+      return requireUser(req, res, next);
+    }
+    const token = await storage.useKioskToken(hashKioskToken(header.slice("Bearer ".length)));
+    if (!token) {
+      return res.status(401).json({ error: "Token de pantalla no válido" });
+    }
+    next();
+  };
+};
+
+// Failed logins are counted per username and per IP over a sliding window;
+// reaching either limit locks further attempts until the window clears.
+const LOGIN_WINDOW_MINUTES = 15;
+const MAX_FAILURES_PER_USERNAME = 5;
+const MAX_FAILURES_PER_IP = 20;
+
+// Unknown usernames are checked against this hash (same cost as real ones) so
+// the response takes as long as a wrong password and does not reveal which
+// usernames exist
+const UNKNOWN_USER_PASSWORD_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString("hex"), 10);
+
+// ?week=2024-W19, ISO week numbering (defaults to the current week); null when invalid
+const parseWeekParam = (week: unknown) => {
+  if (week && typeof week === "string") {
+    const date = parse(week, "RRRR-'W'II", new Date());
+    // parse() rolls weeks that do not exist (2021-W53) into the next year
+    if (!isValid(date) || format(date, "RRRR-'W'II") !== week) return null;
+    return startOfWeek(date, { weekStartsOn: 1 });
   }
-  const user = await storage.getUser(req.session.userId);
-  if (!user || user.role !== "admin") {
-    return res.status(403).json({ error: "Acceso denegado" });
+  return startOfWeek(new Date(), { weekStartsOn: 1 });
+};
+
+// ?month=2024-05 (defaults to the current month); null when invalid
+const parseMonthParam = (month: unknown) => {
+  if (month && typeof month === "string") {
+    const date = parseISO(`${month}-01`);
+    return isValid(date) ? date : null;
   }
-  next();
+  return startOfMonth(new Date());
+};
+
+// Longest range accepted by /api/reports when grouping by day
+const MAX_DAILY_REPORT_DAYS = 366;
+
+// ?from=2024-01-01&to=2024-03-31, whole days; null when a date is invalid
+const parseDateRange = (from: unknown, to: unknown, defaultDays: number) => {
+  const end = typeof to === "string" ? parseISO(to) : new Date();
+  const start = typeof from === "string" ? parseISO(from) : subDays(end, defaultDays);
+  if (!isValid(start) || !isValid(end) || start > end) return null;
+  return { from: startOfDay(start), to: endOfDay(end) };
+};
+
+const parseExportFormat = (value: unknown): ExportFormat | null => {
+  if (value === undefined) return "xlsx";
+  return ExportFormats.find(f => f === value) ?? null;
+};
+
+const sendExportFile = (res: Response, file: ExportFile) => {
+  res.setHeader("Content-Type", file.contentType);
+  res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+  res.send(file.body);
+};
+
+const reportBusMap = async () => {
+  const busMap: Record<string, string> = {};
+  (await storage.getBuses()).forEach(b => busMap[b.id] = b.busNumber);
+  return busMap;
+};
+
+const isAssignableTechnician = async (userId: string) => {
+  const user = await storage.getUser(userId);
+  return !!user && user.role === "technician" && user.active === "true";
+};
+
+// Error message for the first requested part that is unknown or short on
+// stock, counting repeated lines for the same part together.
+const findStockShortage = async (parts: Array<{ partId: string; quantity: number }>) => {
+  const requested: Record<string, number> = {};
+  parts.forEach(p => requested[p.partId] = (requested[p.partId] || 0) + p.quantity);
+  for (const [partId, quantity] of Object.entries(requested)) {
+    const part = await storage.getSparePart(partId);
+    if (!part) return "Repuesto no encontrado";
+    if (part.stock < quantity) return `Stock insuficiente de ${part.name} (disponible: ${part.stock})`;
+  }
+  return null;
+};
+
+// Alerts run after the response is sent; a failed email must not fail the resolution.
+const notifyLowStock = async (parts: Array<{ name: string; unit: string; stock: number; minStock: number }>) => {
+  try {
+    const recipients = await storage.getEmailRecipients();
+    const activeEmails = recipients.filter(r => r.active === "true").map(r => r.email);
+    const { sendLowStockAlert } = await import("./email");
+    await sendLowStockAlert(parts, activeEmails);
+  } catch (error) {
+    console.error("❌ Error al enviar alerta de stock bajo:", error);
+  }
+};
+
+// "@username" mentions in a comment, resolved to active users who can see
+// it (internal notes need Permission.INCIDENTS_VIEW_INTERNAL).
+const findMentionedUsers = async (body: string, internal: boolean) => {
+  const usernames = new Set(parseMentions(body));
+  if (usernames.size === 0) return [];
+  const activeUsers = await storage.getActiveUsers();
+  return activeUsers.filter(u =>
+    usernames.has(u.username.toLowerCase()) &&
+    hasPermission(u.role, Permission.INCIDENTS_VIEW) &&
+    (!internal || hasPermission(u.role, Permission.INCIDENTS_VIEW_INTERNAL))
+  );
 };
 
 export async function registerRoutes(
@@ -46,36 +250,54 @@ export async function registerRoutes(
 
   app.post("/api/auth/login", async (req: AuthRequest, res) => {
     try {
-      console.log("🔐 Login attempt for user:", req.body.username);
-
       const parsed = loginSchema.safeParse(req.body);
       if (!parsed.success) {
-        console.log("❌ Invalid login data:", parsed.error.errors);
         return res.status(400).json({ error: parsed.error.errors });
       }
 
-      const user = await storage.getUserByUsername(parsed.data.username);
-      if (!user) {
-        console.log("❌ User not found:", parsed.data.username);
-        return res.status(401).json({ error: "Usuario o contrasena incorrectos" });
+      const { username } = parsed.data;
+      const ip = req.ip || null;
+      const windowStart = new Date(Date.now() - LOGIN_WINDOW_MINUTES * 60 * 1000);
+      const [userFailures, ipFailures] = await Promise.all([
+        storage.getRecentLoginFailures({ username }, windowStart),
+        ip ? storage.getRecentLoginFailures({ ip }, windowStart) : Promise.resolve({ count: 0, oldest: null }),
+      ]);
+      const lockedBy = userFailures.count >= MAX_FAILURES_PER_USERNAME
+        ? userFailures
+        : ipFailures.count >= MAX_FAILURES_PER_IP ? ipFailures : null;
+      if (lockedBy) {
+        await storage.recordLoginAttempt({ username, ip, success: false, reason: LoginFailureReason.LOCKED });
+        const unlockAt = (lockedBy.oldest?.getTime() ?? Date.now()) + LOGIN_WINDOW_MINUTES * 60 * 1000;
+        const retryAfterMinutes = Math.max(1, Math.ceil((unlockAt - Date.now()) / 60000));
+        res.set("Retry-After", String(retryAfterMinutes * 60));
+        return res.status(429).json({
+          error: `Demasiados intentos fallidos. Intente nuevamente en ${retryAfterMinutes} minuto(s)`,
+        });
       }
 
-      console.log("✅ User found:", user.username, "- Checking password...");
-      const passwordMatch = await bcrypt.compare(parsed.data.password, user.password);
-      if (!passwordMatch) {
-        console.log("❌ Password mismatch for user:", user.username);
+      const user = await storage.getUserByUsername(username);
+      const passwordMatch = await bcrypt.compare(parsed.data.password, user?.password ?? UNKNOWN_USER_PASSWORD_HASH) && !!user;
+      if (!user || !passwordMatch) {
+        await storage.recordLoginAttempt({ username, ip, success: false, reason: LoginFailureReason.INVALID_CREDENTIALS });
         return res.status(401).json({ error: "Usuario o contrasena incorrectos" });
       }
 
-      console.log("✅ Password correct - Checking active status:", user.active);
       if (user.active !== "true") {
-        console.log("❌ Account inactive for user:", user.username);
+        await storage.recordLoginAttempt({ username, ip, success: false, reason: LoginFailureReason.INACTIVE });
         return res.status(401).json({ error: "Cuenta desactivada" });
       }
 
+      // New session id on login so a pre-login cookie cannot be reused
+      await new Promise<void>((resolve, reject) =>
+        req.session.regenerate((err) => (err ? reject(err) : resolve()))
+      );
       req.session.userId = user.id;
+      req.session.loginAt = new Date().toISOString();
+      req.session.userAgent = req.get("user-agent") || undefined;
+      req.session.ip = req.ip;
+      await storage.recordLoginAttempt({ username, ip, success: true });
+
       const { password, ...userWithoutPassword } = user;
-      console.log("✅ Login successful for user:", user.username, "- Role:", user.role);
       res.json(userWithoutPassword);
     } catch (error) {
       console.error("❌ Login error:", error);
@@ -93,30 +315,61 @@ export async function registerRoutes(
   });
 
   app.get("/api/auth/me", async (req: AuthRequest, res) => {
-    // 🔍 LOGS DE DEPURACIÓN
-    console.log("=== /api/auth/me ===");
-    console.log("Cookie header:", req.headers.cookie);
-    console.log("Session object:", req.session);
-    console.log("Session userId:", req.session?.userId);
-
     if (!req.session?.userId) {
-      console.log("❌ No hay userId en sesión");
       return res.status(401).json({ error: "No autorizado" });
     }
 
     const user = await storage.getUser(req.session.userId);
 
     if (!user) {
-      console.log("❌ Usuario no encontrado en DB");
       return res.status(401).json({ error: "No autorizado" });
     }
 
     const { password, ...userWithoutPassword } = user;
-
-    console.log("✅ Usuario autenticado:", userWithoutPassword.username);
     res.json(userWithoutPassword);
   });
 
+  // Self-service profile: any signed-in user, including one who must change a password
+  app.patch("/api/auth/me", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const parsed = updateProfileSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const user = await storage.getUser(req.session.userId!);
+      if (!user) {
+        return res.status(401).json({ error: "No autorizado" });
+      }
+
+      const { name, currentPassword, newPassword } = parsed.data;
+      const updates: Partial<User> = {};
+      if (name) updates.name = name;
+      if (newPassword) {
+        if (!(await bcrypt.compare(currentPassword!, user.password))) {
+          return res.status(400).json({ error: "La contraseña actual es incorrecta" });
+        }
+        if (currentPassword === newPassword) {
+          return res.status(400).json({ error: "La nueva contraseña debe ser distinta de la actual" });
+        }
+        updates.password = newPassword;
+        updates.mustChangePassword = "false";
+      }
+
+      const updated = await storage.updateUser(user.id, updates);
+      if (newPassword) {
+        // Sign out the user's other devices; the current session stays valid
+        await storage.deleteUserSessions(user.id, req.sessionID);
+      }
+
+      const { password, ...userWithoutPassword } = updated!;
+      res.json(userWithoutPassword);
+    } catch (error) {
+      console.error("❌ Error al actualizar perfil:", error);
+      res.status(500).json({ error: "Error al actualizar perfil" });
+    }
+  });
+
   app.get("/api/users", requireAdmin, async (req, res) => {
     try {
       const users = await storage.getUsers();
@@ -155,9 +408,10 @@ export async function registerRoutes(
       const { id } = req.params;
       const updateSchema = z.object({
         name: z.string().optional(),
+        email: userEmailSchema.optional(),
         role: z.enum(["admin", "technician"]).optional(),
         active: z.enum(["true", "false"]).optional(),
-        password: z.string().min(4).optional(),
+        password: passwordSchema.optional(),
       });
 
       const parsed = updateSchema.safeParse(req.body);
@@ -165,10 +419,15 @@ export async function registerRoutes(
         return res.status(400).json({ error: parsed.error.errors });
       }
 
-      const user = await storage.updateUser(id, parsed.data);
+      // A password set by an admin is known to them, so the owner must replace it
+      const mustChangePassword = parsed.data.password && id !== req.session.userId ? "true" : undefined;
+      const user = await storage.updateUser(id, { ...parsed.data, mustChangePassword });
       if (!user) {
         return res.status(404).json({ error: "Usuario no encontrado" });
       }
+      if (parsed.data.active === "false") {
+        await storage.deleteUserSessions(id);
+      }
 
       const { password, ...userWithoutPassword } = user;
       res.json(userWithoutPassword);
@@ -195,7 +454,165 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/buses", async (req, res) => {
+  // ── User notifications (own) ──────────────────────────────────────────
+
+  app.get("/api/user-notifications", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const notifications = await storage.getUserNotifications(req.session.userId!);
+      res.json(notifications);
+    } catch (error) {
+      console.error("❌ Error al obtener notificaciones:", error);
+      res.status(500).json({ error: "Error al obtener notificaciones" });
+    }
+  });
+
+  // Body { ids } marks those notifications as read; without ids, all of them
+  app.post("/api/user-notifications/read", requireAuth, async (req: AuthRequest, res) => {
+    try {
+      const parsed = z.object({ ids: z.array(z.string()).optional() }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const updated = await storage.markUserNotificationsRead(req.session.userId!, parsed.data.ids);
+      res.json({ updated });
+    } catch (error) {
+      console.error("❌ Error al actualizar notificaciones:", error);
+      res.status(500).json({ error: "Error al actualizar notificaciones" });
+    }
+  });
+
+  // ── Sessions ────────────────────────────────────────────────────────
+
+  app.get("/api/sessions", requireAdmin, async (req, res) => {
+    try {
+      const sessions = await storage.getActiveSessions();
+      res.json(sessions.map(s => ({ ...s, current: s.sid === req.sessionID })));
+    } catch (error) {
+      console.error("❌ Error al obtener sesiones:", error);
+      res.status(500).json({ error: "Error al obtener sesiones" });
+    }
+  });
+
+  app.delete("/api/sessions/:sid", requireAdmin, async (req, res) => {
+    try {
+      if (req.params.sid === req.sessionID) {
+        return res.status(400).json({ error: "Use cerrar sesión para terminar su propia sesión" });
+      }
+      const deleted = await storage.deleteSession(req.params.sid);
+      if (!deleted) {
+        return res.status(404).json({ error: "Sesión no encontrada" });
+      }
+      res.json({ message: "Sesión revocada" });
+    } catch (error) {
+      console.error("❌ Error al revocar sesión:", error);
+      res.status(500).json({ error: "Error al revocar sesión" });
+    }
+  });
+
+  app.get("/api/login-attempts", requireAdmin, async (_req, res) => {
+    try {
+      const attempts = await storage.getLoginAttempts();
+      res.json(attempts);
+    } catch (error) {
+      console.error("❌ Error al obtener intentos de acceso:", error);
+      res.status(500).json({ error: "Error al obtener intentos de acceso" });
+    }
+  });
+
+  // ── Live updates (SSE) ────────────────────────────────────────────────
+
+  app.get("/api/events", requireAuth, (req: AuthRequest, res) => {
+    subscribe(req, res, () => isSessionActive(req));
+  });
+
+  // ── Kiosk tokens ──────────────────────────────────────────────────────
+
+  app.get("/api/kiosk-tokens", requireAdmin, async (_req, res) => {
+    try {
+      const tokens = await storage.getKioskTokens();
+      res.json(tokens);
+    } catch (error) {
+      console.error("❌ Error al obtener pantallas:", error);
+      res.status(500).json({ error: "Error al obtener pantallas" });
+    }
+  });
+
+  // The plain token is only returned here; it cannot be recovered later
+  app.post("/api/kiosk-tokens", requireAdmin, async (req, res) => {
+    try {
+      const parsed = insertKioskTokenSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const token = crypto.randomBytes(24).toString("base64url");
+      const created = await storage.createKioskToken(parsed.data.name, hashKioskToken(token));
+      res.status(201).json({ ...created, token });
+    } catch (error) {
+      console.error("❌ Error al crear pantalla:", error);
+      res.status(500).json({ error: "Error al crear pantalla" });
+    }
+  });
+
+  app.delete("/api/kiosk-tokens/:id", requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteKioskToken(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: "Pantalla no encontrada" });
+      }
+      res.json({ message: "Acceso de pantalla revocado" });
+    } catch (error) {
+      console.error("❌ Error al revocar pantalla:", error);
+      res.status(500).json({ error: "Error al revocar pantalla" });
+    }
+  });
+
+  // ── Scheduled jobs ─────────────────────────────────────────────────────
+
+  app.get("/api/jobs", requireAdmin, async (_req, res) => {
+    try {
+      res.json(await scheduler.list());
+    } catch (error) {
+      console.error("❌ Error al obtener tareas programadas:", error);
+      res.status(500).json({ error: "Error al obtener tareas programadas" });
+    }
+  });
+
+  app.get("/api/jobs/runs", requireAdmin, async (req, res) => {
+    try {
+      const job = typeof req.query.job === "string" ? req.query.job : undefined;
+      res.json(await storage.getJobRuns(job));
+    } catch (error) {
+      console.error("❌ Error al obtener historial de tareas:", error);
+      res.status(500).json({ error: "Error al obtener historial de tareas" });
+    }
+  });
+
+  app.post("/api/jobs/:name/run", requireAdmin, async (req: AuthRequest, res) => {
+    try {
+      const user = await getActiveSessionUser(req);
+      const run = await scheduler.runNow(req.params.name, user?.name ?? "");
+      if (!run) return res.status(404).json({ error: "Tarea no encontrada" });
+      res.json(run);
+    } catch (error) {
+      console.error("❌ Error al ejecutar tarea:", error);
+      res.status(500).json({ error: "Error al ejecutar tarea" });
+    }
+  });
+
+  app.delete("/api/users/:id/sessions", requireAdmin, async (req, res) => {
+    try {
+      if (req.session.userId === req.params.id) {
+        return res.status(400).json({ error: "No puede revocar sus propias sesiones" });
+      }
+      const count = await storage.deleteUserSessions(req.params.id);
+      res.json({ message: `${count} sesión(es) revocada(s)` });
+    } catch (error) {
+      console.error("❌ Error al revocar sesiones:", error);
+      res.status(500).json({ error: "Error al revocar sesiones" });
+    }
+  });
+
+  app.get("/api/buses", requirePermission(Permission.BUSES_VIEW), async (req, res) => {
     try {
       const buses = await storage.getBuses();
       res.json(buses);
@@ -204,7 +621,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/buses", async (req, res) => {
+  app.post("/api/buses", requirePermission(Permission.BUSES_EDIT), async (req, res) => {
     try {
       const parsed = insertBusSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -212,12 +629,13 @@ export async function registerRoutes(
       }
       const bus = await storage.createBus(parsed.data);
       res.status(201).json(bus);
+      void publishChange({ type: ChangeEventType.BUS, busId: bus.id });
     } catch (error) {
       res.status(500).json({ error: "Error al crear bus" });
     }
   });
 
-  app.patch("/api/buses/:id", async (req, res) => {
+  app.patch("/api/buses/:id", requirePermission(Permission.BUSES_EDIT), async (req, res) => {
     try {
       const { id } = req.params;
       const updateSchema = z.object({
@@ -235,12 +653,13 @@ export async function registerRoutes(
       }
 
       res.json(bus);
+      void publishChange({ type: ChangeEventType.BUS, busId: bus.id });
     } catch (error) {
       res.status(500).json({ error: "Error al actualizar bus" });
     }
   });
 
-  app.post("/api/buses/bulk", async (req, res) => {
+  app.post("/api/buses/bulk", requirePermission(Permission.BUSES_EDIT), async (req, res) => {
     try {
       const bulkSchema = z.object({
         buses: z.array(z.object({
@@ -279,19 +698,24 @@ export async function registerRoutes(
       }
 
       res.status(201).json({ created: created.length, errors });
+      if (created.length > 0) {
+        void publishChange({ type: ChangeEventType.BUS });
+      }
     } catch (error) {
       res.status(500).json({ error: "Error al crear buses en masa" });
     }
   });
 
-  app.delete("/api/buses/:id", async (req, res) => {
+  app.delete("/api/buses/:id", requirePermission(Permission.BUSES_DELETE), async (req, res) => {
     try {
       const { id } = req.params;
-      const deleted = await storage.deleteBus(id);
-      if (!deleted) {
+      const attachments = await storage.deleteBus(id);
+      if (!attachments) {
         return res.status(404).json({ error: "Bus no encontrado" });
       }
+      removeAttachmentFiles(...attachments.flatMap(a => [a.filePath, a.thumbnailPath]));
       res.json({ message: "Bus eliminado" });
+      void publishChange({ type: ChangeEventType.BUS, busId: id });
     } catch (error) {
       console.error("❌ Error al eliminar bus:", error);
       res.status(500).json({ error: "Error al eliminar bus" });
@@ -313,7 +737,7 @@ export async function registerRoutes(
   });
   const upload = multer({ storage: fileStorage, limits: { fileSize: 20 * 1024 * 1024 } });
 
-  app.get("/api/buses/:id/documents", async (req, res) => {
+  app.get("/api/buses/:id/documents", requirePermission(Permission.DOCUMENTS_VIEW), async (req, res) => {
     try {
       const docs = await storage.getBusDocuments(req.params.id);
       res.json(docs);
@@ -323,9 +747,14 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/buses/:id/documents", upload.single("file"), async (req, res) => {
+  app.post("/api/buses/:id/documents", requirePermission(Permission.DOCUMENTS_UPLOAD), upload.single("file"), async (req, res) => {
+    const file = req.file;
+    // Every rejected upload leaves multer's copy behind unless removed here
+    const discardFile = () => {
+      if (file) fs.unlink(file.path, () => {});
+    };
     try {
-      if (!req.file) return res.status(400).json({ error: "Archivo requerido" });
+      if (!file) return res.status(400).json({ error: "Archivo requerido" });
       const docSchema = z.object({
         docType: z.string().min(1),
         notes: z.string().optional(),
@@ -333,25 +762,46 @@ export async function registerRoutes(
         driverId: z.string().optional(),
       });
       const parsed = docSchema.safeParse(req.body);
-      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      if (!parsed.success) {
+        discardFile();
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const docTypes = await storage.getDocumentTypes();
+      const docType = docTypes.find(t => t.key === parsed.data.docType);
+      if (!docType) {
+        discardFile();
+        return res.status(400).json({ error: "Tipo de documento no válido" });
+      }
+      if ((docType.scope === "driver") !== !!parsed.data.driverId) {
+        discardFile();
+        return res.status(400).json({ error: "El tipo de documento no corresponde al destino" });
+      }
+      const bus = await storage.getBus(req.params.id);
+      if (!bus) {
+        discardFile();
+        return res.status(404).json({ error: "Bus no encontrado" });
+      }
 
       const doc = await storage.createBusDocument({
-        busId: req.params.id,
+        busId: bus.id,
         docType: parsed.data.docType,
-        fileName: req.file.originalname,
-        filePath: req.file.filename,
+        fileName: file.originalname,
+        filePath: file.filename,
         notes: parsed.data.notes || null,
         expiresAt: parsed.data.expiresAt ? new Date(parsed.data.expiresAt) : null,
         driverId: parsed.data.driverId || null,
       });
       res.status(201).json(doc);
+      void publishChange({ type: ChangeEventType.DOCUMENT, busId: doc.busId, id: doc.id });
     } catch (error) {
       console.error("❌ Error al guardar documento:", error);
+      discardFile();
       res.status(500).json({ error: "Error al guardar documento" });
     }
   });
 
-  app.delete("/api/buses/:busId/documents/:docId", async (req, res) => {
+  app.delete("/api/buses/:busId/documents/:docId", requirePermission(Permission.DOCUMENTS_DELETE), async (req, res) => {
     try {
       const doc = await storage.deleteBusDocument(req.params.docId);
       if (!doc) return res.status(404).json({ error: "Documento no encontrado" });
@@ -359,12 +809,13 @@ export async function registerRoutes(
       const filePath = path.join(uploadsDir, doc.filePath);
       if (fs.existsSync(filePath)) fs.unlinkSync(filePath);
       res.json({ message: "Documento eliminado" });
+      void publishChange({ type: ChangeEventType.DOCUMENT, busId: doc.busId, id: doc.id });
     } catch {
       res.status(500).json({ error: "Error al eliminar documento" });
     }
   });
 
-  app.get("/api/buses/:busId/documents/:docId/download", async (req, res) => {
+  app.get("/api/buses/:busId/documents/:docId/download", requirePermission(Permission.DOCUMENTS_VIEW), async (req, res) => {
     try {
       const docs = await storage.getBusDocuments(req.params.busId);
       const doc = docs.find(d => d.id === req.params.docId);
@@ -378,7 +829,7 @@ export async function registerRoutes(
   });
 
   // Preview endpoint — serves file inline
-  app.get("/api/buses/:busId/documents/:docId/preview", async (req, res) => {
+  app.get("/api/buses/:busId/documents/:docId/preview", requirePermission(Permission.DOCUMENTS_VIEW), async (req, res) => {
     try {
       const docs = await storage.getBusDocuments(req.params.busId);
       const doc = docs.find(d => d.id === req.params.docId);
@@ -407,7 +858,7 @@ export async function registerRoutes(
   });
 
   // Expiring documents endpoint
-  app.get("/api/documents/expiring", async (req, res) => {
+  app.get("/api/documents/expiring", requirePermission(Permission.DOCUMENTS_VIEW), async (req, res) => {
     try {
       const expiring = await storage.getExpiringDocuments();
       res.json(expiring);
@@ -417,9 +868,65 @@ export async function registerRoutes(
     }
   });
 
+  // ── Document types ────────────────────────────────────────────────────
+
+  app.get("/api/document-types", requirePermission(Permission.DOCUMENTS_VIEW), async (_req, res) => {
+    try {
+      const docTypes = await storage.getDocumentTypes();
+      res.json(docTypes);
+    } catch (error) {
+      console.error("❌ Error al obtener tipos de documento:", error);
+      res.status(500).json({ error: "Error al obtener tipos de documento" });
+    }
+  });
+
+  app.post("/api/document-types", requirePermission(Permission.DOCUMENT_TYPES_MANAGE), async (req, res) => {
+    try {
+      const parsed = insertDocumentTypeSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      const docType = await storage.createDocumentType(parsed.data);
+      res.status(201).json(docType);
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({ error: "Ya existe un tipo de documento con esa clave" });
+      }
+      console.error("❌ Error al crear tipo de documento:", error);
+      res.status(500).json({ error: "Error al crear tipo de documento" });
+    }
+  });
+
+  // The key is referenced by stored documents, so it cannot be changed.
+  app.patch("/api/document-types/:id", requirePermission(Permission.DOCUMENT_TYPES_MANAGE), async (req, res) => {
+    try {
+      const parsed = insertDocumentTypeSchema.omit({ key: true }).partial().safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      const docType = await storage.updateDocumentType(req.params.id, parsed.data);
+      if (!docType) return res.status(404).json({ error: "Tipo de documento no encontrado" });
+      res.json(docType);
+    } catch (error) {
+      console.error("❌ Error al actualizar tipo de documento:", error);
+      res.status(500).json({ error: "Error al actualizar tipo de documento" });
+    }
+  });
+
+  app.delete("/api/document-types/:id", requirePermission(Permission.DOCUMENT_TYPES_MANAGE), async (req, res) => {
+    try {
+      const docType = await storage.getDocumentType(req.params.id);
+      if (!docType) return res.status(404).json({ error: "Tipo de documento no encontrado" });
+      if (await storage.countDocumentsOfType(docType.key) > 0) {
+        return res.status(409).json({ error: "Hay documentos cargados con este tipo" });
+      }
+      await storage.deleteDocumentType(docType.id);
+      res.json({ message: "Tipo de documento eliminado" });
+    } catch (error) {
+      console.error("❌ Error al eliminar tipo de documento:", error);
+      res.status(500).json({ error: "Error al eliminar tipo de documento" });
+    }
+  });
+
   // ── Drivers ───────────────────────────────────────────────────────────
 
-  app.get("/api/drivers", async (_req, res) => {
+  app.get("/api/drivers", requirePermission(Permission.DRIVERS_VIEW), async (_req, res) => {
     try {
       const allDrivers = await storage.getDrivers();
       res.json(allDrivers);
@@ -429,7 +936,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/drivers/search", async (req, res) => {
+  app.get("/api/drivers/search", requirePermission(Permission.DRIVERS_VIEW), async (req, res) => {
     try {
       const query = (req.query.q as string) || "";
       const results = await storage.searchDrivers(query);
@@ -440,7 +947,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/drivers", async (req, res) => {
+  app.post("/api/drivers", requirePermission(Permission.DRIVERS_EDIT), async (req, res) => {
     try {
       const schema = z.object({
         name: z.string().min(1),
@@ -459,7 +966,7 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/buses/:id/drivers", async (req, res) => {
+  app.get("/api/buses/:id/drivers", requirePermission(Permission.DRIVERS_VIEW), async (req, res) => {
     try {
       const busDriversList = await storage.getBusDrivers(req.params.id);
       res.json(busDriversList);
@@ -469,7 +976,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/buses/:id/drivers", async (req, res) => {
+  app.post("/api/buses/:id/drivers", requirePermission(Permission.DRIVERS_EDIT), async (req, res) => {
     try {
       const schema = z.object({
         driverId: z.string().min(1),
@@ -479,17 +986,19 @@ export async function registerRoutes(
       if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
       const result = await storage.assignDriverToBus(req.params.id, parsed.data.driverId, parsed.data.role);
       res.status(201).json(result);
+      void publishChange({ type: ChangeEventType.BUS, busId: req.params.id });
     } catch (error) {
       console.error("❌ Error al asignar conductor:", error);
       res.status(500).json({ error: "Error al asignar conductor" });
     }
   });
 
-  app.delete("/api/buses/:busId/drivers/:driverId", async (req, res) => {
+  app.delete("/api/buses/:busId/drivers/:driverId", requirePermission(Permission.DRIVERS_REMOVE), async (req, res) => {
     try {
       const ok = await storage.removeDriverFromBus(req.params.busId, req.params.driverId);
       if (!ok) return res.status(404).json({ error: "Asignación no encontrada" });
       res.json({ message: "Conductor desasignado" });
+      void publishChange({ type: ChangeEventType.BUS, busId: req.params.busId });
     } catch (error) {
       console.error("❌ Error al desasignar conductor:", error);
       res.status(500).json({ error: "Error al desasignar conductor" });
@@ -498,7 +1007,7 @@ export async function registerRoutes(
 
   // ── Email Recipients ─────────────────────────────────────────────────
 
-  app.get("/api/email-recipients", async (_req, res) => {
+  app.get("/api/email-recipients", requirePermission(Permission.EMAIL_MANAGE), async (_req, res) => {
     try {
       const recipients = await storage.getEmailRecipients();
       res.json(recipients);
@@ -508,7 +1017,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/email-recipients", async (req, res) => {
+  app.post("/api/email-recipients", requirePermission(Permission.EMAIL_MANAGE), async (req, res) => {
     try {
       const schema = z.object({
         email: z.string().email(),
@@ -527,7 +1036,7 @@ export async function registerRoutes(
     }
   });
 
-  app.delete("/api/email-recipients/:id", async (req, res) => {
+  app.delete("/api/email-recipients/:id", requirePermission(Permission.EMAIL_MANAGE), async (req, res) => {
     try {
       const ok = await storage.deleteEmailRecipient(req.params.id);
       if (!ok) return res.status(404).json({ error: "Destinatario no encontrado" });
@@ -538,7 +1047,7 @@ export async function registerRoutes(
     }
   });
 
-  app.patch("/api/email-recipients/:id/toggle", async (req, res) => {
+  app.patch("/api/email-recipients/:id/toggle", requirePermission(Permission.EMAIL_MANAGE), async (req, res) => {
     try {
       const updated = await storage.toggleEmailRecipient(req.params.id);
       if (!updated) return res.status(404).json({ error: "Destinatario no encontrado" });
@@ -549,7 +1058,49 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/email-test", async (_req, res) => {
+  app.patch("/api/email-recipients/:id/subscriptions", requirePermission(Permission.EMAIL_MANAGE), async (req, res) => {
+    try {
+      const parsed = recipientSubscriptionsSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      const updated = await storage.updateEmailRecipientSubscriptions(req.params.id, parsed.data);
+      if (!updated) return res.status(404).json({ error: "Destinatario no encontrado" });
+      res.json(updated);
+    } catch (error) {
+      console.error("❌ Error al actualizar destinatario:", error);
+      res.status(500).json({ error: "Error al actualizar destinatario" });
+    }
+  });
+
+  app.get("/api/notifications", requirePermission(Permission.EMAIL_MANAGE), async (_req, res) => {
+    try {
+      const entries = await storage.getNotificationLog();
+      res.json(entries);
+    } catch (error) {
+      console.error("❌ Error al obtener historial de notificaciones:", error);
+      res.status(500).json({ error: "Error al obtener historial de notificaciones" });
+    }
+  });
+
+  app.post("/api/notifications/:id/resend", requirePermission(Permission.EMAIL_MANAGE), async (req, res) => {
+    try {
+      const entry = await storage.getNotificationLogEntry(req.params.id);
+      if (!entry) return res.status(404).json({ error: "Notificación no encontrada" });
+      const { resendNotification } = await import("./alerts");
+      const result = await resendNotification(entry);
+      if (result === "not_expiring") {
+        return res.status(409).json({ error: "El documento ya no está por vencer" });
+      }
+      if (result === "failed") {
+        return res.status(500).json({ error: "No se pudo enviar el email. Verifica la configuración SMTP." });
+      }
+      res.json({ message: `Email reenviado a ${entry.recipient}` });
+    } catch (error) {
+      console.error("❌ Error al reenviar notificación:", error);
+      res.status(500).json({ error: "Error al reenviar notificación" });
+    }
+  });
+
+  app.post("/api/email-test", requirePermission(Permission.EMAIL_MANAGE), async (_req, res) => {
     try {
       const expiring = await storage.getExpiringDocuments();
       const recipients = await storage.getEmailRecipients();
@@ -573,13 +1124,17 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/incidents", async (req, res) => {
+  app.get("/api/incidents", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
     try {
-      const { status, equipmentType, busId, limit } = req.query;
+      const { status, equipmentType, busId, assignedTo, priority, overdue, sort, limit } = req.query;
       const incidents = await storage.getIncidents({
         status: status as string | undefined,
         equipmentType: equipmentType as string | undefined,
         busId: busId as string | undefined,
+        assignedTo: assignedTo as string | undefined,
+        priority: priority as string | undefined,
+        overdue: overdue === "true",
+        byPriority: sort === "priority",
         limit: limit ? parseInt(limit as string) : undefined,
       });
       res.json(incidents);
@@ -588,7 +1143,44 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/incidents/:id", async (req, res) => {
+  // Personal work queue: open incidents assigned to the current user, most urgent first
+  app.get("/api/incidents/mine", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
+    try {
+      const incidents = await storage.getIncidents({
+        assignedTo: req.session.userId!,
+        statuses: OpenIncidentStatuses,
+        byPriority: true,
+        oldestFirst: true,
+      });
+      res.json(incidents);
+    } catch (error) {
+      console.error("❌ Error al obtener trabajos asignados:", error);
+      res.status(500).json({ error: "Error al obtener trabajos asignados" });
+    }
+  });
+
+  app.get("/api/technicians", requirePermission(Permission.INCIDENTS_VIEW), async (_req, res) => {
+    try {
+      const technicians = await storage.getTechnicians();
+      res.json(technicians.map(({ id, name, username }) => ({ id, name, username })));
+    } catch (error) {
+      console.error("❌ Error al obtener técnicos:", error);
+      res.status(500).json({ error: "Error al obtener técnicos" });
+    }
+  });
+
+  // Users that can be @mentioned in incident comments
+  app.get("/api/users/mentionable", requirePermission(Permission.INCIDENTS_VIEW), async (_req, res) => {
+    try {
+      const activeUsers = await storage.getActiveUsers();
+      res.json(activeUsers.map(({ id, name, username }) => ({ id, name, username })));
+    } catch (error) {
+      console.error("❌ Error al obtener usuarios:", error);
+      res.status(500).json({ error: "Error al obtener usuarios" });
+    }
+  });
+
+  app.get("/api/incidents/:id", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
     try {
       const incident = await storage.getIncident(req.params.id);
       if (!incident) {
@@ -600,7 +1192,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/incidents", async (req, res) => {
+  app.post("/api/incidents", requirePermission(Permission.INCIDENTS_CREATE), async (req, res) => {
     try {
       const parsed = incidentFormSchema.safeParse(req.body);
       if (!parsed.success) {
@@ -608,6 +1200,16 @@ export async function registerRoutes(
       }
 
       const { cameraChannels, ...restData } = parsed.data;
+      const actor = await storage.getUser(req.session.userId!);
+
+      if (restData.assignedTo) {
+        if (!hasPermission(actor?.role, Permission.INCIDENTS_ASSIGN)) {
+          return res.status(403).json({ error: "Acceso denegado" });
+        }
+        if (!(await isAssignableTechnician(restData.assignedTo))) {
+          return res.status(400).json({ error: "El usuario asignado debe ser un técnico activo" });
+        }
+      }
       const createdIncidents = [];
 
       if (restData.equipmentType === "camera" && cameraChannels && cameraChannels.length > 0) {
@@ -616,7 +1218,7 @@ export async function registerRoutes(
             ...restData,
             cameraChannel: channel,
             status: "pending",
-          });
+          }, actor);
           createdIncidents.push(incident);
         }
       } else {
@@ -624,21 +1226,27 @@ export async function registerRoutes(
           ...restData,
           cameraChannel: undefined,
           status: "pending",
-        });
+        }, actor);
         createdIncidents.push(incident);
       }
 
       res.status(201).json(createdIncidents.length === 1 ? createdIncidents[0] : createdIncidents);
+      // New incidents also mark the affected equipment as failing
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: restData.busId });
+      void publishChange({ type: ChangeEventType.EQUIPMENT, busId: restData.busId });
     } catch (error) {
       res.status(500).json({ error: "Error al crear incidencia" });
     }
   });
 
-  app.patch("/api/incidents/:id", async (req, res) => {
+  app.patch("/api/incidents/:id", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
     try {
       const updateSchema = z.object({
         status: z.enum(["pending", "in_progress", "resolved"]).optional(),
+        priority: z.enum(IncidentPriorityValues).optional(),
         resolutionNotes: z.string().optional(),
+        swap: deviceSwapSchema.optional(),
+        parts: partUsageSchema.optional(),
       });
 
       const parsed = updateSchema.safeParse(req.body);
@@ -646,27 +1254,744 @@ export async function registerRoutes(
         return res.status(400).json({ error: parsed.error.errors });
       }
 
-      const incident = await storage.updateIncident(req.params.id, parsed.data);
-      if (!incident) {
+      const { swap, parts, ...updates } = parsed.data;
+      const current = await storage.getIncident(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: "Incidencia no encontrada" });
+      }
+      if (current.status === "resolved" && updates.status && updates.status !== "resolved") {
+        return res.status(400).json({ error: "Use la reapertura para volver a abrir una incidencia resuelta" });
+      }
+
+      if (swap) {
+        if (current.incidentType !== "replacement" || updates.status !== "resolved" || current.status === "resolved") {
+          return res.status(400).json({ error: "Solo se registran cambios de equipo al resolver un reemplazo" });
+        }
+        if (swap.outgoingDeviceId) {
+          const outgoing = await storage.getDevice(swap.outgoingDeviceId);
+          if (!outgoing || outgoing.busId !== current.busId || outgoing.equipmentType !== current.equipmentType) {
+            return res.status(400).json({ error: "El equipo retirado no está instalado en este bus" });
+          }
+        }
+        if (swap.incomingDeviceId) {
+          const incoming = await storage.getDevice(swap.incomingDeviceId);
+          if (!incoming || incoming.location === "bus" || incoming.equipmentType !== current.equipmentType) {
+            return res.status(400).json({ error: "El equipo instalado no está disponible en inventario" });
+          }
+        }
+      }
+
+      if (parts && parts.length > 0) {
+        if (updates.status !== "resolved" || current.status === "resolved") {
+          return res.status(400).json({ error: "Los repuestos se registran al resolver la incidencia" });
+        }
+        const shortage = await findStockShortage(parts);
+        if (shortage) {
+          return res.status(400).json({ error: shortage });
+        }
+      }
+
+      const actor = await storage.getUser(req.session.userId!);
+      const result = await storage.updateIncidentWithWork(req.params.id, updates, { swap, parts }, actor);
+      if (!result) {
         return res.status(404).json({ error: "Incidencia no encontrada" });
       }
+      const { incident, lowStock } = result;
       res.json(incident);
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: incident.busId, id: incident.id });
+      if (updates.status || swap) {
+        void publishChange({ type: ChangeEventType.EQUIPMENT, busId: incident.busId });
+      }
+
+      if (lowStock.length > 0) {
+        void notifyLowStock(lowStock);
+      }
     } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al actualizar incidencia:", error);
       res.status(500).json({ error: "Error al actualizar incidencia" });
     }
   });
 
-  app.get("/api/equipment-status", async (req, res) => {
+  app.patch("/api/incidents/:id/assignment", requirePermission(Permission.INCIDENTS_ASSIGN), async (req, res) => {
     try {
-      const { busId } = req.query;
-      const statuses = await storage.getEquipmentStatus(busId as string | undefined);
-      res.json(statuses);
-    } catch (error) {
-      res.status(500).json({ error: "Error al obtener estado de equipos" });
-    }
-  });
+      const assignSchema = z.object({
+        assignedTo: z.string().min(1).nullable(),
+      });
 
-  app.get("/api/camera-status", async (req, res) => {
+      const parsed = assignSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      if (parsed.data.assignedTo) {
+        if (!(await isAssignableTechnician(parsed.data.assignedTo))) {
+          return res.status(400).json({ error: "El usuario asignado debe ser un técnico activo" });
+        }
+      }
+
+      const actor = await storage.getUser(req.session.userId!);
+      const incident = await storage.updateIncident(req.params.id, { assignedTo: parsed.data.assignedTo }, actor);
+      if (!incident) {
+        return res.status(404).json({ error: "Incidencia no encontrada" });
+      }
+      res.json(incident);
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: incident.busId, id: incident.id });
+    } catch (error) {
+      console.error("❌ Error al asignar incidencia:", error);
+      res.status(500).json({ error: "Error al asignar incidencia" });
+    }
+  });
+
+  // Resolved → pending, keeping the previous resolution in the history
+  app.post("/api/incidents/:id/reopen", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
+    try {
+      const parsed = reopenIncidentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const current = await storage.getIncident(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: "Incidencia no encontrada" });
+      }
+      if (current.status !== "resolved") {
+        return res.status(400).json({ error: "Solo se reabren incidencias resueltas" });
+      }
+
+      const actor = await storage.getUser(req.session.userId!);
+      const incident = await storage.reopenIncident(current.id, parsed.data.reason, actor);
+      if (!incident) {
+        return res.status(404).json({ error: "Incidencia no encontrada" });
+      }
+      res.json(incident);
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: incident.busId, id: incident.id });
+      void publishChange({ type: ChangeEventType.EQUIPMENT, busId: incident.busId });
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al reabrir incidencia:", error);
+      res.status(500).json({ error: "Error al reabrir incidencia" });
+    }
+  });
+
+  app.get("/api/incidents/:id/history", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const incident = await storage.getIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ error: "Incidencia no encontrada" });
+      }
+      const events = await storage.getIncidentEvents(incident.id);
+      res.json(events);
+    } catch (error) {
+      console.error("❌ Error al obtener historial de incidencia:", error);
+      res.status(500).json({ error: "Error al obtener historial de incidencia" });
+    }
+  });
+
+  app.get("/api/incidents/:id/parts", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const consumptions = await storage.getIncidentPartConsumptions(req.params.id);
+      res.json(consumptions);
+    } catch (error) {
+      console.error("❌ Error al obtener repuestos de incidencia:", error);
+      res.status(500).json({ error: "Error al obtener repuestos de incidencia" });
+    }
+  });
+
+  // ── Incident attachments (photo/video evidence) ─────────────────────────
+  if (!fs.existsSync(ATTACHMENTS_DIR)) {
+    fs.mkdirSync(ATTACHMENTS_DIR, { recursive: true });
+  }
+
+  const attachmentUpload = multer({
+    storage: multer.diskStorage({
+      destination: (_req, _file, cb) => cb(null, ATTACHMENTS_DIR),
+      filename: (_req, file, cb) => {
+        const unique = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+        cb(null, `${unique}${path.extname(file.originalname).toLowerCase()}`);
+      },
+    }),
+    limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_ATTACHMENTS_PER_UPLOAD },
+    fileFilter: (_req, file, cb) => isEvidenceMimeType(file.mimetype)
+      ? cb(null, true)
+      : cb(new multer.MulterError("LIMIT_UNEXPECTED_FILE", file.fieldname)),
+  });
+
+  const attachmentUploadErrors: Partial<Record<multer.ErrorCode, string>> = {
+    LIMIT_FILE_SIZE: `Cada archivo puede pesar como máximo ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`,
+    LIMIT_FILE_COUNT: `Adjunte como máximo ${MAX_ATTACHMENTS_PER_UPLOAD} archivos`,
+    LIMIT_UNEXPECTED_FILE: `Solo se admiten fotos y videos, hasta ${MAX_ATTACHMENTS_PER_UPLOAD} por envío`,
+  };
+
+  // Multer discards what it already wrote when it rejects an upload; the
+  // rejection itself is the client's fault, so answer 400 instead of
+  // handing it to the global error handler
+  const receiveAttachments = (req: Request, res: Response, next: NextFunction) => {
+    attachmentUpload.array("files", MAX_ATTACHMENTS_PER_UPLOAD)(req, res, (err?: unknown) => {
+      if (err instanceof multer.MulterError) {
+        return res.status(400).json({ error: attachmentUploadErrors[err.code] || "Archivo no válido" });
+      }
+      next(err);
+    });
+  };
+
+  app.get("/api/incidents/:id/attachments", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const attachments = await storage.getIncidentAttachments(req.params.id);
+      res.json(attachments);
+    } catch (error) {
+      console.error("❌ Error al obtener adjuntos:", error);
+      res.status(500).json({ error: "Error al obtener adjuntos" });
+    }
+  });
+
+  app.post(
+    "/api/incidents/:id/attachments",
+    requirePermission(Permission.ATTACHMENTS_UPLOAD),
+    receiveAttachments,
+    async (req, res) => {
+      const files = (req.files as Express.Multer.File[] | undefined) || [];
+      const thumbnails: Array<string | null> = [];
+      try {
+        const stage = z.enum(["before", "after"]).safeParse(req.body.stage);
+        if (!stage.success) {
+          removeAttachmentFiles(...files.map(f => f.filename));
+          return res.status(400).json({ error: "Indique si la evidencia es de antes o después de la reparación" });
+        }
+        if (files.length === 0) {
+          return res.status(400).json({ error: "Adjunte al menos una foto o video" });
+        }
+        const incident = await storage.getIncident(req.params.id);
+        if (!incident) {
+          removeAttachmentFiles(...files.map(f => f.filename));
+          return res.status(404).json({ error: "Incidencia no encontrada" });
+        }
+        const mimeTypes = await Promise.all(files.map(f => detectEvidenceMimeType(f.path)));
+        if (mimeTypes.some(mimeType => !mimeType)) {
+          removeAttachmentFiles(...files.map(f => f.filename));
+          return res.status(400).json({ error: "Solo se admiten fotos (JPEG, PNG, WebP, GIF) y videos (MP4, WebM, MOV)" });
+        }
+
+        const rows = [];
+        for (let i = 0; i < files.length; i++) {
+          const file = files[i];
+          const mimeType = mimeTypes[i]!;
+          const thumbnailPath = await createThumbnail(ATTACHMENTS_DIR, file.filename, mimeType);
+          thumbnails.push(thumbnailPath);
+          rows.push({
+            incidentId: incident.id,
+            stage: stage.data,
+            fileName: file.originalname,
+            filePath: file.filename,
+            mimeType,
+            size: file.size,
+            thumbnailPath,
+          });
+        }
+        const actor = await storage.getUser(req.session.userId!);
+        const attachments = await storage.createIncidentAttachments(rows, actor);
+        res.status(201).json(attachments);
+        void publishChange({ type: ChangeEventType.INCIDENT, busId: incident.busId, id: incident.id });
+      } catch (error) {
+        console.error("❌ Error al guardar adjuntos:", error);
+        removeAttachmentFiles(...files.map(f => f.filename), ...thumbnails);
+        res.status(500).json({ error: "Error al guardar adjuntos" });
+      }
+    },
+  );
+
+  app.get("/api/incidents/:id/attachments/:attachmentId/:variant(file|thumbnail)", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const attachment = await storage.getIncidentAttachment(req.params.attachmentId);
+      if (!attachment || attachment.incidentId !== req.params.id) {
+        return res.status(404).json({ error: "Adjunto no encontrado" });
+      }
+      const fileName = req.params.variant === "thumbnail" ? attachment.thumbnailPath : attachment.filePath;
+      const filePath = fileName && path.join(ATTACHMENTS_DIR, fileName);
+      if (!filePath || !fs.existsSync(filePath)) {
+        return res.status(404).json({ error: "Archivo no encontrado" });
+      }
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      if (req.params.variant === "file") {
+        // Only verified evidence types are shown in the browser; anything
+        // else (e.g. stored before the check existed) is downloaded
+        const inline = isEvidenceMimeType(attachment.mimeType);
+        res.type(inline ? attachment.mimeType : "application/octet-stream");
+        res.setHeader(
+          "Content-Disposition",
+          `${inline ? "inline" : "attachment"}; filename="${encodeURIComponent(attachment.fileName)}"`,
+        );
+      }
+      res.sendFile(filePath);
+    } catch (error) {
+      console.error("❌ Error al descargar adjunto:", error);
+      res.status(500).json({ error: "Error al descargar adjunto" });
+    }
+  });
+
+  app.delete("/api/incidents/:id/attachments/:attachmentId", requirePermission(Permission.ATTACHMENTS_DELETE), async (req, res) => {
+    try {
+      const attachment = await storage.getIncidentAttachment(req.params.attachmentId);
+      if (!attachment || attachment.incidentId !== req.params.id) {
+        return res.status(404).json({ error: "Adjunto no encontrado" });
+      }
+      await storage.deleteIncidentAttachment(attachment.id);
+      removeAttachmentFiles(attachment.filePath, attachment.thumbnailPath);
+      res.json({ message: "Adjunto eliminado" });
+    } catch (error) {
+      console.error("❌ Error al eliminar adjunto:", error);
+      res.status(500).json({ error: "Error al eliminar adjunto" });
+    }
+  });
+
+  // ── Incident comments ───────────────────────────────────────────────────
+
+  app.get("/api/incidents/:id/comments", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const user = await storage.getUser(req.session.userId!);
+      const comments = await storage.getIncidentComments(
+        req.params.id,
+        hasPermission(user?.role, Permission.INCIDENTS_VIEW_INTERNAL),
+      );
+      res.json(comments);
+    } catch (error) {
+      console.error("❌ Error al obtener comentarios:", error);
+      res.status(500).json({ error: "Error al obtener comentarios" });
+    }
+  });
+
+  app.post("/api/incidents/:id/comments", requirePermission(Permission.INCIDENTS_COMMENT), async (req, res) => {
+    try {
+      const parsed = incidentCommentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+      const author = await storage.getUser(req.session.userId!);
+      if (!author) {
+        return res.status(401).json({ error: "No autorizado" });
+      }
+      if (parsed.data.internal && !hasPermission(author.role, Permission.INCIDENTS_VIEW_INTERNAL)) {
+        return res.status(403).json({ error: "Acceso denegado" });
+      }
+      const incident = await storage.getIncident(req.params.id);
+      if (!incident) {
+        return res.status(404).json({ error: "Incidencia no encontrada" });
+      }
+
+      const mentioned = await findMentionedUsers(parsed.data.body, parsed.data.internal);
+      const comment = await storage.createIncidentComment({
+        incidentId: incident.id,
+        body: parsed.data.body,
+        internal: parsed.data.internal,
+        mentionedUserIds: mentioned.map(u => u.id),
+      }, author);
+      res.status(201).json(comment);
+
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: incident.busId, id: incident.id });
+      if (mentioned.some(u => u.id !== author.id)) {
+        void publishChange({ type: ChangeEventType.NOTIFICATION });
+      }
+    } catch (error) {
+      console.error("❌ Error al guardar comentario:", error);
+      res.status(500).json({ error: "Error al guardar comentario" });
+    }
+  });
+
+  // ── Work Orders ─────────────────────────────────────────────────────
+
+  app.get("/api/work-orders", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const { status, busId, assignedTo } = req.query;
+      const orders = await storage.getWorkOrders({
+        status: status as string | undefined,
+        busId: busId as string | undefined,
+        assignedTo: assignedTo as string | undefined,
+      });
+      res.json(orders);
+    } catch (error) {
+      console.error("❌ Error al obtener órdenes de trabajo:", error);
+      res.status(500).json({ error: "Error al obtener órdenes de trabajo" });
+    }
+  });
+
+  app.get("/api/work-orders/:id", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const order = await storage.getWorkOrderDetail(req.params.id);
+      if (!order) return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      res.json(order);
+    } catch (error) {
+      console.error("❌ Error al obtener orden de trabajo:", error);
+      res.status(500).json({ error: "Error al obtener orden de trabajo" });
+    }
+  });
+
+  app.post("/api/work-orders", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
+    try {
+      const parsed = workOrderFormSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const bus = await storage.getBus(parsed.data.busId);
+      if (!bus) {
+        return res.status(404).json({ error: "Bus no encontrado" });
+      }
+      const actor = (await storage.getUser(req.session.userId!))!;
+      if (parsed.data.assignedTo) {
+        if (!hasPermission(actor.role, Permission.INCIDENTS_ASSIGN)) {
+          return res.status(403).json({ error: "No tiene permiso para asignar técnicos" });
+        }
+        if (!(await isAssignableTechnician(parsed.data.assignedTo))) {
+          return res.status(400).json({ error: "El usuario asignado debe ser un técnico activo" });
+        }
+      }
+
+      const order = await storage.createWorkOrder(parsed.data, actor);
+      res.status(201).json(order);
+      void publishChange({ type: ChangeEventType.WORK_ORDER, busId: order.busId, id: order.id });
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: order.busId });
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al crear orden de trabajo:", error);
+      res.status(500).json({ error: "Error al crear orden de trabajo" });
+    }
+  });
+
+  app.patch("/api/work-orders/:id", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
+    try {
+      const parsed = updateWorkOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const current = await storage.getWorkOrder(req.params.id);
+      if (!current) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      if (current.status === WorkOrderStatus.COMPLETED) {
+        return res.status(400).json({ error: "La orden de trabajo ya está completada" });
+      }
+
+      const actor = await storage.getUser(req.session.userId!);
+      if (parsed.data.assignedTo !== undefined && parsed.data.assignedTo !== current.assignedTo) {
+        if (!actor || !hasPermission(actor.role, Permission.INCIDENTS_ASSIGN)) {
+          return res.status(403).json({ error: "No tiene permiso para asignar técnicos" });
+        }
+        if (parsed.data.assignedTo && !(await isAssignableTechnician(parsed.data.assignedTo))) {
+          return res.status(400).json({ error: "El usuario asignado debe ser un técnico activo" });
+        }
+      }
+
+      const order = await storage.updateWorkOrder(current.id, parsed.data, actor);
+      if (!order) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      res.json(order);
+      void publishChange({ type: ChangeEventType.WORK_ORDER, busId: current.busId, id: current.id });
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: current.busId });
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al actualizar orden de trabajo:", error);
+      res.status(500).json({ error: "Error al actualizar orden de trabajo" });
+    }
+  });
+
+  app.post("/api/work-orders/:id/incidents", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
+    try {
+      const parsed = z.object({ incidentIds: z.array(z.string().min(1)).min(1) }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const order = await storage.getWorkOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      if (order.status === WorkOrderStatus.COMPLETED) {
+        return res.status(400).json({ error: "La orden de trabajo ya está completada" });
+      }
+      const actor = await storage.getUser(req.session.userId!);
+      if (!(await storage.addWorkOrderIncidents(order.id, parsed.data.incidentIds, actor))) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      res.json(await storage.getWorkOrderDetail(order.id));
+      void publishChange({ type: ChangeEventType.WORK_ORDER, busId: order.busId, id: order.id });
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: order.busId });
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al agregar incidencias a la orden:", error);
+      res.status(500).json({ error: "Error al agregar incidencias a la orden" });
+    }
+  });
+
+  app.delete("/api/work-orders/:id/incidents/:incidentId", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
+    try {
+      const order = await storage.getWorkOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      if (order.status === WorkOrderStatus.COMPLETED) {
+        return res.status(400).json({ error: "La orden de trabajo ya está completada" });
+      }
+
+      const actor = await storage.getUser(req.session.userId!);
+      const removed = await storage.removeWorkOrderIncident(order.id, req.params.incidentId, actor);
+      if (!removed) {
+        return res.status(404).json({ error: "La incidencia no pertenece a la orden" });
+      }
+      res.json({ message: "Incidencia quitada de la orden" });
+      void publishChange({ type: ChangeEventType.WORK_ORDER, busId: order.busId, id: order.id });
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: order.busId, id: req.params.incidentId });
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al quitar incidencia de la orden:", error);
+      res.status(500).json({ error: "Error al quitar incidencia de la orden" });
+    }
+  });
+
+  // Resolves every open incident of the order at once
+  app.post("/api/work-orders/:id/complete", requirePermission(Permission.INCIDENTS_UPDATE), async (req, res) => {
+    try {
+      const parsed = completeWorkOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: parsed.error.errors });
+      }
+
+      const order = await storage.getWorkOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      if (order.status === WorkOrderStatus.COMPLETED) {
+        return res.status(400).json({ error: "La orden de trabajo ya está completada" });
+      }
+      if (parsed.data.parts && parsed.data.parts.length > 0) {
+        const shortage = await findStockShortage(parsed.data.parts);
+        if (shortage) {
+          return res.status(400).json({ error: shortage });
+        }
+      }
+
+      const actor = await storage.getUser(req.session.userId!);
+      const completed = await storage.completeWorkOrder(order.id, parsed.data, actor);
+      if (!completed) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      const { workOrder, lowStock } = completed;
+      res.json(workOrder);
+      void publishChange({ type: ChangeEventType.WORK_ORDER, busId: order.busId, id: order.id });
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: order.busId });
+      void publishChange({ type: ChangeEventType.EQUIPMENT, busId: order.busId });
+
+      if (lowStock.length > 0) {
+        void notifyLowStock(lowStock);
+      }
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al completar orden de trabajo:", error);
+      res.status(500).json({ error: "Error al completar orden de trabajo" });
+    }
+  });
+
+  app.delete("/api/work-orders/:id", requirePermission(Permission.INCIDENTS_ASSIGN), async (req, res) => {
+    try {
+      const order = await storage.getWorkOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      if (order.status === WorkOrderStatus.COMPLETED) {
+        return res.status(400).json({ error: "No se puede eliminar una orden completada" });
+      }
+
+      const actor = await storage.getUser(req.session.userId!);
+      if (!(await storage.deleteWorkOrder(order.id, actor))) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      res.json({ message: "Orden de trabajo eliminada" });
+      void publishChange({ type: ChangeEventType.WORK_ORDER, busId: order.busId, id: order.id });
+      void publishChange({ type: ChangeEventType.INCIDENT, busId: order.busId });
+    } catch (error) {
+      if (error instanceof StorageConflictError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("❌ Error al eliminar orden de trabajo:", error);
+      res.status(500).json({ error: "Error al eliminar orden de trabajo" });
+    }
+  });
+
+  app.get("/api/work-orders/:id/job-sheet", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const order = await storage.getWorkOrderDetail(req.params.id);
+      if (!order) {
+        return res.status(404).json({ error: "Orden de trabajo no encontrada" });
+      }
+      const pdf = await renderJobSheetPdf(order);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `inline; filename="${workOrderNumber(order.number)}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("❌ Error al generar hoja de trabajo:", error);
+      res.status(500).json({ error: "Error al generar hoja de trabajo" });
+    }
+  });
+
+  // ── Device Inventory ────────────────────────────────────────────────
+
+  app.get("/api/devices", requirePermission(Permission.INVENTORY_VIEW), async (req, res) => {
+    try {
+      const { equipmentType, location, busId } = req.query;
+      const result = await storage.getDevices({
+        equipmentType: equipmentType as string | undefined,
+        location: location as string | undefined,
+        busId: busId as string | undefined,
+      });
+      res.json(result);
+    } catch (error) {
+      console.error("❌ Error al obtener inventario:", error);
+      res.status(500).json({ error: "Error al obtener inventario" });
+    }
+  });
+
+  app.post("/api/devices", requirePermission(Permission.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const parsed = insertDeviceSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      if (parsed.data.location === "bus" && !parsed.data.busId) {
+        return res.status(400).json({ error: "Seleccione el bus donde está instalado el equipo" });
+      }
+      const device = await storage.createDevice(parsed.data);
+      res.status(201).json(device);
+      void publishChange({ type: ChangeEventType.EQUIPMENT, busId: device.busId ?? undefined, id: device.id });
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({ error: "Ya existe un equipo con ese número de serie" });
+      }
+      console.error("❌ Error al crear equipo:", error);
+      res.status(500).json({ error: "Error al crear equipo" });
+    }
+  });
+
+  app.patch("/api/devices/:id", requirePermission(Permission.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const updateSchema = insertDeviceSchema.pick({
+        model: true,
+        purchaseDate: true,
+        warrantyEnd: true,
+        notes: true,
+      }).extend({
+        location: z.enum(["workshop", "warehouse"]).optional(),
+      }).partial();
+
+      const parsed = updateSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+
+      const current = await storage.getDevice(req.params.id);
+      if (!current) return res.status(404).json({ error: "Equipo no encontrado" });
+      if (parsed.data.location && current.location === "bus") {
+        return res.status(400).json({ error: "Retire el equipo del bus mediante una incidencia de reemplazo" });
+      }
+
+      const device = await storage.updateDevice(req.params.id, parsed.data);
+      res.json(device);
+      void publishChange({ type: ChangeEventType.EQUIPMENT, busId: current.busId ?? undefined, id: current.id });
+    } catch (error) {
+      console.error("❌ Error al actualizar equipo:", error);
+      res.status(500).json({ error: "Error al actualizar equipo" });
+    }
+  });
+
+  app.get("/api/devices/:id/history", requirePermission(Permission.INVENTORY_VIEW), async (req, res) => {
+    try {
+      const device = await storage.getDevice(req.params.id);
+      if (!device) return res.status(404).json({ error: "Equipo no encontrado" });
+      const movements = await storage.getDeviceMovements(device.id);
+      res.json(movements);
+    } catch (error) {
+      console.error("❌ Error al obtener historial del equipo:", error);
+      res.status(500).json({ error: "Error al obtener historial del equipo" });
+    }
+  });
+
+  // ── Spare Parts ─────────────────────────────────────────────────────
+
+  app.get("/api/parts", requirePermission(Permission.INVENTORY_VIEW), async (_req, res) => {
+    try {
+      const parts = await storage.getSpareParts();
+      res.json(parts);
+    } catch (error) {
+      console.error("❌ Error al obtener repuestos:", error);
+      res.status(500).json({ error: "Error al obtener repuestos" });
+    }
+  });
+
+  app.post("/api/parts", requirePermission(Permission.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const parsed = insertSparePartSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      const part = await storage.createSparePart(parsed.data);
+      res.status(201).json(part);
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({ error: "Ya existe un repuesto con ese nombre" });
+      }
+      console.error("❌ Error al crear repuesto:", error);
+      res.status(500).json({ error: "Error al crear repuesto" });
+    }
+  });
+
+  app.patch("/api/parts/:id", requirePermission(Permission.INVENTORY_MANAGE), async (req, res) => {
+    try {
+      const parsed = insertSparePartSchema.partial().safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      const part = await storage.updateSparePart(req.params.id, parsed.data);
+      if (!part) return res.status(404).json({ error: "Repuesto no encontrado" });
+      res.json(part);
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({ error: "Ya existe un repuesto con ese nombre" });
+      }
+      console.error("❌ Error al actualizar repuesto:", error);
+      res.status(500).json({ error: "Error al actualizar repuesto" });
+    }
+  });
+
+  app.get("/api/equipment-status", requirePermission(Permission.BUSES_VIEW), async (req, res) => {
+    try {
+      const { busId } = req.query;
+      const statuses = await storage.getEquipmentStatus(busId as string | undefined);
+      res.json(statuses);
+    } catch (error) {
+      res.status(500).json({ error: "Error al obtener estado de equipos" });
+    }
+  });
+
+  app.get("/api/buses/:id/health", requirePermission(Permission.BUSES_VIEW), async (req, res) => {
+    try {
+      const health = await storage.getBusHealth(req.params.id);
+      if (!health) {
+        return res.status(404).json({ error: "Bus no encontrado" });
+      }
+      res.json(health);
+    } catch (error) {
+      console.error("❌ Error al obtener estado del bus:", error);
+      res.status(500).json({ error: "Error al obtener estado del bus" });
+    }
+  });
+
+  app.get("/api/camera-status", allowKiosk(Permission.BUSES_VIEW), async (req, res) => {
     try {
       const cameraStatus = await storage.getCameraStatus();
       res.json(cameraStatus);
@@ -675,7 +2000,18 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/dashboard", async (req, res) => {
+  app.get("/api/recurring-failures", requirePermission(Permission.INCIDENTS_VIEW), async (req, res) => {
+    try {
+      const { busId } = req.query;
+      const failures = await storage.getRecurringFailures();
+      res.json(typeof busId === "string" && busId ? failures.filter(f => f.busId === busId) : failures);
+    } catch (error) {
+      console.error("❌ Error al detectar fallas recurrentes:", error);
+      res.status(500).json({ error: "Error al detectar fallas recurrentes" });
+    }
+  });
+
+  app.get("/api/dashboard", allowKiosk(Permission.INCIDENTS_VIEW), async (req, res) => {
     try {
       const stats = await storage.getDashboardStats();
       res.json(stats);
@@ -684,20 +2020,39 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/weekly", async (req, res) => {
-    try {
-      const { week } = req.query;
-      let weekStart: Date;
+  app.get("/api/reports", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
+    const range = parseDateRange(req.query.from, req.query.to, 30);
+    if (!range) return res.status(400).json({ error: "Rango de fechas inválido" });
 
-      if (week && typeof week === "string") {
-        const [year, weekNum] = week.split("-W");
-        const date = new Date(parseInt(year), 0, 1);
-        date.setDate(date.getDate() + (parseInt(weekNum) - 1) * 7);
-        weekStart = startOfWeek(date, { weekStartsOn: 1 });
-      } else {
-        weekStart = startOfWeek(new Date(), { weekStartsOn: 1 });
-      }
+    const groupBy = req.query.groupBy === undefined ? "day" : ReportGroupBy.find(g => g === req.query.groupBy);
+    if (!groupBy) return res.status(400).json({ error: "Agrupación no válida. Use day, week o month" });
+    if (groupBy === "day" && differenceInCalendarDays(range.to, range.from) >= MAX_DAILY_REPORT_DAYS) {
+      return res.status(400).json({ error: `Para agrupar por día el rango no puede superar ${MAX_DAILY_REPORT_DAYS} días` });
+    }
+
+    const { busId, equipmentType } = req.query;
+    if (equipmentType !== undefined && !Object.values(EquipmentType).some(t => t === equipmentType)) {
+      return res.status(400).json({ error: "Tipo de equipo no válido" });
+    }
+
+    try {
+      const report = await storage.getRangeReport({
+        ...range,
+        groupBy,
+        busId: typeof busId === "string" && busId ? busId : undefined,
+        equipmentType: equipmentType as string | undefined,
+      });
+      res.json(report);
+    } catch (error) {
+      console.error("❌ Error al generar reporte:", error);
+      res.status(500).json({ error: "Error al generar reporte" });
+    }
+  });
 
+  app.get("/api/reports/weekly", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
+    const weekStart = parseWeekParam(req.query.week);
+    if (!weekStart) return res.status(400).json({ error: "Semana inválida. Use el formato 2024-W19" });
+    try {
       const report = await storage.getWeeklyReport(weekStart);
       res.json(report);
     } catch (error) {
@@ -705,18 +2060,10 @@ export async function registerRoutes(
     }
   });
 
-  app.get("/api/reports/monthly", async (req, res) => {
+  app.get("/api/reports/monthly", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
+    const monthStart = parseMonthParam(req.query.month);
+    if (!monthStart) return res.status(400).json({ error: "Mes inválido. Use el formato 2024-05" });
     try {
-      const { month } = req.query;
-      let monthStart: Date;
-
-      if (month && typeof month === "string") {
-        monthStart = parseISO(`${month}-01`);
-      } else {
-        monthStart = new Date();
-        monthStart.setDate(1);
-      }
-
       const report = await storage.getMonthlyReport(monthStart);
       res.json(report);
     } catch (error) {
@@ -724,5 +2071,134 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/reports/weekly/export", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
+    const exportFormat = parseExportFormat(req.query.format);
+    if (!exportFormat) {
+      return res.status(400).json({ error: "Formato no válido. Use xlsx o csv" });
+    }
+    const weekStart = parseWeekParam(req.query.week);
+    if (!weekStart) return res.status(400).json({ error: "Semana inválida. Use el formato 2024-W19" });
+    try {
+      const report = await storage.getWeeklyReport(weekStart);
+      const incidents = await storage.getIncidents({
+        reportedFrom: new Date(report.weekStart),
+        reportedTo: new Date(report.weekEnd),
+        oldestFirst: true,
+      });
+      sendExportFile(res, buildReportExport(weeklyReportSummary(report), incidents, await reportBusMap(), exportFormat));
+    } catch (error) {
+      console.error("❌ Error al exportar reporte semanal:", error);
+      res.status(500).json({ error: "Error al exportar reporte semanal" });
+    }
+  });
+
+  app.get("/api/reports/monthly/export", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
+    const exportFormat = parseExportFormat(req.query.format);
+    if (!exportFormat) {
+      return res.status(400).json({ error: "Formato no válido. Use xlsx o csv" });
+    }
+    const month = parseMonthParam(req.query.month);
+    if (!month) return res.status(400).json({ error: "Mes inválido. Use el formato 2024-05" });
+    try {
+      const monthStart = startOfMonth(month);
+      const report = await storage.getMonthlyReport(monthStart);
+      const incidents = await storage.getIncidents({
+        reportedFrom: monthStart,
+        reportedTo: endOfMonth(monthStart),
+        oldestFirst: true,
+      });
+      sendExportFile(res, buildReportExport(monthlyReportSummary(report, monthStart), incidents, await reportBusMap(), exportFormat));
+    } catch (error) {
+      console.error("❌ Error al exportar reporte mensual:", error);
+      res.status(500).json({ error: "Error al exportar reporte mensual" });
+    }
+  });
+
+  // ── Repair analytics ──────────────────────────────────────────────────
+
+  app.get("/api/analytics/repair-times", requirePermission(Permission.REPORTS_VIEW), async (req, res) => {
+    const range = parseDateRange(req.query.from, req.query.to, 90);
+    if (!range) return res.status(400).json({ error: "Rango de fechas inválido" });
+    try {
+      res.json(await storage.getRepairAnalytics(range.from, range.to));
+    } catch (error) {
+      console.error("❌ Error al calcular tiempos de reparación:", error);
+      res.status(500).json({ error: "Error al calcular tiempos de reparación" });
+    }
+  });
+
+  app.get("/api/sla-targets", requirePermission(Permission.REPORTS_VIEW), async (_req, res) => {
+    try {
+      res.json(await storage.getSlaTargets());
+    } catch (error) {
+      res.status(500).json({ error: "Error al obtener objetivos SLA" });
+    }
+  });
+
+  app.post("/api/sla-targets", requirePermission(Permission.SLA_MANAGE), async (req, res) => {
+    try {
+      const parsed = insertSlaTargetSchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      const target = await storage.createSlaTarget({
+        equipmentType: parsed.data.equipmentType ?? null,
+        incidentType: parsed.data.incidentType ?? null,
+        targetHours: parsed.data.targetHours,
+      });
+      res.status(201).json(target);
+    } catch (error: any) {
+      if (error?.code === "23505") {
+        return res.status(409).json({ error: "Ya existe un objetivo para ese equipo y tipo de incidencia" });
+      }
+      console.error("❌ Error al crear objetivo SLA:", error);
+      res.status(500).json({ error: "Error al crear objetivo SLA" });
+    }
+  });
+
+  app.patch("/api/sla-targets/:id", requirePermission(Permission.SLA_MANAGE), async (req, res) => {
+    try {
+      const parsed = insertSlaTargetSchema.pick({ targetHours: true }).safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      const target = await storage.updateSlaTarget(req.params.id, parsed.data.targetHours);
+      if (!target) return res.status(404).json({ error: "Objetivo SLA no encontrado" });
+      res.json(target);
+    } catch (error) {
+      console.error("❌ Error al actualizar objetivo SLA:", error);
+      res.status(500).json({ error: "Error al actualizar objetivo SLA" });
+    }
+  });
+
+  app.delete("/api/sla-targets/:id", requirePermission(Permission.SLA_MANAGE), async (req, res) => {
+    try {
+      const deleted = await storage.deleteSlaTarget(req.params.id);
+      if (!deleted) return res.status(404).json({ error: "Objetivo SLA no encontrado" });
+      res.json({ message: "Objetivo SLA eliminado" });
+    } catch (error) {
+      console.error("❌ Error al eliminar objetivo SLA:", error);
+      res.status(500).json({ error: "Error al eliminar objetivo SLA" });
+    }
+  });
+
+  // Readable by anyone registering incidents, to preview the default priority
+  app.get("/api/priority-matrix", requirePermission(Permission.INCIDENTS_VIEW), async (_req, res) => {
+    try {
+      res.json(await storage.getPriorityMatrix());
+    } catch (error) {
+      console.error("❌ Error al obtener matriz de prioridades:", error);
+      res.status(500).json({ error: "Error al obtener matriz de prioridades" });
+    }
+  });
+
+  // Only affects incidents registered afterwards
+  app.put("/api/priority-matrix", requirePermission(Permission.PRIORITY_MANAGE), async (req, res) => {
+    try {
+      const parsed = priorityMatrixEntrySchema.safeParse(req.body);
+      if (!parsed.success) return res.status(400).json({ error: parsed.error.errors });
+      res.json(await storage.setPriorityMatrixEntry(parsed.data));
+    } catch (error) {
+      console.error("❌ Error al actualizar matriz de prioridades:", error);
+      res.status(500).json({ error: "Error al actualizar matriz de prioridades" });
+    }
+  });
+
   return httpServer;
 }
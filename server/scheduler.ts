@@ -0,0 +1,160 @@
+import { Cron } from "croner";
+import type { PoolClient } from "pg";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { JobRunStatus, type JobRun, type ScheduledJobInfo } from "@shared/schema";
+
+export interface ScheduledJob {
+  name: string;
+  label: string;
+  description: string;
+  // Five-field cron expression evaluated in SCHEDULER_TIMEZONE
+  schedule: string;
+  run: () => Promise<void>;
+}
+
+export const SCHEDULER_TIMEZONE = process.env.SCHEDULER_TIMEZONE || "America/Santiago";
+
+// Advisory lock namespace shared by every instance. (key, 0) elects the
+// instance that owns the timers; (key, hashtext(job)) guards each run, so a
+// manual run on another instance cannot overlap a scheduled one.
+const LOCK_KEY = 7316001;
+const LEADER_RETRY_MS = 60 * 1000;
+
+class Scheduler {
+  private jobs = new Map<string, ScheduledJob>();
+  private timers: Cron[] = [];
+  private leader: PoolClient | null = null;
+
+  async start(jobs: ScheduledJob[]): Promise<void> {
+    jobs.forEach(job => this.jobs.set(job.name, job));
+    await this.recoverInterruptedRuns();
+    await this.tryLead();
+    setInterval(() => {
+      if (!this.leader) this.tryLead();
+    }, LEADER_RETRY_MS);
+  }
+
+  private async tryLead(): Promise<void> {
+    let client: PoolClient | null = null;
+    try {
+      client = await pool.connect();
+      const { rows } = await client.query("SELECT pg_try_advisory_lock($1, 0) AS locked", [LOCK_KEY]);
+      if (!rows[0].locked) {
+        client.release();
+        return;
+      }
+    } catch (err) {
+      client?.release();
+      console.error("❌ Error al obtener el bloqueo del programador:", err);
+      return;
+    }
+
+    // Losing the connection releases the lock; stop the timers and let the
+    // retry loop (here or on another instance) take over.
+    client.on("error", (err) => {
+      console.error("❌ Conexión del programador perdida:", err);
+      this.stopTimers();
+      this.leader?.release(true);
+      this.leader = null;
+    });
+    this.leader = client;
+
+    this.timers = Array.from(this.jobs.values()).map(job =>
+      new Cron(job.schedule, { timezone: SCHEDULER_TIMEZONE, protect: true }, () => {
+        this.execute(job, "schedule").catch(err => {
+          console.error(`❌ Error al ejecutar tarea programada ${job.name}:`, err);
+        });
+      })
+    );
+    console.log(`⏰ Programador activo en esta instancia (${SCHEDULER_TIMEZONE})`);
+  }
+
+  // A run row still "running" whose job lock nobody holds was cut short by a
+  // crash or restart; close it so the job does not show as running forever.
+  private async recoverInterruptedRuns(): Promise<void> {
+    for (const job of Array.from(this.jobs.values())) {
+      try {
+        await this.withJobLock(job, async () => {
+          const count = await storage.failRunningJobRuns(job.name, "Interrumpida por un reinicio del servidor");
+          if (count > 0) console.log(`⏰ ${count} ejecución(es) interrumpida(s) de ${job.name} marcada(s) como fallidas`);
+        });
+      } catch (err) {
+        console.error(`❌ Error al recuperar ejecuciones de ${job.name}:`, err);
+      }
+    }
+  }
+
+  /**
+   * Runs fn while holding the job's advisory lock, or returns null without
+   * running it when another run holds the lock.
+   */
+  private async withJobLock<T>(job: ScheduledJob, fn: () => Promise<T>): Promise<T | null> {
+    const client = await pool.connect();
+    let locked = false;
+    try {
+      const { rows } = await client.query("SELECT pg_try_advisory_lock($1, hashtext($2)) AS locked", [LOCK_KEY, job.name]);
+      locked = rows[0].locked;
+      if (!locked) return null;
+      return await fn();
+    } finally {
+      let destroy = false;
+      if (locked) {
+        try {
+          await client.query("SELECT pg_advisory_unlock($1, hashtext($2))", [LOCK_KEY, job.name]);
+        } catch (err) {
+          // Dropping the connection releases the lock with it
+          console.error(`❌ Error al liberar el bloqueo de ${job.name}:`, err);
+          destroy = true;
+        }
+      }
+      client.release(destroy);
+    }
+  }
+
+  private stopTimers() {
+    this.timers.forEach(timer => timer.stop());
+    this.timers = [];
+  }
+
+  async runNow(name: string, userName: string): Promise<JobRun | undefined> {
+    const job = this.jobs.get(name);
+    if (!job) return undefined;
+    return this.execute(job, "manual", userName);
+  }
+
+  private async execute(job: ScheduledJob, trigger: string, userName?: string): Promise<JobRun> {
+    const finished = await this.withJobLock(job, async () => {
+      const run = await storage.createJobRun({ job: job.name, trigger, userName });
+      try {
+        await job.run();
+        return (await storage.finishJobRun(run.id, JobRunStatus.SUCCESS)) ?? run;
+      } catch (err) {
+        console.error(`❌ Error en tarea programada ${job.name}:`, err);
+        const message = err instanceof Error ? err.message : String(err);
+        return (await storage.finishJobRun(run.id, JobRunStatus.FAILED, message)) ?? run;
+      }
+    });
+    return finished ?? storage.createJobRun({ job: job.name, trigger, status: JobRunStatus.SKIPPED, userName });
+  }
+
+  async list(): Promise<ScheduledJobInfo[]> {
+    const latest = await storage.getLatestJobRuns();
+    return Array.from(this.jobs.values()).map(job => {
+      const lastRun = latest.find(run => run.job === job.name) ?? null;
+      const nextRun = new Cron(job.schedule, { timezone: SCHEDULER_TIMEZONE, paused: true }).nextRun();
+      return {
+        name: job.name,
+        label: job.label,
+        description: job.description,
+        schedule: job.schedule,
+        timezone: SCHEDULER_TIMEZONE,
+        nextRun: nextRun ? nextRun.toISOString() : null,
+        running: lastRun?.status === JobRunStatus.RUNNING,
+        lastRun,
+      };
+    });
+  }
+}
+
+export const scheduler = new Scheduler();
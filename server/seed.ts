@@ -0,0 +1,38 @@
+import bcrypt from "bcryptjs";
+import { eq } from "drizzle-orm";
+import { users } from "@shared/schema";
+import { db } from "./db";
+
+const DEFAULT_ADMIN_PASSWORD = "G4l4x";
+
+/**
+ * Inserts the data every installation needs. Safe to run on every startup:
+ * rows that already exist are not recreated. The seeded admin must change
+ * its password on first login.
+ */
+export async function seedDatabase() {
+  console.log("🔍 Checking for Galaxias user...");
+
+  const [existing] = await db.select().from(users).where(eq(users.username, "Galaxias"));
+  if (existing) {
+    // Installs seeded before the flag existed may still use the published password
+    if (existing.mustChangePassword !== "true" && await bcrypt.compare(DEFAULT_ADMIN_PASSWORD, existing.password)) {
+      await db.update(users).set({ mustChangePassword: "true" }).where(eq(users.id, existing.id));
+      console.log("⚠️ Galaxias user still has the default password. A password change will be required.");
+    }
+    console.log("✅ Galaxias user already exists.");
+    return;
+  }
+
+  console.log("📝 Seeding Galaxias user...");
+  const hashedPassword = await bcrypt.hash(DEFAULT_ADMIN_PASSWORD, 10);
+  await db.insert(users).values({
+    username: "Galaxias",
+    password: hashedPassword,
+    name: "Admin Galaxias",
+    role: "admin",
+    active: "true",
+    mustChangePassword: "true",
+  }).onConflictDoNothing({ target: users.username });
+  console.log("✅ Galaxias user seeded successfully.");
+}
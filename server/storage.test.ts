@@ -0,0 +1,144 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { IncidentActor } from "@shared/schema";
+
+// Runs against a real, disposable database: the checks rely on row locks and
+// transactions. Set TEST_DATABASE_URL to run them; its schema is migrated first.
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+describe("work order and incident state transitions", { skip: !databaseUrl && "TEST_DATABASE_URL no definido" }, () => {
+  let storage: typeof import("./storage").storage;
+  let StorageConflictError: typeof import("./storage").StorageConflictError;
+  let pool: typeof import("./db").pool;
+  let actor: IncidentActor;
+  const runId = Date.now().toString(36);
+  let sequence = 0;
+
+  before(async () => {
+    // server/db reads DATABASE_URL when first imported
+    process.env.DATABASE_URL = databaseUrl;
+    ({ pool } = await import("./db"));
+    const { runMigrations } = await import("./migrate");
+    await runMigrations();
+    ({ storage, StorageConflictError } = await import("./storage"));
+    actor = await storage.createUser({
+      username: `test-${runId}`,
+      password: "test1234",
+      name: "Prueba",
+      role: "technician",
+    });
+  });
+
+  after(async () => {
+    await pool?.end();
+  });
+
+  const createBusWithIncidents = async (count: number) => {
+    const bus = await storage.createBus({ busNumber: `T-${runId}-${++sequence}` });
+    const incidents = [];
+    for (let i = 0; i < count; i++) {
+      incidents.push(await storage.createIncident({
+        busId: bus.id,
+        equipmentType: "gps",
+        incidentType: "faulty",
+        status: "pending",
+      }, actor));
+    }
+    return { bus, incidents };
+  };
+
+  const createPart = (stock: number) =>
+    storage.createSparePart({ name: `Repuesto ${runId}-${++sequence}`, stock, minStock: 0 });
+
+  describe("completeWorkOrder", () => {
+    it("resolves the open incidents, takes the parts and closes the order", async () => {
+      const { bus, incidents } = await createBusWithIncidents(2);
+      const part = await createPart(5);
+      const order = await storage.createWorkOrder({ busId: bus.id, incidentIds: incidents.map(i => i.id) }, actor);
+
+      const result = await storage.completeWorkOrder(order.id, {
+        labourMinutes: 30,
+        resolutionNotes: "Cambio de antena",
+        parts: [{ partId: part.id, quantity: 2 }],
+      }, actor);
+
+      assert.equal(result?.workOrder.status, "completed");
+      assert.equal(result?.workOrder.labourMinutes, 30);
+      for (const incident of incidents) {
+        const resolved = await storage.getIncident(incident.id);
+        assert.equal(resolved?.status, "resolved");
+        assert.ok(resolved?.resolvedAt);
+      }
+      assert.equal((await storage.getSparePart(part.id))?.stock, 3);
+    });
+
+    it("leaves the order, incidents and stock untouched when a part runs short", async () => {
+      const { bus, incidents } = await createBusWithIncidents(1);
+      const part = await createPart(1);
+      const order = await storage.createWorkOrder({ busId: bus.id, incidentIds: [incidents[0].id] }, actor);
+
+      await assert.rejects(
+        storage.completeWorkOrder(order.id, { labourMinutes: 10, parts: [{ partId: part.id, quantity: 2 }] }, actor),
+        StorageConflictError,
+      );
+
+      assert.equal((await storage.getWorkOrder(order.id))?.status, "pending");
+      assert.equal((await storage.getIncident(incidents[0].id))?.status, "pending");
+      assert.equal((await storage.getSparePart(part.id))?.stock, 1);
+    });
+
+    it("completes once when two requests race, taking the parts only once", async () => {
+      const { bus, incidents } = await createBusWithIncidents(1);
+      const part = await createPart(4);
+      const order = await storage.createWorkOrder({ busId: bus.id, incidentIds: [incidents[0].id] }, actor);
+      const complete = () =>
+        storage.completeWorkOrder(order.id, { labourMinutes: 15, parts: [{ partId: part.id, quantity: 1 }] }, actor);
+
+      const results = await Promise.allSettled([complete(), complete()]);
+
+      assert.equal(results.filter(r => r.status === "fulfilled").length, 1);
+      const rejected = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+      assert.ok(rejected?.reason instanceof StorageConflictError);
+      assert.equal((await storage.getSparePart(part.id))?.stock, 3);
+    });
+
+    it("returns undefined for an unknown order", async () => {
+      assert.equal(await storage.completeWorkOrder("00000000-0000-0000-0000-000000000000", { labourMinutes: 0 }, actor), undefined);
+    });
+  });
+
+  describe("reopenIncident", () => {
+    it("returns a resolved incident to pending and counts the reopen", async () => {
+      const { incidents } = await createBusWithIncidents(1);
+      await storage.updateIncident(incidents[0].id, { status: "resolved", resolutionNotes: "Reparada" }, actor);
+
+      const reopened = await storage.reopenIncident(incidents[0].id, "Volvió a fallar", actor);
+
+      assert.equal(reopened?.status, "pending");
+      assert.equal(reopened?.reopenCount, 1);
+      assert.equal(reopened?.resolvedAt, null);
+      assert.equal(reopened?.resolutionNotes, null);
+      const events = await storage.getIncidentEvents(incidents[0].id);
+      assert.ok(events.some(e => e.eventType === "reopened" && e.notes === "Volvió a fallar"));
+    });
+
+    it("rejects incidents that are not resolved", async () => {
+      const { incidents } = await createBusWithIncidents(1);
+      await assert.rejects(storage.reopenIncident(incidents[0].id, "Motivo", actor), StorageConflictError);
+      assert.equal((await storage.getIncident(incidents[0].id))?.reopenCount, 0);
+    });
+
+    it("reopens once when two requests race", async () => {
+      const { incidents } = await createBusWithIncidents(1);
+      await storage.updateIncident(incidents[0].id, { status: "resolved" }, actor);
+
+      const results = await Promise.allSettled([
+        storage.reopenIncident(incidents[0].id, "Primero", actor),
+        storage.reopenIncident(incidents[0].id, "Segundo", actor),
+      ]);
+
+      assert.equal(results.filter(r => r.status === "fulfilled").length, 1);
+      assert.equal((await storage.getIncident(incidents[0].id))?.reopenCount, 1);
+    });
+  });
+});
@@ -5,49 +5,224 @@ import {
   type InsertBus,
   type BusDocument,
   type InsertBusDocument,
+  type DocumentType,
+  type InsertDocumentType,
+  type ExpiringDocument,
   type Driver,
   type InsertDriver,
   type BusDriver,
   type EmailRecipient,
+  type RecipientSubscriptions,
+  type NotificationLogEntry,
+  type JobRun,
+  type SlaTarget,
+  type InsertSlaTarget,
+  type PriorityMatrixEntry,
+  type InsertPriorityMatrixEntry,
+  type KioskToken,
+  type BusCameraStatus,
+  type RepairAnalytics,
+  type InsertNotificationLogEntry,
   type Incident,
   type InsertIncident,
+  type IncidentEvent,
+  type InsertIncidentEvent,
+  type IncidentAttachment,
+  type InsertIncidentAttachment,
+  type IncidentComment,
+  type UserNotification,
+  type IncidentActor,
   type EquipmentStatus,
   type InsertEquipmentStatus,
   type DashboardStats,
   type WeeklyReport,
   type MonthlyReport,
+  type RangeReport,
+  type RecurringFailure,
+  type ReportGroupByKey,
+  type BusHealth,
+  type ActiveSession,
+  type LoginAttempt,
+  type Device,
+  type InsertDevice,
+  type DeviceMovement,
+  type DeviceSwapData,
+  type SparePart,
+  type InsertSparePart,
+  type PartConsumption,
+  type PartUsage,
+  type WorkOrder,
+  type WorkOrderSummary,
+  type WorkOrderDetail,
+  type WorkOrderFormData,
+  type UpdateWorkOrderData,
+  type CompleteWorkOrderData,
   users,
+  sessions,
+  loginAttempts,
   buses,
   busDocuments,
+  documentTypes,
   drivers,
   busDrivers,
   emailRecipients,
+  notificationLog,
+  jobRuns,
+  slaTargets,
+  priorityMatrix,
+  kioskTokens,
   incidents,
-  equipmentStatus
+  incidentEvents,
+  incidentAttachments,
+  incidentComments,
+  userNotifications,
+  devices,
+  deviceMovements,
+  spareParts,
+  partConsumptions,
+  workOrders,
+  equipmentStatus,
+  IncidentEventType,
+  IncidentActionEventTypes,
+  UserNotificationKind,
+  EquipmentType,
+  CameraChannel,
+  BusLevelEquipmentTypes,
+  DeviceLocation,
+  DeviceMovementAction,
+  LoginFailureReason,
+  NotificationKind,
+  JobRunStatus,
+  OpenIncidentStatuses,
+  IncidentPriority,
+  PriorityDueHours,
+  WorkOrderStatus,
+  workOrderNumber,
+  firstTimeFixRate
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, lt, gte, lte, sql } from "drizzle-orm";
-import { startOfWeek, endOfWeek, startOfMonth, endOfMonth, getWeek, format } from "date-fns";
+import { seedDatabase } from "./seed";
+import { buildRepairAnalytics } from "./repair-analytics";
+import { detectRecurringFailures, RECURRING_FAILURE_DAYS, REOPEN_WINDOW_DAYS } from "./recurring-failures";
+import { eq, asc, desc, and, or, lt, gt, gte, lte, inArray, isNull, sql, type SQL } from "drizzle-orm";
+import {
+  startOfDay,
+  startOfWeek,
+  endOfWeek,
+  startOfMonth,
+  endOfMonth,
+  eachDayOfInterval,
+  eachWeekOfInterval,
+  eachMonthOfInterval,
+  getISOWeek,
+  subDays,
+  addHours,
+  min,
+  format,
+} from "date-fns";
 import bcrypt from "bcryptjs";
 
+export interface IncidentFilters {
+  status?: string;
+  statuses?: readonly string[];
+  equipmentType?: string;
+  busId?: string;
+  assignedTo?: string;
+  reportedFrom?: Date;
+  reportedTo?: Date;
+  priority?: string;
+  // Open incidents past their due date
+  overdue?: boolean;
+  // Most urgent first, then earliest due; report date breaks ties
+  byPriority?: boolean;
+  oldestFirst?: boolean;
+  limit?: number;
+}
+
+// What a part consumption is charged to
+export type PartConsumer = { incidentId: string } | { workOrderId: string };
+
+// Work recorded together with an incident update
+export interface IncidentWork {
+  swap?: DeviceSwapData;
+  parts?: PartUsage;
+}
+
+/**
+ * A rule re-checked inside a transaction, with the rows locked, no longer
+ * holds (e.g. a concurrent request completed the order first). Routes answer
+ * it with a 400 and the message.
+ */
+export class StorageConflictError extends Error {}
+
+// The pool or an open transaction, for helpers whose writes may need to be
+// grouped with others
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete" | "transaction">;
+
+type PartConsumptionLine = PartConsumption & { partName: string; unit: string };
+
+// Sort key for priorities, most urgent first
+const priorityRank = sql`case ${incidents.priority}
+  when ${IncidentPriority.CRITICAL} then 0
+  when ${IncidentPriority.HIGH} then 1
+  when ${IncidentPriority.MEDIUM} then 2
+  else 3 end`;
+
+export interface ReportRangeFilters {
+  from: Date;
+  to: Date;
+  groupBy: ReportGroupByKey;
+  busId?: string;
+  equipmentType?: string;
+}
+
+const periodStart: Record<ReportGroupByKey, (date: Date) => Date> = {
+  day: startOfDay,
+  week: (date) => startOfWeek(date, { weekStartsOn: 1 }),
+  month: startOfMonth,
+};
+
+const eachPeriod: Record<ReportGroupByKey, (from: Date, to: Date) => Date[]> = {
+  day: (start, end) => eachDayOfInterval({ start, end }),
+  week: (start, end) => eachWeekOfInterval({ start, end }, { weekStartsOn: 1 }),
+  month: (start, end) => eachMonthOfInterval({ start, end }),
+};
+
 export interface IStorage {
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   getUsers(): Promise<User[]>;
+  getTechnicians(): Promise<User[]>;
+  getActiveUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: string, updates: Partial<User>): Promise<User | undefined>;
   deleteUser(id: string): Promise<boolean>;
 
+  recordLoginAttempt(attempt: { username: string; ip: string | null; success: boolean; reason?: string }): Promise<void>;
+  getRecentLoginFailures(filter: { username?: string; ip?: string }, since: Date): Promise<{ count: number; oldest: Date | null }>;
+  getLoginAttempts(limit?: number): Promise<LoginAttempt[]>;
+
+  getActiveSessions(): Promise<ActiveSession[]>;
+  deleteSession(sid: string): Promise<boolean>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+
   getBuses(): Promise<Bus[]>;
   getBus(id: string): Promise<Bus | undefined>;
   createBus(bus: InsertBus): Promise<Bus>;
   updateBus(id: string, updates: Partial<Bus>): Promise<Bus | undefined>;
-  deleteBus(id: string): Promise<boolean>;
+  deleteBus(id: string): Promise<IncidentAttachment[] | undefined>;
 
   getBusDocuments(busId: string): Promise<BusDocument[]>;
   createBusDocument(doc: InsertBusDocument): Promise<BusDocument>;
   deleteBusDocument(docId: string): Promise<BusDocument | undefined>;
-  getExpiringDocuments(): Promise<Array<{ busNumber: string; docType: string; fileName: string; expiresAt: Date; daysLeft: number; driverName?: string }>>;
+  getExpiringDocuments(): Promise<ExpiringDocument[]>;
+
+  getDocumentTypes(): Promise<DocumentType[]>;
+  getDocumentType(id: string): Promise<DocumentType | undefined>;
+  createDocumentType(docType: InsertDocumentType): Promise<DocumentType>;
+  updateDocumentType(id: string, updates: Partial<InsertDocumentType>): Promise<DocumentType | undefined>;
+  deleteDocumentType(id: string): Promise<boolean>;
+  countDocumentsOfType(key: string): Promise<number>;
 
   getDrivers(): Promise<Driver[]>;
   searchDrivers(query: string): Promise<Driver[]>;
@@ -61,21 +236,101 @@ export interface IStorage {
   createEmailRecipient(email: string, name: string): Promise<EmailRecipient>;
   deleteEmailRecipient(id: string): Promise<boolean>;
   toggleEmailRecipient(id: string): Promise<EmailRecipient | undefined>;
+  updateEmailRecipientSubscriptions(id: string, subscriptions: RecipientSubscriptions): Promise<EmailRecipient | undefined>;
+
+  getNotificationLog(limit?: number): Promise<NotificationLogEntry[]>;
+  getNotificationLogEntry(id: string): Promise<NotificationLogEntry | undefined>;
+  getThresholdNotifications(documentIds: string[]): Promise<NotificationLogEntry[]>;
+  getLastDigestSentAt(recipient: string): Promise<Date | null>;
+  recordNotifications(entries: InsertNotificationLogEntry[]): Promise<void>;
+
+  createJobRun(run: { job: string; trigger: string; status?: string; userName?: string | null }): Promise<JobRun>;
+  finishJobRun(id: string, status: string, error?: string): Promise<JobRun | undefined>;
+  failRunningJobRuns(job: string, error: string): Promise<number>;
+  getJobRuns(job?: string, limit?: number): Promise<JobRun[]>;
+  getLatestJobRuns(): Promise<JobRun[]>;
 
-  getIncidents(filters?: { status?: string; equipmentType?: string; busId?: string; limit?: number }): Promise<Incident[]>;
+  getStaleIncidents(inactiveSince: Date): Promise<Array<Incident & { busNumber: string; lastActivityAt: Date }>>;
+
+  getIncidents(filters?: IncidentFilters): Promise<Incident[]>;
+  getUnescalatedOverdueIncidents(now: Date): Promise<Array<Incident & { busNumber: string; assigneeName: string | null }>>;
+  markIncidentsEscalated(ids: string[], notes: string): Promise<void>;
   getIncident(id: string): Promise<Incident | undefined>;
-  createIncident(incident: InsertIncident): Promise<Incident>;
-  updateIncident(id: string, updates: Partial<Incident>): Promise<Incident | undefined>;
+  createIncident(incident: InsertIncident, actor?: IncidentActor): Promise<Incident>;
+  updateIncident(id: string, updates: Partial<Incident>, actor?: IncidentActor): Promise<Incident | undefined>;
+  updateIncidentWithWork(id: string, updates: Partial<Incident>, work: IncidentWork, actor?: IncidentActor): Promise<{ incident: Incident; lowStock: SparePart[] } | undefined>;
+  reopenIncident(id: string, reason: string, actor?: IncidentActor): Promise<Incident | undefined>;
+  getIncidentEvents(incidentId: string): Promise<IncidentEvent[]>;
+  getIncidentAttachments(incidentId: string): Promise<IncidentAttachment[]>;
+  getIncidentAttachment(id: string): Promise<IncidentAttachment | undefined>;
+  createIncidentAttachments(attachments: InsertIncidentAttachment[], actor?: IncidentActor): Promise<IncidentAttachment[]>;
+  deleteIncidentAttachment(id: string): Promise<IncidentAttachment | undefined>;
+  getIncidentComments(incidentId: string, includeInternal: boolean): Promise<IncidentComment[]>;
+  createIncidentComment(comment: { incidentId: string; body: string; internal: boolean; mentionedUserIds: string[] }, author: IncidentActor): Promise<IncidentComment>;
+
+  getUserNotifications(userId: string, limit?: number): Promise<UserNotification[]>;
+  markUserNotificationsRead(userId: string, ids?: string[]): Promise<number>;
+
+  getDevices(filters?: { equipmentType?: string; location?: string; busId?: string }): Promise<Device[]>;
+  getDevice(id: string): Promise<Device | undefined>;
+  createDevice(device: InsertDevice): Promise<Device>;
+  updateDevice(id: string, updates: Partial<InsertDevice>): Promise<Device | undefined>;
+  getDeviceMovements(deviceId: string): Promise<Array<DeviceMovement & { busNumber: string }>>;
+  swapDevices(incident: Incident, swap: DeviceSwapData, actor?: IncidentActor): Promise<void>;
+
+  getSpareParts(): Promise<SparePart[]>;
+  getSparePart(id: string): Promise<SparePart | undefined>;
+  createSparePart(part: InsertSparePart): Promise<SparePart>;
+  updateSparePart(id: string, updates: Partial<InsertSparePart>): Promise<SparePart | undefined>;
+  consumeParts(consumer: PartConsumer, usage: PartUsage, actor?: IncidentActor): Promise<SparePart[]>;
+  getIncidentPartConsumptions(incidentId: string): Promise<PartConsumptionLine[]>;
+
+  getWorkOrders(filters?: { status?: string; busId?: string; assignedTo?: string }): Promise<WorkOrderSummary[]>;
+  getWorkOrder(id: string): Promise<WorkOrder | undefined>;
+  getWorkOrderDetail(id: string): Promise<WorkOrderDetail | undefined>;
+  createWorkOrder(data: WorkOrderFormData, actor: IncidentActor): Promise<WorkOrder>;
+  updateWorkOrder(id: string, updates: UpdateWorkOrderData, actor?: IncidentActor): Promise<WorkOrder | undefined>;
+  addWorkOrderIncidents(id: string, incidentIds: string[], actor?: IncidentActor): Promise<boolean>;
+  removeWorkOrderIncident(id: string, incidentId: string, actor?: IncidentActor): Promise<boolean>;
+  completeWorkOrder(id: string, data: CompleteWorkOrderData, actor?: IncidentActor): Promise<{ workOrder: WorkOrder; lowStock: SparePart[] } | undefined>;
+  deleteWorkOrder(id: string, actor?: IncidentActor): Promise<boolean>;
 
   getEquipmentStatus(busId?: string): Promise<EquipmentStatus[]>;
   updateEquipmentStatus(status: InsertEquipmentStatus): Promise<EquipmentStatus>;
+  seedMissingEquipmentStatus(): Promise<number>;
+  getBusHealth(busId: string): Promise<BusHealth | undefined>;
 
   getDashboardStats(): Promise<DashboardStats>;
   getWeeklyReport(weekStart: Date): Promise<WeeklyReport>;
   getMonthlyReport(monthStart: Date): Promise<MonthlyReport>;
-  getCameraStatus(): Promise<Array<{ busId: string; busNumber: string; plate: string | null; cameras: Array<{ channel: string; status: string }> }>>;
+  getRangeReport(filters: ReportRangeFilters): Promise<RangeReport>;
+  getRecurringFailures(asOf?: Date): Promise<RecurringFailure[]>;
+  getRepairAnalytics(from: Date, to: Date): Promise<RepairAnalytics>;
+
+  getSlaTargets(): Promise<SlaTarget[]>;
+  createSlaTarget(target: InsertSlaTarget): Promise<SlaTarget>;
+  updateSlaTarget(id: string, targetHours: number): Promise<SlaTarget | undefined>;
+  deleteSlaTarget(id: string): Promise<boolean>;
+
+  getPriorityMatrix(): Promise<PriorityMatrixEntry[]>;
+  setPriorityMatrixEntry(entry: InsertPriorityMatrixEntry): Promise<PriorityMatrixEntry>;
+  getDefaultPriority(equipmentType: string, incidentType: string): Promise<string>;
+
+  getKioskTokens(): Promise<KioskToken[]>;
+  createKioskToken(name: string, tokenHash: string): Promise<KioskToken>;
+  deleteKioskToken(id: string): Promise<boolean>;
+  useKioskToken(tokenHash: string): Promise<KioskToken | undefined>;
+  getCameraStatus(): Promise<BusCameraStatus[]>;
 }
 
+// Kiosk token hashes never leave the storage layer
+const kioskTokenColumns = {
+  id: kioskTokens.id,
+  name: kioskTokens.name,
+  createdAt: kioskTokens.createdAt,
+  lastUsedAt: kioskTokens.lastUsedAt,
+};
+
 export class DatabaseStorage implements IStorage {
   private isInitialized = false;
 
@@ -90,47 +345,13 @@ export class DatabaseStorage implements IStorage {
     }
 
     try {
-      // Ensure bus_documents table exists
-      try {
-        await db.execute(sql`SELECT 1 FROM bus_documents LIMIT 0`);
-        console.log("✅ bus_documents table exists.");
-      } catch {
-        console.warn("⚠️ bus_documents table not found. Creating it now...");
-        try {
-          await db.execute(sql`
-            CREATE TABLE IF NOT EXISTS bus_documents (
-              id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
-              bus_id VARCHAR NOT NULL,
-              doc_type TEXT NOT NULL,
-              file_name TEXT NOT NULL,
-              file_path TEXT NOT NULL,
-              uploaded_at TIMESTAMP DEFAULT NOW(),
-              notes TEXT
-            )
-          `);
-          console.log("✅ bus_documents table created successfully.");
-        } catch (createErr) {
-          console.error("❌ Failed to create bus_documents table:", createErr);
-        }
-      }
+      // Schema is managed by migrations (see server/migrate.ts); only seed data here
+      await seedDatabase();
 
-      // Ensure Galaxias user exists
-      console.log("🔍 Checking for Galaxias user...");
-
-      const [existing] = await db.select().from(users).where(eq(users.username, "Galaxias"));
-      if (!existing) {
-        console.log("📝 Seeding Galaxias user...");
-        const hashedPassword = await bcrypt.hash("G4l4x", 10);
-        await db.insert(users).values({
-          username: "Galaxias",
-          password: hashedPassword,
-          name: "Admin Galaxias",
-          role: "admin",
-          active: "true",
-        });
-        console.log("✅ Galaxias user seeded successfully.");
-      } else {
-        console.log("✅ Galaxias user already exists.");
+      // Backfill equipment status rows for buses created before all equipment was tracked
+      const seeded = await this.seedMissingEquipmentStatus();
+      if (seeded > 0) {
+        console.log(`✅ Seeded ${seeded} missing equipment status row(s).`);
       }
 
       this.isInitialized = true;
@@ -154,6 +375,16 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(users);
   }
 
+  async getTechnicians(): Promise<User[]> {
+    return db.select().from(users)
+      .where(and(eq(users.role, "technician"), eq(users.active, "true")))
+      .orderBy(users.name);
+  }
+
+  async getActiveUsers(): Promise<User[]> {
+    return db.select().from(users).where(eq(users.active, "true")).orderBy(users.name);
+  }
+
   async createUser(insertUser: InsertUser): Promise<User> {
     const hashedPassword = await bcrypt.hash(insertUser.password, 10);
     const [user] = await db.insert(users).values({
@@ -180,10 +411,108 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteUser(id: string): Promise<boolean> {
+    // Return the user's open work to the unassigned pool
+    await db.update(incidents).set({ assignedTo: null }).where(eq(incidents.assignedTo, id));
+    await db.update(workOrders).set({ assignedTo: null }).where(eq(workOrders.assignedTo, id));
+    await this.deleteUserSessions(id);
+    await db.delete(userNotifications).where(eq(userNotifications.userId, id));
     const [deleted] = await db.delete(users).where(eq(users.id, id)).returning();
     return !!deleted;
   }
 
+  // ── Login Attempts ───────────────────────────────────────────────────────
+
+  async recordLoginAttempt(attempt: { username: string; ip: string | null; success: boolean; reason?: string }): Promise<void> {
+    await db.insert(loginAttempts).values({
+      username: attempt.username,
+      ip: attempt.ip,
+      success: attempt.success ? "true" : "false",
+      reason: attempt.reason ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  /**
+   * Counts failed password checks since `since`. For a username the window
+   * restarts at its last successful login, so a correct password clears the
+   * lockout. Rejections while already locked are not counted.
+   */
+  async getRecentLoginFailures(filter: { username?: string; ip?: string }, since: Date): Promise<{ count: number; oldest: Date | null }> {
+    let windowStart = since;
+    if (filter.username) {
+      const [lastSuccess] = await db.select().from(loginAttempts)
+        .where(and(eq(loginAttempts.username, filter.username), eq(loginAttempts.success, "true")))
+        .orderBy(desc(loginAttempts.createdAt))
+        .limit(1);
+      if (lastSuccess?.createdAt && lastSuccess.createdAt > windowStart) {
+        windowStart = lastSuccess.createdAt;
+      }
+    }
+
+    const conditions = [
+      eq(loginAttempts.success, "false"),
+      eq(loginAttempts.reason, LoginFailureReason.INVALID_CREDENTIALS),
+      gt(loginAttempts.createdAt, windowStart),
+    ];
+    if (filter.username) conditions.push(eq(loginAttempts.username, filter.username));
+    if (filter.ip) conditions.push(eq(loginAttempts.ip, filter.ip));
+
+    const [result] = await db.select({
+      count: sql<number>`count(*)::int`,
+      oldest: sql<Date | null>`min(${loginAttempts.createdAt})`,
+    }).from(loginAttempts).where(and(...conditions));
+
+    return { count: result?.count ?? 0, oldest: result?.oldest ? new Date(result.oldest) : null };
+  }
+
+  async getLoginAttempts(limit = 200): Promise<LoginAttempt[]> {
+    return db.select().from(loginAttempts).orderBy(desc(loginAttempts.createdAt)).limit(limit);
+  }
+
+  // ── Sessions ─────────────────────────────────────────────────────────────
+
+  async getActiveSessions(): Promise<ActiveSession[]> {
+    const rows = await db.select().from(sessions)
+      .where(gt(sessions.expire, new Date()))
+      .orderBy(desc(sessions.expire));
+
+    const allUsers = await db.select().from(users);
+    const userMap: Record<string, User> = {};
+    allUsers.forEach(u => userMap[u.id] = u);
+
+    const result: ActiveSession[] = [];
+    for (const row of rows) {
+      const sess = row.sess as { userId?: string; loginAt?: string; userAgent?: string; ip?: string };
+      const user = sess.userId ? userMap[sess.userId] : undefined;
+      if (!user) continue; // anonymous or orphaned session
+      result.push({
+        sid: row.sid,
+        userId: user.id,
+        userName: user.name,
+        username: user.username,
+        loginAt: sess.loginAt ?? null,
+        userAgent: sess.userAgent ?? null,
+        ip: sess.ip ?? null,
+        expire: row.expire.toISOString(),
+      });
+    }
+    return result;
+  }
+
+  async deleteSession(sid: string): Promise<boolean> {
+    const [deleted] = await db.delete(sessions).where(eq(sessions.sid, sid)).returning();
+    return !!deleted;
+  }
+
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const conditions = [sql`${sessions.sess}->>'userId' = ${userId}`];
+    if (exceptSid) conditions.push(sql`${sessions.sid} <> ${exceptSid}`);
+    const deleted = await db.delete(sessions)
+      .where(and(...conditions))
+      .returning();
+    return deleted.length;
+  }
+
   async getBuses(): Promise<Bus[]> {
     return db.select().from(buses).orderBy(sql`
       CASE WHEN ${buses.busNumber} ~ '^[0-9]+$'
@@ -204,17 +533,16 @@ export class DatabaseStorage implements IStorage {
       plate: insertBus.plate || null,
     }).returning();
 
-    // Create default equipment status for cameras
-    const channels = ["ch1", "ch2", "ch3", "ch4"];
-    for (const channel of channels) {
-      await db.insert(equipmentStatus).values({
+    // Create default equipment status for every camera channel and bus-level equipment
+    await db.insert(equipmentStatus).values(
+      this.defaultEquipmentKeys().map(key => ({
         busId: bus.id,
-        equipmentType: "camera",
-        cameraChannel: channel,
+        equipmentType: key.equipmentType,
+        cameraChannel: key.cameraChannel,
         status: "operational",
         updatedAt: new Date(),
-      });
-    }
+      }))
+    );
 
     return bus;
   }
@@ -228,17 +556,42 @@ export class DatabaseStorage implements IStorage {
     return updatedBus;
   }
 
-  async deleteBus(id: string): Promise<boolean> {
-    // Delete cascade: documents, equipment_status, incidents
-    try {
-      await db.delete(busDocuments).where(eq(busDocuments.busId, id));
-    } catch (err) {
-      console.warn("⚠️ Could not delete bus_documents (table may not exist):", err);
-    }
-    await db.delete(equipmentStatus).where(eq(equipmentStatus.busId, id));
-    await db.delete(incidents).where(eq(incidents.busId, id));
-    const [deleted] = await db.delete(buses).where(eq(buses.id, id)).returning();
-    return !!deleted;
+  /**
+   * Deletes the bus and everything tied to it in one transaction. Returns the
+   * deleted attachments so the caller can remove their files once committed,
+   * or undefined when the bus does not exist.
+   */
+  async deleteBus(id: string): Promise<IncidentAttachment[] | undefined> {
+    // Delete cascade: documents, equipment_status, device history, incident history, attachments,
+    // comments, notifications and parts used, incidents, work orders
+    return db.transaction(async (tx) => {
+      const [bus] = await tx.select().from(buses).where(eq(buses.id, id)).for("update");
+      if (!bus) return undefined;
+
+      const busIncidents = sql`(SELECT ${incidents.id} FROM ${incidents} WHERE ${incidents.busId} = ${id})`;
+      const busWorkOrders = sql`(SELECT ${workOrders.id} FROM ${workOrders} WHERE ${workOrders.busId} = ${id})`;
+
+      await tx.delete(busDocuments).where(eq(busDocuments.busId, id));
+      await tx.delete(equipmentStatus).where(eq(equipmentStatus.busId, id));
+      await tx.update(devices)
+        .set({ location: DeviceLocation.WAREHOUSE, busId: null, cameraChannel: null })
+        .where(eq(devices.busId, id));
+      await tx.delete(deviceMovements).where(eq(deviceMovements.busId, id));
+      await tx.delete(incidentEvents).where(sql`${incidentEvents.incidentId} IN ${busIncidents}`);
+      const attachments = await tx.delete(incidentAttachments)
+        .where(sql`${incidentAttachments.incidentId} IN ${busIncidents}`)
+        .returning();
+      await tx.delete(incidentComments).where(sql`${incidentComments.incidentId} IN ${busIncidents}`);
+      await tx.delete(userNotifications).where(sql`${userNotifications.incidentId} IN ${busIncidents}`);
+      await tx.delete(partConsumptions).where(or(
+        sql`${partConsumptions.incidentId} IN ${busIncidents}`,
+        sql`${partConsumptions.workOrderId} IN ${busWorkOrders}`,
+      ));
+      await tx.delete(incidents).where(eq(incidents.busId, id));
+      await tx.delete(workOrders).where(eq(workOrders.busId, id));
+      await tx.delete(buses).where(eq(buses.id, id));
+      return attachments;
+    });
   }
 
   async getBusDocuments(busId: string): Promise<BusDocument[]> {
@@ -256,7 +609,11 @@ export class DatabaseStorage implements IStorage {
     return result;
   }
 
-  async getExpiringDocuments(): Promise<Array<{ busNumber: string; docType: string; fileName: string; expiresAt: Date; daysLeft: number; driverName?: string }>> {
+  /**
+   * Documents whose expiry is within the widest alert offset of their type.
+   * Types that do not expire, or have no offsets, never alert.
+   */
+  async getExpiringDocuments(): Promise<ExpiringDocument[]> {
     const allDocs = await db.select().from(busDocuments).where(
       sql`${busDocuments.expiresAt} IS NOT NULL`
     );
@@ -269,28 +626,32 @@ export class DatabaseStorage implements IStorage {
     const driverMap: Record<string, string> = {};
     allDrivers.forEach(d => driverMap[d.id] = d.name);
 
+    const allTypes = await db.select().from(documentTypes);
+    const typeMap: Record<string, DocumentType> = {};
+    allTypes.forEach(t => typeMap[t.key] = t);
+
     const now = new Date();
-    const results: Array<{ busNumber: string; docType: string; fileName: string; expiresAt: Date; daysLeft: number; driverName?: string }> = [];
+    const results: ExpiringDocument[] = [];
 
     for (const doc of allDocs) {
       if (!doc.expiresAt) continue;
+      const type = typeMap[doc.docType];
+      if (!type || type.expires !== "true" || type.alertOffsets.length === 0) continue;
+
       const diffMs = doc.expiresAt.getTime() - now.getTime();
       const daysLeft = Math.ceil(diffMs / (1000 * 60 * 60 * 24));
+      const reached = type.alertOffsets.filter(offset => daysLeft <= offset);
 
-      // revision_tecnica: alert 5 days before
-      // licencia_conducir, cedula_conductor: alert 30 days (1 month) before
-      let alertDays = 0;
-      if (doc.docType === "revision_tecnica") alertDays = 5;
-      else if (doc.docType === "licencia_conducir" || doc.docType === "cedula_conductor") alertDays = 30;
-      else continue; // no alert for other types
-
-      if (daysLeft <= alertDays) {
+      if (reached.length > 0) {
         results.push({
+          id: doc.id,
           busNumber: busMap[doc.busId] || doc.busId,
           docType: doc.docType,
+          label: type.label,
           fileName: doc.fileName,
           expiresAt: doc.expiresAt,
           daysLeft,
+          threshold: Math.min(...reached),
           driverName: doc.driverId ? driverMap[doc.driverId] : undefined,
         });
       }
@@ -304,6 +665,37 @@ export class DatabaseStorage implements IStorage {
     return deleted;
   }
 
+  // ── Document types ───────────────────────────────────────────────────────
+  async getDocumentTypes(): Promise<DocumentType[]> {
+    return db.select().from(documentTypes).orderBy(documentTypes.sortOrder, documentTypes.label);
+  }
+
+  async getDocumentType(id: string): Promise<DocumentType | undefined> {
+    const [docType] = await db.select().from(documentTypes).where(eq(documentTypes.id, id));
+    return docType;
+  }
+
+  async createDocumentType(docType: InsertDocumentType): Promise<DocumentType> {
+    const [created] = await db.insert(documentTypes).values({ ...docType, createdAt: new Date() }).returning();
+    return created;
+  }
+
+  async updateDocumentType(id: string, updates: Partial<InsertDocumentType>): Promise<DocumentType | undefined> {
+    const [updated] = await db.update(documentTypes).set(updates).where(eq(documentTypes.id, id)).returning();
+    return updated;
+  }
+
+  async deleteDocumentType(id: string): Promise<boolean> {
+    const [deleted] = await db.delete(documentTypes).where(eq(documentTypes.id, id)).returning();
+    return !!deleted;
+  }
+
+  async countDocumentsOfType(key: string): Promise<number> {
+    const [row] = await db.select({ count: sql<number>`count(*)::int` }).from(busDocuments)
+      .where(eq(busDocuments.docType, key));
+    return row.count;
+  }
+
   // ── Drivers ──────────────────────────────────────────────────────────────
 
   async getDrivers(): Promise<Driver[]> {
@@ -398,15 +790,154 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async getIncidents(filters?: { status?: string; equipmentType?: string; busId?: string; limit?: number }): Promise<Incident[]> {
+  async updateEmailRecipientSubscriptions(id: string, subscriptions: RecipientSubscriptions): Promise<EmailRecipient | undefined> {
+    const [updated] = await db.update(emailRecipients)
+      .set(subscriptions)
+      .where(eq(emailRecipients.id, id))
+      .returning();
+    return updated;
+  }
+
+  // ── Notification log ─────────────────────────────────────────────────────
+
+  async getNotificationLog(limit = 200): Promise<NotificationLogEntry[]> {
+    return db.select().from(notificationLog).orderBy(desc(notificationLog.sentAt)).limit(limit);
+  }
+
+  async getNotificationLogEntry(id: string): Promise<NotificationLogEntry | undefined> {
+    const [entry] = await db.select().from(notificationLog).where(eq(notificationLog.id, id));
+    return entry;
+  }
+
+  async getThresholdNotifications(documentIds: string[]): Promise<NotificationLogEntry[]> {
+    if (documentIds.length === 0) return [];
+    return db.select().from(notificationLog).where(and(
+      eq(notificationLog.kind, NotificationKind.THRESHOLD),
+      inArray(notificationLog.documentId, documentIds),
+    ));
+  }
+
+  async getLastDigestSentAt(recipient: string): Promise<Date | null> {
+    const [last] = await db.select({ sentAt: notificationLog.sentAt }).from(notificationLog)
+      .where(and(eq(notificationLog.kind, NotificationKind.DIGEST), eq(notificationLog.recipient, recipient)))
+      .orderBy(desc(notificationLog.sentAt))
+      .limit(1);
+    return last?.sentAt ?? null;
+  }
+
+  // Threshold rows that already exist are skipped, so a retry never duplicates.
+  async recordNotifications(entries: InsertNotificationLogEntry[]): Promise<void> {
+    if (entries.length === 0) return;
+    await db.insert(notificationLog)
+      .values(entries.map(entry => ({ ...entry, sentAt: new Date() })))
+      .onConflictDoNothing();
+  }
+
+  // ── Job runs ─────────────────────────────────────────────────────────────
+
+  async createJobRun(run: { job: string; trigger: string; status?: string; userName?: string | null }): Promise<JobRun> {
+    const now = new Date();
+    const finished = run.status && run.status !== JobRunStatus.RUNNING;
+    const [created] = await db.insert(jobRuns).values({
+      job: run.job,
+      trigger: run.trigger,
+      status: run.status ?? JobRunStatus.RUNNING,
+      userName: run.userName ?? null,
+      startedAt: now,
+      finishedAt: finished ? now : null,
+      durationMs: finished ? 0 : null,
+    }).returning();
+    return created;
+  }
+
+  async finishJobRun(id: string, status: string, error?: string): Promise<JobRun | undefined> {
+    const [updated] = await db.update(jobRuns)
+      .set({
+        status,
+        error: error ?? null,
+        finishedAt: new Date(),
+        durationMs: sql`(extract(epoch from now() - ${jobRuns.startedAt}) * 1000)::int`,
+      })
+      .where(eq(jobRuns.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Runs left "running" by an instance that died mid-job; only safe to call
+  // while holding the job's advisory lock
+  async failRunningJobRuns(job: string, error: string): Promise<number> {
+    const updated = await db.update(jobRuns)
+      .set({
+        status: JobRunStatus.FAILED,
+        error,
+        finishedAt: new Date(),
+        durationMs: sql`(extract(epoch from now() - ${jobRuns.startedAt}) * 1000)::int`,
+      })
+      .where(and(eq(jobRuns.job, job), eq(jobRuns.status, JobRunStatus.RUNNING)))
+      .returning({ id: jobRuns.id });
+    return updated.length;
+  }
+
+  async getJobRuns(job?: string, limit = 100): Promise<JobRun[]> {
+    const baseQuery = db.select().from(jobRuns);
+    const filteredQuery = job ? baseQuery.where(eq(jobRuns.job, job)) : baseQuery;
+    return filteredQuery.orderBy(desc(jobRuns.startedAt)).limit(limit);
+  }
+
+  async getLatestJobRuns(): Promise<JobRun[]> {
+    return db.selectDistinctOn([jobRuns.job]).from(jobRuns)
+      .orderBy(jobRuns.job, desc(jobRuns.startedAt));
+  }
+
+  /**
+   * Open incidents with no activity since the given date. Activity is the most
+   * recent history event (status change, assignment...) or else the report date.
+   */
+  async getStaleIncidents(inactiveSince: Date): Promise<Array<Incident & { busNumber: string; lastActivityAt: Date }>> {
+    const lastActivity = sql<Date>`coalesce(
+      (select max(${incidentEvents.createdAt}) from ${incidentEvents} where ${incidentEvents.incidentId} = ${incidents.id}),
+      ${incidents.reportedAt}
+    )`;
+    const rows = await db.select({ incident: incidents, lastActivityAt: lastActivity }).from(incidents)
+      .where(and(
+        inArray(incidents.status, [...OpenIncidentStatuses]),
+        lt(lastActivity, inactiveSince),
+      ))
+      .orderBy(asc(lastActivity));
+
+    const allBuses = await db.select().from(buses);
+    const busMap: Record<string, string> = {};
+    allBuses.forEach(b => busMap[b.id] = b.busNumber);
+
+    return rows.map(({ incident, lastActivityAt }) => ({
+      ...incident,
+      busNumber: busMap[incident.busId] || incident.busId,
+      lastActivityAt: new Date(lastActivityAt),
+    }));
+  }
+
+  async getIncidents(filters?: IncidentFilters): Promise<Incident[]> {
     const conditions = [];
     if (filters?.status) conditions.push(eq(incidents.status, filters.status));
     if (filters?.equipmentType) conditions.push(eq(incidents.equipmentType, filters.equipmentType));
     if (filters?.busId) conditions.push(eq(incidents.busId, filters.busId));
+    if (filters?.assignedTo) conditions.push(eq(incidents.assignedTo, filters.assignedTo));
+    if (filters?.reportedFrom) conditions.push(gte(incidents.reportedAt, filters.reportedFrom));
+    if (filters?.reportedTo) conditions.push(lte(incidents.reportedAt, filters.reportedTo));
+    if (filters?.statuses && filters.statuses.length > 0) {
+      conditions.push(inArray(incidents.status, [...filters.statuses]));
+    }
+    if (filters?.priority) conditions.push(eq(incidents.priority, filters.priority));
+    if (filters?.overdue) {
+      conditions.push(inArray(incidents.status, [...OpenIncidentStatuses]), lt(incidents.dueAt, new Date()));
+    }
 
+    const reportedOrder = filters?.oldestFirst ? asc(incidents.reportedAt) : desc(incidents.reportedAt);
     const baseQuery = db.select().from(incidents);
     const filteredQuery = conditions.length > 0 ? baseQuery.where(and(...conditions)) : baseQuery;
-    const orderedQuery = filteredQuery.orderBy(desc(incidents.reportedAt));
+    const orderedQuery = filters?.byPriority
+      ? filteredQuery.orderBy(priorityRank, sql`${incidents.dueAt} asc nulls last`, reportedOrder)
+      : filteredQuery.orderBy(reportedOrder);
 
     if (filters?.limit) {
       return orderedQuery.limit(filters.limit);
@@ -415,69 +946,749 @@ export class DatabaseStorage implements IStorage {
     return orderedQuery;
   }
 
+  /** Open incidents past their due date that have not been escalated yet, most urgent first. */
+  async getUnescalatedOverdueIncidents(now: Date): Promise<Array<Incident & { busNumber: string; assigneeName: string | null }>> {
+    const rows = await db.select().from(incidents)
+      .where(and(
+        inArray(incidents.status, [...OpenIncidentStatuses]),
+        lt(incidents.dueAt, now),
+        isNull(incidents.escalatedAt),
+      ))
+      .orderBy(priorityRank, asc(incidents.dueAt));
+
+    const allBuses = await db.select().from(buses);
+    const busMap: Record<string, string> = {};
+    allBuses.forEach(b => busMap[b.id] = b.busNumber);
+
+    const allUsers = await db.select().from(users);
+    const userMap: Record<string, string> = {};
+    allUsers.forEach(u => userMap[u.id] = u.name);
+
+    return rows.map(incident => ({
+      ...incident,
+      busNumber: busMap[incident.busId] || incident.busId,
+      assigneeName: incident.assignedTo ? userMap[incident.assignedTo] || null : null,
+    }));
+  }
+
+  async markIncidentsEscalated(ids: string[], notes: string): Promise<void> {
+    if (ids.length === 0) return;
+    await db.update(incidents).set({ escalatedAt: new Date() }).where(inArray(incidents.id, ids));
+    for (const incidentId of ids) {
+      await this.recordIncidentEvent({ incidentId, eventType: IncidentEventType.ESCALATION, notes });
+    }
+  }
+
   async getIncident(id: string): Promise<Incident | undefined> {
     const [incident] = await db.select().from(incidents).where(eq(incidents.id, id));
     return incident;
   }
 
-  async createIncident(insertIncident: InsertIncident): Promise<Incident> {
+  async createIncident(insertIncident: InsertIncident, actor?: IncidentActor): Promise<Incident> {
+    const reportedAt = new Date();
+    const priority = insertIncident.priority
+      || await this.getDefaultPriority(insertIncident.equipmentType, insertIncident.incidentType);
     const [incident] = await db.insert(incidents).values({
       ...insertIncident,
-      reportedAt: new Date(),
+      priority,
+      dueAt: addHours(reportedAt, PriorityDueHours[priority]),
+      escalatedAt: null,
+      reportedAt,
       resolvedAt: null,
       cameraChannel: insertIncident.cameraChannel || null,
       description: insertIncident.description || null,
       resolutionNotes: insertIncident.resolutionNotes || null,
       reporter: insertIncident.reporter || null,
+      assignedTo: insertIncident.assignedTo || null,
     }).returning();
 
-    if (insertIncident.equipmentType === "camera" && insertIncident.cameraChannel) {
-      const [existing] = await db.select().from(equipmentStatus).where(and(
-        eq(equipmentStatus.busId, insertIncident.busId),
-        eq(equipmentStatus.cameraChannel, insertIncident.cameraChannel)
-      ));
+    await this.recordIncidentEvent({
+      incidentId: incident.id,
+      eventType: IncidentEventType.CREATED,
+      toValue: incident.status,
+      notes: incident.description,
+    }, actor);
+
+    await this.markEquipmentFailing(incident, actor);
+    return incident;
+  }
 
-      if (existing) {
-        await db.update(equipmentStatus)
-          .set({
-            status: insertIncident.incidentType === "faulty" ? "faulty" : "misaligned",
-            lastIncidentId: incident.id,
-            updatedAt: new Date()
-          })
-          .where(eq(equipmentStatus.id, existing.id));
+  // Puts the incident's equipment (if tracked) back in its failure status
+  private async markEquipmentFailing(incident: Incident, actor?: IncidentActor, executor: DbExecutor = db): Promise<void> {
+    const equipmentKey = this.incidentEquipmentKey(incident);
+    if (!equipmentKey) return;
+
+    const existing = await this.findEquipmentStatus(incident.busId, equipmentKey, executor);
+    const newStatus = incident.incidentType === "faulty" ? "faulty" : "misaligned";
+
+    await this.updateEquipmentStatus({
+      busId: incident.busId,
+      ...equipmentKey,
+      status: newStatus,
+      lastIncidentId: incident.id,
+    }, executor);
+
+    await this.recordIncidentEvent({
+      incidentId: incident.id,
+      eventType: IncidentEventType.EQUIPMENT_STATUS,
+      fromValue: existing?.status ?? "operational",
+      toValue: newStatus,
+    }, actor, executor);
+  }
+
+  async updateIncident(id: string, updates: Partial<Incident>, actor?: IncidentActor): Promise<Incident | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(incidents).where(eq(incidents.id, id)).for("update");
+      if (!current) return undefined;
+      return this.applyIncidentUpdate(tx, current, updates, actor);
+    });
+  }
+
+  /**
+   * Update plus the device swap and parts recorded with it, in one
+   * transaction with the incident row locked: a stock shortfall leaves the
+   * incident and inventory as they were, and a repeat resolve cannot move
+   * devices or take parts from stock a second time.
+   */
+  async updateIncidentWithWork(id: string, updates: Partial<Incident>, work: IncidentWork, actor?: IncidentActor): Promise<{ incident: Incident; lowStock: SparePart[] } | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(incidents).where(eq(incidents.id, id)).for("update");
+      if (!current) return undefined;
+      if (current.status === "resolved" && (work.swap || (work.parts && work.parts.length > 0))) {
+        throw new StorageConflictError("La incidencia ya está resuelta");
       }
-    }
 
-    return incident;
+      const incident = await this.applyIncidentUpdate(tx, current, updates, actor);
+      if (work.swap) {
+        await this.swapDevices(incident, work.swap, actor, tx);
+      }
+      const lowStock = work.parts && work.parts.length > 0
+        ? await this.consumeParts({ incidentId: id }, work.parts, actor, tx)
+        : [];
+      return { incident, lowStock };
+    });
   }
 
-  async updateIncident(id: string, updates: Partial<Incident>): Promise<Incident | undefined> {
+  private async applyIncidentUpdate(executor: DbExecutor, current: Incident, updates: Partial<Incident>, actor?: IncidentActor): Promise<Incident> {
+    const id = current.id;
     let resolveUpdate: Partial<Incident> = { ...updates };
 
-    const [current] = await db.select().from(incidents).where(eq(incidents.id, id));
-    if (!current) return undefined;
+    if (updates.status && updates.status !== current.status) {
+      await this.recordIncidentEvent({
+        incidentId: id,
+        eventType: IncidentEventType.STATUS_CHANGE,
+        fromValue: current.status,
+        toValue: updates.status,
+      }, actor, executor);
+    }
+
+    if (updates.assignedTo !== undefined && updates.assignedTo !== current.assignedTo) {
+      await this.recordIncidentEvent({
+        incidentId: id,
+        eventType: IncidentEventType.REASSIGNMENT,
+        fromValue: await this.getUserName(current.assignedTo),
+        toValue: await this.getUserName(updates.assignedTo),
+      }, actor, executor);
+    }
+
+    // The due date follows the priority; a later due date re-arms escalation
+    if (updates.priority && updates.priority !== current.priority) {
+      await this.recordIncidentEvent({
+        incidentId: id,
+        eventType: IncidentEventType.PRIORITY_CHANGE,
+        fromValue: current.priority,
+        toValue: updates.priority,
+      }, actor, executor);
+      resolveUpdate.dueAt = addHours(current.reportedAt ?? new Date(), PriorityDueHours[updates.priority]);
+      if (resolveUpdate.dueAt > new Date()) resolveUpdate.escalatedAt = null;
+    }
+
+    if (updates.resolutionNotes && updates.resolutionNotes !== current.resolutionNotes) {
+      await this.recordIncidentEvent({
+        incidentId: id,
+        eventType: IncidentEventType.NOTE,
+        notes: updates.resolutionNotes,
+      }, actor, executor);
+    }
 
-    if (updates.status === "resolved" && !current.resolvedAt) {
+    if (updates.status === "resolved" && current.status !== "resolved") {
       resolveUpdate.resolvedAt = new Date();
 
-      if (current.equipmentType === "camera" && current.cameraChannel) {
-        const [existing] = await db.select().from(equipmentStatus).where(and(
-          eq(equipmentStatus.busId, current.busId),
-          eq(equipmentStatus.cameraChannel, current.cameraChannel)
-        ));
+      const equipmentKey = this.incidentEquipmentKey(current);
+      const existing = equipmentKey && await this.findEquipmentStatus(current.busId, equipmentKey, executor);
+
+      if (equipmentKey && existing && existing.status !== "operational") {
+        await this.updateEquipmentStatus({
+          busId: current.busId,
+          ...equipmentKey,
+          status: "operational",
+          lastIncidentId: current.id,
+        }, executor);
+
+        await this.recordIncidentEvent({
+          incidentId: id,
+          eventType: IncidentEventType.EQUIPMENT_STATUS,
+          fromValue: existing.status,
+          toValue: "operational",
+        }, actor, executor);
+      }
+    }
 
-        if (existing) {
-          await db.update(equipmentStatus)
-            .set({ status: "operational", updatedAt: new Date() })
-            .where(eq(equipmentStatus.id, existing.id));
-        }
+    const [updated] = await executor.update(incidents).set(resolveUpdate).where(eq(incidents.id, id)).returning();
+    return updated;
+  }
+
+  // The previous resolution stays in the history (its status change and
+  // notes); the incident gets a fresh due date counted from the reopen.
+  // Locks the incident so a concurrent reopen or resolve waits and then
+  // sees the new status
+  async reopenIncident(id: string, reason: string, actor?: IncidentActor): Promise<Incident | undefined> {
+    return db.transaction(async (tx) => {
+      const [current] = await tx.select().from(incidents).where(eq(incidents.id, id)).for("update");
+      if (!current) return undefined;
+      if (current.status !== "resolved") {
+        throw new StorageConflictError("Solo se reabren incidencias resueltas");
       }
+
+      await this.recordIncidentEvent({
+        incidentId: id,
+        eventType: IncidentEventType.REOPENED,
+        fromValue: current.status,
+        toValue: "pending",
+        notes: reason,
+      }, actor, tx);
+
+      const [reopened] = await tx.update(incidents).set({
+        status: "pending",
+        resolvedAt: null,
+        resolutionNotes: null,
+        reopenCount: sql`${incidents.reopenCount} + 1`,
+        dueAt: addHours(new Date(), PriorityDueHours[current.priority]),
+        escalatedAt: null,
+      }).where(eq(incidents.id, id)).returning();
+
+      await this.markEquipmentFailing(reopened, actor, tx);
+      return reopened;
+    });
+  }
+
+  async getIncidentEvents(incidentId: string): Promise<IncidentEvent[]> {
+    return db.select().from(incidentEvents)
+      .where(eq(incidentEvents.incidentId, incidentId))
+      .orderBy(incidentEvents.createdAt);
+  }
+
+  async getIncidentAttachments(incidentId: string): Promise<IncidentAttachment[]> {
+    return db.select().from(incidentAttachments)
+      .where(eq(incidentAttachments.incidentId, incidentId))
+      .orderBy(incidentAttachments.uploadedAt);
+  }
+
+  async getIncidentAttachment(id: string): Promise<IncidentAttachment | undefined> {
+    const [attachment] = await db.select().from(incidentAttachments).where(eq(incidentAttachments.id, id));
+    return attachment;
+  }
+
+  // One history event per upload, listing the files added
+  async createIncidentAttachments(attachments: InsertIncidentAttachment[], actor?: IncidentActor): Promise<IncidentAttachment[]> {
+    if (attachments.length === 0) return [];
+    const created = await db.insert(incidentAttachments).values(attachments.map(a => ({
+      ...a,
+      uploadedBy: actor?.id ?? null,
+      uploadedByName: actor?.name ?? null,
+    }))).returning();
+
+    await this.recordIncidentEvent({
+      incidentId: attachments[0].incidentId,
+      eventType: IncidentEventType.ATTACHMENT,
+      toValue: attachments[0].stage,
+      notes: attachments.map(a => a.fileName).join(", "),
+    }, actor);
+
+    return created;
+  }
+
+  async deleteIncidentAttachment(id: string): Promise<IncidentAttachment | undefined> {
+    const [deleted] = await db.delete(incidentAttachments).where(eq(incidentAttachments.id, id)).returning();
+    return deleted;
+  }
+
+  async getIncidentComments(incidentId: string, includeInternal: boolean): Promise<IncidentComment[]> {
+    const conditions = [eq(incidentComments.incidentId, incidentId)];
+    if (!includeInternal) conditions.push(eq(incidentComments.internal, "false"));
+    return db.select().from(incidentComments)
+      .where(and(...conditions))
+      .orderBy(incidentComments.createdAt);
+  }
+
+  // Mentioned users (other than the author) get an in-app notification
+  async createIncidentComment(
+    comment: { incidentId: string; body: string; internal: boolean; mentionedUserIds: string[] },
+    author: IncidentActor,
+  ): Promise<IncidentComment> {
+    const [created] = await db.insert(incidentComments).values({
+      incidentId: comment.incidentId,
+      authorId: author.id,
+      authorName: author.name,
+      body: comment.body,
+      internal: comment.internal ? "true" : "false",
+      mentionedUserIds: comment.mentionedUserIds,
+    }).returning();
+
+    const recipients = comment.mentionedUserIds.filter(id => id !== author.id);
+    if (recipients.length > 0) {
+      const incident = await this.getIncident(comment.incidentId);
+      const bus = incident && await this.getBus(incident.busId);
+      const excerpt = comment.body.length > 120 ? `${comment.body.slice(0, 117)}...` : comment.body;
+      await db.insert(userNotifications).values(recipients.map(userId => ({
+        userId,
+        kind: UserNotificationKind.MENTION,
+        incidentId: comment.incidentId,
+        actorName: author.name,
+        message: `Te mencionó en la incidencia del bus ${bus?.busNumber ?? "?"}: "${excerpt}"`,
+      })));
+    }
+
+    return created;
+  }
+
+  private async getUserName(userId: string | null): Promise<string | null> {
+    if (!userId) return null;
+    const user = await this.getUser(userId);
+    return user?.name ?? null;
+  }
+
+  private async recordIncidentEvent(event: InsertIncidentEvent, actor?: IncidentActor, executor: DbExecutor = db): Promise<IncidentEvent> {
+    const [created] = await executor.insert(incidentEvents).values({
+      ...event,
+      userId: actor?.id ?? null,
+      userName: actor?.name ?? null,
+      createdAt: new Date(),
+    }).returning();
+    return created;
+  }
+
+  // ── Device Inventory ────────────────────────────────────────────────────
+
+  async getDevices(filters?: { equipmentType?: string; location?: string; busId?: string }): Promise<Device[]> {
+    const conditions = [];
+    if (filters?.equipmentType) conditions.push(eq(devices.equipmentType, filters.equipmentType));
+    if (filters?.location) conditions.push(eq(devices.location, filters.location));
+    if (filters?.busId) conditions.push(eq(devices.busId, filters.busId));
+
+    const baseQuery = db.select().from(devices);
+    const filteredQuery = conditions.length > 0 ? baseQuery.where(and(...conditions)) : baseQuery;
+    return filteredQuery.orderBy(devices.serial);
+  }
+
+  async getDevice(id: string): Promise<Device | undefined> {
+    const [device] = await db.select().from(devices).where(eq(devices.id, id));
+    return device;
+  }
+
+  async createDevice(device: InsertDevice): Promise<Device> {
+    const [created] = await db.insert(devices).values({
+      ...device,
+      location: device.location || DeviceLocation.WAREHOUSE,
+      createdAt: new Date(),
+    }).returning();
+
+    // Units registered directly on a bus start their history with an install
+    if (created.location === DeviceLocation.BUS && created.busId) {
+      await db.insert(deviceMovements).values({
+        deviceId: created.id,
+        action: DeviceMovementAction.INSTALL,
+        busId: created.busId,
+        cameraChannel: created.cameraChannel,
+        createdAt: new Date(),
+      });
+    }
+    return created;
+  }
+
+  async updateDevice(id: string, updates: Partial<InsertDevice>): Promise<Device | undefined> {
+    const [updated] = await db.update(devices).set(updates).where(eq(devices.id, id)).returning();
+    return updated;
+  }
+
+  async getDeviceMovements(deviceId: string): Promise<Array<DeviceMovement & { busNumber: string }>> {
+    const movements = await db.select().from(deviceMovements)
+      .where(eq(deviceMovements.deviceId, deviceId))
+      .orderBy(desc(deviceMovements.createdAt));
+
+    const allBuses = await db.select().from(buses);
+    const busMap: Record<string, string> = {};
+    allBuses.forEach(b => busMap[b.id] = b.busNumber);
+
+    return movements.map(m => ({ ...m, busNumber: busMap[m.busId] || m.busId }));
+  }
+
+  async swapDevices(incident: Incident, swap: DeviceSwapData, actor?: IncidentActor, executor: DbExecutor = db): Promise<void> {
+    const movement = {
+      busId: incident.busId,
+      cameraChannel: incident.cameraChannel,
+      incidentId: incident.id,
+      userId: actor?.id ?? null,
+      userName: actor?.name ?? null,
+      createdAt: new Date(),
+    };
+
+    if (swap.outgoingDeviceId) {
+      await executor.update(devices)
+        .set({ location: swap.outgoingLocation, busId: null, cameraChannel: null })
+        .where(eq(devices.id, swap.outgoingDeviceId));
+      await executor.insert(deviceMovements).values({
+        ...movement,
+        deviceId: swap.outgoingDeviceId,
+        action: DeviceMovementAction.UNINSTALL,
+      });
+    }
+
+    if (swap.incomingDeviceId) {
+      await executor.update(devices)
+        .set({ location: DeviceLocation.BUS, busId: incident.busId, cameraChannel: incident.cameraChannel })
+        .where(eq(devices.id, swap.incomingDeviceId));
+      await executor.insert(deviceMovements).values({
+        ...movement,
+        deviceId: swap.incomingDeviceId,
+        action: DeviceMovementAction.INSTALL,
+      });
     }
+  }
+
+  // ── Spare Parts ─────────────────────────────────────────────────────────
+
+  async getSpareParts(): Promise<SparePart[]> {
+    return db.select().from(spareParts).orderBy(spareParts.name);
+  }
+
+  async getSparePart(id: string): Promise<SparePart | undefined> {
+    const [part] = await db.select().from(spareParts).where(eq(spareParts.id, id));
+    return part;
+  }
+
+  async createSparePart(part: InsertSparePart): Promise<SparePart> {
+    const [created] = await db.insert(spareParts).values({ ...part, createdAt: new Date() }).returning();
+    return created;
+  }
 
-    const [updated] = await db.update(incidents).set(resolveUpdate).where(eq(incidents.id, id)).returning();
+  async updateSparePart(id: string, updates: Partial<InsertSparePart>): Promise<SparePart | undefined> {
+    const [updated] = await db.update(spareParts).set(updates).where(eq(spareParts.id, id)).returning();
     return updated;
   }
 
+  /**
+   * Decrements stock for the parts used on an incident. Runs in a single
+   * transaction so a shortfall on any line leaves every stock level untouched.
+   * Returns the parts that dropped to or below their minimum with this usage.
+   */
+  async consumeParts(consumer: PartConsumer, usage: PartUsage, actor?: IncidentActor, executor: DbExecutor = db): Promise<SparePart[]> {
+    return executor.transaction(async (tx) => {
+      const lowStock: SparePart[] = [];
+      for (const line of usage) {
+        const [updated] = await tx.update(spareParts)
+          .set({ stock: sql`${spareParts.stock} - ${line.quantity}` })
+          .where(and(eq(spareParts.id, line.partId), gte(spareParts.stock, line.quantity)))
+          .returning();
+        if (!updated) {
+          const [part] = await tx.select().from(spareParts).where(eq(spareParts.id, line.partId));
+          throw new StorageConflictError(part
+            ? `Stock insuficiente de ${part.name} (disponible: ${part.stock})`
+            : "Repuesto no encontrado");
+        }
+
+        await tx.insert(partConsumptions).values({
+          partId: line.partId,
+          ...consumer,
+          quantity: line.quantity,
+          userId: actor?.id ?? null,
+          userName: actor?.name ?? null,
+          createdAt: new Date(),
+        });
+
+        const previousStock = updated.stock + line.quantity;
+        if (updated.stock <= updated.minStock && previousStock > updated.minStock) {
+          lowStock.push(updated);
+        }
+      }
+      return lowStock;
+    });
+  }
+
+  async getIncidentPartConsumptions(incidentId: string): Promise<PartConsumptionLine[]> {
+    return this.describePartConsumptions(eq(partConsumptions.incidentId, incidentId));
+  }
+
+  private async describePartConsumptions(condition: SQL): Promise<PartConsumptionLine[]> {
+    const consumptions = await db.select().from(partConsumptions)
+      .where(condition)
+      .orderBy(asc(partConsumptions.createdAt));
+
+    const allParts = await db.select().from(spareParts);
+    const partMap: Record<string, SparePart> = {};
+    allParts.forEach(p => partMap[p.id] = p);
+
+    return consumptions.map(c => ({
+      ...c,
+      partName: partMap[c.partId]?.name || c.partId,
+      unit: partMap[c.partId]?.unit || "unidad",
+    }));
+  }
+
+  // ── Work orders ──────────────────────────────────────────────────────────
+
+  async getWorkOrders(filters?: { status?: string; busId?: string; assignedTo?: string }): Promise<WorkOrderSummary[]> {
+    const conditions = [];
+    if (filters?.status) conditions.push(eq(workOrders.status, filters.status));
+    if (filters?.busId) conditions.push(eq(workOrders.busId, filters.busId));
+    if (filters?.assignedTo) conditions.push(eq(workOrders.assignedTo, filters.assignedTo));
+
+    // Open orders first, soonest scheduled first
+    const rows = await db.select().from(workOrders)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(
+        sql`${workOrders.completedAt} is not null`,
+        sql`${workOrders.scheduledFor} asc nulls last`,
+        desc(workOrders.createdAt),
+      );
+    return this.summarizeWorkOrders(rows);
+  }
+
+  private async summarizeWorkOrders(rows: WorkOrder[]): Promise<WorkOrderSummary[]> {
+    if (rows.length === 0) return [];
+    const counts = await db.select({
+      workOrderId: incidents.workOrderId,
+      total: sql<number>`count(*)`,
+      open: sql<number>`count(*) filter (where ${inArray(incidents.status, [...OpenIncidentStatuses])})`,
+    })
+      .from(incidents)
+      .where(inArray(incidents.workOrderId, rows.map(r => r.id)))
+      .groupBy(incidents.workOrderId);
+
+    const allBuses = await db.select().from(buses);
+    const busMap: Record<string, string> = {};
+    allBuses.forEach(b => busMap[b.id] = b.busNumber);
+
+    const allUsers = await db.select().from(users);
+    const userMap: Record<string, string> = {};
+    allUsers.forEach(u => userMap[u.id] = u.name);
+
+    return rows.map(order => {
+      const count = counts.find(c => c.workOrderId === order.id);
+      return {
+        ...order,
+        busNumber: busMap[order.busId] || order.busId,
+        assigneeName: order.assignedTo ? userMap[order.assignedTo] || null : null,
+        incidentCount: Number(count?.total || 0),
+        openIncidentCount: Number(count?.open || 0),
+      };
+    });
+  }
+
+  async getWorkOrder(id: string): Promise<WorkOrder | undefined> {
+    const [order] = await db.select().from(workOrders).where(eq(workOrders.id, id));
+    return order;
+  }
+
+  async getWorkOrderDetail(id: string): Promise<WorkOrderDetail | undefined> {
+    const order = await this.getWorkOrder(id);
+    if (!order) return undefined;
+    const [summary] = await this.summarizeWorkOrders([order]);
+    const bus = await this.getBus(order.busId);
+    const orderIncidents = await db.select().from(incidents)
+      .where(eq(incidents.workOrderId, id))
+      .orderBy(asc(incidents.equipmentType), asc(incidents.cameraChannel));
+    return {
+      ...summary,
+      plate: bus?.plate ?? null,
+      incidents: orderIncidents,
+      parts: await this.describePartConsumptions(eq(partConsumptions.workOrderId, id)),
+    };
+  }
+
+  // Each write below runs in one transaction with the order row and then
+  // the incident rows locked, so two orders cannot claim the same incident
+  // and a failure leaves no half-linked order behind.
+
+  async createWorkOrder(data: WorkOrderFormData, actor: IncidentActor): Promise<WorkOrder> {
+    return db.transaction(async (tx) => {
+      const [order] = await tx.insert(workOrders).values({
+        busId: data.busId,
+        assignedTo: data.assignedTo || null,
+        scheduledFor: data.scheduledFor ?? null,
+        instructions: data.instructions || null,
+        createdBy: actor.id,
+        createdByName: actor.name,
+        createdAt: new Date(),
+      }).returning();
+      await this.attachIncidents(tx, order, data.incidentIds, actor);
+      return order;
+    });
+  }
+
+  async updateWorkOrder(id: string, updates: UpdateWorkOrderData, actor?: IncidentActor): Promise<WorkOrder | undefined> {
+    return db.transaction(async (tx) => {
+      if (!(await this.lockOpenWorkOrder(tx, id))) return undefined;
+      const [updated] = await tx.update(workOrders).set(updates).where(eq(workOrders.id, id)).returning();
+      await this.syncOrderIncidents(tx, id, updates, actor);
+      return updated;
+    });
+  }
+
+  async addWorkOrderIncidents(id: string, incidentIds: string[], actor?: IncidentActor): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockOpenWorkOrder(tx, id);
+      if (!order) return false;
+      await this.attachIncidents(tx, order, incidentIds, actor);
+      return true;
+    });
+  }
+
+  async removeWorkOrderIncident(id: string, incidentId: string, actor?: IncidentActor): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockOpenWorkOrder(tx, id);
+      if (!order) return false;
+      return this.detachIncident(tx, order, incidentId, actor);
+    });
+  }
+
+  /**
+   * Links incidents to the order after re-checking, with their rows locked,
+   * that each is open, on the order's bus and not part of another open order.
+   */
+  private async attachIncidents(tx: DbExecutor, order: WorkOrder, incidentIds: string[], actor?: IncidentActor): Promise<void> {
+    if (incidentIds.length === 0) return;
+    const rows = await tx.select().from(incidents)
+      .where(inArray(incidents.id, incidentIds))
+      .orderBy(asc(incidents.id))
+      .for("update");
+
+    for (const incidentId of incidentIds) {
+      const incident = rows.find(r => r.id === incidentId);
+      if (!incident || incident.busId !== order.busId) {
+        throw new StorageConflictError("Las incidencias deben pertenecer al bus de la orden");
+      }
+      if (!OpenIncidentStatuses.includes(incident.status)) {
+        throw new StorageConflictError("Solo se agregan incidencias abiertas");
+      }
+      if (incident.workOrderId) {
+        const [current] = await tx.select().from(workOrders).where(eq(workOrders.id, incident.workOrderId));
+        if (current && current.status !== WorkOrderStatus.COMPLETED) {
+          throw new StorageConflictError(`La incidencia ya pertenece a la orden ${workOrderNumber(current.number)}`);
+        }
+      }
+    }
+
+    await tx.update(incidents).set({ workOrderId: order.id }).where(inArray(incidents.id, incidentIds));
+    for (const incidentId of incidentIds) {
+      await this.recordIncidentEvent({
+        incidentId,
+        eventType: IncidentEventType.WORK_ORDER,
+        toValue: workOrderNumber(order.number),
+      }, actor, tx);
+    }
+    if (order.assignedTo) {
+      await this.syncOrderIncidents(tx, order.id, { assignedTo: order.assignedTo }, actor);
+    }
+  }
+
+  private async detachIncident(tx: DbExecutor, order: WorkOrder, incidentId: string, actor?: IncidentActor): Promise<boolean> {
+    const [detached] = await tx.update(incidents).set({ workOrderId: null })
+      .where(and(eq(incidents.id, incidentId), eq(incidents.workOrderId, order.id)))
+      .returning();
+    if (!detached) return false;
+    await this.recordIncidentEvent({
+      incidentId,
+      eventType: IncidentEventType.WORK_ORDER,
+      fromValue: workOrderNumber(order.number),
+    }, actor, tx);
+    return true;
+  }
+
+  // Starting an order starts its pending incidents; its technician is
+  // assigned to all of its open incidents.
+  private async syncOrderIncidents(tx: DbExecutor, id: string, updates: UpdateWorkOrderData, actor?: IncidentActor): Promise<void> {
+    for (const incident of await this.lockOpenOrderIncidents(tx, id)) {
+      const incidentUpdates: Partial<Incident> = {};
+      if (updates.status === WorkOrderStatus.IN_PROGRESS && incident.status === "pending") {
+        incidentUpdates.status = "in_progress";
+      }
+      if (updates.assignedTo !== undefined && updates.assignedTo !== incident.assignedTo) {
+        incidentUpdates.assignedTo = updates.assignedTo;
+      }
+      if (Object.keys(incidentUpdates).length > 0) {
+        await this.applyIncidentUpdate(tx, incident, incidentUpdates, actor);
+      }
+    }
+  }
+
+  // Locks the order row for the rest of the transaction; undefined when it
+  // does not exist, a conflict when it is already completed
+  private async lockOpenWorkOrder(tx: DbExecutor, id: string, completedMessage = "La orden de trabajo ya está completada"): Promise<WorkOrder | undefined> {
+    const [order] = await tx.select().from(workOrders).where(eq(workOrders.id, id)).for("update");
+    if (order?.status === WorkOrderStatus.COMPLETED) {
+      throw new StorageConflictError(completedMessage);
+    }
+    return order;
+  }
+
+  // The order's open incidents, locked in a fixed order
+  private async lockOpenOrderIncidents(tx: DbExecutor, id: string): Promise<Incident[]> {
+    return tx.select().from(incidents)
+      .where(and(eq(incidents.workOrderId, id), inArray(incidents.status, [...OpenIncidentStatuses])))
+      .orderBy(asc(incidents.id))
+      .for("update");
+  }
+
+  /**
+   * Takes the parts from stock, resolves the open incidents and closes the
+   * order in one transaction with the order row locked, so a shortage or
+   * failure leaves everything as it was and a repeated request finds the
+   * order completed instead of taking the parts again.
+   */
+  async completeWorkOrder(id: string, data: CompleteWorkOrderData, actor?: IncidentActor): Promise<{ workOrder: WorkOrder; lowStock: SparePart[] } | undefined> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockOpenWorkOrder(tx, id);
+      if (!order) return undefined;
+
+      const lowStock = data.parts && data.parts.length > 0
+        ? await this.consumeParts({ workOrderId: id }, data.parts, actor, tx)
+        : [];
+
+      for (const incident of await this.lockOpenOrderIncidents(tx, id)) {
+        await this.applyIncidentUpdate(tx, incident, {
+          status: "resolved",
+          resolutionNotes: data.resolutionNotes || undefined,
+        }, actor);
+      }
+
+      const [workOrder] = await tx.update(workOrders).set({
+        status: WorkOrderStatus.COMPLETED,
+        labourMinutes: data.labourMinutes,
+        resolutionNotes: data.resolutionNotes || null,
+        completedAt: new Date(),
+      }).where(eq(workOrders.id, id)).returning();
+      return { workOrder, lowStock };
+    });
+  }
+
+  // Incidents go back to being tracked on their own
+  async deleteWorkOrder(id: string, actor?: IncidentActor): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const order = await this.lockOpenWorkOrder(tx, id, "No se puede eliminar una orden completada");
+      if (!order) return false;
+      const children = await tx.select({ id: incidents.id }).from(incidents)
+        .where(eq(incidents.workOrderId, id))
+        .orderBy(asc(incidents.id))
+        .for("update");
+      for (const child of children) {
+        await this.detachIncident(tx, order, child.id, actor);
+      }
+      await tx.delete(workOrders).where(eq(workOrders.id, id));
+      return true;
+    });
+  }
+
   async getEquipmentStatus(busId?: string): Promise<EquipmentStatus[]> {
     if (busId) {
       return db.select().from(equipmentStatus).where(eq(equipmentStatus.busId, busId));
@@ -485,17 +1696,14 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(equipmentStatus);
   }
 
-  async updateEquipmentStatus(insertStatus: InsertEquipmentStatus): Promise<EquipmentStatus> {
-    const [existing] = await db.select().from(equipmentStatus).where(and(
-      eq(equipmentStatus.busId, insertStatus.busId),
-      eq(equipmentStatus.equipmentType, insertStatus.equipmentType),
-      insertStatus.cameraChannel
-        ? eq(equipmentStatus.cameraChannel, insertStatus.cameraChannel)
-        : sql`${equipmentStatus.cameraChannel} IS NULL`
-    ));
+  async updateEquipmentStatus(insertStatus: InsertEquipmentStatus, executor: DbExecutor = db): Promise<EquipmentStatus> {
+    const existing = await this.findEquipmentStatus(insertStatus.busId, {
+      equipmentType: insertStatus.equipmentType,
+      cameraChannel: insertStatus.cameraChannel || null,
+    }, executor);
 
     if (existing) {
-      const [updated] = await db.update(equipmentStatus)
+      const [updated] = await executor.update(equipmentStatus)
         .set({
           status: insertStatus.status,
           lastIncidentId: insertStatus.lastIncidentId || null,
@@ -506,7 +1714,7 @@ export class DatabaseStorage implements IStorage {
       return updated;
     }
 
-    const [created] = await db.insert(equipmentStatus).values({
+    const [created] = await executor.insert(equipmentStatus).values({
       ...insertStatus,
       cameraChannel: insertStatus.cameraChannel || null,
       lastIncidentId: insertStatus.lastIncidentId || null,
@@ -515,6 +1723,93 @@ export class DatabaseStorage implements IStorage {
     return created;
   }
 
+  async seedMissingEquipmentStatus(): Promise<number> {
+    const allBuses = await db.select().from(buses);
+    const allStatuses = await db.select().from(equipmentStatus);
+    const existingKeys = new Set(
+      allStatuses.map(s => `${s.busId}:${s.equipmentType}:${s.cameraChannel ?? ""}`)
+    );
+
+    const missing = allBuses.flatMap(bus =>
+      this.defaultEquipmentKeys()
+        .filter(key => !existingKeys.has(`${bus.id}:${key.equipmentType}:${key.cameraChannel ?? ""}`))
+        .map(key => ({
+          busId: bus.id,
+          equipmentType: key.equipmentType,
+          cameraChannel: key.cameraChannel,
+          status: "operational",
+          updatedAt: new Date(),
+        }))
+    );
+
+    if (missing.length > 0) {
+      await db.insert(equipmentStatus).values(missing);
+    }
+    return missing.length;
+  }
+
+  async getBusHealth(busId: string): Promise<BusHealth | undefined> {
+    const bus = await this.getBus(busId);
+    if (!bus) return undefined;
+
+    const statuses = await this.getEquipmentStatus(busId);
+
+    const cameras = Object.values(CameraChannel).map(channel => {
+      const status = statuses.find(s => s.equipmentType === EquipmentType.CAMERA && s.cameraChannel === channel);
+      return {
+        channel,
+        status: status?.status || "operational",
+        updatedAt: status?.updatedAt ?? null,
+      };
+    });
+
+    const equipment = BusLevelEquipmentTypes.map(equipmentType => {
+      const status = statuses.find(s => s.equipmentType === equipmentType);
+      return {
+        equipmentType,
+        status: status?.status || "operational",
+        updatedAt: status?.updatedAt ?? null,
+        lastIncidentId: status?.lastIncidentId ?? null,
+      };
+    });
+
+    return {
+      busId: bus.id,
+      busNumber: bus.busNumber,
+      plate: bus.plate,
+      cameras,
+      equipment,
+    };
+  }
+
+  // One status row per camera channel plus one per bus-level equipment type
+  private defaultEquipmentKeys(): Array<{ equipmentType: string; cameraChannel: string | null }> {
+    return [
+      ...Object.values(CameraChannel).map(channel => ({ equipmentType: EquipmentType.CAMERA as string, cameraChannel: channel as string | null })),
+      ...BusLevelEquipmentTypes.map(equipmentType => ({ equipmentType, cameraChannel: null })),
+    ];
+  }
+
+  private incidentEquipmentKey(incident: { equipmentType: string; cameraChannel?: string | null }): { equipmentType: string; cameraChannel: string | null } | undefined {
+    if (incident.equipmentType === EquipmentType.CAMERA) {
+      return incident.cameraChannel
+        ? { equipmentType: EquipmentType.CAMERA, cameraChannel: incident.cameraChannel }
+        : undefined;
+    }
+    return { equipmentType: incident.equipmentType, cameraChannel: null };
+  }
+
+  private async findEquipmentStatus(busId: string, key: { equipmentType: string; cameraChannel: string | null }, executor: DbExecutor = db): Promise<EquipmentStatus | undefined> {
+    const [existing] = await executor.select().from(equipmentStatus).where(and(
+      eq(equipmentStatus.busId, busId),
+      eq(equipmentStatus.equipmentType, key.equipmentType),
+      key.cameraChannel
+        ? eq(equipmentStatus.cameraChannel, key.cameraChannel)
+        : sql`${equipmentStatus.cameraChannel} IS NULL`
+    ));
+    return existing;
+  }
+
   async getDashboardStats(): Promise<DashboardStats> {
     const now = new Date();
     const weekStart = startOfWeek(now, { weekStartsOn: 1 });
@@ -523,6 +1818,8 @@ export class DatabaseStorage implements IStorage {
     const totalBusesResult = await db.select({ count: sql<number>`count(*)` }).from(buses);
     const activeIncidentsResult = await db.select({ count: sql<number>`count(*)` }).from(incidents).where(sql`${incidents.status} != 'resolved'`);
     const pendingRepairsResult = await db.select({ count: sql<number>`count(*)` }).from(incidents).where(eq(incidents.status, 'pending'));
+    const overdueResult = await db.select({ count: sql<number>`count(*)` }).from(incidents)
+      .where(and(inArray(incidents.status, [...OpenIncidentStatuses]), lt(incidents.dueAt, now)));
 
     // Resolved this week
     const resolvedResult = await db.select({ count: sql<number>`count(*)` }).from(incidents)
@@ -546,12 +1843,49 @@ export class DatabaseStorage implements IStorage {
       incidentsByType[stat.type] = Number(stat.count);
     });
 
+    const priorityStats = await db.select({
+      priority: incidents.priority,
+      count: sql<number>`count(*)`
+    })
+      .from(incidents)
+      .where(sql`${incidents.status} != 'resolved'`)
+      .groupBy(incidents.priority);
+
+    const openIncidentsByPriority: Record<string, number> = {};
+    priorityStats.forEach(stat => {
+      openIncidentsByPriority[stat.priority] = Number(stat.count);
+    });
+
+    // Open incidents per assigned technician (null = unassigned)
+    const assigneeStats = await db.select({
+      userId: incidents.assignedTo,
+      count: sql<number>`count(*)`
+    })
+      .from(incidents)
+      .where(sql`${incidents.status} != 'resolved'`)
+      .groupBy(incidents.assignedTo);
+
+    const allUsers = await db.select().from(users);
+    const userMap: Record<string, string> = {};
+    allUsers.forEach(u => userMap[u.id] = u.name);
+
+    const openIncidentsByTechnician = assigneeStats
+      .map(stat => ({
+        userId: stat.userId,
+        name: stat.userId ? (userMap[stat.userId] || stat.userId) : "Sin asignar",
+        count: Number(stat.count),
+      }))
+      .sort((a, b) => b.count - a.count);
+
     return {
       totalBuses: Number(totalBusesResult[0]?.count || 0),
       activeIncidents: Number(activeIncidentsResult[0]?.count || 0),
       resolvedThisWeek: Number(resolvedResult[0]?.count || 0),
       pendingRepairs: Number(pendingRepairsResult[0]?.count || 0),
+      overdueIncidents: Number(overdueResult[0]?.count || 0),
       incidentsByType,
+      openIncidentsByPriority,
+      openIncidentsByTechnician,
     };
   }
 
@@ -597,9 +1931,11 @@ export class DatabaseStorage implements IStorage {
       weekEnd: weekEnd.toISOString(),
       totalIncidents: weekIncidents.length,
       resolvedIncidents: weekIncidents.filter(i => i.status === "resolved").length,
+      firstTimeFixRate: firstTimeFixRate(weekIncidents),
       incidentsByType,
       incidentsByEquipment,
-      mostAffectedBuses
+      mostAffectedBuses,
+      recurringFailures: await this.getRecurringFailures(min([weekEnd, new Date()])),
     };
   }
 
@@ -616,7 +1952,9 @@ export class DatabaseStorage implements IStorage {
     const incidentsByType: Record<string, number> = {};
     const incidentsByEquipment: Record<string, number> = {};
     const busCounts: Record<string, number> = {};
-    const weeklyTrendMap: Record<number, number> = {};
+    // Keyed by week start date, so a month spanning New Year (weeks 52, 1)
+    // still sorts in calendar order
+    const weeklyTrendMap: Record<string, { week: number; count: number }> = {};
 
     monthIncidents.forEach(i => {
       incidentsByType[i.incidentType] = (incidentsByType[i.incidentType] || 0) + 1;
@@ -624,8 +1962,10 @@ export class DatabaseStorage implements IStorage {
       busCounts[i.busId] = (busCounts[i.busId] || 0) + 1;
 
       if (i.reportedAt) {
-        const week = getWeek(new Date(i.reportedAt));
-        weeklyTrendMap[week] = (weeklyTrendMap[week] || 0) + 1;
+        const reportedAt = new Date(i.reportedAt);
+        const weekStart = format(startOfWeek(reportedAt, { weekStartsOn: 1 }), "yyyy-MM-dd");
+        if (!weeklyTrendMap[weekStart]) weeklyTrendMap[weekStart] = { week: getISOWeek(reportedAt), count: 0 };
+        weeklyTrendMap[weekStart].count++;
       }
     });
 
@@ -645,15 +1985,16 @@ export class DatabaseStorage implements IStorage {
       .sort((a, b) => b.count - a.count)
       .slice(0, 6);
 
-    const weeklyTrend = Object.entries(weeklyTrendMap)
-      .map(([week, count]) => ({ week: parseInt(week), count }))
-      .sort((a, b) => a.week - b.week);
+    const weeklyTrend = Object.keys(weeklyTrendMap)
+      .sort()
+      .map(weekStart => weeklyTrendMap[weekStart]);
 
     return {
       month: format(monthStart, "MMMM"),
       year: monthStart.getFullYear(),
       totalIncidents: monthIncidents.length,
       resolvedIncidents: monthIncidents.filter(i => i.status === "resolved").length,
+      firstTimeFixRate: firstTimeFixRate(monthIncidents),
       incidentsByType,
       incidentsByEquipment,
       weeklyTrend,
@@ -661,16 +2002,253 @@ export class DatabaseStorage implements IStorage {
     };
   }
 
-  async getCameraStatus(): Promise<Array<{ busId: string; busNumber: string; plate: string | null; cameras: Array<{ channel: string; status: string }> }>> {
+  async getRangeReport(filters: ReportRangeFilters): Promise<RangeReport> {
+    const rangeIncidents = await this.getIncidents({
+      reportedFrom: filters.from,
+      reportedTo: filters.to,
+      busId: filters.busId,
+      equipmentType: filters.equipmentType,
+    });
+
+    const incidentsByType: Record<string, number> = {};
+    const incidentsByEquipment: Record<string, number> = {};
+    const busCounts: Record<string, number> = {};
+    const seriesMap: Record<string, { count: number; resolved: number }> = {};
+    const toPeriod = periodStart[filters.groupBy];
+
+    rangeIncidents.forEach(i => {
+      incidentsByType[i.incidentType] = (incidentsByType[i.incidentType] || 0) + 1;
+      incidentsByEquipment[i.equipmentType] = (incidentsByEquipment[i.equipmentType] || 0) + 1;
+      busCounts[i.busId] = (busCounts[i.busId] || 0) + 1;
+
+      if (i.reportedAt) {
+        const key = toPeriod(new Date(i.reportedAt)).toISOString();
+        seriesMap[key] = seriesMap[key] || { count: 0, resolved: 0 };
+        seriesMap[key].count++;
+        if (i.status === "resolved") seriesMap[key].resolved++;
+      }
+    });
+
+    const busMap: Record<string, string> = {};
+    const affectedBusIds = Object.keys(busCounts);
+    if (affectedBusIds.length > 0) {
+      const busDetails = await db.select().from(buses).where(inArray(buses.id, affectedBusIds));
+      busDetails.forEach(b => busMap[b.id] = b.busNumber);
+    }
+
+    const mostAffectedBuses = Object.entries(busCounts)
+      .map(([busId, count]) => ({ busNumber: busMap[busId] || busId, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, 10);
+
+    // Every period in the range, including the empty ones
+    const series = eachPeriod[filters.groupBy](toPeriod(filters.from), filters.to).map(start => {
+      const key = start.toISOString();
+      return { periodStart: key, count: seriesMap[key]?.count || 0, resolved: seriesMap[key]?.resolved || 0 };
+    });
+
+    return {
+      from: filters.from.toISOString(),
+      to: filters.to.toISOString(),
+      groupBy: filters.groupBy,
+      totalIncidents: rangeIncidents.length,
+      resolvedIncidents: rangeIncidents.filter(i => i.status === "resolved").length,
+      firstTimeFixRate: firstTimeFixRate(rangeIncidents),
+      incidentsByType,
+      incidentsByEquipment,
+      mostAffectedBuses,
+      series,
+    };
+  }
+
+  async getRecurringFailures(asOf = new Date()): Promise<RecurringFailure[]> {
+    const windowStart = subDays(asOf, RECURRING_FAILURE_DAYS);
+    // Also load incidents repaired shortly before the window, to catch the
+    // first failure after their repair
+    const lookback = subDays(windowStart, REOPEN_WINDOW_DAYS);
+
+    // Explicit reopens, plus status changes out of resolved from before
+    // reopening had its own transition
+    const reopenEvents = await db.select().from(incidentEvents)
+      .where(and(
+        inArray(incidentEvents.eventType, [IncidentEventType.STATUS_CHANGE, IncidentEventType.REOPENED]),
+        eq(incidentEvents.fromValue, "resolved"),
+        gte(incidentEvents.createdAt, windowStart),
+        lte(incidentEvents.createdAt, asOf),
+      ));
+    const reopenedIds = Array.from(new Set(reopenEvents.map(e => e.incidentId)));
+
+    const candidates = await db.select().from(incidents)
+      .where(and(
+        lte(incidents.reportedAt, asOf),
+        or(
+          gte(incidents.reportedAt, lookback),
+          gte(incidents.resolvedAt, lookback),
+          ...(reopenedIds.length > 0 ? [inArray(incidents.id, reopenedIds)] : []),
+        ),
+      ));
+
+    // Reopening clears resolvedAt, so the undone repairs come from the history
+    const resolutionEvents = reopenedIds.length > 0
+      ? await db.select().from(incidentEvents)
+        .where(and(
+          inArray(incidentEvents.incidentId, reopenedIds),
+          eq(incidentEvents.eventType, IncidentEventType.STATUS_CHANGE),
+          eq(incidentEvents.toValue, "resolved"),
+        ))
+      : [];
+
+    const busMap: Record<string, string> = {};
+    (await db.select().from(buses)).forEach(b => busMap[b.id] = b.busNumber);
+
+    return detectRecurringFailures({ incidents: candidates, reopenEvents, resolutionEvents, busMap, asOf });
+  }
+
+  async getRepairAnalytics(from: Date, to: Date): Promise<RepairAnalytics> {
+    const rangeIncidents = await this.getIncidents({ reportedFrom: from, reportedTo: to, oldestFirst: true });
+
+    // First action taken on each incident (status change, note or reassignment)
+    const firstActions: Record<string, Date> = {};
+    if (rangeIncidents.length > 0) {
+      const rows = await db.select({
+        incidentId: incidentEvents.incidentId,
+        firstAt: sql<Date>`min(${incidentEvents.createdAt})`,
+      })
+        .from(incidentEvents)
+        .where(and(
+          inArray(incidentEvents.incidentId, rangeIncidents.map(i => i.id)),
+          inArray(incidentEvents.eventType, [...IncidentActionEventTypes]),
+        ))
+        .groupBy(incidentEvents.incidentId);
+      rows.forEach(r => firstActions[r.incidentId] = new Date(r.firstAt));
+    }
+
+    const busMap: Record<string, string> = {};
+    (await db.select().from(buses)).forEach(b => busMap[b.id] = b.busNumber);
+    const userMap: Record<string, string> = {};
+    (await db.select().from(users)).forEach(u => userMap[u.id] = u.name);
+
+    return buildRepairAnalytics({
+      from,
+      to,
+      incidents: rangeIncidents,
+      firstActions,
+      targets: await this.getSlaTargets(),
+      busMap,
+      userMap,
+    });
+  }
+
+  // ── SLA targets ──────────────────────────────────────────────────────────
+
+  async getSlaTargets(): Promise<SlaTarget[]> {
+    return db.select().from(slaTargets)
+      .orderBy(sql`${slaTargets.equipmentType} nulls last`, sql`${slaTargets.incidentType} nulls last`);
+  }
+
+  async createSlaTarget(target: InsertSlaTarget): Promise<SlaTarget> {
+    const [created] = await db.insert(slaTargets).values(target).returning();
+    return created;
+  }
+
+  async updateSlaTarget(id: string, targetHours: number): Promise<SlaTarget | undefined> {
+    const [updated] = await db.update(slaTargets).set({ targetHours }).where(eq(slaTargets.id, id)).returning();
+    return updated;
+  }
+
+  async deleteSlaTarget(id: string): Promise<boolean> {
+    const [deleted] = await db.delete(slaTargets).where(eq(slaTargets.id, id)).returning();
+    return !!deleted;
+  }
+
+  // ── Priority matrix ──────────────────────────────────────────────────────
+
+  async getPriorityMatrix(): Promise<PriorityMatrixEntry[]> {
+    return db.select().from(priorityMatrix);
+  }
+
+  async setPriorityMatrixEntry(entry: InsertPriorityMatrixEntry): Promise<PriorityMatrixEntry> {
+    const [saved] = await db.insert(priorityMatrix).values(entry)
+      .onConflictDoUpdate({
+        target: [priorityMatrix.equipmentType, priorityMatrix.incidentType],
+        set: { priority: entry.priority },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getDefaultPriority(equipmentType: string, incidentType: string): Promise<string> {
+    const [entry] = await db.select().from(priorityMatrix)
+      .where(and(eq(priorityMatrix.equipmentType, equipmentType), eq(priorityMatrix.incidentType, incidentType)));
+    return entry?.priority ?? IncidentPriority.MEDIUM;
+  }
+
+  // ── User notifications ───────────────────────────────────────────────────
+
+  async getUserNotifications(userId: string, limit = 30): Promise<UserNotification[]> {
+    return db.select().from(userNotifications)
+      .where(eq(userNotifications.userId, userId))
+      .orderBy(desc(userNotifications.createdAt))
+      .limit(limit);
+  }
+
+  // Marks the given notifications (all when omitted) as read; returns how many changed
+  async markUserNotificationsRead(userId: string, ids?: string[]): Promise<number> {
+    const conditions = [eq(userNotifications.userId, userId), isNull(userNotifications.readAt)];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(userNotifications.id, ids));
+    }
+    const updated = await db.update(userNotifications)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: userNotifications.id });
+    return updated.length;
+  }
+
+  // ── Kiosk tokens ─────────────────────────────────────────────────────────
+
+  async getKioskTokens(): Promise<KioskToken[]> {
+    return db.select(kioskTokenColumns).from(kioskTokens).orderBy(kioskTokens.createdAt);
+  }
+
+  async createKioskToken(name: string, tokenHash: string): Promise<KioskToken> {
+    const [created] = await db.insert(kioskTokens).values({ name, tokenHash }).returning(kioskTokenColumns);
+    return created;
+  }
+
+  async deleteKioskToken(id: string): Promise<boolean> {
+    const [deleted] = await db.delete(kioskTokens).where(eq(kioskTokens.id, id)).returning();
+    return !!deleted;
+  }
+
+  // Looks up a token and records that a display is still using it
+  async useKioskToken(tokenHash: string): Promise<KioskToken | undefined> {
+    const [token] = await db.update(kioskTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(kioskTokens.tokenHash, tokenHash))
+      .returning(kioskTokenColumns);
+    return token;
+  }
+
+  async getCameraStatus(): Promise<BusCameraStatus[]> {
     const allBuses = await db.select().from(buses);
-    const cameraStatuses = await db.select().from(equipmentStatus).where(eq(equipmentStatus.equipmentType, "camera"));
+    const allStatuses = await db.select().from(equipmentStatus);
 
     return allBuses.map(bus => {
-      const busStatuses = cameraStatuses.filter(s => s.busId === bus.id);
-      const cameras = ["ch1", "ch2", "ch3", "ch4"].map(channel => {
-        const status = busStatuses.find(s => s.cameraChannel === channel);
+      const busStatuses = allStatuses.filter(s => s.busId === bus.id);
+      const cameras = Object.values(CameraChannel).map(channel => {
+        const status = busStatuses.find(s => s.equipmentType === EquipmentType.CAMERA && s.cameraChannel === channel);
         return {
           channel,
+          status: status?.status || "operational",
+          updatedAt: status?.updatedAt ?? null
+        };
+      });
+      const equipment = BusLevelEquipmentTypes.map(equipmentType => {
+        const status = busStatuses.find(s => s.equipmentType === equipmentType);
+        return {
+          equipmentType,
           status: status?.status || "operational"
         };
       });
@@ -679,7 +2257,12 @@ export class DatabaseStorage implements IStorage {
         busId: bus.id,
         busNumber: bus.busNumber,
         plate: bus.plate,
-        cameras
+        cameras,
+        equipment,
+        updatedAt: busStatuses.reduce<Date | null>(
+          (latest, s) => s.updatedAt && (!latest || s.updatedAt > latest) ? s.updatedAt : latest,
+          null
+        )
       };
     }).sort((a, b) => {
       const numA = parseInt(a.busNumber, 10);
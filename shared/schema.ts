@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, integer, serial, json, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,15 +8,95 @@ export const UserRole = {
   TECHNICIAN: "technician",
 } as const;
 
+export const Permission = {
+  BUSES_VIEW: "buses:view",
+  BUSES_EDIT: "buses:edit",
+  BUSES_DELETE: "buses:delete",
+  DOCUMENTS_VIEW: "documents:view",
+  DOCUMENTS_UPLOAD: "documents:upload",
+  DOCUMENTS_DELETE: "documents:delete",
+  DOCUMENT_TYPES_MANAGE: "documents:types",
+  DRIVERS_VIEW: "drivers:view",
+  DRIVERS_EDIT: "drivers:edit",
+  DRIVERS_REMOVE: "drivers:remove",
+  INCIDENTS_VIEW: "incidents:view",
+  INCIDENTS_CREATE: "incidents:create",
+  INCIDENTS_UPDATE: "incidents:update",
+  INCIDENTS_ASSIGN: "incidents:assign",
+  ATTACHMENTS_UPLOAD: "attachments:upload",
+  ATTACHMENTS_DELETE: "attachments:delete",
+  INCIDENTS_COMMENT: "incidents:comment",
+  // Read and write internal workshop notes on incidents
+  INCIDENTS_VIEW_INTERNAL: "incidents:internal",
+  PRIORITY_MANAGE: "incidents:priority",
+  INVENTORY_VIEW: "inventory:view",
+  INVENTORY_MANAGE: "inventory:manage",
+  REPORTS_VIEW: "reports:view",
+  EMAIL_MANAGE: "email:manage",
+  SLA_MANAGE: "reports:sla",
+  USERS_MANAGE: "users:manage",
+} as const;
+
+export type PermissionKey = typeof Permission[keyof typeof Permission];
+
+// Permission matrix: admins can do everything, technicians work on
+// incidents and fleet data but cannot delete or administer the system.
+export const RolePermissions: Record<string, readonly PermissionKey[]> = {
+  admin: Object.values(Permission),
+  technician: [
+    Permission.BUSES_VIEW,
+    Permission.BUSES_EDIT,
+    Permission.DOCUMENTS_VIEW,
+    Permission.DOCUMENTS_UPLOAD,
+    Permission.DRIVERS_VIEW,
+    Permission.DRIVERS_EDIT,
+    Permission.INCIDENTS_VIEW,
+    Permission.INCIDENTS_CREATE,
+    Permission.INCIDENTS_UPDATE,
+    Permission.ATTACHMENTS_UPLOAD,
+    Permission.INCIDENTS_COMMENT,
+    Permission.INCIDENTS_VIEW_INTERNAL,
+    Permission.INVENTORY_VIEW,
+    Permission.REPORTS_VIEW,
+  ],
+};
+
+export function hasPermission(role: string | null | undefined, permission: PermissionKey): boolean {
+  if (!role) return false;
+  return RolePermissions[role]?.includes(permission) ?? false;
+}
+
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
+  // Optional; admins with an address receive overdue incident escalations
+  email: text("email"),
   role: text("role").notNull().default("technician"),
   active: text("active").notNull().default("true"),
+  mustChangePassword: text("must_change_password").notNull().default("false"),
 });
 
+export const loginAttempts = pgTable("login_attempts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull(),
+  ip: text("ip"),
+  success: text("success").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("login_attempts_username_idx").on(table.username, table.createdAt),
+  index("login_attempts_ip_idx").on(table.ip, table.createdAt),
+]);
+
+// Layout required by connect-pg-simple; rows are written by the session store
+export const sessions = pgTable("session", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [index("IDX_session_expire").on(table.expire)]);
+
 export const insertUserSchema = createInsertSchema(users).omit({ id: true });
 
 export const loginSchema = z.object({
@@ -24,17 +104,47 @@ export const loginSchema = z.object({
   password: z.string().min(1, "Contraseña requerida"),
 });
 
+export const PasswordPolicyHint = "Mínimo 8 caracteres, con letras y números";
+
+export const passwordSchema = z.string()
+  .min(8, "Contraseña debe tener al menos 8 caracteres")
+  .regex(/[A-Za-z]/, "Contraseña debe incluir al menos una letra")
+  .regex(/[0-9]/, "Contraseña debe incluir al menos un número");
+
+// An empty field clears the address
+export const userEmailSchema = z.union([z.literal(""), z.string().trim().email("Correo inválido")])
+  .nullable()
+  .transform((email) => email || null);
+
 export const createUserSchema = z.object({
   username: z.string().min(3, "Usuario debe tener al menos 3 caracteres"),
-  password: z.string().min(4, "Contraseña debe tener al menos 4 caracteres"),
+  password: passwordSchema,
   name: z.string().min(1, "Nombre requerido"),
+  email: userEmailSchema.optional(),
   role: z.enum(["admin", "technician"]),
 });
 
+export const updateProfileSchema = z.object({
+  name: z.string().trim().min(1, "Nombre requerido").optional(),
+  currentPassword: z.string().optional(),
+  newPassword: passwordSchema.optional(),
+}).refine((data) => !data.newPassword || !!data.currentPassword, {
+  message: "Contraseña actual requerida",
+  path: ["currentPassword"],
+});
+
+export const LoginFailureReason = {
+  INVALID_CREDENTIALS: "invalid_credentials",
+  INACTIVE: "inactive",
+  LOCKED: "locked",
+} as const;
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type LoginData = z.infer<typeof loginSchema>;
 export type CreateUserData = z.infer<typeof createUserSchema>;
+export type UpdateProfileData = z.infer<typeof updateProfileSchema>;
+export type LoginAttempt = typeof loginAttempts.$inferSelect;
 
 export const EquipmentType = {
   CAMERA: "camera",
@@ -44,6 +154,22 @@ export const EquipmentType = {
   CABLE: "cable",
 } as const;
 
+export const EquipmentTypeLabels: Record<string, string> = {
+  camera: "Cámara",
+  dvr: "DVR",
+  gps: "GPS",
+  hard_drive: "Disco Duro",
+  cable: "Cable",
+};
+
+// Equipment tracked once per bus (cameras are tracked per channel)
+export const BusLevelEquipmentTypes: readonly string[] = [
+  EquipmentType.DVR,
+  EquipmentType.GPS,
+  EquipmentType.HARD_DRIVE,
+  EquipmentType.CABLE,
+];
+
 export const CameraChannel = {
   CH1: "ch1",
   CH2: "ch2",
@@ -65,18 +191,72 @@ export const IncidentType = {
   REPLACEMENT: "replacement",
 } as const;
 
+export const IncidentTypeLabels: Record<string, string> = {
+  misaligned: "Desalineada",
+  loose_cable: "Cable Suelto",
+  faulty: "Dañado",
+  replacement: "Cambio",
+};
+
 export const IncidentStatus = {
   PENDING: "pending",
   IN_PROGRESS: "in_progress",
   RESOLVED: "resolved",
 } as const;
 
+// Statuses that keep an incident in a technician's work queue.
+export const OpenIncidentStatuses: readonly string[] = [
+  IncidentStatus.PENDING,
+  IncidentStatus.IN_PROGRESS,
+];
+
+// Listed from most to least urgent
+export const IncidentPriority = {
+  CRITICAL: "critical",
+  HIGH: "high",
+  MEDIUM: "medium",
+  LOW: "low",
+} as const;
+
+export type IncidentPriorityKey = typeof IncidentPriority[keyof typeof IncidentPriority];
+
+export const IncidentPriorityLabels: Record<string, string> = {
+  critical: "Crítica",
+  high: "Alta",
+  medium: "Media",
+  low: "Baja",
+};
+
+// Time to resolve, counted from the report, that sets an incident's due date
+export const PriorityDueHours: Record<string, number> = {
+  critical: 4,
+  high: 24,
+  medium: 72,
+  low: 168,
+};
+
+export const IncidentPriorityValues = Object.values(IncidentPriority) as [IncidentPriorityKey, ...IncidentPriorityKey[]];
+
 export const buses = pgTable("buses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   busNumber: text("bus_number").notNull().unique(),
   plate: text("plate"),
 });
 
+// Catalogue of document kinds. `key` is what bus_documents.doc_type stores;
+// alert offsets are days before expiry (0 = on the expiry date).
+export const documentTypes = pgTable("document_types", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(),
+  label: text("label").notNull(),
+  scope: text("scope").notNull().default("bus"),
+  required: text("required").notNull().default("false"),
+  expires: text("expires").notNull().default("false"),
+  alertOffsets: integer("alert_offsets").array().notNull().default(sql`'{}'::integer[]`),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const busDocuments = pgTable("bus_documents", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   busId: varchar("bus_id").notNull(),
@@ -116,8 +296,157 @@ export const incidents = pgTable("incidents", {
   reportedAt: timestamp("reported_at").defaultNow(),
   resolvedAt: timestamp("resolved_at"),
   reporter: text("reporter"),
+  assignedTo: varchar("assigned_to"),
+  priority: text("priority").notNull().default("medium"),
+  dueAt: timestamp("due_at"),
+  // Set once the overdue escalation email has gone out
+  escalatedAt: timestamp("escalated_at"),
+  workOrderId: varchar("work_order_id"),
+  // Times the incident was reopened after being resolved
+  reopenCount: integer("reopen_count").notNull().default(0),
 });
 
+export const IncidentEventType = {
+  CREATED: "created",
+  STATUS_CHANGE: "status_change",
+  NOTE: "note",
+  REASSIGNMENT: "reassignment",
+  EQUIPMENT_STATUS: "equipment_status",
+  ATTACHMENT: "attachment",
+  PRIORITY_CHANGE: "priority_change",
+  ESCALATION: "escalation",
+  WORK_ORDER: "work_order",
+  REOPENED: "reopened",
+} as const;
+
+// History events that mean someone is working on the incident
+export const IncidentActionEventTypes = [
+  IncidentEventType.STATUS_CHANGE,
+  IncidentEventType.NOTE,
+  IncidentEventType.REASSIGNMENT,
+] as const;
+
+export const incidentEvents = pgTable("incident_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  incidentId: varchar("incident_id").notNull(),
+  eventType: text("event_type").notNull(),
+  fromValue: text("from_value"),
+  toValue: text("to_value"),
+  notes: text("notes"),
+  userId: varchar("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Photo/video evidence: "before" documents the failure, "after" the repair
+export const AttachmentStage = {
+  BEFORE: "before",
+  AFTER: "after",
+} as const;
+
+export const AttachmentStageLabels: Record<string, string> = {
+  before: "Antes",
+  after: "Después",
+};
+
+// Raster photos and common clip formats only: evidence is shown inline, and
+// types like SVG or HTML can carry scripts that would run in the app
+export const EvidenceMimeTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "image/gif",
+  "video/mp4",
+  "video/webm",
+  "video/quicktime",
+] as const;
+
+export const incidentAttachments = pgTable("incident_attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  incidentId: varchar("incident_id").notNull(),
+  stage: text("stage").notNull(),
+  fileName: text("file_name").notNull(),
+  filePath: text("file_path").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  // Null when no thumbnail could be generated (e.g. video without ffmpeg)
+  thumbnailPath: text("thumbnail_path"),
+  uploadedBy: varchar("uploaded_by"),
+  uploadedByName: text("uploaded_by_name"),
+  uploadedAt: timestamp("uploaded_at").defaultNow(),
+}, (table) => [
+  index("incident_attachments_incident_idx").on(table.incidentId),
+]);
+
+export const WorkOrderStatus = {
+  PENDING: "pending",
+  IN_PROGRESS: "in_progress",
+  COMPLETED: "completed",
+} as const;
+
+export const WorkOrderStatusLabels: Record<string, string> = {
+  pending: "Pendiente",
+  in_progress: "En Progreso",
+  completed: "Completada",
+};
+
+// One workshop visit to a bus. Its incidents are resolved together when the
+// order is completed; parts and labour are recorded on the order itself.
+// `number` is the short reference printed on the job sheet (OT-0001).
+export const workOrders = pgTable("work_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: serial("number").notNull().unique(),
+  busId: varchar("bus_id").notNull(),
+  status: text("status").notNull().default("pending"),
+  assignedTo: varchar("assigned_to"),
+  scheduledFor: timestamp("scheduled_for"),
+  labourMinutes: integer("labour_minutes"),
+  instructions: text("instructions"),
+  resolutionNotes: text("resolution_notes"),
+  createdBy: varchar("created_by"),
+  createdByName: text("created_by_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("work_orders_bus_idx").on(table.busId),
+]);
+
+export const workOrderNumber = (number: number) => `OT-${String(number).padStart(4, "0")}`;
+
+// Conversation on an incident. Internal notes are workshop-only: they are
+// hidden from roles without Permission.INCIDENTS_VIEW_INTERNAL (admins and
+// technicians currently hold it).
+export const incidentComments = pgTable("incident_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  incidentId: varchar("incident_id").notNull(),
+  authorId: varchar("author_id"),
+  authorName: text("author_name").notNull(),
+  body: text("body").notNull(),
+  internal: text("internal").notNull().default("false"),
+  mentionedUserIds: text("mentioned_user_ids").array().notNull().default(sql`'{}'`),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("incident_comments_incident_idx").on(table.incidentId, table.createdAt),
+]);
+
+export const UserNotificationKind = {
+  MENTION: "mention",
+} as const;
+
+// In-app notifications for a single user
+export const userNotifications = pgTable("user_notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  kind: text("kind").notNull(),
+  incidentId: varchar("incident_id"),
+  actorName: text("actor_name"),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("user_notifications_user_idx").on(table.userId, table.createdAt),
+]);
+
 export const equipmentStatus = pgTable("equipment_status", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   busId: varchar("bus_id").notNull(),
@@ -128,46 +457,322 @@ export const equipmentStatus = pgTable("equipment_status", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const DocumentScope = {
+  BUS: "bus",
+  DRIVER: "driver",
+} as const;
+
+export const DocumentScopeLabels: Record<string, string> = {
+  bus: "Bus",
+  driver: "Conductor",
+};
+
+export const DeviceLocation = {
+  BUS: "bus",
+  WORKSHOP: "workshop",
+  WAREHOUSE: "warehouse",
+} as const;
+
+export const DeviceLocationLabels: Record<string, string> = {
+  bus: "En bus",
+  workshop: "Taller",
+  warehouse: "Bodega",
+};
+
+export const DeviceMovementAction = {
+  INSTALL: "install",
+  UNINSTALL: "uninstall",
+} as const;
+
+export const devices = pgTable("devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  serial: text("serial").notNull().unique(),
+  model: text("model").notNull(),
+  equipmentType: text("equipment_type").notNull(),
+  purchaseDate: timestamp("purchase_date"),
+  warrantyEnd: timestamp("warranty_end"),
+  location: text("location").notNull().default("warehouse"),
+  busId: varchar("bus_id"),
+  cameraChannel: text("camera_channel"),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const deviceMovements = pgTable("device_movements", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deviceId: varchar("device_id").notNull(),
+  action: text("action").notNull(),
+  busId: varchar("bus_id").notNull(),
+  cameraChannel: text("camera_channel"),
+  incidentId: varchar("incident_id"),
+  userId: varchar("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const spareParts = pgTable("spare_parts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull().unique(),
+  unit: text("unit").notNull().default("unidad"),
+  stock: integer("stock").notNull().default(0),
+  minStock: integer("min_stock").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const partConsumptions = pgTable("part_consumptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  partId: varchar("part_id").notNull(),
+  // Exactly one of these: parts are charged to an incident or a work order
+  incidentId: varchar("incident_id"),
+  workOrderId: varchar("work_order_id"),
+  quantity: integer("quantity").notNull(),
+  userId: varchar("user_id"),
+  userName: text("user_name"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const emailRecipients = pgTable("email_recipients", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   email: text("email").notNull().unique(),
   name: text("name").notNull(),
   active: text("active").notNull().default("true"),
+  documentAlerts: text("document_alerts").notNull().default("true"),
+  weeklyDigest: text("weekly_digest").notNull().default("false"),
+  weeklyReport: text("weekly_report").notNull().default("false"),
+  monthlyReport: text("monthly_report").notNull().default("false"),
+  overdueEscalations: text("overdue_escalations").notNull().default("true"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const NotificationKind = {
+  THRESHOLD: "threshold",
+  DIGEST: "digest",
+  MANUAL: "manual",
+} as const;
+
+export const NotificationKindLabels: Record<string, string> = {
+  threshold: "Alerta",
+  digest: "Resumen semanal",
+  manual: "Reenvío manual",
+};
+
+// Ledger of expiration emails. A threshold alert is sent at most once per
+// document, offset and recipient; digests and manual resends are only logged.
+// Bus and label are copied so the history survives document deletion.
+export const notificationLog = pgTable("notification_log", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  kind: text("kind").notNull().default("threshold"),
+  documentId: varchar("document_id"),
+  threshold: integer("threshold"),
+  recipient: text("recipient").notNull(),
+  busNumber: text("bus_number"),
+  docLabel: text("doc_label"),
+  daysLeft: integer("days_left"),
+  sentAt: timestamp("sent_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("notification_log_threshold_key")
+    .on(table.documentId, table.threshold, table.recipient)
+    .where(sql`kind = 'threshold'`),
+  index("notification_log_sent_at_idx").on(table.sentAt),
+]);
+
+export const JobRunStatus = {
+  RUNNING: "running",
+  SUCCESS: "success",
+  FAILED: "failed",
+  SKIPPED: "skipped",
+} as const;
+
+// One row per execution of a scheduled job, written by server/scheduler.ts.
+export const jobRuns = pgTable("job_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  job: text("job").notNull(),
+  trigger: text("trigger").notNull().default("schedule"),
+  status: text("status").notNull().default("running"),
+  startedAt: timestamp("started_at").defaultNow(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  error: text("error"),
+  userName: text("user_name"),
+}, (table) => [
+  index("job_runs_job_idx").on(table.job, table.startedAt),
+]);
+
+// Maximum resolution time per equipment/incident type. A null column matches
+// any value; the most specific target applies to each incident.
+export const slaTargets = pgTable("sla_targets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  equipmentType: text("equipment_type"),
+  incidentType: text("incident_type"),
+  targetHours: integer("target_hours").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("sla_targets_scope_key").on(
+    sql`coalesce(${table.equipmentType}, '')`,
+    sql`coalesce(${table.incidentType}, '')`,
+  ),
+]);
+
+// Default priority of new incidents, one row per equipment × incident type.
+// Combinations without a row default to medium.
+export const priorityMatrix = pgTable("priority_matrix", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  equipmentType: text("equipment_type").notNull(),
+  incidentType: text("incident_type").notNull(),
+  priority: text("priority").notNull(),
+}, (table) => [
+  uniqueIndex("priority_matrix_scope_key").on(table.equipmentType, table.incidentType),
+]);
+
+// Read-only access for control-room wall displays, without a user login.
+// Only a hash of the token is kept; the token itself is shown once.
+export const kioskTokens = pgTable("kiosk_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
   createdAt: timestamp("created_at").defaultNow(),
+  lastUsedAt: timestamp("last_used_at"),
 });
 
 export const insertBusSchema = createInsertSchema(buses).omit({ id: true });
 export const insertIncidentSchema = createInsertSchema(incidents).omit({ id: true, reportedAt: true, resolvedAt: true });
 export const insertEquipmentStatusSchema = createInsertSchema(equipmentStatus).omit({ id: true, updatedAt: true });
 export const insertBusDocumentSchema = createInsertSchema(busDocuments).omit({ id: true, uploadedAt: true });
+export const insertDocumentTypeSchema = createInsertSchema(documentTypes, {
+  key: (schema) => schema.regex(/^[a-z0-9_]+$/, "Clave inválida: use minúsculas, números y _"),
+  label: (schema) => schema.min(1, "Nombre requerido"),
+  scope: z.enum(["bus", "driver"]),
+  required: z.enum(["true", "false"]).optional(),
+  expires: z.enum(["true", "false"]).optional(),
+  alertOffsets: z.array(z.number().int().min(0).max(365)).max(10).optional(),
+  sortOrder: z.coerce.number().int().optional(),
+}).omit({ id: true, createdAt: true });
 export const insertDriverSchema = createInsertSchema(drivers).omit({ id: true, createdAt: true });
 export const insertBusDriverSchema = createInsertSchema(busDrivers).omit({ id: true, assignedAt: true });
+export const insertIncidentEventSchema = createInsertSchema(incidentEvents).omit({ id: true, createdAt: true });
+export const insertIncidentAttachmentSchema = createInsertSchema(incidentAttachments).omit({ id: true, uploadedAt: true });
+export const insertDeviceSchema = createInsertSchema(devices, {
+  serial: (schema) => schema.min(1, "Serie requerida"),
+  model: (schema) => schema.min(1, "Modelo requerido"),
+  equipmentType: z.enum(["camera", "dvr", "gps", "hard_drive", "cable"]),
+  location: z.enum(["bus", "workshop", "warehouse"]).optional(),
+  purchaseDate: z.coerce.date().nullable().optional(),
+  warrantyEnd: z.coerce.date().nullable().optional(),
+}).omit({ id: true, createdAt: true });
+export const insertDeviceMovementSchema = createInsertSchema(deviceMovements).omit({ id: true, createdAt: true });
+export const insertSparePartSchema = createInsertSchema(spareParts, {
+  name: (schema) => schema.min(1, "Nombre requerido"),
+  stock: z.coerce.number().int().min(0).optional(),
+  minStock: z.coerce.number().int().min(0).optional(),
+}).omit({ id: true, createdAt: true });
 export const insertEmailRecipientSchema = createInsertSchema(emailRecipients).omit({ id: true, createdAt: true });
+// Each flag opts an active recipient into one kind of email.
+export const recipientSubscriptionsSchema = z.object({
+  documentAlerts: z.enum(["true", "false"]),
+  weeklyDigest: z.enum(["true", "false"]),
+  weeklyReport: z.enum(["true", "false"]),
+  monthlyReport: z.enum(["true", "false"]),
+  overdueEscalations: z.enum(["true", "false"]),
+}).partial();
+export const insertNotificationLogSchema = createInsertSchema(notificationLog).omit({ id: true, sentAt: true });
+export const insertSlaTargetSchema = createInsertSchema(slaTargets, {
+  equipmentType: z.enum(["camera", "dvr", "gps", "hard_drive", "cable"]).nullable().optional(),
+  incidentType: z.enum(["misaligned", "loose_cable", "faulty", "replacement"]).nullable().optional(),
+  targetHours: z.coerce.number().int().min(1, "Mínimo 1 hora").max(24 * 90),
+}).omit({ id: true, createdAt: true });
+export const priorityMatrixEntrySchema = createInsertSchema(priorityMatrix, {
+  equipmentType: z.enum(["camera", "dvr", "gps", "hard_drive", "cable"]),
+  incidentType: z.enum(["misaligned", "loose_cable", "faulty", "replacement"]),
+  priority: z.enum(IncidentPriorityValues),
+}).omit({ id: true });
+export const insertKioskTokenSchema = createInsertSchema(kioskTokens, {
+  name: (schema) => schema.min(1, "Nombre requerido"),
+}).pick({ name: true });
 
 export type InsertBus = z.infer<typeof insertBusSchema>;
 export type Bus = typeof buses.$inferSelect;
 export type BusDocument = typeof busDocuments.$inferSelect;
 export type InsertBusDocument = z.infer<typeof insertBusDocumentSchema>;
+export type DocumentType = typeof documentTypes.$inferSelect;
+export type InsertDocumentType = z.infer<typeof insertDocumentTypeSchema>;
 export type Driver = typeof drivers.$inferSelect;
 export type InsertDriver = z.infer<typeof insertDriverSchema>;
 export type BusDriver = typeof busDrivers.$inferSelect;
 export type InsertBusDriver = z.infer<typeof insertBusDriverSchema>;
+export type Device = typeof devices.$inferSelect;
+export type InsertDevice = z.infer<typeof insertDeviceSchema>;
+export type DeviceMovement = typeof deviceMovements.$inferSelect;
+export type InsertDeviceMovement = z.infer<typeof insertDeviceMovementSchema>;
+export type SparePart = typeof spareParts.$inferSelect;
+export type InsertSparePart = z.infer<typeof insertSparePartSchema>;
+export type PartConsumption = typeof partConsumptions.$inferSelect;
 export type EmailRecipient = typeof emailRecipients.$inferSelect;
+export type RecipientSubscriptions = z.infer<typeof recipientSubscriptionsSchema>;
+export type NotificationLogEntry = typeof notificationLog.$inferSelect;
+export type JobRun = typeof jobRuns.$inferSelect;
+export type SlaTarget = typeof slaTargets.$inferSelect;
+export type InsertSlaTarget = z.infer<typeof insertSlaTargetSchema>;
+export type PriorityMatrixEntry = typeof priorityMatrix.$inferSelect;
+export type InsertPriorityMatrixEntry = z.infer<typeof priorityMatrixEntrySchema>;
+export type KioskToken = Omit<typeof kioskTokens.$inferSelect, "tokenHash">;
+export type InsertKioskToken = z.infer<typeof insertKioskTokenSchema>;
+export type InsertNotificationLogEntry = z.infer<typeof insertNotificationLogSchema>;
 export type InsertEmailRecipient = z.infer<typeof insertEmailRecipientSchema>;
 
-export const DOC_TYPES = {
-  permiso_circulacion: "Permiso de Circulación",
-  revision_tecnica: "Revisión Técnica",
-  chasis: "Chasis",
-  licencia_conducir: "Licencia de Conducir",
-  cedula_conductor: "Cédula de Conductor",
-} as const;
-
-export type DocTypeKey = keyof typeof DOC_TYPES;
+// Document whose expiry falls inside its type's alert window.
+export interface ExpiringDocument {
+  id: string;
+  busNumber: string;
+  docType: string;
+  label: string;
+  fileName: string;
+  expiresAt: Date;
+  daysLeft: number;
+  // Smallest alert offset already reached; the key for threshold alerts.
+  threshold: number;
+  driverName?: string;
+}
 
 export type InsertIncident = z.infer<typeof insertIncidentSchema>;
 export type Incident = typeof incidents.$inferSelect;
 
+export function isIncidentOverdue(incident: Pick<Incident, "status" | "dueAt">, now = new Date()): boolean {
+  return OpenIncidentStatuses.includes(incident.status) && !!incident.dueAt && new Date(incident.dueAt) < now;
+}
+
+/**
+ * Percentage of repaired incidents that stayed fixed: resolved and never
+ * reopened, out of every incident that has been resolved at least once
+ * (including reopened ones still open). Null when none qualifies.
+ */
+export function firstTimeFixRate(list: Array<Pick<Incident, "status" | "reopenCount">>): number | null {
+  const repaired = list.filter(i => i.status === IncidentStatus.RESOLVED || i.reopenCount > 0);
+  if (repaired.length === 0) return null;
+  const fixed = repaired.filter(i => i.status === IncidentStatus.RESOLVED && i.reopenCount === 0).length;
+  return Math.round((fixed / repaired.length) * 1000) / 10;
+}
+
+export type InsertIncidentEvent = z.infer<typeof insertIncidentEventSchema>;
+export type IncidentEvent = typeof incidentEvents.$inferSelect;
+
+export type InsertIncidentAttachment = z.infer<typeof insertIncidentAttachmentSchema>;
+export type IncidentAttachment = typeof incidentAttachments.$inferSelect;
+export type IncidentComment = typeof incidentComments.$inferSelect;
+export type UserNotification = typeof userNotifications.$inferSelect;
+
+// Lower-cased usernames @mentioned in a comment (trailing dots are punctuation)
+export function parseMentions(body: string): string[] {
+  return Array.from(body.matchAll(/@([\w.-]+)/g), m => m[1].replace(/\.+$/, "").toLowerCase());
+}
+
+export const incidentCommentSchema = z.object({
+  body: z.string().trim().min(1, "Escriba un comentario").max(4000),
+  internal: z.boolean().default(false),
+});
+
+// User performing an incident change, recorded on its history events.
+export type IncidentActor = Pick<User, "id" | "name">;
+
 export type InsertEquipmentStatus = z.infer<typeof insertEquipmentStatusSchema>;
 export type EquipmentStatus = typeof equipmentStatus.$inferSelect;
 
@@ -178,16 +783,198 @@ export const incidentFormSchema = z.object({
   cameraChannels: z.array(z.string()).optional(),
   description: z.string().optional(),
   reporter: z.string().optional(),
+  assignedTo: z.string().optional(),
+  // Overrides the default from the priority matrix
+  priority: z.enum(IncidentPriorityValues).optional(),
 });
 
 export type IncidentFormData = z.infer<typeof incidentFormSchema>;
 
+export const reopenIncidentSchema = z.object({
+  reason: z.string().trim().min(1, "Indique el motivo de la reapertura"),
+});
+
+// Units swapped while resolving a `replacement` incident
+export const deviceSwapSchema = z.object({
+  outgoingDeviceId: z.string().optional(),
+  incomingDeviceId: z.string().optional(),
+  outgoingLocation: z.enum(["workshop", "warehouse"]).default("workshop"),
+});
+
+export type DeviceSwapData = z.infer<typeof deviceSwapSchema>;
+
+export const partUsageSchema = z.array(z.object({
+  partId: z.string(),
+  quantity: z.coerce.number().int().min(1),
+}));
+
+export type PartUsage = z.infer<typeof partUsageSchema>;
+
+export type WorkOrder = typeof workOrders.$inferSelect;
+
+export const workOrderFormSchema = z.object({
+  busId: z.string().min(1, "Seleccione un bus"),
+  incidentIds: z.array(z.string()).min(1, "Seleccione al menos una incidencia"),
+  assignedTo: z.string().optional(),
+  scheduledFor: z.coerce.date().optional(),
+  instructions: z.string().optional(),
+});
+
+export const updateWorkOrderSchema = z.object({
+  status: z.enum(["pending", "in_progress"]).optional(),
+  assignedTo: z.string().min(1).nullable().optional(),
+  scheduledFor: z.coerce.date().nullable().optional(),
+  labourMinutes: z.coerce.number().int().min(0).nullable().optional(),
+  instructions: z.string().nullable().optional(),
+});
+
+export const completeWorkOrderSchema = z.object({
+  labourMinutes: z.coerce.number().int().min(0, "Tiempo inválido"),
+  resolutionNotes: z.string().optional(),
+  parts: partUsageSchema.optional(),
+});
+
+export type WorkOrderFormData = z.infer<typeof workOrderFormSchema>;
+export type UpdateWorkOrderData = z.infer<typeof updateWorkOrderSchema>;
+export type CompleteWorkOrderData = z.infer<typeof completeWorkOrderSchema>;
+
+// Row of the work order list
+export interface WorkOrderSummary extends WorkOrder {
+  busNumber: string;
+  assigneeName: string | null;
+  incidentCount: number;
+  openIncidentCount: number;
+}
+
+// Everything printed on the job sheet
+export interface WorkOrderDetail extends WorkOrderSummary {
+  plate: string | null;
+  incidents: Incident[];
+  parts: Array<PartConsumption & { partName: string; unit: string }>;
+}
+
+export interface ScheduledJobInfo {
+  name: string;
+  label: string;
+  description: string;
+  schedule: string;
+  timezone: string;
+  nextRun: string | null;
+  running: boolean;
+  lastRun: JobRun | null;
+}
+
+export interface ActiveSession {
+  sid: string;
+  userId: string;
+  userName: string;
+  username: string;
+  loginAt: string | null;
+  userAgent: string | null;
+  ip: string | null;
+  expire: string;
+  current?: boolean;
+}
+
+// One bus on the camera status board; updatedAt is the latest status change
+export interface BusCameraStatus {
+  busId: string;
+  busNumber: string;
+  plate: string | null;
+  cameras: Array<{ channel: string; status: string; updatedAt: Date | null }>;
+  equipment: Array<{ equipmentType: string; status: string }>;
+  updatedAt: Date | null;
+}
+
 export interface DashboardStats {
   totalBuses: number;
   activeIncidents: number;
   resolvedThisWeek: number;
   pendingRepairs: number;
+  overdueIncidents: number;
   incidentsByType: Record<string, number>;
+  openIncidentsByPriority: Record<string, number>;
+  openIncidentsByTechnician: Array<{ userId: string | null; name: string; count: number }>;
+}
+
+export const ReportGroupBy = ["day", "week", "month"] as const;
+export type ReportGroupByKey = typeof ReportGroupBy[number];
+
+// Same breakdowns as the weekly/monthly reports over any date range, plus
+// one series point per day/week/month (ISO weeks, starting Monday).
+export interface RangeReport {
+  from: string;
+  to: string;
+  groupBy: ReportGroupByKey;
+  totalIncidents: number;
+  resolvedIncidents: number;
+  firstTimeFixRate: number | null;
+  incidentsByType: Record<string, number>;
+  incidentsByEquipment: Record<string, number>;
+  mostAffectedBuses: Array<{ busNumber: string; count: number }>;
+  series: Array<{ periodStart: string; count: number; resolved: number }>;
+}
+
+// Times are in hours and the fix rate a percentage (see firstTimeFixRate);
+// null when no incident in the group qualifies.
+export interface RepairMetrics {
+  incidents: number;
+  resolved: number;
+  mttrHours: number | null;
+  firstActionHours: number | null;
+  slaBreaches: number;
+  firstTimeFixRate: number | null;
+}
+
+export interface RepairMetricsGroup extends RepairMetrics {
+  key: string;
+  label: string;
+}
+
+export interface RepairAnalytics {
+  from: string;
+  to: string;
+  overall: RepairMetrics;
+  byEquipment: RepairMetricsGroup[];
+  byIncidentType: RepairMetricsGroup[];
+  byChannel: RepairMetricsGroup[];
+  byBus: RepairMetricsGroup[];
+  byTechnician: RepairMetricsGroup[];
+  // One point per week (Monday) of reportedAt
+  trend: Array<{ weekStart: string; incidents: number; mttrHours: number | null; firstActionHours: number | null; slaBreaches: number }>;
+  sla: Array<{ target: SlaTarget; incidents: number; breaches: number; openBreaches: number }>;
+}
+
+export interface BusHealth {
+  busId: string;
+  busNumber: string;
+  plate: string | null;
+  cameras: Array<{ channel: string; status: string; updatedAt: Date | null }>;
+  equipment: Array<{ equipmentType: string; status: string; updatedAt: Date | null; lastIncidentId: string | null }>;
+}
+
+export const RecurringFailureReason = {
+  REPEATED: "repeated",
+  REOPENED: "reopened",
+} as const;
+
+export const RecurringFailureReasonLabels: Record<string, string> = {
+  repeated: "Fallas repetidas",
+  reopened: "Reabierta tras reparar",
+};
+
+// Equipment (one camera channel, or a bus-level unit) that keeps failing:
+// too many incidents in the window, or failing again shortly after a repair.
+export interface RecurringFailure {
+  busId: string;
+  busNumber: string;
+  equipmentType: string;
+  cameraChannel: string | null;
+  reasons: string[];
+  incidentCount: number;
+  reopenCount: number;
+  lastReportedAt: string;
+  incidentIds: string[];
 }
 
 export interface WeeklyReport {
@@ -195,9 +982,11 @@ export interface WeeklyReport {
   weekEnd: string;
   totalIncidents: number;
   resolvedIncidents: number;
+  firstTimeFixRate: number | null;
   incidentsByType: Record<string, number>;
   incidentsByEquipment: Record<string, number>;
   mostAffectedBuses: Array<{ busNumber: string; count: number }>;
+  recurringFailures: RecurringFailure[];
 }
 
 export interface MonthlyReport {
@@ -205,8 +994,29 @@ export interface MonthlyReport {
   year: number;
   totalIncidents: number;
   resolvedIncidents: number;
+  firstTimeFixRate: number | null;
   incidentsByType: Record<string, number>;
   incidentsByEquipment: Record<string, number>;
   weeklyTrend: Array<{ week: number; count: number }>;
   mostAffectedBuses: Array<{ busNumber: string; count: number }>;
 }
+
+// Server-sent change notifications. They only say what changed so clients
+// refetch through the regular (permission-checked) endpoints.
+export const ChangeEventType = {
+  INCIDENT: "incident",
+  EQUIPMENT: "equipment",
+  BUS: "bus",
+  DOCUMENT: "document",
+  WORK_ORDER: "work_order",
+  // Someone got a new in-app notification
+  NOTIFICATION: "notification",
+} as const;
+
+export type ChangeEventTypeKey = typeof ChangeEventType[keyof typeof ChangeEventType];
+
+export interface ChangeEvent {
+  type: ChangeEventTypeKey;
+  busId?: string;
+  id?: string;
+}